@@ -0,0 +1,162 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { scFetch, scFetchUrl } from "../client/http.js";
+import { paginate } from "../client/paginate.js";
+import { RawClient } from "../client/raw.js";
+import { signOut } from "../auth/signOut.js";
+import { likeTrack } from "../likes/index.js";
+import { SoundCloudClient } from "../client/SoundCloudClient.js";
+import { SoundCloudAbortError } from "../errors.js";
+import { mockFetch, mockFetchSequence } from "./helpers.js";
+
+beforeEach(() => {
+  vi.restoreAllMocks();
+});
+
+/** A fetch that never settles, like a hung connection. */
+const hangingFetch = () => vi.fn().mockReturnValue(new Promise(() => {}));
+
+/** Await a promise that must reject with a {@link SoundCloudAbortError}. */
+async function abortErrorOf(promise: Promise<unknown>): Promise<SoundCloudAbortError> {
+  const err = await promise.then(() => undefined, (e: unknown) => e);
+  expect(err).toBeInstanceOf(SoundCloudAbortError);
+  return err as SoundCloudAbortError;
+}
+
+describe("scFetch cancellation", () => {
+  it("rejects immediately when the signal is already aborted", async () => {
+    const fn = mockFetch({ json: { id: 1 } });
+    const controller = new AbortController();
+    controller.abort();
+    const err = await abortErrorOf(scFetch({ path: "/tracks/1", method: "GET", token: "tok", signal: controller.signal }));
+    expect(err.isTimeout).toBe(false);
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it("aborts while waiting out a retry backoff", async () => {
+    const fn = mockFetchSequence([{ status: 500, ok: false, json: {} }]);
+    const controller = new AbortController();
+    const ctx = { getToken: () => "tok", setToken: () => {}, retry: { maxRetries: 3, retryBaseDelay: 60_000 } };
+    const pending = scFetch({ path: "/tracks/1", method: "GET", token: "tok", signal: controller.signal }, ctx);
+    await vi.waitFor(() => expect(fn).toHaveBeenCalledOnce());
+    controller.abort();
+    await expect(pending).rejects.toBeInstanceOf(SoundCloudAbortError);
+    expect(fn).toHaveBeenCalledOnce();
+  });
+
+  it("times out a hung request with isTimeout set", async () => {
+    globalThis.fetch = hangingFetch() as unknown as typeof fetch;
+    const err = await abortErrorOf(scFetch({ path: "/tracks/1", method: "GET", token: "tok", timeoutMs: 10 }));
+    expect(err.isTimeout).toBe(true);
+    expect(err.message).toBe("Request timed out after 10ms");
+  });
+
+  it("passes the signal through to fetch", async () => {
+    const fn = mockFetch({ json: { id: 1 } });
+    const controller = new AbortController();
+    await scFetch({ path: "/tracks/1", method: "GET", token: "tok", signal: controller.signal });
+    expect(fn.mock.calls[0][1].signal).toBeInstanceOf(AbortSignal);
+  });
+});
+
+describe("scFetchUrl cancellation", () => {
+  it("times out a hung request", async () => {
+    globalThis.fetch = hangingFetch() as unknown as typeof fetch;
+    const err = await abortErrorOf(scFetchUrl("https://api.soundcloud.com/tracks?page=2", "tok", undefined, undefined, { timeoutMs: 10 }));
+    expect(err.isTimeout).toBe(true);
+  });
+});
+
+describe("pagination cancellation", () => {
+  it("stops before fetching the next page once aborted", async () => {
+    const controller = new AbortController();
+    const fetchNext = vi.fn();
+    const pages = paginate(
+      () => Promise.resolve({ collection: [1], next_href: "https://api.soundcloud.com/next" }),
+      fetchNext,
+      { signal: controller.signal },
+    );
+    expect((await pages.next()).value).toEqual([1]);
+    controller.abort();
+    await expect(pages.next()).rejects.toBeInstanceOf(SoundCloudAbortError);
+    expect(fetchNext).not.toHaveBeenCalled();
+  });
+});
+
+describe("SoundCloudClient cancellation", () => {
+  it("applies config.timeoutMs to namespace methods", async () => {
+    globalThis.fetch = hangingFetch() as unknown as typeof fetch;
+    const c = new SoundCloudClient({ clientId: "cid", clientSecret: "cs", timeoutMs: 10 });
+    c.setToken("tok");
+    await expect(c.tracks.getTrack(1)).rejects.toMatchObject({ name: "SoundCloudAbortError", isTimeout: true });
+  });
+
+  it("accepts a per-call signal", async () => {
+    mockFetch({ json: { id: 1 } });
+    const c = new SoundCloudClient({ clientId: "cid", clientSecret: "cs" });
+    c.setToken("tok");
+    const controller = new AbortController();
+    controller.abort();
+    await expect(c.users.getUser(1, { signal: controller.signal })).rejects.toBeInstanceOf(SoundCloudAbortError);
+  });
+
+  it("aborts fetchAll between pages", async () => {
+    const controller = new AbortController();
+    const fn = mockFetch({ json: { collection: [2], next_href: null } });
+    const c = new SoundCloudClient({ clientId: "cid", clientSecret: "cs" });
+    c.setToken("tok");
+    const all = c.fetchAll(
+      () => {
+        controller.abort();
+        return Promise.resolve({ collection: [1], next_href: "https://api.soundcloud.com/tracks?page=2" });
+      },
+      { signal: controller.signal },
+    );
+    await expect(all).rejects.toBeInstanceOf(SoundCloudAbortError);
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it("cancels auth grants and sign-out per call, with config.timeoutMs as the default", async () => {
+    globalThis.fetch = hangingFetch() as unknown as typeof fetch;
+    const c = new SoundCloudClient({ clientId: "cid", clientSecret: "cs", redirectUri: "http://localhost/cb", timeoutMs: 10 });
+    const controller = new AbortController();
+    controller.abort();
+    await expect(c.auth.getClientToken()).rejects.toMatchObject({ name: "SoundCloudAbortError", isTimeout: true });
+    await expect(c.auth.getUserToken("code", undefined, { timeoutMs: 5 })).rejects.toThrow("Request timed out after 5ms");
+    await abortErrorOf(c.auth.refreshUserToken("rt", { signal: controller.signal }));
+    await abortErrorOf(c.auth.signOut("tok", { signal: controller.signal }));
+  });
+
+  it("rejects boolean mutations on abort instead of resolving false", async () => {
+    globalThis.fetch = hangingFetch() as unknown as typeof fetch;
+    const c = new SoundCloudClient({ clientId: "cid", clientSecret: "cs" });
+    c.setToken("tok");
+    await abortErrorOf(c.likes.likeTrack(1, { timeoutMs: 10 }));
+    await abortErrorOf(c.reposts.repostPlaylist(1, { timeoutMs: 10 }));
+    await abortErrorOf(likeTrack("tok", 1, { timeoutMs: 10 }));
+
+    mockFetch({ status: 404, ok: false, json: {} });
+    await expect(c.likes.likeTrack(1, { timeoutMs: 10 })).resolves.toBe(false);
+  });
+
+  it("honours signal and timeoutMs in standalone signOut", async () => {
+    globalThis.fetch = hangingFetch() as unknown as typeof fetch;
+    const err = await abortErrorOf(signOut("tok", { timeoutMs: 10 }));
+    expect(err.isTimeout).toBe(true);
+  });
+});
+
+describe("RawClient cancellation", () => {
+  it("times out using the client default", async () => {
+    const raw = new RawClient("https://api.soundcloud.com", () => "tok", hangingFetch() as unknown as typeof fetch, { timeoutMs: 10 });
+    await expect(raw.get("/tracks/1")).rejects.toMatchObject({ name: "SoundCloudAbortError", isTimeout: true });
+  });
+
+  it("rejects when the per-request signal aborts", async () => {
+    const raw = new RawClient("https://api.soundcloud.com", () => "tok", hangingFetch() as unknown as typeof fetch);
+    const controller = new AbortController();
+    const pending = raw.request({ method: "GET", path: "/tracks/1", signal: controller.signal });
+    controller.abort();
+    const err = await abortErrorOf(pending);
+    expect(err.isTimeout).toBe(false);
+  });
+});
@@ -79,6 +79,14 @@ describe("auth", () => {
     expect(JSON.parse(fn.mock.calls[0][1].body)).toEqual({ access_token: "tok123" });
   });
 
+  it("signOut treats a 200 with a text or empty body as success", async () => {
+    const client = new SoundCloudClient(config);
+    globalThis.fetch = vi.fn().mockResolvedValue(new Response("OK", { status: 200 })) as unknown as typeof fetch;
+    await expect(client.auth.signOut("tok123")).resolves.toBeUndefined();
+    globalThis.fetch = vi.fn().mockResolvedValue(new Response(null, { status: 200 })) as unknown as typeof fetch;
+    await expect(client.auth.signOut("tok123")).resolves.toBeUndefined();
+  });
+
   it("signOut throws on non-ok response", async () => {
     mockFetch({ status: 500, statusText: "Internal Server Error", ok: false });
     const client = new SoundCloudClient(config);
@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { SoundCloudClient } from "../client/SoundCloudClient.js";
+import { resolveUrl, rebaseUrl } from "../client/http.js";
+import { getTrack } from "../tracks/getTrack.js";
+import { getClientToken } from "../auth/getClientToken.js";
+import { getAuthorizationUrl } from "../auth/getAuthorizationUrl.js";
+import { signOut } from "../auth/signOut.js";
+import { mockFetch, mockFetchSequence } from "./helpers.js";
+
+const MOCK_API = "http://localhost:4010";
+const MOCK_AUTH = "http://localhost:4011/auth";
+
+beforeEach(() => { vi.restoreAllMocks(); });
+
+describe("resolveUrl", () => {
+  it("prefixes relative paths with the API or auth base", () => {
+    expect(resolveUrl("/tracks/1")).toBe("https://api.soundcloud.com/tracks/1");
+    expect(resolveUrl("/oauth/token")).toBe("https://secure.soundcloud.com/oauth/token");
+    expect(resolveUrl("/tracks/1", { apiBaseUrl: `${MOCK_API}/` })).toBe(`${MOCK_API}/tracks/1`);
+    expect(resolveUrl("/oauth/token", { authBaseUrl: MOCK_AUTH })).toBe(`${MOCK_AUTH}/oauth/token`);
+  });
+
+  it("rebases absolute URLs on the public hosts only", () => {
+    expect(resolveUrl("https://api.soundcloud.com/tracks?cursor=1", { apiBaseUrl: MOCK_API })).toBe(`${MOCK_API}/tracks?cursor=1`);
+    expect(resolveUrl("https://cdn.example.com/file", { apiBaseUrl: MOCK_API })).toBe("https://cdn.example.com/file");
+    expect(rebaseUrl("https://api.soundcloud.com.evil.test/x", "https://api.soundcloud.com", MOCK_API)).toBe(
+      "https://api.soundcloud.com.evil.test/x",
+    );
+  });
+});
+
+describe("SoundCloudClient base URL overrides", () => {
+  it("sends namespace requests to apiBaseUrl", async () => {
+    const fn = mockFetch({ json: { id: 1 } });
+    const sc = new SoundCloudClient({ clientId: "cid", clientSecret: "cs", apiBaseUrl: MOCK_API });
+    sc.setToken("tok");
+    await sc.tracks.getTrack(1);
+    expect(fn.mock.calls[0][0]).toBe(`${MOCK_API}/tracks/1`);
+  });
+
+  it("rewrites next_href hosts during pagination", async () => {
+    const fn = mockFetchSequence([
+      { json: { collection: [1], next_href: "https://api.soundcloud.com/tracks?cursor=2" } },
+      { json: { collection: [2], next_href: null } },
+    ]);
+    const sc = new SoundCloudClient({ clientId: "cid", clientSecret: "cs", apiBaseUrl: MOCK_API });
+    sc.setToken("tok");
+    const all = await sc.fetchAll(() => sc.search.tracks("lofi"));
+    expect(all).toEqual([1, 2]);
+    expect(fn.mock.calls[1][0]).toBe(`${MOCK_API}/tracks?cursor=2`);
+  });
+
+  it("sends raw requests to apiBaseUrl, keeping a path prefix", async () => {
+    const fn = mockFetch({ json: {} });
+    const sc = new SoundCloudClient({ clientId: "cid", clientSecret: "cs", apiBaseUrl: `${MOCK_API}/v1` });
+    await sc.raw.get("/tracks/{id}", { id: 1 });
+    await sc.raw.get("https://api.soundcloud.com/me");
+    expect(fn.mock.calls[0][0]).toBe(`${MOCK_API}/v1/tracks/1`);
+    expect(fn.mock.calls[1][0]).toBe(`${MOCK_API}/v1/me`);
+  });
+
+  it("routes auth grants, sign-out and the authorize URL to authBaseUrl", async () => {
+    const fn = mockFetch({ json: { access_token: "a" } });
+    const sc = new SoundCloudClient({
+      clientId: "cid",
+      clientSecret: "cs",
+      redirectUri: "http://localhost/cb",
+      authBaseUrl: MOCK_AUTH,
+    });
+    await sc.auth.getClientToken();
+    await sc.auth.signOut("a");
+    expect(fn.mock.calls[0][0]).toBe(`${MOCK_AUTH}/oauth/token`);
+    expect(fn.mock.calls[1][0]).toBe(`${MOCK_AUTH}/sign-out`);
+    expect(sc.auth.getAuthorizationUrl()).toMatch(new RegExp(`^${MOCK_AUTH}/authorize\\?client_id=cid`));
+  });
+
+  it("prefers authorizeUrl for the authorization URL", () => {
+    const sc = new SoundCloudClient({
+      clientId: "cid",
+      clientSecret: "cs",
+      redirectUri: "http://localhost/cb",
+      authBaseUrl: MOCK_AUTH,
+      authorizeUrl: "http://localhost:3000/login",
+    });
+    expect(sc.auth.getAuthorizationUrl()).toMatch(/^http:\/\/localhost:3000\/login\?/);
+  });
+});
+
+describe("standalone base URL overrides", () => {
+  it("accepts apiBaseUrl and authBaseUrl in transport options", async () => {
+    const fn = mockFetch({ json: { id: 1, access_token: "a" } });
+    await getTrack("tok", 1, { apiBaseUrl: MOCK_API });
+    await getClientToken("cid", "cs", { authBaseUrl: MOCK_AUTH });
+    await signOut("a", { authBaseUrl: MOCK_AUTH });
+    expect(fn.mock.calls.map((c) => c[0])).toEqual([`${MOCK_API}/tracks/1`, `${MOCK_AUTH}/oauth/token`, `${MOCK_AUTH}/sign-out`]);
+  });
+
+  it("builds the authorization URL on an overridden host", () => {
+    expect(getAuthorizationUrl("cid", "http://localhost/cb", { authBaseUrl: MOCK_AUTH })).toMatch(
+      new RegExp(`^${MOCK_AUTH}/authorize\\?`),
+    );
+    expect(getAuthorizationUrl("cid", "http://localhost/cb", { authorizeUrl: "http://localhost:3000/login" })).toMatch(
+      /^http:\/\/localhost:3000\/login\?/,
+    );
+  });
+});
@@ -111,3 +111,42 @@ describe("SoundCloudClient", () => {
     expect(fn).toHaveBeenCalledTimes(2);
   });
 });
+
+describe("SoundCloudClient custom fetch", () => {
+  const jsonResponse = (json: unknown) => ({
+    status: 200,
+    statusText: "OK",
+    ok: true,
+    json: () => Promise.resolve(json),
+    headers: { get: () => null },
+  });
+
+  beforeEach(() => {
+    globalThis.fetch = vi.fn().mockRejectedValue(new Error("global fetch must not be used")) as unknown as typeof fetch;
+  });
+
+  it("routes namespace requests through config.fetch", async () => {
+    const customFetch = vi.fn().mockResolvedValue(jsonResponse({ id: 1 }));
+    const c = new SoundCloudClient({ clientId: "cid", clientSecret: "cs", fetch: customFetch as unknown as typeof fetch });
+    c.setToken("tok");
+    await c.tracks.getTrack(1);
+    await c.users.getUser(2);
+    expect(customFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("routes auth token grants through config.fetch", async () => {
+    const customFetch = vi.fn().mockResolvedValue(jsonResponse({ access_token: "a" }));
+    const c = new SoundCloudClient({ clientId: "cid", clientSecret: "cs", fetch: customFetch as unknown as typeof fetch });
+    await c.auth.getClientToken();
+    expect(customFetch.mock.calls[0][0]).toContain("/oauth/token");
+  });
+
+  it("routes pagination through config.fetch", async () => {
+    const customFetch = vi.fn().mockResolvedValue(jsonResponse({ collection: [2], next_href: null }));
+    const c = new SoundCloudClient({ clientId: "cid", clientSecret: "cs", fetch: customFetch as unknown as typeof fetch });
+    c.setToken("tok");
+    const all = await c.fetchAll(() => Promise.resolve({ collection: [1], next_href: "https://api.soundcloud.com/tracks?page=2" }));
+    expect(all).toEqual([1, 2]);
+    expect(customFetch).toHaveBeenCalledOnce();
+  });
+});
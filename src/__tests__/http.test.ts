@@ -98,6 +98,20 @@ describe("scFetch", () => {
   });
 });
 
+describe("scFetch absolute URLs", () => {
+  it("uses an absolute path as-is instead of prefixing the API base", async () => {
+    const fn = mockFetch({ json: { collection: [] } });
+    await scFetch({ path: "https://api.soundcloud.com/tracks?cursor=abc", method: "GET", token: "tok" });
+    expect(fn.mock.calls[0][0]).toBe("https://api.soundcloud.com/tracks?cursor=abc");
+  });
+
+  it("attaches _meta to absolute URL responses like relative ones", async () => {
+    mockFetch({ json: { id: 1 } });
+    const result = await scFetchUrl<{ _meta?: { status: number } }>("https://api.soundcloud.com/test", "tok");
+    expect(result._meta?.status).toBe(200);
+  });
+});
+
 describe("scFetchUrl", () => {
   it("fetches JSON from a URL", async () => {
     const fn = mockFetch({ json: { collection: [], next_href: null } });
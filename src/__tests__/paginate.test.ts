@@ -159,3 +159,49 @@ describe("SoundCloudClient pagination methods", () => {
     expect(items).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }]);
   });
 });
+
+describe("SoundCloudClient pagination request engine", () => {
+  beforeEach(() => { vi.restoreAllMocks(); });
+
+  it("applies the client retry config and onRetry to next pages", async () => {
+    const fetchMock = mockFetchSequence([
+      { status: 503, statusText: "Service Unavailable", ok: false, json: {} },
+      { json: makePage([2]) },
+    ]);
+    const onRetry = vi.fn();
+    const sc = new SoundCloudClient({ clientId: "id", clientSecret: "secret", maxRetries: 1, retryBaseDelay: 0, onRetry });
+    sc.setToken("tok");
+
+    const all = await sc.fetchAll(() => Promise.resolve(makePage([1], "https://api.soundcloud.com/next")));
+    expect(all).toEqual([1, 2]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ attempt: 1, status: 503, url: "https://api.soundcloud.com/next" }));
+  });
+
+  it("refreshes the token on a 401 page and keeps using the new token", async () => {
+    const fetchMock = mockFetchSequence([
+      { status: 401, statusText: "Unauthorized", ok: false, json: {} },
+      { json: makePage([2], "https://api.soundcloud.com/next?page=3") },
+      { json: makePage([3]) },
+    ]);
+    const onTokenRefresh = vi.fn().mockResolvedValue({ access_token: "fresh" });
+    const sc = new SoundCloudClient({ clientId: "id", clientSecret: "secret", onTokenRefresh });
+    sc.setToken("stale");
+
+    const all = await sc.fetchAll(() => Promise.resolve(makePage([1], "https://api.soundcloud.com/next?page=2")));
+    expect(all).toEqual([1, 2, 3]);
+    expect(onTokenRefresh).toHaveBeenCalledOnce();
+    expect(fetchMock.mock.calls[1][1].headers.Authorization).toBe("OAuth fresh");
+    expect(fetchMock.mock.calls[2][1].headers.Authorization).toBe("OAuth fresh");
+  });
+
+  it("reports next-page telemetry with the absolute URL", async () => {
+    mockFetchSequence([{ json: makePage([2]) }]);
+    const onRequest = vi.fn();
+    const sc = new SoundCloudClient({ clientId: "id", clientSecret: "secret", onRequest });
+    sc.setToken("tok");
+
+    await sc.fetchAll(() => Promise.resolve(makePage([1], "https://api.soundcloud.com/next")));
+    expect(onRequest).toHaveBeenCalledWith(expect.objectContaining({ method: "GET", path: "https://api.soundcloud.com/next", status: 200 }));
+  });
+});
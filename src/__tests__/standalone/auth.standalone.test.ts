@@ -86,6 +86,13 @@ describe("signOut", () => {
     expect(url).toContain("sign-out");
   });
 
+  it("treats a 200 with a text or empty body as success", async () => {
+    const fn = vi.fn().mockResolvedValueOnce(new Response("OK", { status: 200 })).mockResolvedValueOnce(new Response(null, { status: 200 }));
+    await expect(signOut("mytoken", { fetch: fn })).resolves.toBeUndefined();
+    await expect(signOut("mytoken", { fetch: fn })).resolves.toBeUndefined();
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
   it("throws on failure", async () => {
     mockFetch({ status: 401, ok: false, json: {} });
     await expect(signOut("bad")).rejects.toThrow("Sign-out failed");
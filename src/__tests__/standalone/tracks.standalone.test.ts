@@ -23,6 +23,22 @@ describe("getTrack", () => {
   });
 });
 
+describe("standalone custom fetch", () => {
+  it("uses the fetch passed in options instead of the global", async () => {
+    const global = mockFetch({ json: {} });
+    const custom = vi.fn().mockResolvedValue({
+      status: 200,
+      ok: true,
+      json: () => Promise.resolve({ id: 1, title: "Custom" }),
+      headers: { get: () => null },
+    });
+    const t = await getTrack("tok", 1, { fetch: custom as unknown as typeof fetch });
+    expect(t.title).toBe("Custom");
+    expect(custom).toHaveBeenCalledOnce();
+    expect(global).not.toHaveBeenCalled();
+  });
+});
+
 describe("getTrackStreams", () => {
   it("fetches streams", async () => {
     const fn = mockFetch({ json: { hls_mp3_128_url: "https://stream" } });
@@ -194,7 +194,107 @@ describe("Telemetry (onRequest)", () => {
       durationMs: 100,
       status: 200,
       retryCount: 0,
+      correlationId: "c0ffee",
     };
     expect(t.method).toBe("GET");
   });
 });
+
+describe("Telemetry — operation annotations", () => {
+  const jsonFetch = (body: unknown, headers: Record<string, string> = {}) =>
+    vi.fn(async () => {
+      const text = JSON.stringify(body);
+      return new Response(text, { status: 200, headers: { "content-type": "application/json", "content-length": String(text.length), ...headers } });
+    });
+
+  const events = (onRequest: ReturnType<typeof vi.fn>) => onRequest.mock.calls.map((c: unknown[]) => c[0] as SCRequestTelemetry);
+
+  it("names the operation, its id and path template, and reports the response size", async () => {
+    const onRequest = vi.fn();
+    const client = new SoundCloudClient({ clientId: "cid", clientSecret: "cs", onRequest, fetch: jsonFetch({ id: 123 }) });
+    await client.tracks.getTrack(123, { token: "tok" });
+    await client.tracks.getTrack(456, { token: "tok" });
+
+    const [first, second] = events(onRequest);
+    expect(first).toMatchObject({
+      operation: "tracks.getTrack",
+      operationId: "get_tracks_track_id",
+      path: "/tracks/123",
+      pathTemplate: "/tracks/{track_id}",
+      responseBytes: 10,
+    });
+    expect(second.pathTemplate).toBe(first.pathTemplate);
+    expect(first.correlationId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(second.correlationId).not.toBe(first.correlationId);
+    expect(first.cacheStatus).toBeUndefined();
+  });
+
+  it("annotates pagination and standalone requests with the operation id only", async () => {
+    const onRequest = vi.fn();
+    globalThis.fetch = jsonFetch({ collection: [], next_href: null });
+    await scFetchUrl("https://api.soundcloud.com/users/1/tracks?offset=50", "tok", undefined, onRequest);
+    await scFetch({ path: "/not-implemented", method: "GET" }, undefined, onRequest);
+
+    const [page, unknown] = events(onRequest);
+    expect(page).toMatchObject({ operationId: "get_users_user_id_tracks", pathTemplate: "/users/{user_id}/tracks" });
+    expect(page.operation).toBeUndefined();
+    expect(unknown.operationId).toBeUndefined();
+    expect(unknown.pathTemplate).toBeUndefined();
+  });
+
+  it("keeps one correlation id across a 401 and the retried request", async () => {
+    const onRequest = vi.fn();
+    const client = new SoundCloudClient({
+      clientId: "cid",
+      clientSecret: "cs",
+      onRequest,
+      onTokenRefresh: async () => ({ access_token: "newtok", refresh_token: "newrt", expires_in: 3600, scope: "", token_type: "bearer" }),
+    });
+    client.setToken("oldtok", "oldrt");
+    mockFetchSequence([
+      { status: 401, statusText: "Unauthorized", json: { error: "unauthorized" } },
+      { status: 200, json: { id: 123 } },
+    ]);
+
+    await client.tracks.getTrack("123");
+    const [unauthorized, retried] = events(onRequest);
+    expect([unauthorized.status, retried.status]).toEqual([401, 200]);
+    expect(retried.correlationId).toBe(unauthorized.correlationId);
+  });
+
+  it("reports the cache outcome", async () => {
+    const entries = new Map<string, unknown>();
+    const onRequest = vi.fn();
+    const client = new SoundCloudClient({
+      clientId: "cid",
+      clientSecret: "cs",
+      onRequest,
+      fetch: jsonFetch({ id: 1 }),
+      cache: { get: (key) => entries.get(key) as never, set: (key, value) => void entries.set(key, value), delete: (key) => void entries.delete(key) },
+    });
+    client.setToken("tok");
+
+    await client.tracks.getTrack(1);
+    await client.tracks.getTrack(1);
+    await client.tracks.getTrack(1, { noCache: true });
+    await client.tracks.delete(1);
+
+    expect(events(onRequest).map((t) => [t.cacheStatus, t.status, t.responseBytes])).toEqual([
+      ["miss", 200, 8],
+      ["hit", 200, undefined],
+      ["bypass", 200, 8],
+      [undefined, 200, 8],
+    ]);
+  });
+
+  it("annotates requests that joined an in-flight GET", async () => {
+    const onRequest = vi.fn();
+    const client = new SoundCloudClient({ clientId: "cid", clientSecret: "cs", onRequest, fetch: jsonFetch({ id: 1 }) });
+    client.setToken("tok");
+
+    await Promise.all([client.users.getUser(1), client.users.getUser(1)]);
+    const joined = events(onRequest).find((t) => t.deduped);
+    expect(joined).toMatchObject({ operation: "users.getUser", operationId: "get_users_user_id", pathTemplate: "/users/{user_id}" });
+    expect(new Set(events(onRequest).map((t) => t.correlationId)).size).toBe(2);
+  });
+});
@@ -1,3 +1,5 @@
+import { authUrl } from "../client/http.js";
+
 /**
  * Build the SoundCloud authorization URL for the OAuth 2.1 code flow.
  *
@@ -8,6 +10,8 @@
  * @param options - Optional parameters for the authorization request
  * @param options.state - Opaque state value for CSRF protection (round-tripped by SoundCloud)
  * @param options.codeChallenge - PKCE S256 code challenge for enhanced security
+ * @param options.authBaseUrl - Replaces `https://secure.soundcloud.com` (e.g. a local mock)
+ * @param options.authorizeUrl - Full authorization endpoint, taking precedence over `authBaseUrl`
  * @returns The full authorization URL to redirect the user to
  *
  * @example
@@ -28,7 +32,7 @@
 export function getAuthorizationUrl(
   clientId: string,
   redirectUri: string,
-  options?: { state?: string; codeChallenge?: string },
+  options?: { state?: string; codeChallenge?: string; authBaseUrl?: string; authorizeUrl?: string },
 ): string {
   const params = new URLSearchParams({
     client_id: clientId,
@@ -40,5 +44,5 @@ export function getAuthorizationUrl(
     params.set("code_challenge", options.codeChallenge);
     params.set("code_challenge_method", "S256");
   }
-  return `https://secure.soundcloud.com/authorize?${params}`;
+  return `${options?.authorizeUrl ?? authUrl("/authorize", options?.authBaseUrl)}?${params}`;
 }
@@ -1,4 +1,4 @@
-import { scFetch } from "../client/http.js";
+import { scFetch, type TransportOptions } from "../client/http.js";
 import type { SoundCloudToken } from "../types/api.js";
 
 /**
@@ -8,6 +8,7 @@ import type { SoundCloudToken } from "../types/api.js";
  *
  * @param clientId - Your SoundCloud application's OAuth client ID
  * @param clientSecret - Your SoundCloud application's OAuth client secret
+ * @param options - Optional transport settings such as a custom `fetch`
  * @returns The OAuth token response
  * @throws {SoundCloudError} When authentication fails (e.g. invalid credentials)
  *
@@ -21,7 +22,7 @@ import type { SoundCloudToken } from "../types/api.js";
  *
  * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/oauth2/post_oauth2_token
  */
-export const getClientToken = (clientId: string, clientSecret: string): Promise<SoundCloudToken> => {
+export const getClientToken = (clientId: string, clientSecret: string, options?: TransportOptions): Promise<SoundCloudToken> => {
   // SC OAuth 2.1: client_credentials grant requires Basic Auth header.
   // Sending client_id/client_secret in the request body is no longer accepted
   // for this grant type and returns 401 invalid_client.
@@ -34,5 +35,6 @@ export const getClientToken = (clientId: string, clientSecret: string): Promise<
     body: new URLSearchParams({
       grant_type: "client_credentials",
     }),
+    ...options,
   });
 };
@@ -1,4 +1,4 @@
-import { scFetch } from "../client/http.js";
+import { scFetch, type TransportOptions } from "../client/http.js";
 import type { SoundCloudToken } from "../types/api.js";
 
 /**
@@ -11,6 +11,7 @@ import type { SoundCloudToken } from "../types/api.js";
  * @param redirectUri - The redirect URI registered with your SoundCloud application
  * @param code - The authorization code received from the OAuth callback
  * @param codeVerifier - PKCE code verifier if a code challenge was used during authorization
+ * @param options - Optional transport settings such as a custom `fetch`
  * @returns The OAuth token response including access and refresh tokens
  * @throws {SoundCloudError} When the code is invalid, expired, or credentials are wrong
  *
@@ -36,6 +37,7 @@ export const getUserToken = (
   redirectUri: string,
   code: string,
   codeVerifier?: string,
+  options?: TransportOptions,
 ): Promise<SoundCloudToken> => {
   const params: Record<string, string> = {
     grant_type: "authorization_code",
@@ -49,5 +51,6 @@ export const getUserToken = (
     path: "/oauth/token",
     method: "POST",
     body: new URLSearchParams(params),
+    ...options,
   });
 };
@@ -4,3 +4,5 @@ export { refreshUserToken } from "./refreshUserToken.js";
 export { signOut } from "./signOut.js";
 export { getAuthorizationUrl } from "./getAuthorizationUrl.js";
 export { generateCodeVerifier, generateCodeChallenge } from "./pkce.js";
+export { OAuthFlow, MemoryOAuthStateStore } from "./oauth-flow.js";
+export type { OAuthFlowOptions, OAuthFlowStart, OAuthLoginAttempt, OAuthStateStore } from "./oauth-flow.js";
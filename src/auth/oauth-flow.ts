@@ -0,0 +1,169 @@
+import type { SoundCloudClient } from "../client/SoundCloudClient.js";
+import type { SoundCloudToken } from "../types/api.js";
+import { SoundCloudOAuthError } from "../errors.js";
+import { generateCodeVerifier, generateCodeChallenge } from "./pkce.js";
+
+/**
+ * A pending authorization-code login, saved between redirecting the user to SoundCloud and
+ * handling the callback.
+ */
+export interface OAuthLoginAttempt {
+  /** Random value round-tripped by SoundCloud in the callback's `state` parameter */
+  state: string;
+  /** PKCE code verifier sent with the code exchange */
+  codeVerifier: string;
+  /** S256 challenge of `codeVerifier`, sent in the authorization URL */
+  codeChallenge: string;
+  /** When the attempt stops being accepted, in epoch milliseconds */
+  expiresAt: number;
+}
+
+/**
+ * Storage for pending login attempts, keyed by `state`.
+ *
+ * The default {@link MemoryOAuthStateStore} only works within one process; implement this
+ * interface on a session, cookie or Redis store when the callback may be handled elsewhere.
+ *
+ * @example
+ * ```ts
+ * const store: OAuthStateStore = {
+ *   save: (attempt) => redis.set(`sc:oauth:${attempt.state}`, JSON.stringify(attempt), { PXAT: attempt.expiresAt }),
+ *   take: async (state) => {
+ *     const saved = await redis.getDel(`sc:oauth:${state}`);
+ *     return saved ? JSON.parse(saved) : undefined;
+ *   },
+ * };
+ * ```
+ */
+export interface OAuthStateStore {
+  /** Persist a new attempt. */
+  save(attempt: OAuthLoginAttempt): void | Promise<void>;
+  /**
+   * Remove and return the attempt for `state`, or undefined if there is none. Removing it is
+   * what makes a callback single-use, so do it atomically when the store is shared.
+   */
+  take(state: string): OAuthLoginAttempt | undefined | Promise<OAuthLoginAttempt | undefined>;
+}
+
+/**
+ * In-process {@link OAuthStateStore}; expired attempts are dropped whenever a new one is saved.
+ */
+export class MemoryOAuthStateStore implements OAuthStateStore {
+  private attempts = new Map<string, OAuthLoginAttempt>();
+
+  save(attempt: OAuthLoginAttempt): void {
+    const now = Date.now();
+    for (const [state, saved] of this.attempts) {
+      if (saved.expiresAt <= now) this.attempts.delete(state);
+    }
+    this.attempts.set(attempt.state, attempt);
+  }
+
+  take(state: string): OAuthLoginAttempt | undefined {
+    const attempt = this.attempts.get(state);
+    this.attempts.delete(state);
+    return attempt;
+  }
+}
+
+/**
+ * Options for {@link OAuthFlow}.
+ */
+export interface OAuthFlowOptions {
+  /** Where pending attempts are kept (default: a {@link MemoryOAuthStateStore}) */
+  store?: OAuthStateStore;
+  /** How long a login attempt stays valid, in milliseconds (default: 10 minutes) */
+  ttlMs?: number;
+}
+
+/**
+ * Result of {@link OAuthFlow.start}.
+ */
+export interface OAuthFlowStart {
+  /** Authorization URL to redirect the user to */
+  url: string;
+  /** The attempt's `state`, e.g. to bind it to the user's session cookie */
+  state: string;
+  /** When the attempt expires, in epoch milliseconds */
+  expiresAt: number;
+}
+
+/** The `Auth` methods the flow needs */
+type OAuthFlowAuth = Pick<SoundCloudClient.Auth, "getAuthorizationUrl" | "getUserToken">;
+
+/**
+ * Authorization-code login with PKCE and a verified `state`. Create it once through
+ * `sc.auth.createFlow()` and reuse it: {@link OAuthFlow.start} saves a login attempt and returns
+ * the URL to redirect to, {@link OAuthFlow.handleCallback} checks the callback against the saved
+ * attempt and exchanges the code.
+ *
+ * @example
+ * ```ts
+ * const flow = sc.auth.createFlow();
+ *
+ * // Login route
+ * const { url } = await flow.start();
+ * res.redirect(url);
+ *
+ * // Callback route
+ * await sc.setToken(await flow.handleCallback(req.url));
+ * ```
+ */
+export class OAuthFlow {
+  private store: OAuthStateStore;
+  private ttlMs: number;
+
+  constructor(
+    private auth: OAuthFlowAuth,
+    options: OAuthFlowOptions = {},
+  ) {
+    this.store = options.store ?? new MemoryOAuthStateStore();
+    this.ttlMs = options.ttlMs ?? 10 * 60_000;
+  }
+
+  /**
+   * Create and save a login attempt with a random `state` and PKCE pair.
+   *
+   * @returns The authorization URL, the attempt's `state` and its expiry
+   * @throws {Error} If `redirectUri` was not provided in the client config
+   */
+  async start(): Promise<OAuthFlowStart> {
+    const codeVerifier = generateCodeVerifier();
+    const codeChallenge = await generateCodeChallenge(codeVerifier);
+    const attempt: OAuthLoginAttempt = {
+      state: globalThis.crypto.randomUUID(),
+      codeVerifier,
+      codeChallenge,
+      expiresAt: Date.now() + this.ttlMs,
+    };
+    const url = this.auth.getAuthorizationUrl({ state: attempt.state, codeChallenge });
+    await this.store.save(attempt);
+    return { url, state: attempt.state, expiresAt: attempt.expiresAt };
+  }
+
+  /**
+   * Validate the callback SoundCloud redirected to and exchange its code for tokens. The
+   * attempt is consumed first, so each callback URL can be used only once.
+   *
+   * @param callbackUrl - The callback URL, absolute or as a path with its query (e.g. `req.url`)
+   * @returns The token response of the code exchange
+   * @throws {SoundCloudOAuthError} When SoundCloud returned an `error`, or the `state` is missing,
+   *   unknown, already used or expired, or there is no `code`
+   * @throws {SoundCloudError} When the code exchange fails
+   */
+  async handleCallback(callbackUrl: string | URL): Promise<SoundCloudToken> {
+    const params = new URL(callbackUrl, "http://localhost").searchParams;
+    const state = params.get("state");
+    const attempt = state ? await this.store.take(state) : undefined;
+
+    const error = params.get("error");
+    if (error) throw new SoundCloudOAuthError(error, params.get("error_description") ?? undefined);
+    if (!state) throw new SoundCloudOAuthError("missing_state", "The callback has no state parameter");
+    if (!attempt) throw new SoundCloudOAuthError("invalid_state", "The state does not match a pending login, or was already used");
+    if (attempt.expiresAt <= Date.now()) throw new SoundCloudOAuthError("expired_state", "The login attempt has expired");
+
+    const code = params.get("code");
+    if (!code) throw new SoundCloudOAuthError("missing_code", "The callback has no code parameter");
+    return this.auth.getUserToken(code, attempt.codeVerifier);
+  }
+}
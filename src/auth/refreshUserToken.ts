@@ -1,4 +1,4 @@
-import { scFetch } from "../client/http.js";
+import { scFetch, type TransportOptions } from "../client/http.js";
 import type { SoundCloudToken } from "../types/api.js";
 
 /**
@@ -10,6 +10,7 @@ import type { SoundCloudToken } from "../types/api.js";
  * @param clientSecret - Your SoundCloud application's OAuth client secret
  * @param redirectUri - The redirect URI registered with your SoundCloud application
  * @param refreshToken - The refresh token from a previous token response
+ * @param options - Optional transport settings such as a custom `fetch`
  * @returns A new OAuth token response with fresh access and refresh tokens
  * @throws {SoundCloudError} When the refresh token is invalid or expired
  *
@@ -33,6 +34,7 @@ export const refreshUserToken = (
   clientSecret: string,
   redirectUri: string,
   refreshToken: string,
+  options?: TransportOptions,
 ): Promise<SoundCloudToken> => {
   return scFetch<SoundCloudToken>({
     path: "/oauth/token",
@@ -44,5 +46,6 @@ export const refreshUserToken = (
       redirect_uri: redirectUri,
       refresh_token: refreshToken,
     }),
+    ...options,
   });
 };
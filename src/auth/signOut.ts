@@ -1,11 +1,24 @@
+import { authUrl, scFetch, type TransportOptions } from "../client/http.js";
+import { SoundCloudError } from "../errors.js";
+
+/**
+ * Rethrow a failed sign-out response as `Sign-out failed: <status>`; aborts and network errors pass through.
+ */
+export function signOutError(err: unknown): never {
+  if (err instanceof SoundCloudError) throw new Error(`Sign-out failed: ${err.status}`, { cause: err });
+  throw err;
+}
+
 /**
  * Invalidate the session associated with an access token.
  *
  * **Note:** This hits `https://secure.soundcloud.com`, NOT the regular
- * `api.soundcloud.com` host used by all other endpoints.
+ * `api.soundcloud.com` host used by all other endpoints (override it with `authBaseUrl`).
  *
  * @param accessToken - The OAuth access token to invalidate
+ * @param options - Optional transport settings such as a custom `fetch`, `authBaseUrl`, `signal` or `timeoutMs`
  * @throws {Error} When the sign-out request fails
+ * @throws {SoundCloudAbortError} When the request is cancelled or times out
  *
  * @example
  * ```ts
@@ -14,11 +27,12 @@
  * await signOut('your-access-token');
  * ```
  */
-export const signOut = async (accessToken: string): Promise<void> => {
-  const res = await fetch("https://secure.soundcloud.com/sign-out", {
+export const signOut = async (accessToken: string, options?: TransportOptions): Promise<void> => {
+  await scFetch<void>({
+    path: authUrl("/sign-out", options?.authBaseUrl),
     method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ access_token: accessToken }),
-  });
-  if (!res.ok) throw new Error(`Sign-out failed: ${res.status}`);
+    body: { access_token: accessToken },
+    ignoreBody: true,
+    ...options,
+  }).catch(signOutError);
 };
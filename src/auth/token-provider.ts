@@ -32,13 +32,18 @@ import type { SoundCloudClient } from "../client/SoundCloudClient.js";
 export interface TokenProvider {
   /** Returns the current access token, or undefined if none is stored. */
   getAccessToken(): string | undefined | Promise<string | undefined>;
-  /** Persist new tokens (called after a successful token grant or refresh). */
-  setTokens(accessToken: string, refreshToken?: string): void | Promise<void>;
+  /**
+   * Persist new tokens (called after a successful token grant or refresh). `expiresAt` is the
+   * access token's expiry in epoch milliseconds, when known.
+   */
+  setTokens(accessToken: string, refreshToken?: string, expiresAt?: number): void | Promise<void>;
   /**
    * Ensure a valid access token is available, refreshing if necessary.
    * Called automatically when a request returns 401 Unauthorized.
    */
   refreshIfNeeded(client: SoundCloudClient): Promise<string> | string;
+  /** Remove the stored tokens; called by `client.clearToken()` when implemented. */
+  clearTokens?(): void | Promise<void>;
 }
 
 /**
@@ -64,8 +69,16 @@ export interface TokenStore {
   getAccessToken(): string | undefined;
   /** Returns the stored refresh token, or undefined if none. */
   getRefreshToken(): string | undefined;
-  /** Persist new tokens. */
-  setTokens(accessToken: string, refreshToken?: string): void;
+  /** Persist new tokens; `expiresAt` is the access token's expiry in epoch milliseconds, when known. */
+  setTokens(accessToken: string, refreshToken?: string, expiresAt?: number): void;
+  /** Returns the stored `expiresAt`; implement it to share expiry-aware refresh between processes. */
+  getExpiresAt?(): number | undefined;
   /** Remove all stored tokens (call on sign-out). */
   clearTokens(): void;
+  /**
+   * Run `refresh` while holding a lock shared by every process using this store (e.g. a Redis
+   * lock), so only one of them spends the refresh token. Once the lock is held the client
+   * re-reads the store and skips the grant if another process has already refreshed.
+   */
+  withRefreshLock?<T>(refresh: () => Promise<T>): Promise<T>;
 }
@@ -1,6 +1,6 @@
 #!/usr/bin/env node
 
-import { SoundCloudClient, generateCodeVerifier, generateCodeChallenge } from "./index.js";
+import { SoundCloudClient } from "./index.js";
 import * as readline from "node:readline";
 import * as http from "node:http";
 import * as fs from "node:fs";
@@ -200,19 +200,14 @@ async function cmdLogin(): Promise<void> {
     die("Not configured. Run `sc-cli auth` first.");
   }
 
-  const verifier = generateCodeVerifier();
-  const challenge = await generateCodeChallenge(verifier);
-
   const client = new SoundCloudClient({
     clientId: config.clientId,
     clientSecret: config.clientSecret,
     redirectUri: "http://localhost:8976/callback",
   });
 
-  const authUrl = client.auth.getAuthorizationUrl({
-    state: "cli-login",
-    codeChallenge: challenge,
-  });
+  const flow = client.auth.createFlow();
+  const { url: authUrl } = await flow.start();
 
   console.log(`\n${col(c.bold + c.cyan, "⚡ SoundCloud OAuth Login")}\n`);
   console.log(`${col(c.yellow, "→")} Open this URL in your browser:\n`);
@@ -229,15 +224,14 @@ async function cmdLogin(): Promise<void> {
 
   console.log(`${col(c.dim, "  Waiting for callback on http://localhost:8976/callback …")}\n`);
 
-  const code = await new Promise<string>((resolve, reject) => {
+  const callbackUrl = await new Promise<string>((resolve, reject) => {
     const server = http.createServer((req, res) => {
       const url = new URL(req.url ?? "/", "http://localhost:8976");
-      const authCode = url.searchParams.get("code");
-      if (authCode) {
+      if (url.searchParams.has("code") || url.searchParams.has("error")) {
         res.writeHead(200, { "Content-Type": "text/html" });
-        res.end("<html><body><h2>✅ Authenticated! You can close this tab.</h2></body></html>");
+        res.end("<html><body><h2>✅ Authorization received. You can close this tab.</h2></body></html>");
         server.close();
-        resolve(authCode);
+        resolve(url.href);
       } else {
         res.writeHead(400, { "Content-Type": "text/html" });
         res.end("<html><body><h2>❌ No code received.</h2></body></html>");
@@ -251,7 +245,7 @@ async function cmdLogin(): Promise<void> {
 
   const spinner = createSpinner("Exchanging code for token…");
   try {
-    const token = await client.auth.getUserToken(code, verifier);
+    const token = await flow.handleCallback(callbackUrl);
     spinner.stop(`${col(c.green, "✔")} Logged in successfully!`);
     config.token = token.access_token;
     config.refreshToken = token.refresh_token;
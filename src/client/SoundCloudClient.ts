@@ -1,7 +1,32 @@
-import { scFetch, scFetchUrl, type AutoRefreshContext, type RetryConfig, type RetryInfo, type SCRequestTelemetry } from "./http.js";
-import { paginate, paginateItems, fetchAll } from "./paginate.js";
+import {
+  scFetch,
+  authUrl,
+  DEFAULT_API_BASE_URL,
+  type AutoRefreshContext,
+  type MutationRetryOptions,
+  type RequestOptions,
+  type RetryConfig,
+  type RetryInfo,
+  type SCRequestTelemetry,
+  type SCResponse,
+  type SCResponseMeta,
+  type TransportOptions,
+} from "./http.js";
+import { paginate, paginateItems, fetchAll, type PaginateOptions } from "./paginate.js";
 import { RawClient } from "./raw.js";
-import type { SoundCloudCache } from "./cache.js";
+import { falseUnlessAborted } from "./abort.js";
+import { ResponseCache, type CacheCallOptions, type SoundCloudCache } from "./cache.js";
+import { InFlightDeduper } from "./dedupe.js";
+import type { Middleware } from "./middleware.js";
+import { RateLimiter, type RateLimitOptions } from "./rate-limit.js";
+import { CircuitBreaker, type CircuitBreakerOptions } from "./circuit-breaker.js";
+import type { RetryStrategy } from "./retry.js";
+import type { HttpRecorder } from "./recorder.js";
+import type { OpenTelemetryOptions } from "./otel.js";
+import type { ValidationMode, ValidationOptions } from "./validate.js";
+import type { TokenProvider, TokenStore } from "../auth/token-provider.js";
+import { OAuthFlow, type OAuthFlowOptions } from "../auth/oauth-flow.js";
+import { signOutError } from "../auth/signOut.js";
 import type {
   SoundCloudToken,
   SoundCloudUser,
@@ -29,31 +54,161 @@ export interface SoundCloudClientConfig {
   clientSecret: string;
   /** OAuth redirect URI registered with your SoundCloud application (required for user auth flows) */
   redirectUri?: string;
+  /**
+   * Replaces `https://api.soundcloud.com` for every namespace, pagination and `sc.raw` request,
+   * e.g. a local mock of the API. `next_href` links on the public host are rewritten onto it
+   */
+  apiBaseUrl?: string;
+  /** Replaces `https://secure.soundcloud.com` for token grants, the authorize URL and sign-out */
+  authBaseUrl?: string;
+  /** Full authorization endpoint used by `auth.getAuthorizationUrl()` (default: `${authBaseUrl}/authorize`) */
+  authorizeUrl?: string;
   /**
    * Called automatically when a request returns 401 Unauthorized.
    * Return new tokens to transparently retry the failed request.
    */
   onTokenRefresh?: (client: SoundCloudClient) => Promise<SoundCloudToken>;
+  /**
+   * Keep tokens in your own (possibly async) session storage instead of on the client. Every
+   * request reads the access token from it, `setToken`/`clearToken` write through to it, and a
+   * 401 is answered with `refreshIfNeeded(client)` unless `onTokenRefresh` is also set.
+   * Mutually exclusive with `tokenStore`
+   */
+  tokenProvider?: TokenProvider;
+  /**
+   * Synchronous storage for the access and refresh tokens, read by every request and written by
+   * `setToken`/`clearToken` and after a 401 auto-refresh. Mutually exclusive with `tokenProvider`
+   */
+  tokenStore?: TokenStore;
+  /**
+   * Refresh expired tokens without an `onTokenRefresh` callback: on a 401 the client runs a
+   * `refresh_token` grant with the stored refresh token and stores the rotated tokens, or —
+   * for app-only clients with no refresh token — a `client_credentials` grant (default: false)
+   */
+  autoRefresh?: boolean;
+  /** Called with `tokenRefreshed` and `refreshFailed` events for every token refresh, e.g. to force a re-login */
+  onAuthEvent?: (event: TokenRefreshEvent) => void;
+  /**
+   * With a refresh mechanism configured (`onTokenRefresh`, `tokenProvider` or `autoRefresh`),
+   * refresh the access token before a request once it is this close to `tokenExpiresAt`, instead
+   * of waiting for a 401 (default: 60000)
+   */
+  tokenRefreshSkewMs?: number;
+  /**
+   * Consecutive failed token refreshes after which the client stops refreshing — requests then
+   * reject with the last refresh error — until new tokens are set with `setToken` (default: 3)
+   */
+  maxRefreshAttempts?: number;
   /** Maximum number of retries on 429 (rate limit) and 5xx (server error) responses (default: 3) */
   maxRetries?: number;
   /** Base delay in milliseconds for exponential backoff between retries (default: 1000) */
   retryBaseDelay?: number;
+  /**
+   * Decides which responses are retried and how long to wait; replaces the default
+   * `BackoffStrategy` built from `retryBaseDelay`
+   */
+  retryStrategy?: RetryStrategy;
   /** Optional debug logger callback for retry attempts and other internal events */
   onDebug?: (message: string) => void;
   /** Called after every API request with structured telemetry (timing, status, retries) */
   onRequest?: (telemetry: SCRequestTelemetry) => void;
-  /** Custom fetch implementation (defaults to `globalThis.fetch`) */
+  /** Custom fetch implementation used by every namespace, auth grant and pagination request (defaults to `globalThis.fetch`) */
   fetch?: typeof globalThis.fetch;
-  /** Deduplicate concurrent identical requests (default: true) */
+  /**
+   * Share one network request between identical concurrent GETs — same method, URL and
+   * token — across all namespaces and pagination. Mutations are never deduplicated (default: true)
+   */
   dedupe?: boolean;
-  /** Optional cache backend for API responses */
+  /**
+   * Optional cache backend for API responses. GET requests from every namespace and
+   * pagination are served from it; mutations drop the affected entries.
+   */
   cache?: SoundCloudCache;
   /** Default TTL in milliseconds for cached responses (default: 60000) */
   cacheTtlMs?: number;
+  /**
+   * How long an expired response with an `ETag` or `Last-Modified` header is kept for conditional
+   * revalidation; a 304 answer is then served from the cache. `0` disables revalidation (default: 86400000)
+   */
+  cacheRevalidateTtlMs?: number;
   /** Called before each retry attempt with structured retry info */
   onRetry?: (info: RetryInfo) => void;
+  /**
+   * Record every request (on top of `fetch`) into redacted fixtures, or replay fixtures with no
+   * network at all, depending on the recorder's mode; see {@link HttpRecorder}
+   */
+  recorder?: HttpRecorder;
+  /** Default timeout in milliseconds for every request, retries included; per-call `timeoutMs` overrides it */
+  timeoutMs?: number;
+  /** Request/response interceptors applied to every namespace, auth, pagination and raw request, outermost first */
+  middleware?: Middleware[];
+  /**
+   * Proactive client-side rate limiting. Every request from all namespaces, pagination and
+   * `sc.raw` queues on it; pass a {@link RateLimiter} instance to share one budget between clients
+   */
+  rateLimit?: RateLimitOptions | RateLimiter;
+  /**
+   * Fail fast during sustained SoundCloud outages instead of retrying every call. State
+   * transitions are reported through `onStateChange`; pass a {@link CircuitBreaker} instance
+   * to share one breaker between clients
+   */
+  circuitBreaker?: CircuitBreakerOptions | CircuitBreaker;
+  /**
+   * OpenTelemetry tracer and/or meter (e.g. from `@opentelemetry/api`). Every namespace, auth and
+   * pagination request gets a span named after its method with a child span per HTTP attempt,
+   * and is counted in the `soundcloud.client.*` metrics
+   */
+  openTelemetry?: OpenTelemetryOptions;
+  /**
+   * Check every response body against its declared type: `"strict"` throws a
+   * {@link SoundCloudValidationError}, `"warn"` passes the body through and `"coerce"` repairs it
+   * (e.g. a `null` `title` becomes `""`). Each mismatch is reported with its path through
+   * `onDebug` (default: off)
+   */
+  validation?: ValidationMode | ValidationOptions;
 }
 
+/**
+ * How tokens were refreshed after a 401: the `onTokenRefresh` callback, the `tokenProvider`'s
+ * `refreshIfNeeded`, or (with `autoRefresh`) a `refresh_token` or `client_credentials` grant.
+ */
+export type TokenRefreshSource = "onTokenRefresh" | "tokenProvider" | "refresh_token" | "client_credentials";
+
+/**
+ * Why tokens were refreshed: a request got a 401, the access token was about to expire
+ * (see `tokenRefreshSkewMs`), or `refreshAccessToken()` was called.
+ */
+export type TokenRefreshTrigger = "unauthorized" | "expiring" | "manual";
+
+/**
+ * Reported through `SoundCloudClientConfig.onAuthEvent` after each refresh attempt.
+ *
+ * @example
+ * ```ts
+ * const sc = new SoundCloudClient({
+ *   clientId, clientSecret, autoRefresh: true,
+ *   onAuthEvent: (event) => {
+ *     if (event.type === 'refreshFailed') redirectToLogin();
+ *   },
+ * });
+ * ```
+ */
+export type TokenRefreshEvent =
+  | {
+      type: "tokenRefreshed";
+      source: TokenRefreshSource;
+      trigger: TokenRefreshTrigger;
+      /** The new access token, already stored on the client */
+      accessToken: string;
+    }
+  | {
+      type: "refreshFailed";
+      source: TokenRefreshSource;
+      trigger: TokenRefreshTrigger;
+      /** Why the refresh failed; after a 401 the request rejects with it, an expiring token is still used */
+      error: unknown;
+    };
+
 /**
  * Optional token override that can be passed as the last parameter to client methods.
  * When provided, the explicit token is used instead of the client's stored token.
@@ -63,15 +218,96 @@ export interface TokenOption {
   token?: string;
 }
 
+/**
+ * Per-call options accepted as the last parameter of every namespace method.
+ * Extends {@link TokenOption} with cache controls (only relevant when a `cache` is configured),
+ * cancellation via `signal` / `timeoutMs` and the `idempotent` retry opt-in.
+ */
+export interface CallOptions
+  extends TokenOption, CacheCallOptions, Pick<TransportOptions, "signal" | "timeoutMs">, Pick<MutationRetryOptions, "idempotent"> {}
+
+/**
+ * Per-call options accepted as the last parameter of the `auth` methods: cancellation via
+ * `signal` / `timeoutMs`, overriding the client's default `timeoutMs`.
+ */
+export type AuthCallOptions = Pick<CallOptions, "signal" | "timeoutMs">;
+
+/**
+ * Per-call options for methods that create a resource. Adds a `reconcile` hook that checks
+ * whether a failed create went through before it is retried.
+ */
+export interface CreateCallOptions<T> extends CallOptions, Pick<MutationRetryOptions<T>, "reconcile"> {}
+
+/**
+ * A namespace whose async methods resolve with {@link SCResponse} instead of the bare body,
+ * as returned by `withResponse()` on every namespace.
+ */
+export type WithResponse<N> = {
+  [K in keyof N as N[K] extends (...args: never[]) => Promise<unknown> ? K : never]: N[K] extends (...args: infer A) => Promise<infer R>
+    ? (...args: A) => Promise<SCResponse<R>>
+    : never;
+};
+
+/**
+ * Build a `withResponse()` view. Every call runs on a fresh namespace instance whose requests
+ * report their metadata to that call only, so concurrent calls never see each other's responses.
+ * Methods that swallow errors without a response (e.g. `likes.likeTrack` on a network error) report status 0.
+ */
+function responseView<N extends object>(create: (onResponse: (meta: SCResponseMeta) => void) => N): WithResponse<N> {
+  return new Proxy({} as WithResponse<N>, {
+    get: (_target, name) => async (...args: unknown[]) => {
+      let meta: SCResponseMeta = { status: 0, headers: {}, retryCount: 0, durationMs: 0 };
+      const namespace = create((m) => { meta = m; });
+      const method = namespace[name as keyof N] as (...a: unknown[]) => Promise<unknown>;
+      const data = await method.apply(namespace, args);
+      return { data, ...meta };
+    },
+  });
+}
+
+/** Copy per-call settings onto the request; the token is resolved separately. */
+function withCallOptions(opts: RequestOptions, call?: CallOptions): RequestOptions {
+  if (!call) return opts;
+  return {
+    ...opts,
+    cacheTtlMs: call.cacheTtlMs,
+    noCache: call.noCache,
+    signal: call.signal,
+    timeoutMs: call.timeoutMs,
+    idempotent: call.idempotent,
+  };
+}
+
+/** Cached paths affected by a playlist mutation. */
+const playlistPaths = (playlistId: string | number) => [`/playlists/${playlistId}`, `/playlists/${playlistId}/tracks`];
+/** Cached paths affected by liking or unliking a track. */
+const likeTrackPaths = (trackId: string | number) => [`/tracks/${trackId}`, `/tracks/${trackId}/favoriters`, "/me/likes/tracks"];
+/** Cached paths affected by liking or unliking a playlist. */
+const likePlaylistPaths = (playlistId: string | number) => [`/playlists/${playlistId}`, "/me/likes/playlists"];
+
 /** Resolve a token: use explicit override, fall back to stored, or throw. */
-type TokenGetter = () => string | undefined;
+type TokenGetter = () => string | undefined | Promise<string | undefined>;
 
-function resolveToken(tokenGetter: TokenGetter, explicit?: string): string {
-  const t = explicit ?? tokenGetter();
+function requireToken(t: string | undefined): string {
   if (!t) throw new Error("No access token available. Call client.setToken() or pass a token explicitly.");
   return t;
 }
 
+/** A promise only when the token comes from an async `tokenProvider`, so other requests start synchronously */
+function resolveToken(tokenGetter: TokenGetter, explicit?: string): string | Promise<string> {
+  const t = explicit ?? tokenGetter();
+  return t instanceof Promise ? t.then(requireToken) : requireToken(t);
+}
+
+/** Request options whose token may still be loading from a `tokenProvider` */
+type PendingRequestOptions = Omit<RequestOptions, "token"> & { token?: string | Promise<string> };
+
+/** Call `send` once the token is known, without delaying requests whose token is already there */
+function withToken<T>(opts: PendingRequestOptions, send: (opts: RequestOptions) => Promise<T>): Promise<T> {
+  const { token } = opts;
+  return token instanceof Promise ? token.then((t) => send({ ...opts, token: t })) : send({ ...opts, token });
+}
+
 /**
  * High-level SoundCloud API client with namespaced methods for all API areas.
  *
@@ -106,8 +342,26 @@ function resolveToken(tokenGetter: TokenGetter, explicit?: string): string {
  */
 export class SoundCloudClient {
   private config: SoundCloudClientConfig;
+  private cache?: ResponseCache;
+  private deduper?: InFlightDeduper;
+  private middleware: Middleware[];
+  private rateLimiter?: RateLimiter;
+  private circuitBreaker?: CircuitBreaker;
+  private refreshCtx: AutoRefreshContext;
+  private tokenProvider?: TokenProvider;
+  private tokenStore?: TokenStore;
+  /** Pending `tokenProvider` write; token reads wait for it so they never see a stale token */
+  private tokenWrite: Promise<unknown> = Promise.resolve();
+  private canRefresh: boolean;
+  /** The refresh in flight; every request that needs new tokens meanwhile waits for it */
+  private pendingRefresh?: Promise<{ access_token: string; refresh_token?: string }>;
+  /** Access token replaced by the last refresh; a 401 for it needs no new refresh */
+  private replacedToken?: string;
+  private failedRefreshes = 0;
+  private lastRefreshError?: unknown;
   private _accessToken?: string;
   private _refreshToken?: string;
+  private _tokenExpiresAt?: number;
 
   /** Authentication methods (OAuth token grants, sign out) */
   public auth: SoundCloudClient.Auth;
@@ -136,75 +390,331 @@ export class SoundCloudClient {
    * @param config - Client configuration including OAuth credentials and optional settings
    */
   constructor(config: SoundCloudClientConfig) {
+    if (config.recorder) config = { ...config, fetch: config.recorder.wrap(config.fetch) };
     this.config = config;
-    const getToken: TokenGetter = () => this._accessToken;
+    this.cache = config.cache ? new ResponseCache(config.cache, config.cacheTtlMs ?? 60000, config.cacheRevalidateTtlMs ?? 86_400_000) : undefined;
+    this.deduper = config.dedupe === false ? undefined : new InFlightDeduper();
+    this.middleware = [...(config.middleware ?? [])];
+    if (config.rateLimit) {
+      this.rateLimiter = config.rateLimit instanceof RateLimiter ? config.rateLimit : new RateLimiter(config.rateLimit);
+    }
+    if (config.circuitBreaker) {
+      this.circuitBreaker =
+        config.circuitBreaker instanceof CircuitBreaker ? config.circuitBreaker : new CircuitBreaker(config.circuitBreaker);
+    }
+    if (config.tokenProvider && config.tokenStore) throw new Error("Pass either tokenProvider or tokenStore, not both");
+    this.tokenProvider = config.tokenProvider;
+    this.tokenStore = config.tokenStore;
+    const getToken: TokenGetter = () => this.readAccessToken();
+    this.canRefresh = Boolean(config.onTokenRefresh || config.tokenProvider || config.autoRefresh);
+    const onTokenRefresh = (failedToken?: string) => this.refreshTokens("unauthorized", failedToken);
+    // `refreshTokens` has already stored the tokens
+    const storeRefreshed = (a: string) => void (this._accessToken = a);
     const retryConfig: RetryConfig = {
       maxRetries: config.maxRetries ?? 3,
       retryBaseDelay: config.retryBaseDelay ?? 1000,
+      strategy: config.retryStrategy,
       onDebug: config.onDebug,
       onRetry: config.onRetry,
     };
-    const refreshCtx: AutoRefreshContext = config.onTokenRefresh
+    this.refreshCtx = this.canRefresh
       ? {
           getToken,
-          onTokenRefresh: async () => {
-            const result = await config.onTokenRefresh!(this);
-            return result;
-          },
-          setToken: (a, r) => this.setToken(a, r),
+          onTokenRefresh,
+          setToken: storeRefreshed,
           retry: retryConfig,
           onRequest: config.onRequest,
+          cache: this.cache,
+          deduper: this.deduper,
+          fetch: config.fetch,
+          timeoutMs: config.timeoutMs,
+          middleware: this.middleware,
+          rateLimiter: this.rateLimiter,
+          circuitBreaker: this.circuitBreaker,
+          apiBaseUrl: config.apiBaseUrl,
+          authBaseUrl: config.authBaseUrl,
+          openTelemetry: config.openTelemetry,
+          validation: config.validation,
         }
       : {
           getToken,
           setToken: /* v8 ignore next */ (a, r) => this.setToken(a, r),
           retry: retryConfig,
           onRequest: config.onRequest,
+          cache: this.cache,
+          deduper: this.deduper,
+          fetch: config.fetch,
+          timeoutMs: config.timeoutMs,
+          middleware: this.middleware,
+          rateLimiter: this.rateLimiter,
+          circuitBreaker: this.circuitBreaker,
+          apiBaseUrl: config.apiBaseUrl,
+          authBaseUrl: config.authBaseUrl,
+          openTelemetry: config.openTelemetry,
+          validation: config.validation,
         };
 
-    this.auth = new SoundCloudClient.Auth(this.config);
-    this.me = new SoundCloudClient.Me(getToken, refreshCtx!);
-    this.users = new SoundCloudClient.Users(getToken, refreshCtx!);
-    this.tracks = new SoundCloudClient.Tracks(getToken, refreshCtx!);
-    this.playlists = new SoundCloudClient.Playlists(getToken, refreshCtx!);
-    this.search = new SoundCloudClient.Search(getToken, refreshCtx!);
-    this.resolve = new SoundCloudClient.Resolve(getToken, refreshCtx!);
-    this.likes = new SoundCloudClient.Likes(getToken, refreshCtx!);
-    this.reposts = new SoundCloudClient.Reposts(getToken, refreshCtx!);
-    this.raw = new RawClient("https://api.soundcloud.com", getToken, config.fetch ?? globalThis.fetch);
+    const transport: TransportOptions = {
+      timeoutMs: config.timeoutMs,
+      middleware: this.middleware,
+      rateLimiter: this.rateLimiter,
+      circuitBreaker: this.circuitBreaker,
+      apiBaseUrl: config.apiBaseUrl,
+      authBaseUrl: config.authBaseUrl,
+      openTelemetry: config.openTelemetry,
+      validation: config.validation,
+    };
+
+    this.auth = new SoundCloudClient.Auth(this.config, { ...transport, fetch: config.fetch });
+    this.me = new SoundCloudClient.Me(getToken, this.refreshCtx);
+    this.users = new SoundCloudClient.Users(getToken, this.refreshCtx);
+    this.tracks = new SoundCloudClient.Tracks(getToken, this.refreshCtx);
+    this.playlists = new SoundCloudClient.Playlists(getToken, this.refreshCtx);
+    this.search = new SoundCloudClient.Search(getToken, this.refreshCtx);
+    this.resolve = new SoundCloudClient.Resolve(getToken, this.refreshCtx);
+    this.likes = new SoundCloudClient.Likes(getToken, this.refreshCtx);
+    this.reposts = new SoundCloudClient.Reposts(getToken, this.refreshCtx);
+    this.raw = new RawClient(config.apiBaseUrl ?? DEFAULT_API_BASE_URL, getToken, config.fetch ?? globalThis.fetch, transport);
   }
 
   /**
-   * Store an access token (and optionally refresh token) on this client instance.
+   * Append a middleware to the chain. It applies to every request made after this call,
+   * from all namespaces, pagination and `sc.raw`.
+   *
+   * @param middleware - Interceptor to run inside the ones already registered
+   * @returns This client, for chaining
+   *
+   * @example
+   * ```ts
+   * sc.use(async (request, next) => {
+   *   const response = await next(request);
+   *   console.log(request.method, request.url, response.status);
+   *   return response;
+   * });
+   * ```
+   */
+  use(middleware: Middleware): this {
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  /**
+   * Store an access token (and optionally refresh token) on this client instance, writing
+   * through to the configured `tokenStore` or `tokenProvider`. Without a new refresh token the
+   * current one is kept. Pass the whole {@link SoundCloudToken} from a grant to also track when
+   * it expires (see {@link tokenExpiresAt}).
    *
    * @param accessToken - The OAuth access token to store
    * @param refreshToken - Optional refresh token for automatic token renewal
+   * @returns Resolves once the tokens are persisted; requests made meanwhile wait for the write
+   *
+   * @example
+   * ```ts
+   * await sc.setToken(await sc.auth.getUserToken(code, verifier));
+   * ```
    */
-  setToken(accessToken: string, refreshToken?: string): void {
+  setToken(accessToken: string, refreshToken?: string): Promise<void>;
+  setToken(token: SoundCloudToken): Promise<void>;
+  setToken(tokenOrAccessToken: string | SoundCloudToken, refreshToken?: string): Promise<void> {
+    const grant = typeof tokenOrAccessToken === "string" ? undefined : tokenOrAccessToken;
+    const accessToken = grant ? grant.access_token : (tokenOrAccessToken as string);
+    const refresh = (grant ? grant.refresh_token || undefined : refreshToken) ?? this.refreshToken;
+    const expiresAt = grant?.expires_in ? Date.now() + grant.expires_in * 1000 : undefined;
     this._accessToken = accessToken;
-    if (refreshToken !== undefined) this._refreshToken = refreshToken;
+    this._refreshToken = refresh;
+    this._tokenExpiresAt = expiresAt;
+    this.failedRefreshes = 0;
+    return this.writeTokens(async () => {
+      this.tokenStore?.setTokens(accessToken, refresh, expiresAt);
+      await this.tokenProvider?.setTokens(accessToken, refresh, expiresAt);
+    });
   }
 
-  /** Clear all stored tokens from this client instance. */
-  clearToken(): void {
+  /**
+   * Clear all stored tokens from this client instance and from the configured `tokenStore`
+   * (or `tokenProvider`, if it implements `clearTokens`).
+   *
+   * @returns Resolves once the tokens are removed from storage
+   */
+  clearToken(): Promise<void> {
     this._accessToken = undefined;
     this._refreshToken = undefined;
+    this._tokenExpiresAt = undefined;
+    this.failedRefreshes = 0;
+    return this.writeTokens(async () => {
+      this.tokenStore?.clearTokens();
+      await this.tokenProvider?.clearTokens?.();
+    });
   }
 
-  /** Get the currently stored access token, or `undefined` if none is set. */
+  /**
+   * Get the currently stored access token, or `undefined` if none is set. With a
+   * `tokenProvider` this is the token last read or written by this client.
+   */
   get accessToken(): string | undefined {
-    return this._accessToken;
+    return this.tokenStore ? this.tokenStore.getAccessToken() : this._accessToken;
   }
 
-  /** Get the currently stored refresh token, or `undefined` if none is set. */
+  /**
+   * Get the currently stored refresh token, or `undefined` if none is set. With a
+   * `tokenProvider` this is the token last passed to `setToken`.
+   */
   get refreshToken(): string | undefined {
-    return this._refreshToken;
+    return this.tokenStore ? this.tokenStore.getRefreshToken() : this._refreshToken;
+  }
+
+  /**
+   * When the access token expires (epoch milliseconds), or `undefined` if unknown. Known when
+   * tokens were set from a grant — `setToken(token)` or any refresh the client ran — or read
+   * from a `tokenStore` that implements `getExpiresAt`.
+   *
+   * @example
+   * ```ts
+   * // Background worker: refresh a minute before expiry
+   * setTimeout(() => sc.refreshAccessToken(), sc.tokenExpiresAt! - Date.now() - 60_000);
+   * ```
+   */
+  get tokenExpiresAt(): number | undefined {
+    return this.tokenStore?.getExpiresAt ? this.tokenStore.getExpiresAt() : this._tokenExpiresAt;
+  }
+
+  /**
+   * Refresh the tokens now, the same way as after a 401: through `onTokenRefresh`, the
+   * `tokenProvider`, or a `refresh_token` (else `client_credentials`) grant. The new tokens are
+   * stored and reported through `onAuthEvent`.
+   *
+   * @returns The new access token
+   */
+  async refreshAccessToken(): Promise<string> {
+    return (await this.refreshTokens("manual")).access_token;
+  }
+
+  /**
+   * Refresh the tokens, coalescing concurrent calls into a single refresh. A 401 for a token
+   * that a refresh has already replaced is answered with the current token, without a new grant.
+   */
+  private refreshTokens(trigger: TokenRefreshTrigger, failedToken?: string): Promise<{ access_token: string; refresh_token?: string }> {
+    const current = this.accessToken;
+    if (!this.pendingRefresh && failedToken !== undefined && failedToken === this.replacedToken && current) {
+      return Promise.resolve({ access_token: current });
+    }
+    this.pendingRefresh ??= this.runRefresh(trigger, failedToken).finally(() => (this.pendingRefresh = undefined));
+    return this.pendingRefresh;
+  }
+
+  /**
+   * Run one refresh, under the `tokenStore`'s `withRefreshLock` when it has one. Once the lock is
+   * held, a refresh that another process completed meanwhile is picked up instead of repeated:
+   * after a 401, any stored token other than the one that failed counts as already refreshed.
+   */
+  private async runRefresh(trigger: TokenRefreshTrigger, failedToken?: string): Promise<{ access_token: string; refresh_token?: string }> {
+    const maxAttempts = this.config.maxRefreshAttempts ?? 3;
+    if (this.failedRefreshes >= maxAttempts) {
+      this.config.onDebug?.(`Token refresh skipped after ${this.failedRefreshes} consecutive failures; call setToken() with new tokens`);
+      throw this.lastRefreshError;
+    }
+    const before = failedToken ?? this.accessToken;
+    const refresh = async () => {
+      const current = this.accessToken;
+      const refreshedElsewhere = trigger === "expiring" ? !this.expiresSoon() : trigger === "unauthorized" && current !== before;
+      return refreshedElsewhere && current ? { access_token: current } : this.obtainTokens(trigger);
+    };
+    const store = this.tokenStore;
+    try {
+      const token = store?.withRefreshLock ? await store.withRefreshLock(refresh) : await refresh();
+      this.replacedToken = before;
+      this.failedRefreshes = 0;
+      return token;
+    } catch (error) {
+      this.failedRefreshes++;
+      this.lastRefreshError = error;
+      throw error;
+    }
+  }
+
+  /**
+   * Obtain new tokens, store them and report the outcome through `onAuthEvent`. An
+   * `onTokenRefresh` callback wins over the `tokenProvider`, which wins over the built-in grants.
+   */
+  private async obtainTokens(trigger: TokenRefreshTrigger): Promise<{ access_token: string; refresh_token?: string }> {
+    const { onTokenRefresh, onAuthEvent } = this.config;
+    const provider = this.tokenProvider;
+    const refreshToken = this.refreshToken;
+    const source: TokenRefreshSource = onTokenRefresh
+      ? "onTokenRefresh"
+      : provider
+        ? "tokenProvider"
+        : refreshToken
+          ? "refresh_token"
+          : "client_credentials";
+    try {
+      let token: { access_token: string; refresh_token?: string };
+      if (source === "tokenProvider") {
+        // A provider persists what it refreshes itself, so only the client's copy is updated
+        token = { access_token: await provider!.refreshIfNeeded(this) };
+        this._accessToken = token.access_token;
+        this._tokenExpiresAt = undefined;
+      } else {
+        const grant =
+          source === "onTokenRefresh"
+            ? await onTokenRefresh!(this)
+            : source === "refresh_token"
+              ? await this.auth.refreshUserToken(refreshToken!)
+              : await this.auth.getClientToken();
+        await this.setToken(grant);
+        token = grant;
+      }
+      onAuthEvent?.({ type: "tokenRefreshed", source, trigger, accessToken: token.access_token });
+      return token;
+    } catch (error) {
+      onAuthEvent?.({ type: "refreshFailed", source, trigger, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Run a storage write; the returned promise rejects if it fails, but later token reads go
+   * ahead either way (the write has already been handled here, so it is never unhandled).
+   */
+  private writeTokens(write: () => Promise<void>): Promise<void> {
+    const done = write();
+    this.tokenWrite = done.catch(() => undefined);
+    return done;
+  }
+
+  /**
+   * The access token for the next request, refreshed first when it is about to expire. A
+   * promise only with a `tokenProvider` or while refreshing, so other requests start synchronously.
+   */
+  private readAccessToken(): string | undefined | Promise<string | undefined> {
+    if (this.canRefresh && this.expiresSoon()) {
+      // A failed refresh is reported through `onAuthEvent`; the current token may still work, else the 401 refresh takes over
+      return this.refreshTokens("expiring").then(
+        () => this.readStoredToken(),
+        () => this.readStoredToken(),
+      );
+    }
+    return this.readStoredToken();
+  }
+
+  /** Whether the access token expires within `tokenRefreshSkewMs` */
+  private expiresSoon(): boolean {
+    const expiresAt = this.tokenExpiresAt;
+    return expiresAt !== undefined && Date.now() >= expiresAt - (this.config.tokenRefreshSkewMs ?? 60_000);
+  }
+
+  /** The access token from the configured storage */
+  private readStoredToken(): string | undefined | Promise<string | undefined> {
+    const provider = this.tokenProvider;
+    if (!provider) return this.accessToken;
+    return this.tokenWrite.then(async () => (this._accessToken = await provider.getAccessToken()));
   }
 
   /**
    * Async generator that follows `next_href` automatically, yielding each page's `collection`.
    *
    * @param firstPage - Function that fetches the first page
+   * @param options - Optional abort signal, applied between pages and to each page request
    * @returns An async generator yielding arrays of items (one per page)
    *
    * @example
@@ -214,16 +724,15 @@ export class SoundCloudClient {
    * }
    * ```
    */
-  paginate<T>(firstPage: () => Promise<SoundCloudPaginatedResponse<T>>): AsyncGenerator<T[], void, undefined> {
-    const token = this._accessToken;
-    const onReq = this.config.onRequest;
-    return paginate(firstPage, (url) => scFetchUrl<SoundCloudPaginatedResponse<T>>(url, token, undefined, onReq));
+  paginate<T>(firstPage: () => Promise<SoundCloudPaginatedResponse<T>>, options?: PaginateOptions): AsyncGenerator<T[], void, undefined> {
+    return paginate(firstPage, (url) => this.fetchPage<T>(url, options?.signal), options);
   }
 
   /**
    * Async generator that yields individual items across all pages.
    *
    * @param firstPage - Function that fetches the first page
+   * @param options - Optional abort signal, applied between pages and to each page request
    * @returns An async generator yielding individual items
    *
    * @example
@@ -233,10 +742,8 @@ export class SoundCloudClient {
    * }
    * ```
    */
-  paginateItems<T>(firstPage: () => Promise<SoundCloudPaginatedResponse<T>>): AsyncGenerator<T, void, undefined> {
-    const token = this._accessToken;
-    const onReq = this.config.onRequest;
-    return paginateItems(firstPage, (url) => scFetchUrl<SoundCloudPaginatedResponse<T>>(url, token, undefined, onReq));
+  paginateItems<T>(firstPage: () => Promise<SoundCloudPaginatedResponse<T>>, options?: PaginateOptions): AsyncGenerator<T, void, undefined> {
+    return paginateItems(firstPage, (url) => this.fetchPage<T>(url, options?.signal), options);
   }
 
   /**
@@ -245,6 +752,7 @@ export class SoundCloudClient {
    * @param firstPage - Function that fetches the first page
    * @param options - Optional configuration
    * @param options.maxItems - Maximum number of items to collect
+   * @param options.signal - Abort signal, applied between pages and to each page request
    * @returns A promise resolving to a flat array of all items
    *
    * @example
@@ -253,10 +761,17 @@ export class SoundCloudClient {
    * console.log(allTracks.length);
    * ```
    */
-  fetchAll<T>(firstPage: () => Promise<SoundCloudPaginatedResponse<T>>, options?: { maxItems?: number }): Promise<T[]> {
-    const token = this._accessToken;
-    const onReq = this.config.onRequest;
-    return fetchAll(firstPage, (url) => scFetchUrl<SoundCloudPaginatedResponse<T>>(url, token, undefined, onReq), options);
+  fetchAll<T>(firstPage: () => Promise<SoundCloudPaginatedResponse<T>>, options?: PaginateOptions & { maxItems?: number }): Promise<T[]> {
+    return fetchAll(firstPage, (url) => this.fetchPage<T>(url, options?.signal), options);
+  }
+
+  /**
+   * Fetch a `next_href` page through the same engine as namespace requests, so pages get the
+   * client's retry config, 401 refresh, telemetry, cache and deduper. The token is read per page
+   * so a refresh mid-pagination carries over to the remaining pages.
+   */
+  private async fetchPage<T>(url: string, signal?: AbortSignal): Promise<SoundCloudPaginatedResponse<T>> {
+    return scFetch<SoundCloudPaginatedResponse<T>>({ path: url, method: "GET", token: await this.readAccessToken(), signal }, this.refreshCtx);
   }
 }
 
@@ -271,8 +786,38 @@ export namespace SoundCloudClient {
    * ```
    */
   export class Auth {
-    constructor(private config: SoundCloudClientConfig) {}
-    private fetch<T>(opts: Parameters<typeof scFetch>[0]) { return scFetch<T>(opts, undefined, this.config.onRequest); }
+    constructor(
+      private config: SoundCloudClientConfig,
+      private transport: TransportOptions = {
+        fetch: config.fetch,
+        timeoutMs: config.timeoutMs,
+        middleware: config.middleware,
+        apiBaseUrl: config.apiBaseUrl,
+        authBaseUrl: config.authBaseUrl,
+        openTelemetry: config.openTelemetry,
+        validation: config.validation,
+      },
+    ) {}
+    private fetch<T>(opts: RequestOptions, call?: AuthCallOptions) {
+      return scFetch<T>(
+        { ...opts, ...this.transport, signal: call?.signal, timeoutMs: call?.timeoutMs ?? this.transport.timeoutMs },
+        undefined,
+        this.config.onRequest,
+      );
+    }
+
+    /**
+     * The same methods, resolving with an {@link SCResponse} (body plus status, headers, request id,
+     * retry count and duration) instead of the bare body.
+     *
+     * @example
+     * ```ts
+     * const { data: token, requestId } = await sc.auth.withResponse().getClientToken();
+     * ```
+     */
+    withResponse(): WithResponse<Auth> {
+      return responseView((onResponse) => new Auth(this.config, { ...this.transport, onResponse }));
+    }
 
     /**
      * Build the authorization URL to redirect users to SoundCloud's OAuth login page.
@@ -303,12 +848,33 @@ export namespace SoundCloudClient {
         params.set("code_challenge", options.codeChallenge);
         params.set("code_challenge_method", "S256");
       }
-      return `https://secure.soundcloud.com/authorize?${params}`;
+      return `${this.config.authorizeUrl ?? authUrl("/authorize", this.transport.authBaseUrl)}?${params}`;
+    }
+
+    /**
+     * Create an {@link OAuthFlow} for the authorization-code login: it generates and stores the
+     * `state` and PKCE pair of each attempt and validates the callback before exchanging the code.
+     * Create it once and reuse it, so callbacks find the attempts saved by `start()`.
+     *
+     * @param options - Attempt store and lifetime
+     * @returns A flow bound to this client's `clientId` and `redirectUri`
+     *
+     * @example
+     * ```ts
+     * const flow = sc.auth.createFlow({ store: sessionStateStore });
+     * const { url } = await flow.start();
+     * // Redirect user to `url`; then, in the callback handler:
+     * await sc.setToken(await flow.handleCallback(req.url));
+     * ```
+     */
+    createFlow(options?: OAuthFlowOptions): OAuthFlow {
+      return new OAuthFlow(this, options);
     }
 
     /**
      * Exchange client credentials for an access token (machine-to-machine auth).
      *
+     * @param options - Optional `signal` / `timeoutMs` for this call
      * @returns The OAuth token response
      * @throws {SoundCloudError} When authentication fails
      *
@@ -320,20 +886,21 @@ export namespace SoundCloudClient {
      *
      * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/oauth2/post_oauth2_token
      */
-    async getClientToken(): Promise<SoundCloudToken> {
+    async getClientToken(options?: AuthCallOptions): Promise<SoundCloudToken> {
       // SC OAuth 2.1: client_credentials grant ONLY supports Basic Auth header.
       // Sending client_id/client_secret in the request body is no longer accepted
       // and will return 401 invalid_client.
       // See: https://developers.soundcloud.com/docs/api/guide#client-creds
       const credentials = Buffer.from(`${this.config.clientId}:${this.config.clientSecret}`).toString("base64");
       return this.fetch<SoundCloudToken>({
+        operation: "auth.getClientToken",
         path: "/oauth/token",
         method: "POST",
         headers: { Authorization: `Basic ${credentials}` },
         body: new URLSearchParams({
           grant_type: "client_credentials",
         }),
-      });
+      }, options);
     }
 
     /**
@@ -341,6 +908,7 @@ export namespace SoundCloudClient {
      *
      * @param code - The authorization code received from the OAuth callback
      * @param codeVerifier - PKCE code verifier if a code challenge was used
+     * @param options - Optional `signal` / `timeoutMs` for this call
      * @returns The OAuth token response including access and refresh tokens
      * @throws {SoundCloudError} When the code is invalid or expired
      *
@@ -352,7 +920,7 @@ export namespace SoundCloudClient {
      *
      * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/oauth2/post_oauth2_token
      */
-    async getUserToken(code: string, codeVerifier?: string): Promise<SoundCloudToken> {
+    async getUserToken(code: string, codeVerifier?: string, options?: AuthCallOptions): Promise<SoundCloudToken> {
       const params: Record<string, string> = {
         grant_type: "authorization_code",
         client_id: this.config.clientId,
@@ -362,16 +930,18 @@ export namespace SoundCloudClient {
       };
       if (codeVerifier) params.code_verifier = codeVerifier;
       return this.fetch<SoundCloudToken>({
+        operation: "auth.getUserToken",
         path: "/oauth/token",
         method: "POST",
         body: new URLSearchParams(params),
-      });
+      }, options);
     }
 
     /**
      * Refresh an expired access token using a refresh token.
      *
      * @param refreshToken - The refresh token from a previous token response
+     * @param options - Optional `signal` / `timeoutMs` for this call
      * @returns A new OAuth token response with fresh access and refresh tokens
      * @throws {SoundCloudError} When the refresh token is invalid or expired
      *
@@ -383,8 +953,9 @@ export namespace SoundCloudClient {
      *
      * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/oauth2/post_oauth2_token
      */
-    async refreshUserToken(refreshToken: string): Promise<SoundCloudToken> {
+    async refreshUserToken(refreshToken: string, options?: AuthCallOptions): Promise<SoundCloudToken> {
       return this.fetch<SoundCloudToken>({
+        operation: "auth.refreshUserToken",
         path: "/oauth/token",
         method: "POST",
         body: new URLSearchParams({
@@ -394,7 +965,7 @@ export namespace SoundCloudClient {
           redirect_uri: this.config.redirectUri!,
           refresh_token: refreshToken,
         }),
-      });
+      }, options);
     }
 
     /**
@@ -404,7 +975,9 @@ export namespace SoundCloudClient {
      * `api.soundcloud.com` host used by all other endpoints.
      *
      * @param accessToken - The access token to invalidate
+     * @param options - Optional `signal` / `timeoutMs` for this call
      * @throws {Error} When the sign-out request fails
+     * @throws {SoundCloudAbortError} When the call is cancelled or times out
      *
      * @example
      * ```ts
@@ -412,13 +985,14 @@ export namespace SoundCloudClient {
      * sc.clearToken();
      * ```
      */
-    async signOut(accessToken: string): Promise<void> {
-      const res = await fetch("https://secure.soundcloud.com/sign-out", {
+    async signOut(accessToken: string, options?: AuthCallOptions): Promise<void> {
+      await this.fetch<void>({
+        operation: "auth.signOut",
+        path: authUrl("/sign-out", this.transport.authBaseUrl),
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ access_token: accessToken }),
-      });
-      if (!res.ok) throw new Error(`Sign-out failed: ${res.status}`);
+        body: { access_token: accessToken },
+        ignoreBody: true,
+      }, options).catch(signOutError);
     }
   }
 
@@ -428,13 +1002,32 @@ export namespace SoundCloudClient {
    * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/me
    */
   export class Me {
-    constructor(private getToken: TokenGetter, private refreshCtx?: AutoRefreshContext) {}
-    private fetch<T>(opts: Parameters<typeof scFetch>[0]) { return scFetch<T>(opts, this.refreshCtx); }
+    constructor(
+      private getToken: TokenGetter,
+      private refreshCtx?: AutoRefreshContext,
+      private onResponse?: (meta: SCResponseMeta) => void,
+    ) {}
+    private fetch<T>(opts: PendingRequestOptions, call?: CallOptions) {
+      return withToken(opts, (o) => scFetch<T>({ ...withCallOptions(o, call), onResponse: this.onResponse }, this.refreshCtx));
+    }
+
+    /**
+     * The same methods, resolving with an {@link SCResponse} (body plus status, headers, request id,
+     * retry count and duration) instead of the bare body.
+     *
+     * @example
+     * ```ts
+     * const { data, status, requestId } = await sc.me.withResponse().getMe();
+     * ```
+     */
+    withResponse(): WithResponse<Me> {
+      return responseView((onResponse) => new Me(this.getToken, this.refreshCtx, onResponse));
+    }
 
     /**
      * Get the authenticated user's profile.
      *
-     * @param options - Optional token override
+     * @param options - Optional token override and per-call options
      * @returns The authenticated user's full profile
      * @throws {SoundCloudError} When the API returns an error
      *
@@ -446,16 +1039,16 @@ export namespace SoundCloudClient {
      *
      * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/me/get_me
      */
-    async getMe(options?: TokenOption): Promise<SoundCloudMe> {
+    async getMe(options?: CallOptions): Promise<SoundCloudMe> {
       const t = resolveToken(this.getToken, options?.token);
-      return this.fetch<SoundCloudMe>({ path: "/me", method: "GET", token: t });
+      return this.fetch<SoundCloudMe>({ operation: "me.getMe", path: "/me", method: "GET", token: t }, options);
     }
 
     /**
      * Get the authenticated user's activity feed.
      *
      * @param limit - Maximum number of activities per page
-     * @param options - Optional token override
+     * @param options - Optional token override and per-call options
      * @returns Paginated activities response with `future_href` for polling
      * @throws {SoundCloudError} When the API returns an error
      *
@@ -467,46 +1060,46 @@ export namespace SoundCloudClient {
      *
      * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/me/get_me_activities
      */
-    async getActivities(limit?: number, options?: TokenOption): Promise<SoundCloudActivitiesResponse> {
+    async getActivities(limit?: number, options?: CallOptions): Promise<SoundCloudActivitiesResponse> {
       const t = resolveToken(this.getToken, options?.token);
-      return this.fetch({ path: `/me/activities?${limit ? `limit=${limit}&` : ""}linked_partitioning=true`, method: "GET", token: t });
+      return this.fetch({ operation: "me.getActivities", path: `/me/activities?${limit ? `limit=${limit}&` : ""}linked_partitioning=true`, method: "GET", token: t }, options);
     }
 
     /**
      * Get the authenticated user's own activities (uploads, reposts).
      *
      * @param limit - Maximum number of activities per page
-     * @param options - Optional token override
+     * @param options - Optional token override and per-call options
      * @returns Paginated activities response
      * @throws {SoundCloudError} When the API returns an error
      *
      * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/me/get_me_activities_all_own
      */
-    async getActivitiesOwn(limit?: number, options?: TokenOption): Promise<SoundCloudActivitiesResponse> {
+    async getActivitiesOwn(limit?: number, options?: CallOptions): Promise<SoundCloudActivitiesResponse> {
       const t = resolveToken(this.getToken, options?.token);
-      return this.fetch({ path: `/me/activities/all/own?${limit ? `limit=${limit}&` : ""}linked_partitioning=true`, method: "GET", token: t });
+      return this.fetch({ operation: "me.getActivitiesOwn", path: `/me/activities/all/own?${limit ? `limit=${limit}&` : ""}linked_partitioning=true`, method: "GET", token: t }, options);
     }
 
     /**
      * Get track-related activities in the authenticated user's feed.
      *
      * @param limit - Maximum number of activities per page
-     * @param options - Optional token override
+     * @param options - Optional token override and per-call options
      * @returns Paginated activities response filtered to track activities
      * @throws {SoundCloudError} When the API returns an error
      *
      * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/me/get_me_activities_tracks
      */
-    async getActivitiesTracks(limit?: number, options?: TokenOption): Promise<SoundCloudActivitiesResponse> {
+    async getActivitiesTracks(limit?: number, options?: CallOptions): Promise<SoundCloudActivitiesResponse> {
       const t = resolveToken(this.getToken, options?.token);
-      return this.fetch({ path: `/me/activities/tracks?${limit ? `limit=${limit}&` : ""}linked_partitioning=true`, method: "GET", token: t });
+      return this.fetch({ operation: "me.getActivitiesTracks", path: `/me/activities/tracks?${limit ? `limit=${limit}&` : ""}linked_partitioning=true`, method: "GET", token: t }, options);
     }
 
     /**
      * Get tracks liked by the authenticated user.
      *
      * @param limit - Maximum number of tracks per page
-     * @param options - Optional token override
+     * @param options - Optional token override and per-call options
      * @returns Paginated list of liked tracks
      * @throws {SoundCloudError} When the API returns an error
      *
@@ -518,61 +1111,61 @@ export namespace SoundCloudClient {
      *
      * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/me/get_me_likes_tracks
      */
-    async getLikesTracks(limit?: number, options?: TokenOption): Promise<SoundCloudPaginatedResponse<SoundCloudTrack>> {
+    async getLikesTracks(limit?: number, options?: CallOptions): Promise<SoundCloudPaginatedResponse<SoundCloudTrack>> {
       const t = resolveToken(this.getToken, options?.token);
-      return this.fetch({ path: `/me/likes/tracks?${limit ? `limit=${limit}&` : ""}linked_partitioning=true`, method: "GET", token: t });
+      return this.fetch({ operation: "me.getLikesTracks", path: `/me/likes/tracks?${limit ? `limit=${limit}&` : ""}linked_partitioning=true`, method: "GET", token: t }, options);
     }
 
     /**
      * Get playlists liked by the authenticated user.
      *
      * @param limit - Maximum number of playlists per page
-     * @param options - Optional token override
+     * @param options - Optional token override and per-call options
      * @returns Paginated list of liked playlists
      * @throws {SoundCloudError} When the API returns an error
      *
      * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/me/get_me_likes_playlists
      */
-    async getLikesPlaylists(limit?: number, options?: TokenOption): Promise<SoundCloudPaginatedResponse<SoundCloudPlaylist>> {
+    async getLikesPlaylists(limit?: number, options?: CallOptions): Promise<SoundCloudPaginatedResponse<SoundCloudPlaylist>> {
       const t = resolveToken(this.getToken, options?.token);
-      return this.fetch({ path: `/me/likes/playlists?${limit ? `limit=${limit}&` : ""}linked_partitioning=true`, method: "GET", token: t });
+      return this.fetch({ operation: "me.getLikesPlaylists", path: `/me/likes/playlists?${limit ? `limit=${limit}&` : ""}linked_partitioning=true`, method: "GET", token: t }, options);
     }
 
     /**
      * Get users the authenticated user is following.
      *
      * @param limit - Maximum number of users per page
-     * @param options - Optional token override
+     * @param options - Optional token override and per-call options
      * @returns Paginated list of followed users
      * @throws {SoundCloudError} When the API returns an error
      *
      * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/me/get_me_followings
      */
-    async getFollowings(limit?: number, options?: TokenOption): Promise<SoundCloudPaginatedResponse<SoundCloudUser>> {
+    async getFollowings(limit?: number, options?: CallOptions): Promise<SoundCloudPaginatedResponse<SoundCloudUser>> {
       const t = resolveToken(this.getToken, options?.token);
-      return this.fetch({ path: `/me/followings?${limit ? `limit=${limit}&` : ""}linked_partitioning=true`, method: "GET", token: t });
+      return this.fetch({ operation: "me.getFollowings", path: `/me/followings?${limit ? `limit=${limit}&` : ""}linked_partitioning=true`, method: "GET", token: t }, options);
     }
 
     /**
      * Get recent tracks from users the authenticated user is following.
      *
      * @param limit - Maximum number of tracks per page
-     * @param options - Optional token override
+     * @param options - Optional token override and per-call options
      * @returns Paginated list of tracks from followed users
      * @throws {SoundCloudError} When the API returns an error
      *
      * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/me/get_me_followings_tracks
      */
-    async getFollowingsTracks(limit?: number, options?: TokenOption): Promise<SoundCloudPaginatedResponse<SoundCloudTrack>> {
+    async getFollowingsTracks(limit?: number, options?: CallOptions): Promise<SoundCloudPaginatedResponse<SoundCloudTrack>> {
       const t = resolveToken(this.getToken, options?.token);
-      return this.fetch({ path: `/me/followings/tracks?${limit ? `limit=${limit}&` : ""}linked_partitioning=true`, method: "GET", token: t });
+      return this.fetch({ operation: "me.getFollowingsTracks", path: `/me/followings/tracks?${limit ? `limit=${limit}&` : ""}linked_partitioning=true`, method: "GET", token: t }, options);
     }
 
     /**
      * Follow a user.
      *
      * @param userUrn - The user's ID or URN to follow
-     * @param options - Optional token override
+     * @param options - Optional token override and per-call options
      * @throws {SoundCloudError} When the API returns an error
      *
      * @example
@@ -582,16 +1175,16 @@ export namespace SoundCloudClient {
      *
      * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/me/put_me_followings__user_id_
      */
-    async follow(userUrn: string | number, options?: TokenOption): Promise<void> {
+    async follow(userUrn: string | number, options?: CallOptions): Promise<void> {
       const t = resolveToken(this.getToken, options?.token);
-      return this.fetch<void>({ path: `/me/followings/${userUrn}`, method: "PUT", token: t });
+      return this.fetch<void>({ operation: "me.follow", path: `/me/followings/${userUrn}`, method: "PUT", token: t, invalidates: ["/me/followings", `/users/${userUrn}`] }, options);
     }
 
     /**
      * Unfollow a user.
      *
      * @param userUrn - The user's ID or URN to unfollow
-     * @param options - Optional token override
+     * @param options - Optional token override and per-call options
      * @throws {SoundCloudError} When the API returns an error
      *
      * @example
@@ -601,60 +1194,60 @@ export namespace SoundCloudClient {
      *
      * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/me/delete_me_followings__user_id_
      */
-    async unfollow(userUrn: string | number, options?: TokenOption): Promise<void> {
+    async unfollow(userUrn: string | number, options?: CallOptions): Promise<void> {
       const t = resolveToken(this.getToken, options?.token);
-      return this.fetch<void>({ path: `/me/followings/${userUrn}`, method: "DELETE", token: t });
+      return this.fetch<void>({ operation: "me.unfollow", path: `/me/followings/${userUrn}`, method: "DELETE", token: t, invalidates: ["/me/followings", `/users/${userUrn}`] }, options);
     }
 
     /**
      * Get the authenticated user's followers.
      *
      * @param limit - Maximum number of users per page
-     * @param options - Optional token override
+     * @param options - Optional token override and per-call options
      * @returns Paginated list of follower users
      * @throws {SoundCloudError} When the API returns an error
      *
      * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/me/get_me_followers
      */
-    async getFollowers(limit?: number, options?: TokenOption): Promise<SoundCloudPaginatedResponse<SoundCloudUser>> {
+    async getFollowers(limit?: number, options?: CallOptions): Promise<SoundCloudPaginatedResponse<SoundCloudUser>> {
       const t = resolveToken(this.getToken, options?.token);
-      return this.fetch({ path: `/me/followers?${limit ? `limit=${limit}&` : ""}linked_partitioning=true`, method: "GET", token: t });
+      return this.fetch({ operation: "me.getFollowers", path: `/me/followers?${limit ? `limit=${limit}&` : ""}linked_partitioning=true`, method: "GET", token: t }, options);
     }
 
     /**
      * Get the authenticated user's playlists.
      *
      * @param limit - Maximum number of playlists per page
-     * @param options - Optional token override
+     * @param options - Optional token override and per-call options
      * @returns Paginated list of playlists
      * @throws {SoundCloudError} When the API returns an error
      *
      * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/me/get_me_playlists
      */
-    async getPlaylists(limit?: number, options?: TokenOption): Promise<SoundCloudPaginatedResponse<SoundCloudPlaylist>> {
+    async getPlaylists(limit?: number, options?: CallOptions): Promise<SoundCloudPaginatedResponse<SoundCloudPlaylist>> {
       const t = resolveToken(this.getToken, options?.token);
-      return this.fetch({ path: `/me/playlists?${limit ? `limit=${limit}&` : ""}linked_partitioning=true`, method: "GET", token: t });
+      return this.fetch({ operation: "me.getPlaylists", path: `/me/playlists?${limit ? `limit=${limit}&` : ""}linked_partitioning=true`, method: "GET", token: t }, options);
     }
 
     /**
      * Get the authenticated user's tracks.
      *
      * @param limit - Maximum number of tracks per page
-     * @param options - Optional token override
+     * @param options - Optional token override and per-call options
      * @returns Paginated list of tracks
      * @throws {SoundCloudError} When the API returns an error
      *
      * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/me/get_me_tracks
      */
-    async getTracks(limit?: number, options?: TokenOption): Promise<SoundCloudPaginatedResponse<SoundCloudTrack>> {
+    async getTracks(limit?: number, options?: CallOptions): Promise<SoundCloudPaginatedResponse<SoundCloudTrack>> {
       const t = resolveToken(this.getToken, options?.token);
-      return this.fetch({ path: `/me/tracks?${limit ? `limit=${limit}&` : ""}linked_partitioning=true`, method: "GET", token: t });
+      return this.fetch({ operation: "me.getTracks", path: `/me/tracks?${limit ? `limit=${limit}&` : ""}linked_partitioning=true`, method: "GET", token: t }, options);
     }
 
     /**
      * List the authenticated user's connected external social accounts.
      *
-     * @param options - Optional token override
+     * @param options - Optional token override and per-call options
      * @returns Array of connection objects for linked social services (Twitter, Facebook, etc.)
      * @throws {SoundCloudError} When the API returns an error
      *
@@ -668,9 +1261,9 @@ export namespace SoundCloudClient {
      *
      * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/me/get_me_connections
      */
-    async getConnections(options?: TokenOption): Promise<SoundCloudConnection[]> {
+    async getConnections(options?: CallOptions): Promise<SoundCloudConnection[]> {
       const t = resolveToken(this.getToken, options?.token);
-      return this.fetch<SoundCloudConnection[]>({ path: "/me/connections", method: "GET", token: t });
+      return this.fetch<SoundCloudConnection[]>({ operation: "me.getConnections", path: "/me/connections", method: "GET", token: t }, options);
     }
   }
 
@@ -680,14 +1273,33 @@ export namespace SoundCloudClient {
    * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/users
    */
   export class Users {
-    constructor(private getToken: TokenGetter, private refreshCtx?: AutoRefreshContext) {}
-    private fetch<T>(opts: Parameters<typeof scFetch>[0]) { return scFetch<T>(opts, this.refreshCtx); }
+    constructor(
+      private getToken: TokenGetter,
+      private refreshCtx?: AutoRefreshContext,
+      private onResponse?: (meta: SCResponseMeta) => void,
+    ) {}
+    private fetch<T>(opts: PendingRequestOptions, call?: CallOptions) {
+      return withToken(opts, (o) => scFetch<T>({ ...withCallOptions(o, call), onResponse: this.onResponse }, this.refreshCtx));
+    }
+
+    /**
+     * The same methods, resolving with an {@link SCResponse} (body plus status, headers, request id,
+     * retry count and duration) instead of the bare body.
+     *
+     * @example
+     * ```ts
+     * const { data, headers } = await sc.users.withResponse().getUser(123);
+     * ```
+     */
+    withResponse(): WithResponse<Users> {
+      return responseView((onResponse) => new Users(this.getToken, this.refreshCtx, onResponse));
+    }
 
     /**
      * Get a user's profile by ID.
      *
      * @param userId - The user's numeric ID or URN
-     * @param options - Optional token override
+     * @param options - Optional token override and per-call options
      * @returns The user's public profile
      * @throws {SoundCloudError} When the user is not found or the API returns an error
      *
@@ -699,9 +1311,9 @@ export namespace SoundCloudClient {
      *
      * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/users/get_users__user_id_
      */
-    async getUser(userId: string | number, options?: TokenOption): Promise<SoundCloudUser> {
+    async getUser(userId: string | number, options?: CallOptions): Promise<SoundCloudUser> {
       const t = resolveToken(this.getToken, options?.token);
-      return this.fetch<SoundCloudUser>({ path: `/users/${userId}`, method: "GET", token: t });
+      return this.fetch<SoundCloudUser>({ operation: "users.getUser", path: `/users/${userId}`, method: "GET", token: t }, options);
     }
 
     /**
@@ -709,15 +1321,15 @@ export namespace SoundCloudClient {
      *
      * @param userId - The user's numeric ID or URN
      * @param limit - Maximum number of followers per page
-     * @param options - Optional token override
+     * @param options - Optional token override and per-call options
      * @returns Paginated list of follower users
      * @throws {SoundCloudError} When the API returns an error
      *
      * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/users/get_users__user_id__followers
      */
-    async getFollowers(userId: string | number, limit?: number, options?: TokenOption): Promise<SoundCloudPaginatedResponse<SoundCloudUser>> {
+    async getFollowers(userId: string | number, limit?: number, options?: CallOptions): Promise<SoundCloudPaginatedResponse<SoundCloudUser>> {
       const t = resolveToken(this.getToken, options?.token);
-      return this.fetch({ path: `/users/${userId}/followers?${limit ? `limit=${limit}&` : ""}linked_partitioning=true`, method: "GET", token: t });
+      return this.fetch({ operation: "users.getFollowers", path: `/users/${userId}/followers?${limit ? `limit=${limit}&` : ""}linked_partitioning=true`, method: "GET", token: t }, options);
     }
 
     /**
@@ -725,15 +1337,15 @@ export namespace SoundCloudClient {
      *
      * @param userId - The user's numeric ID or URN
      * @param limit - Maximum number of users per page
-     * @param options - Optional token override
+     * @param options - Optional token override and per-call options
      * @returns Paginated list of followed users
      * @throws {SoundCloudError} When the API returns an error
      *
      * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/users/get_users__user_id__followings
      */
-    async getFollowings(userId: string | number, limit?: number, options?: TokenOption): Promise<SoundCloudPaginatedResponse<SoundCloudUser>> {
+    async getFollowings(userId: string | number, limit?: number, options?: CallOptions): Promise<SoundCloudPaginatedResponse<SoundCloudUser>> {
       const t = resolveToken(this.getToken, options?.token);
-      return this.fetch({ path: `/users/${userId}/followings?${limit ? `limit=${limit}&` : ""}linked_partitioning=true`, method: "GET", token: t });
+      return this.fetch({ operation: "users.getFollowings", path: `/users/${userId}/followings?${limit ? `limit=${limit}&` : ""}linked_partitioning=true`, method: "GET", token: t }, options);
     }
 
     /**
@@ -741,15 +1353,15 @@ export namespace SoundCloudClient {
      *
      * @param userId - The user's numeric ID or URN
      * @param limit - Maximum number of tracks per page
-     * @param options - Optional token override
+     * @param options - Optional token override and per-call options
      * @returns Paginated list of tracks
      * @throws {SoundCloudError} When the API returns an error
      *
      * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/users/get_users__user_id__tracks
      */
-    async getTracks(userId: string | number, limit?: number, options?: TokenOption): Promise<SoundCloudPaginatedResponse<SoundCloudTrack>> {
+    async getTracks(userId: string | number, limit?: number, options?: CallOptions): Promise<SoundCloudPaginatedResponse<SoundCloudTrack>> {
       const t = resolveToken(this.getToken, options?.token);
-      return this.fetch({ path: `/users/${userId}/tracks?${limit ? `limit=${limit}&` : ""}linked_partitioning=true`, method: "GET", token: t });
+      return this.fetch({ operation: "users.getTracks", path: `/users/${userId}/tracks?${limit ? `limit=${limit}&` : ""}linked_partitioning=true`, method: "GET", token: t }, options);
     }
 
     /**
@@ -757,15 +1369,15 @@ export namespace SoundCloudClient {
      *
      * @param userId - The user's numeric ID or URN
      * @param limit - Maximum number of playlists per page
-     * @param options - Optional token override
+     * @param options - Optional token override and per-call options
      * @returns Paginated list of playlists (without full track data)
      * @throws {SoundCloudError} When the API returns an error
      *
      * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/users/get_users__user_id__playlists
      */
-    async getPlaylists(userId: string | number, limit?: number, options?: TokenOption): Promise<SoundCloudPaginatedResponse<SoundCloudPlaylist>> {
+    async getPlaylists(userId: string | number, limit?: number, options?: CallOptions): Promise<SoundCloudPaginatedResponse<SoundCloudPlaylist>> {
       const t = resolveToken(this.getToken, options?.token);
-      return this.fetch({ path: `/users/${userId}/playlists?${limit ? `limit=${limit}&` : ""}linked_partitioning=true&show_tracks=false`, method: "GET", token: t });
+      return this.fetch({ operation: "users.getPlaylists", path: `/users/${userId}/playlists?${limit ? `limit=${limit}&` : ""}linked_partitioning=true&show_tracks=false`, method: "GET", token: t }, options);
     }
 
     /**
@@ -774,15 +1386,15 @@ export namespace SoundCloudClient {
      * @param userId - The user's numeric ID or URN
      * @param limit - Maximum number of tracks per page
      * @param cursor - Pagination cursor from a previous response's `next_href`
-     * @param options - Optional token override
+     * @param options - Optional token override and per-call options
      * @returns Paginated list of liked tracks
      * @throws {SoundCloudError} When the API returns an error
      *
      * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/users/get_users__user_id__likes_tracks
      */
-    async getLikesTracks(userId: string | number, limit?: number, cursor?: string, options?: TokenOption): Promise<SoundCloudPaginatedResponse<SoundCloudTrack>> {
+    async getLikesTracks(userId: string | number, limit?: number, cursor?: string, options?: CallOptions): Promise<SoundCloudPaginatedResponse<SoundCloudTrack>> {
       const t = resolveToken(this.getToken, options?.token);
-      return this.fetch({ path: `/users/${userId}/likes/tracks?${limit ? `limit=${limit}&` : ""}${cursor ? `cursor=${cursor}&` : ""}linked_partitioning=true`, method: "GET", token: t });
+      return this.fetch({ operation: "users.getLikesTracks", path: `/users/${userId}/likes/tracks?${limit ? `limit=${limit}&` : ""}${cursor ? `cursor=${cursor}&` : ""}linked_partitioning=true`, method: "GET", token: t }, options);
     }
 
     /**
@@ -790,22 +1402,22 @@ export namespace SoundCloudClient {
      *
      * @param userId - The user's numeric ID or URN
      * @param limit - Maximum number of playlists per page
-     * @param options - Optional token override
+     * @param options - Optional token override and per-call options
      * @returns Paginated list of liked playlists
      * @throws {SoundCloudError} When the API returns an error
      *
      * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/users/get_users__user_id__likes_playlists
      */
-    async getLikesPlaylists(userId: string | number, limit?: number, options?: TokenOption): Promise<SoundCloudPaginatedResponse<SoundCloudPlaylist>> {
+    async getLikesPlaylists(userId: string | number, limit?: number, options?: CallOptions): Promise<SoundCloudPaginatedResponse<SoundCloudPlaylist>> {
       const t = resolveToken(this.getToken, options?.token);
-      return this.fetch({ path: `/users/${userId}/likes/playlists?${limit ? `limit=${limit}&` : ""}linked_partitioning=true`, method: "GET", token: t });
+      return this.fetch({ operation: "users.getLikesPlaylists", path: `/users/${userId}/likes/playlists?${limit ? `limit=${limit}&` : ""}linked_partitioning=true`, method: "GET", token: t }, options);
     }
 
     /**
      * Get a user's external web profile links (Twitter, Instagram, etc.).
      *
      * @param userId - The user's numeric ID or URN
-     * @param options - Optional token override
+     * @param options - Optional token override and per-call options
      * @returns Array of web profile objects
      * @throws {SoundCloudError} When the API returns an error
      *
@@ -817,9 +1429,9 @@ export namespace SoundCloudClient {
      *
      * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/users/get_users__user_id__web_profiles
      */
-    async getWebProfiles(userId: string | number, options?: TokenOption): Promise<SoundCloudWebProfile[]> {
+    async getWebProfiles(userId: string | number, options?: CallOptions): Promise<SoundCloudWebProfile[]> {
       const t = resolveToken(this.getToken, options?.token);
-      return this.fetch<SoundCloudWebProfile[]>({ path: `/users/${userId}/web-profiles`, method: "GET", token: t });
+      return this.fetch<SoundCloudWebProfile[]>({ operation: "users.getWebProfiles", path: `/users/${userId}/web-profiles`, method: "GET", token: t }, options);
     }
   }
 
@@ -829,14 +1441,33 @@ export namespace SoundCloudClient {
    * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/tracks
    */
   export class Tracks {
-    constructor(private getToken: TokenGetter, private refreshCtx?: AutoRefreshContext) {}
-    private fetch<T>(opts: Parameters<typeof scFetch>[0]) { return scFetch<T>(opts, this.refreshCtx); }
+    constructor(
+      private getToken: TokenGetter,
+      private refreshCtx?: AutoRefreshContext,
+      private onResponse?: (meta: SCResponseMeta) => void,
+    ) {}
+    private fetch<T>(opts: PendingRequestOptions, call?: CallOptions) {
+      return withToken(opts, (o) => scFetch<T>({ ...withCallOptions(o, call), onResponse: this.onResponse }, this.refreshCtx));
+    }
+
+    /**
+     * The same methods, resolving with an {@link SCResponse} (body plus status, headers, request id,
+     * retry count and duration) instead of the bare body.
+     *
+     * @example
+     * ```ts
+     * const { data, status, requestId } = await sc.tracks.withResponse().getTrack(123);
+     * ```
+     */
+    withResponse(): WithResponse<Tracks> {
+      return responseView((onResponse) => new Tracks(this.getToken, this.refreshCtx, onResponse));
+    }
 
     /**
      * Get a track by ID.
      *
      * @param trackId - The track's numeric ID or URN
-     * @param options - Optional token override
+     * @param options - Optional token override and per-call options
      * @returns The track object with full metadata
      * @throws {SoundCloudError} When the track is not found or the API returns an error
      *
@@ -848,16 +1479,16 @@ export namespace SoundCloudClient {
      *
      * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/tracks/get_tracks__track_id_
      */
-    async getTrack(trackId: string | number, options?: TokenOption): Promise<SoundCloudTrack> {
+    async getTrack(trackId: string | number, options?: CallOptions): Promise<SoundCloudTrack> {
       const t = resolveToken(this.getToken, options?.token);
-      return this.fetch<SoundCloudTrack>({ path: `/tracks/${trackId}`, method: "GET", token: t });
+      return this.fetch<SoundCloudTrack>({ operation: "tracks.getTrack", path: `/tracks/${trackId}`, method: "GET", token: t }, options);
     }
 
     /**
      * Fetch multiple tracks by their IDs in a single request.
      *
      * @param ids - Array of track IDs (numeric or string URNs)
-     * @param options - Optional token override
+     * @param options - Optional token override and per-call options
      * @returns Array of track objects (may be shorter than `ids` if some tracks are unavailable)
      * @throws {SoundCloudError} When the API returns an error
      * @throws {Error} When more than 200 IDs are provided
@@ -874,19 +1505,19 @@ export namespace SoundCloudClient {
      *
      * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/tracks/get_tracks
      */
-    async getTracks(ids: (string | number)[], options?: TokenOption): Promise<SoundCloudTrack[]> {
+    async getTracks(ids: (string | number)[], options?: CallOptions): Promise<SoundCloudTrack[]> {
       if (ids.length > 200) {
         throw new Error("getTracks: SoundCloud API supports a maximum of 200 IDs per request");
       }
       const t = resolveToken(this.getToken, options?.token);
-      return this.fetch<SoundCloudTrack[]>({ path: `/tracks?ids=${ids.join(",")}`, method: "GET", token: t });
+      return this.fetch<SoundCloudTrack[]>({ operation: "tracks.getTracks", path: `/tracks?ids=${ids.join(",")}`, method: "GET", token: t }, options);
     }
 
     /**
      * Get stream URLs for a track.
      *
      * @param trackId - The track's numeric ID or URN
-     * @param options - Optional token override
+     * @param options - Optional token override and per-call options
      * @returns Object containing available stream URLs (HLS, MP3, preview)
      * @throws {SoundCloudError} When the track is not found or not streamable
      *
@@ -898,9 +1529,9 @@ export namespace SoundCloudClient {
      *
      * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/tracks/get_tracks__track_id__streams
      */
-    async getStreams(trackId: string | number, options?: TokenOption): Promise<SoundCloudStreams> {
+    async getStreams(trackId: string | number, options?: CallOptions): Promise<SoundCloudStreams> {
       const t = resolveToken(this.getToken, options?.token);
-      return this.fetch<SoundCloudStreams>({ path: `/tracks/${trackId}/streams`, method: "GET", token: t });
+      return this.fetch<SoundCloudStreams>({ operation: "tracks.getStreams", path: `/tracks/${trackId}/streams`, method: "GET", token: t }, options);
     }
 
     /**
@@ -908,15 +1539,15 @@ export namespace SoundCloudClient {
      *
      * @param trackId - The track's numeric ID or URN
      * @param limit - Maximum number of comments per page
-     * @param options - Optional token override
+     * @param options - Optional token override and per-call options
      * @returns Paginated list of comments
      * @throws {SoundCloudError} When the API returns an error
      *
      * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/tracks/get_tracks__track_id__comments
      */
-    async getComments(trackId: string | number, limit?: number, options?: TokenOption): Promise<SoundCloudPaginatedResponse<SoundCloudComment>> {
+    async getComments(trackId: string | number, limit?: number, options?: CallOptions): Promise<SoundCloudPaginatedResponse<SoundCloudComment>> {
       const t = resolveToken(this.getToken, options?.token);
-      return this.fetch({ path: `/tracks/${trackId}/comments?threaded=1&filter_replies=0${limit ? `&limit=${limit}` : ""}&linked_partitioning=true`, method: "GET", token: t });
+      return this.fetch({ operation: "tracks.getComments", path: `/tracks/${trackId}/comments?threaded=1&filter_replies=0${limit ? `&limit=${limit}` : ""}&linked_partitioning=true`, method: "GET", token: t }, options);
     }
 
     /**
@@ -925,7 +1556,7 @@ export namespace SoundCloudClient {
      * @param trackId - The track's numeric ID or URN
      * @param body - The comment text
      * @param timestamp - Position in the track in milliseconds where the comment is placed
-     * @param options - Optional token override
+     * @param options - Optional token override and per-call options
      * @returns The created comment object
      * @throws {SoundCloudError} When the API returns an error
      *
@@ -937,14 +1568,22 @@ export namespace SoundCloudClient {
      *
      * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/tracks/post_tracks__track_id__comments
      */
-    async createComment(trackId: string | number, body: string, timestamp?: number, options?: TokenOption): Promise<SoundCloudComment> {
+    async createComment(
+      trackId: string | number,
+      body: string,
+      timestamp?: number,
+      options?: CreateCallOptions<SoundCloudComment>,
+    ): Promise<SoundCloudComment> {
       const t = resolveToken(this.getToken, options?.token);
       return this.fetch<SoundCloudComment>({
+        operation: "tracks.createComment",
         path: `/tracks/${trackId}/comments`,
         method: "POST",
         token: t,
         body: { comment: { body, ...(timestamp !== undefined ? { timestamp } : {}) } },
-      });
+        invalidates: [`/tracks/${trackId}/comments`],
+        reconcile: options?.reconcile,
+      }, options);
     }
 
     /**
@@ -952,15 +1591,15 @@ export namespace SoundCloudClient {
      *
      * @param trackId - The track's numeric ID or URN
      * @param limit - Maximum number of users per page
-     * @param options - Optional token override
+     * @param options - Optional token override and per-call options
      * @returns Paginated list of users who liked the track
      * @throws {SoundCloudError} When the API returns an error
      *
      * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/tracks/get_tracks__track_id__favoriters
      */
-    async getLikes(trackId: string | number, limit?: number, options?: TokenOption): Promise<SoundCloudPaginatedResponse<SoundCloudUser>> {
+    async getLikes(trackId: string | number, limit?: number, options?: CallOptions): Promise<SoundCloudPaginatedResponse<SoundCloudUser>> {
       const t = resolveToken(this.getToken, options?.token);
-      return this.fetch({ path: `/tracks/${trackId}/favoriters?${limit ? `limit=${limit}&` : ""}linked_partitioning=true`, method: "GET", token: t });
+      return this.fetch({ operation: "tracks.getLikes", path: `/tracks/${trackId}/favoriters?${limit ? `limit=${limit}&` : ""}linked_partitioning=true`, method: "GET", token: t }, options);
     }
 
     /**
@@ -968,15 +1607,15 @@ export namespace SoundCloudClient {
      *
      * @param trackId - The track's numeric ID or URN
      * @param limit - Maximum number of users per page
-     * @param options - Optional token override
+     * @param options - Optional token override and per-call options
      * @returns Paginated list of users who reposted the track
      * @throws {SoundCloudError} When the API returns an error
      *
      * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/tracks/get_tracks__track_id__reposters
      */
-    async getReposts(trackId: string | number, limit?: number, options?: TokenOption): Promise<SoundCloudPaginatedResponse<SoundCloudUser>> {
+    async getReposts(trackId: string | number, limit?: number, options?: CallOptions): Promise<SoundCloudPaginatedResponse<SoundCloudUser>> {
       const t = resolveToken(this.getToken, options?.token);
-      return this.fetch({ path: `/tracks/${trackId}/reposters?${limit ? `limit=${limit}&` : ""}linked_partitioning=true`, method: "GET", token: t });
+      return this.fetch({ operation: "tracks.getReposts", path: `/tracks/${trackId}/reposters?${limit ? `limit=${limit}&` : ""}linked_partitioning=true`, method: "GET", token: t }, options);
     }
 
     /**
@@ -984,7 +1623,7 @@ export namespace SoundCloudClient {
      *
      * @param trackId - The track's numeric ID or URN
      * @param limit - Maximum number of related tracks to return
-     * @param options - Optional token override
+     * @param options - Optional token override and per-call options
      * @returns Array of related tracks
      * @throws {SoundCloudError} When the API returns an error
      *
@@ -996,9 +1635,9 @@ export namespace SoundCloudClient {
      *
      * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/tracks/get_tracks__track_id__related
      */
-    async getRelated(trackId: string | number, limit?: number, options?: TokenOption): Promise<SoundCloudTrack[]> {
+    async getRelated(trackId: string | number, limit?: number, options?: CallOptions): Promise<SoundCloudTrack[]> {
       const t = resolveToken(this.getToken, options?.token);
-      return this.fetch<SoundCloudTrack[]>({ path: `/tracks/${trackId}/related${limit ? `?limit=${limit}` : ""}`, method: "GET", token: t });
+      return this.fetch<SoundCloudTrack[]>({ operation: "tracks.getRelated", path: `/tracks/${trackId}/related${limit ? `?limit=${limit}` : ""}`, method: "GET", token: t }, options);
     }
 
     /**
@@ -1006,7 +1645,7 @@ export namespace SoundCloudClient {
      *
      * @param trackId - The track's numeric ID or URN
      * @param params - Fields to update (title, description, genre, etc.)
-     * @param options - Optional token override
+     * @param options - Optional token override and per-call options
      * @returns The updated track object
      * @throws {SoundCloudError} When the API returns an error
      *
@@ -1018,16 +1657,16 @@ export namespace SoundCloudClient {
      *
      * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/tracks/put_tracks__track_id_
      */
-    async update(trackId: string | number, params: UpdateTrackParams, options?: TokenOption): Promise<SoundCloudTrack> {
+    async update(trackId: string | number, params: UpdateTrackParams, options?: CallOptions): Promise<SoundCloudTrack> {
       const t = resolveToken(this.getToken, options?.token);
-      return this.fetch<SoundCloudTrack>({ path: `/tracks/${trackId}`, method: "PUT", token: t, body: { track: params } });
+      return this.fetch<SoundCloudTrack>({ operation: "tracks.update", path: `/tracks/${trackId}`, method: "PUT", token: t, body: { track: params }, invalidates: [`/tracks/${trackId}`] }, options);
     }
 
     /**
      * Delete a track.
      *
      * @param trackId - The track's numeric ID or URN
-     * @param options - Optional token override
+     * @param options - Optional token override and per-call options
      * @throws {SoundCloudError} When the API returns an error
      *
      * @example
@@ -1037,9 +1676,9 @@ export namespace SoundCloudClient {
      *
      * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/tracks/delete_tracks__track_id_
      */
-    async delete(trackId: string | number, options?: TokenOption): Promise<void> {
+    async delete(trackId: string | number, options?: CallOptions): Promise<void> {
       const t = resolveToken(this.getToken, options?.token);
-      return this.fetch<void>({ path: `/tracks/${trackId}`, method: "DELETE", token: t });
+      return this.fetch<void>({ operation: "tracks.delete", path: `/tracks/${trackId}`, method: "DELETE", token: t, invalidates: [`/tracks/${trackId}`] }, options);
     }
   }
 
@@ -1049,14 +1688,33 @@ export namespace SoundCloudClient {
    * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/playlists
    */
   export class Playlists {
-    constructor(private getToken: TokenGetter, private refreshCtx?: AutoRefreshContext) {}
-    private fetch<T>(opts: Parameters<typeof scFetch>[0]) { return scFetch<T>(opts, this.refreshCtx); }
+    constructor(
+      private getToken: TokenGetter,
+      private refreshCtx?: AutoRefreshContext,
+      private onResponse?: (meta: SCResponseMeta) => void,
+    ) {}
+    private fetch<T>(opts: PendingRequestOptions, call?: CallOptions) {
+      return withToken(opts, (o) => scFetch<T>({ ...withCallOptions(o, call), onResponse: this.onResponse }, this.refreshCtx));
+    }
+
+    /**
+     * The same methods, resolving with an {@link SCResponse} (body plus status, headers, request id,
+     * retry count and duration) instead of the bare body.
+     *
+     * @example
+     * ```ts
+     * const { data, cached } = await sc.playlists.withResponse().getPlaylist(123);
+     * ```
+     */
+    withResponse(): WithResponse<Playlists> {
+      return responseView((onResponse) => new Playlists(this.getToken, this.refreshCtx, onResponse));
+    }
 
     /**
      * Get a playlist by ID.
      *
      * @param playlistId - The playlist's numeric ID or URN
-     * @param options - Optional token override
+     * @param options - Optional token override and per-call options
      * @returns The playlist object with track data
      * @throws {SoundCloudError} When the playlist is not found or the API returns an error
      *
@@ -1068,9 +1726,9 @@ export namespace SoundCloudClient {
      *
      * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/playlists/get_playlists__playlist_id_
      */
-    async getPlaylist(playlistId: string | number, options?: TokenOption): Promise<SoundCloudPlaylist> {
+    async getPlaylist(playlistId: string | number, options?: CallOptions): Promise<SoundCloudPlaylist> {
       const t = resolveToken(this.getToken, options?.token);
-      return this.fetch<SoundCloudPlaylist>({ path: `/playlists/${playlistId}`, method: "GET", token: t });
+      return this.fetch<SoundCloudPlaylist>({ operation: "playlists.getPlaylist", path: `/playlists/${playlistId}`, method: "GET", token: t }, options);
     }
 
     /**
@@ -1079,15 +1737,15 @@ export namespace SoundCloudClient {
      * @param playlistId - The playlist's numeric ID or URN
      * @param limit - Maximum number of tracks per page
      * @param offset - Number of tracks to skip (for offset-based pagination)
-     * @param options - Optional token override
+     * @param options - Optional token override and per-call options
      * @returns Paginated list of tracks
      * @throws {SoundCloudError} When the API returns an error
      *
      * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/playlists/get_playlists__playlist_id__tracks
      */
-    async getTracks(playlistId: string | number, limit?: number, offset?: number, options?: TokenOption): Promise<SoundCloudPaginatedResponse<SoundCloudTrack>> {
+    async getTracks(playlistId: string | number, limit?: number, offset?: number, options?: CallOptions): Promise<SoundCloudPaginatedResponse<SoundCloudTrack>> {
       const t = resolveToken(this.getToken, options?.token);
-      return this.fetch({ path: `/playlists/${playlistId}/tracks?${limit ? `limit=${limit}&` : ""}linked_partitioning=true${offset ? `&offset=${offset}` : ""}`, method: "GET", token: t });
+      return this.fetch({ operation: "playlists.getTracks", path: `/playlists/${playlistId}/tracks?${limit ? `limit=${limit}&` : ""}linked_partitioning=true${offset ? `&offset=${offset}` : ""}`, method: "GET", token: t }, options);
     }
 
     /**
@@ -1095,22 +1753,22 @@ export namespace SoundCloudClient {
      *
      * @param playlistId - The playlist's numeric ID or URN
      * @param limit - Maximum number of users per page
-     * @param options - Optional token override
+     * @param options - Optional token override and per-call options
      * @returns Paginated list of users who reposted the playlist
      * @throws {SoundCloudError} When the API returns an error
      *
      * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/playlists/get_playlists__playlist_id__reposters
      */
-    async getReposts(playlistId: string | number, limit?: number, options?: TokenOption): Promise<SoundCloudPaginatedResponse<SoundCloudUser>> {
+    async getReposts(playlistId: string | number, limit?: number, options?: CallOptions): Promise<SoundCloudPaginatedResponse<SoundCloudUser>> {
       const t = resolveToken(this.getToken, options?.token);
-      return this.fetch({ path: `/playlists/${playlistId}/reposters?${limit ? `limit=${limit}&` : ""}linked_partitioning=true`, method: "GET", token: t });
+      return this.fetch({ operation: "playlists.getReposts", path: `/playlists/${playlistId}/reposters?${limit ? `limit=${limit}&` : ""}linked_partitioning=true`, method: "GET", token: t }, options);
     }
 
     /**
      * Create a new playlist.
      *
      * @param params - Playlist creation parameters (title is required)
-     * @param options - Optional token override
+     * @param options - Optional token override and per-call options
      * @returns The created playlist object
      * @throws {SoundCloudError} When the API returns an error
      *
@@ -1125,9 +1783,17 @@ export namespace SoundCloudClient {
      *
      * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/playlists/post_playlists
      */
-    async create(params: CreatePlaylistParams, options?: TokenOption): Promise<SoundCloudPlaylist> {
+    async create(params: CreatePlaylistParams, options?: CreateCallOptions<SoundCloudPlaylist>): Promise<SoundCloudPlaylist> {
       const t = resolveToken(this.getToken, options?.token);
-      return this.fetch<SoundCloudPlaylist>({ path: "/playlists", method: "POST", token: t, body: { playlist: params } });
+      return this.fetch<SoundCloudPlaylist>({
+        operation: "playlists.create",
+        path: "/playlists",
+        method: "POST",
+        token: t,
+        body: { playlist: params },
+        invalidates: ["/me/playlists"],
+        reconcile: options?.reconcile,
+      }, options);
     }
 
     /**
@@ -1135,7 +1801,7 @@ export namespace SoundCloudClient {
      *
      * @param playlistId - The playlist's numeric ID or URN
      * @param params - Fields to update
-     * @param options - Optional token override
+     * @param options - Optional token override and per-call options
      * @returns The updated playlist object
      * @throws {SoundCloudError} When the API returns an error
      *
@@ -1146,16 +1812,16 @@ export namespace SoundCloudClient {
      *
      * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/playlists/put_playlists__playlist_id_
      */
-    async update(playlistId: string | number, params: UpdatePlaylistParams, options?: TokenOption): Promise<SoundCloudPlaylist> {
+    async update(playlistId: string | number, params: UpdatePlaylistParams, options?: CallOptions): Promise<SoundCloudPlaylist> {
       const t = resolveToken(this.getToken, options?.token);
-      return this.fetch<SoundCloudPlaylist>({ path: `/playlists/${playlistId}`, method: "PUT", token: t, body: { playlist: params } });
+      return this.fetch<SoundCloudPlaylist>({ operation: "playlists.update", path: `/playlists/${playlistId}`, method: "PUT", token: t, body: { playlist: params }, invalidates: playlistPaths(playlistId) }, options);
     }
 
     /**
      * Delete a playlist.
      *
      * @param playlistId - The playlist's numeric ID or URN
-     * @param options - Optional token override
+     * @param options - Optional token override and per-call options
      * @throws {SoundCloudError} When the API returns an error
      *
      * @example
@@ -1165,9 +1831,9 @@ export namespace SoundCloudClient {
      *
      * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/playlists/delete_playlists__playlist_id_
      */
-    async delete(playlistId: string | number, options?: TokenOption): Promise<void> {
+    async delete(playlistId: string | number, options?: CallOptions): Promise<void> {
       const t = resolveToken(this.getToken, options?.token);
-      return this.fetch<void>({ path: `/playlists/${playlistId}`, method: "DELETE", token: t });
+      return this.fetch<void>({ operation: "playlists.delete", path: `/playlists/${playlistId}`, method: "DELETE", token: t, invalidates: [...playlistPaths(playlistId), "/me/playlists"] }, options);
     }
   }
 
@@ -1177,15 +1843,34 @@ export namespace SoundCloudClient {
    * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/search
    */
   export class Search {
-    constructor(private getToken: TokenGetter, private refreshCtx?: AutoRefreshContext) {}
-    private fetch<T>(opts: Parameters<typeof scFetch>[0]) { return scFetch<T>(opts, this.refreshCtx); }
+    constructor(
+      private getToken: TokenGetter,
+      private refreshCtx?: AutoRefreshContext,
+      private onResponse?: (meta: SCResponseMeta) => void,
+    ) {}
+    private fetch<T>(opts: PendingRequestOptions, call?: CallOptions) {
+      return withToken(opts, (o) => scFetch<T>({ ...withCallOptions(o, call), onResponse: this.onResponse }, this.refreshCtx));
+    }
+
+    /**
+     * The same methods, resolving with an {@link SCResponse} (body plus status, headers, request id,
+     * retry count and duration) instead of the bare body.
+     *
+     * @example
+     * ```ts
+     * const { data, durationMs } = await sc.search.withResponse().tracks('lofi');
+     * ```
+     */
+    withResponse(): WithResponse<Search> {
+      return responseView((onResponse) => new Search(this.getToken, this.refreshCtx, onResponse));
+    }
 
     /**
      * Search for tracks by query string.
      *
      * @param query - Search query text
      * @param pageNumber - Zero-based page number (10 results per page)
-     * @param options - Optional token override
+     * @param options - Optional token override and per-call options
      * @returns Paginated list of matching tracks
      * @throws {SoundCloudError} When the API returns an error
      *
@@ -1197,9 +1882,9 @@ export namespace SoundCloudClient {
      *
      * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/tracks/get_tracks
      */
-    async tracks(query: string, pageNumber?: number, options?: TokenOption): Promise<SoundCloudPaginatedResponse<SoundCloudTrack>> {
+    async tracks(query: string, pageNumber?: number, options?: CallOptions): Promise<SoundCloudPaginatedResponse<SoundCloudTrack>> {
       const t = resolveToken(this.getToken, options?.token);
-      return this.fetch({ path: `/tracks?q=${encodeURIComponent(query)}&linked_partitioning=true&limit=10${pageNumber && pageNumber > 0 ? `&offset=${10 * pageNumber}` : ""}`, method: "GET", token: t });
+      return this.fetch({ operation: "search.tracks", path: `/tracks?q=${encodeURIComponent(query)}&linked_partitioning=true&limit=10${pageNumber && pageNumber > 0 ? `&offset=${10 * pageNumber}` : ""}`, method: "GET", token: t }, options);
     }
 
     /**
@@ -1207,7 +1892,7 @@ export namespace SoundCloudClient {
      *
      * @param query - Search query text
      * @param pageNumber - Zero-based page number (10 results per page)
-     * @param options - Optional token override
+     * @param options - Optional token override and per-call options
      * @returns Paginated list of matching users
      * @throws {SoundCloudError} When the API returns an error
      *
@@ -1219,9 +1904,9 @@ export namespace SoundCloudClient {
      *
      * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/users/get_users
      */
-    async users(query: string, pageNumber?: number, options?: TokenOption): Promise<SoundCloudPaginatedResponse<SoundCloudUser>> {
+    async users(query: string, pageNumber?: number, options?: CallOptions): Promise<SoundCloudPaginatedResponse<SoundCloudUser>> {
       const t = resolveToken(this.getToken, options?.token);
-      return this.fetch({ path: `/users?q=${encodeURIComponent(query)}&linked_partitioning=true&limit=10${pageNumber && pageNumber > 0 ? `&offset=${10 * pageNumber}` : ""}`, method: "GET", token: t });
+      return this.fetch({ operation: "search.users", path: `/users?q=${encodeURIComponent(query)}&linked_partitioning=true&limit=10${pageNumber && pageNumber > 0 ? `&offset=${10 * pageNumber}` : ""}`, method: "GET", token: t }, options);
     }
 
     /**
@@ -1229,7 +1914,7 @@ export namespace SoundCloudClient {
      *
      * @param query - Search query text
      * @param pageNumber - Zero-based page number (10 results per page)
-     * @param options - Optional token override
+     * @param options - Optional token override and per-call options
      * @returns Paginated list of matching playlists
      * @throws {SoundCloudError} When the API returns an error
      *
@@ -1241,9 +1926,9 @@ export namespace SoundCloudClient {
      *
      * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/playlists/get_playlists
      */
-    async playlists(query: string, pageNumber?: number, options?: TokenOption): Promise<SoundCloudPaginatedResponse<SoundCloudPlaylist>> {
+    async playlists(query: string, pageNumber?: number, options?: CallOptions): Promise<SoundCloudPaginatedResponse<SoundCloudPlaylist>> {
       const t = resolveToken(this.getToken, options?.token);
-      return this.fetch({ path: `/playlists?q=${encodeURIComponent(query)}&linked_partitioning=true&limit=10${pageNumber && pageNumber > 0 ? `&offset=${10 * pageNumber}` : ""}`, method: "GET", token: t });
+      return this.fetch({ operation: "search.playlists", path: `/playlists?q=${encodeURIComponent(query)}&linked_partitioning=true&limit=10${pageNumber && pageNumber > 0 ? `&offset=${10 * pageNumber}` : ""}`, method: "GET", token: t }, options);
     }
   }
 
@@ -1253,14 +1938,33 @@ export namespace SoundCloudClient {
    * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/resolve
    */
   export class Resolve {
-    constructor(private getToken: TokenGetter, private refreshCtx?: AutoRefreshContext) {}
-    private fetch<T>(opts: Parameters<typeof scFetch>[0]) { return scFetch<T>(opts, this.refreshCtx); }
+    constructor(
+      private getToken: TokenGetter,
+      private refreshCtx?: AutoRefreshContext,
+      private onResponse?: (meta: SCResponseMeta) => void,
+    ) {}
+    private fetch<T>(opts: PendingRequestOptions, call?: CallOptions) {
+      return withToken(opts, (o) => scFetch<T>({ ...withCallOptions(o, call), onResponse: this.onResponse }, this.refreshCtx));
+    }
+
+    /**
+     * The same methods, resolving with an {@link SCResponse} (body plus status, headers, request id,
+     * retry count and duration) instead of the bare body.
+     *
+     * @example
+     * ```ts
+     * const { data: url, status } = await sc.resolve.withResponse().resolveUrl('https://soundcloud.com/artist/track');
+     * ```
+     */
+    withResponse(): WithResponse<Resolve> {
+      return responseView((onResponse) => new Resolve(this.getToken, this.refreshCtx, onResponse));
+    }
 
     /**
      * Resolve a SoundCloud URL to its API resource URL.
      *
      * @param url - A SoundCloud URL (e.g. "https://soundcloud.com/artist/track-name")
-     * @param options - Optional token override
+     * @param options - Optional token override and per-call options
      * @returns The resolved API resource URL (via 302 redirect)
      * @throws {SoundCloudError} When the URL cannot be resolved
      *
@@ -1272,9 +1976,9 @@ export namespace SoundCloudClient {
      *
      * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/resolve/get_resolve
      */
-    async resolveUrl(url: string, options?: TokenOption): Promise<string> {
+    async resolveUrl(url: string, options?: CallOptions): Promise<string> {
       const t = resolveToken(this.getToken, options?.token);
-      return this.fetch<string>({ path: `/resolve?url=${encodeURIComponent(url)}`, method: "GET", token: t });
+      return this.fetch<string>({ operation: "resolve.resolveUrl", path: `/resolve?url=${encodeURIComponent(url)}`, method: "GET", token: t }, options);
     }
   }
 
@@ -1284,15 +1988,35 @@ export namespace SoundCloudClient {
    * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/likes
    */
   export class Likes {
-    constructor(private getToken: TokenGetter, private refreshCtx?: AutoRefreshContext) {}
-    private fetch<T>(opts: Parameters<typeof scFetch>[0]) { return scFetch<T>(opts, this.refreshCtx); }
+    constructor(
+      private getToken: TokenGetter,
+      private refreshCtx?: AutoRefreshContext,
+      private onResponse?: (meta: SCResponseMeta) => void,
+    ) {}
+    private fetch<T>(opts: PendingRequestOptions, call?: CallOptions) {
+      return withToken(opts, (o) => scFetch<T>({ ...withCallOptions(o, call), onResponse: this.onResponse }, this.refreshCtx));
+    }
+
+    /**
+     * The same methods, resolving with an {@link SCResponse} (body plus status, headers, request id,
+     * retry count and duration) instead of the bare body.
+     *
+     * @example
+     * ```ts
+     * const { data: liked, status } = await sc.likes.withResponse().likeTrack(123);
+     * ```
+     */
+    withResponse(): WithResponse<Likes> {
+      return responseView((onResponse) => new Likes(this.getToken, this.refreshCtx, onResponse));
+    }
 
     /**
      * Like a track.
      *
      * @param trackId - The track's numeric ID or URN
-     * @param options - Optional token override
+     * @param options - Optional token override and per-call options
      * @returns `true` if the like was successful, `false` on failure
+     * @throws {SoundCloudAbortError} When the call is cancelled or times out
      *
      * @example
      * ```ts
@@ -1301,51 +2025,54 @@ export namespace SoundCloudClient {
      *
      * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/likes/post_likes_tracks__track_id_
      */
-    async likeTrack(trackId: string | number, options?: TokenOption): Promise<boolean> {
+    async likeTrack(trackId: string | number, options?: CallOptions): Promise<boolean> {
       const t = resolveToken(this.getToken, options?.token);
-      try { await this.fetch<unknown>({ path: `/likes/tracks/${trackId}`, method: "POST", token: t }); return true; } catch { return false; }
+      try { await this.fetch<unknown>({ operation: "likes.likeTrack", path: `/likes/tracks/${trackId}`, method: "POST", token: t, invalidates: likeTrackPaths(trackId) }, options); return true; } catch (err) { return falseUnlessAborted(err); }
     }
 
     /**
      * Unlike a track.
      *
      * @param trackId - The track's numeric ID or URN
-     * @param options - Optional token override
+     * @param options - Optional token override and per-call options
      * @returns `true` if the unlike was successful, `false` on failure
+     * @throws {SoundCloudAbortError} When the call is cancelled or times out
      *
      * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/likes/delete_likes_tracks__track_id_
      */
-    async unlikeTrack(trackId: string | number, options?: TokenOption): Promise<boolean> {
+    async unlikeTrack(trackId: string | number, options?: CallOptions): Promise<boolean> {
       const t = resolveToken(this.getToken, options?.token);
-      try { await this.fetch<unknown>({ path: `/likes/tracks/${trackId}`, method: "DELETE", token: t }); return true; } catch { return false; }
+      try { await this.fetch<unknown>({ operation: "likes.unlikeTrack", path: `/likes/tracks/${trackId}`, method: "DELETE", token: t, invalidates: likeTrackPaths(trackId) }, options); return true; } catch (err) { return falseUnlessAborted(err); }
     }
 
     /**
      * Like a playlist.
      *
      * @param playlistId - The playlist's numeric ID or URN
-     * @param options - Optional token override
+     * @param options - Optional token override and per-call options
      * @returns `true` if the like was successful, `false` on failure
+     * @throws {SoundCloudAbortError} When the call is cancelled or times out
      *
      * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/likes/post_likes_playlists__playlist_id_
      */
-    async likePlaylist(playlistId: string | number, options?: TokenOption): Promise<boolean> {
+    async likePlaylist(playlistId: string | number, options?: CallOptions): Promise<boolean> {
       const t = resolveToken(this.getToken, options?.token);
-      try { await this.fetch<unknown>({ path: `/likes/playlists/${playlistId}`, method: "POST", token: t }); return true; } catch { return false; }
+      try { await this.fetch<unknown>({ operation: "likes.likePlaylist", path: `/likes/playlists/${playlistId}`, method: "POST", token: t, invalidates: likePlaylistPaths(playlistId) }, options); return true; } catch (err) { return falseUnlessAborted(err); }
     }
 
     /**
      * Unlike a playlist.
      *
      * @param playlistId - The playlist's numeric ID or URN
-     * @param options - Optional token override
+     * @param options - Optional token override and per-call options
      * @returns `true` if the unlike was successful, `false` on failure
+     * @throws {SoundCloudAbortError} When the call is cancelled or times out
      *
      * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/likes/delete_likes_playlists__playlist_id_
      */
-    async unlikePlaylist(playlistId: string | number, options?: TokenOption): Promise<boolean> {
+    async unlikePlaylist(playlistId: string | number, options?: CallOptions): Promise<boolean> {
       const t = resolveToken(this.getToken, options?.token);
-      try { await this.fetch<unknown>({ path: `/likes/playlists/${playlistId}`, method: "DELETE", token: t }); return true; } catch { return false; }
+      try { await this.fetch<unknown>({ operation: "likes.unlikePlaylist", path: `/likes/playlists/${playlistId}`, method: "DELETE", token: t, invalidates: likePlaylistPaths(playlistId) }, options); return true; } catch (err) { return falseUnlessAborted(err); }
     }
   }
 
@@ -1355,15 +2082,35 @@ export namespace SoundCloudClient {
    * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/reposts
    */
   export class Reposts {
-    constructor(private getToken: TokenGetter, private refreshCtx?: AutoRefreshContext) {}
-    private fetch<T>(opts: Parameters<typeof scFetch>[0]) { return scFetch<T>(opts, this.refreshCtx); }
+    constructor(
+      private getToken: TokenGetter,
+      private refreshCtx?: AutoRefreshContext,
+      private onResponse?: (meta: SCResponseMeta) => void,
+    ) {}
+    private fetch<T>(opts: PendingRequestOptions, call?: CallOptions) {
+      return withToken(opts, (o) => scFetch<T>({ ...withCallOptions(o, call), onResponse: this.onResponse }, this.refreshCtx));
+    }
+
+    /**
+     * The same methods, resolving with an {@link SCResponse} (body plus status, headers, request id,
+     * retry count and duration) instead of the bare body.
+     *
+     * @example
+     * ```ts
+     * const { data: reposted, status } = await sc.reposts.withResponse().repostTrack(123);
+     * ```
+     */
+    withResponse(): WithResponse<Reposts> {
+      return responseView((onResponse) => new Reposts(this.getToken, this.refreshCtx, onResponse));
+    }
 
     /**
      * Repost a track to your profile.
      *
      * @param trackId - The track's numeric ID or URN
-     * @param options - Optional token override
+     * @param options - Optional token override and per-call options
      * @returns `true` if the repost was successful, `false` on failure
+     * @throws {SoundCloudAbortError} When the call is cancelled or times out
      *
      * @example
      * ```ts
@@ -1372,51 +2119,54 @@ export namespace SoundCloudClient {
      *
      * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/reposts/post_reposts_tracks__track_id_
      */
-    async repostTrack(trackId: string | number, options?: TokenOption): Promise<boolean> {
+    async repostTrack(trackId: string | number, options?: CallOptions): Promise<boolean> {
       const t = resolveToken(this.getToken, options?.token);
-      try { await this.fetch<unknown>({ path: `/reposts/tracks/${trackId}`, method: "POST", token: t }); return true; } catch { return false; }
+      try { await this.fetch<unknown>({ operation: "reposts.repostTrack", path: `/reposts/tracks/${trackId}`, method: "POST", token: t, invalidates: [`/tracks/${trackId}`, `/tracks/${trackId}/reposters`] }, options); return true; } catch (err) { return falseUnlessAborted(err); }
     }
 
     /**
      * Remove a track repost from your profile.
      *
      * @param trackId - The track's numeric ID or URN
-     * @param options - Optional token override
+     * @param options - Optional token override and per-call options
      * @returns `true` if the unrepost was successful, `false` on failure
+     * @throws {SoundCloudAbortError} When the call is cancelled or times out
      *
      * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/reposts/delete_reposts_tracks__track_id_
      */
-    async unrepostTrack(trackId: string | number, options?: TokenOption): Promise<boolean> {
+    async unrepostTrack(trackId: string | number, options?: CallOptions): Promise<boolean> {
       const t = resolveToken(this.getToken, options?.token);
-      try { await this.fetch<unknown>({ path: `/reposts/tracks/${trackId}`, method: "DELETE", token: t }); return true; } catch { return false; }
+      try { await this.fetch<unknown>({ operation: "reposts.unrepostTrack", path: `/reposts/tracks/${trackId}`, method: "DELETE", token: t, invalidates: [`/tracks/${trackId}`, `/tracks/${trackId}/reposters`] }, options); return true; } catch (err) { return falseUnlessAborted(err); }
     }
 
     /**
      * Repost a playlist to your profile.
      *
      * @param playlistId - The playlist's numeric ID or URN
-     * @param options - Optional token override
+     * @param options - Optional token override and per-call options
      * @returns `true` if the repost was successful, `false` on failure
+     * @throws {SoundCloudAbortError} When the call is cancelled or times out
      *
      * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/reposts/post_reposts_playlists__playlist_id_
      */
-    async repostPlaylist(playlistId: string | number, options?: TokenOption): Promise<boolean> {
+    async repostPlaylist(playlistId: string | number, options?: CallOptions): Promise<boolean> {
       const t = resolveToken(this.getToken, options?.token);
-      try { await this.fetch<unknown>({ path: `/reposts/playlists/${playlistId}`, method: "POST", token: t }); return true; } catch { return false; }
+      try { await this.fetch<unknown>({ operation: "reposts.repostPlaylist", path: `/reposts/playlists/${playlistId}`, method: "POST", token: t, invalidates: [`/playlists/${playlistId}`, `/playlists/${playlistId}/reposters`] }, options); return true; } catch (err) { return falseUnlessAborted(err); }
     }
 
     /**
      * Remove a playlist repost from your profile.
      *
      * @param playlistId - The playlist's numeric ID or URN
-     * @param options - Optional token override
+     * @param options - Optional token override and per-call options
      * @returns `true` if the unrepost was successful, `false` on failure
+     * @throws {SoundCloudAbortError} When the call is cancelled or times out
      *
      * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/reposts/delete_reposts_playlists__playlist_id_
      */
-    async unrepostPlaylist(playlistId: string | number, options?: TokenOption): Promise<boolean> {
+    async unrepostPlaylist(playlistId: string | number, options?: CallOptions): Promise<boolean> {
       const t = resolveToken(this.getToken, options?.token);
-      try { await this.fetch<unknown>({ path: `/reposts/playlists/${playlistId}`, method: "DELETE", token: t }); return true; } catch { return false; }
+      try { await this.fetch<unknown>({ operation: "reposts.unrepostPlaylist", path: `/reposts/playlists/${playlistId}`, method: "DELETE", token: t, invalidates: [`/playlists/${playlistId}`, `/playlists/${playlistId}/reposters`] }, options); return true; } catch (err) { return falseUnlessAborted(err); }
     }
   }
 }
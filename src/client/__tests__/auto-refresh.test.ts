@@ -0,0 +1,289 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { SoundCloudClient, type SoundCloudClientConfig, type TokenRefreshEvent } from "../SoundCloudClient.js";
+import type { TokenStore } from "../../auth/token-provider.js";
+import { MockSoundCloudApi } from "../../mock/api.js";
+import { SoundCloudError } from "../../errors.js";
+
+function setup(config: Partial<SoundCloudClientConfig> = {}) {
+  const api = new MockSoundCloudApi({ seed: { users: [{ id: 1, username: "Me" }] }, strictTokens: true });
+  const grants: string[] = [];
+  const fetch = vi.fn(async (input: string | URL | Request, init?: RequestInit) => {
+    if (String(input).endsWith("/oauth/token")) grants.push(new URLSearchParams(String(init?.body)).get("grant_type")!);
+    return api.fetch(input, init);
+  });
+  const events: TokenRefreshEvent[] = [];
+  const sc = new SoundCloudClient({ clientId: "cid", clientSecret: "cs", fetch, autoRefresh: true, onAuthEvent: (e) => events.push(e), ...config });
+  return { api, sc, grants, events };
+}
+
+describe("autoRefresh", () => {
+  it("refreshes with the stored refresh token on a 401 and keeps the rotated one", async () => {
+    const { api, sc, grants, events } = setup();
+    const token = await sc.auth.getClientToken();
+    await sc.setToken(token.access_token, token.refresh_token);
+    api.expireTokens();
+
+    await expect(sc.me.getMe()).resolves.toMatchObject({ username: "Me" });
+    expect(grants).toEqual(["client_credentials", "refresh_token"]);
+    expect(sc.accessToken).not.toBe(token.access_token);
+    expect(sc.refreshToken).toMatch(/^mock-refresh-/);
+    expect(sc.refreshToken).not.toBe(token.refresh_token);
+    expect(events).toEqual([{ type: "tokenRefreshed", source: "refresh_token", trigger: "unauthorized", accessToken: sc.accessToken }]);
+
+    // The rotated refresh token is the one used next time
+    api.expireTokens();
+    await sc.me.getMe();
+    expect(grants).toEqual(["client_credentials", "refresh_token", "refresh_token"]);
+  });
+
+  it("falls back to a client credentials grant without a refresh token", async () => {
+    const { api, sc, grants, events } = setup();
+    await sc.setToken((await sc.auth.getClientToken()).access_token);
+    api.expireTokens();
+
+    await sc.users.getUser(1);
+    expect(grants).toEqual(["client_credentials", "client_credentials"]);
+    expect(events.map((e) => [e.type, e.source])).toEqual([["tokenRefreshed", "client_credentials"]]);
+  });
+
+  it("emits refreshFailed and rejects with the grant error when the refresh token is rejected", async () => {
+    const { api, sc, events } = setup();
+    await sc.setToken((await sc.auth.getClientToken()).access_token, "revoked-refresh-token");
+    api.expireTokens();
+
+    const error = await sc.me.getMe().catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(SoundCloudError);
+    expect(error).toMatchObject({ status: 400 });
+    expect(events).toEqual([{ type: "refreshFailed", source: "refresh_token", trigger: "unauthorized", error }]);
+  });
+
+  it("persists refreshed tokens to the tokenStore", async () => {
+    const saved: [string, string | undefined][] = [];
+    let access: string | undefined;
+    let refresh: string | undefined;
+    const tokenStore: TokenStore = {
+      getAccessToken: () => access,
+      getRefreshToken: () => refresh,
+      setTokens: (a, r) => void saved.push([(access = a), (refresh = r)]),
+      clearTokens: () => void (access = refresh = undefined),
+    };
+    const { api, sc } = setup({ tokenStore });
+    const token = await sc.auth.getClientToken();
+    tokenStore.setTokens(token.access_token, token.refresh_token);
+    api.expireTokens();
+
+    await sc.me.getMe();
+    expect(saved).toHaveLength(2);
+    expect(saved[1][0]).toBe(access);
+    expect(refresh).not.toBe(token.refresh_token);
+  });
+
+  it("reports refreshes through onTokenRefresh as well, and stays off by default", async () => {
+    const onTokenRefresh = vi.fn((client: SoundCloudClient) => client.auth.getClientToken());
+    const { api, sc, events } = setup({ autoRefresh: false, onTokenRefresh });
+    await sc.setToken((await sc.auth.getClientToken()).access_token);
+    api.expireTokens();
+    await sc.me.getMe();
+    expect(onTokenRefresh).toHaveBeenCalledOnce();
+    expect(events.map((e) => e.source)).toEqual(["onTokenRefresh"]);
+
+    const off = setup({ autoRefresh: undefined });
+    await off.sc.setToken((await off.sc.auth.getClientToken()).access_token);
+    off.api.expireTokens();
+    await expect(off.sc.me.getMe()).rejects.toMatchObject({ status: 401 });
+    expect(off.grants).toEqual(["client_credentials"]);
+    expect(off.events).toEqual([]);
+  });
+});
+
+describe("expiry-aware refresh", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  /** Move the clock forward; the mock API expires its tokens by the same clock */
+  const advance = (ms: number) => vi.setSystemTime(Date.now() + ms);
+
+  it("tracks tokenExpiresAt from grants and refreshes within the skew window before the request", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const { sc, grants, events } = setup({ tokenRefreshSkewMs: 120_000 });
+    const token = await sc.auth.getClientToken();
+    await sc.setToken(token);
+    expect(sc.tokenExpiresAt).toBe(Date.now() + 3_600_000);
+    expect(sc.refreshToken).toBe(token.refresh_token);
+
+    advance(3_400_000);
+    await sc.me.getMe();
+    expect(grants).toEqual(["client_credentials"]);
+
+    advance(100_000); // 100s before expiry: inside the skew window, still valid
+    const [a, b] = await Promise.all([sc.me.getMe(), sc.users.getUser(1)]);
+    expect(a).toMatchObject({ id: 1 });
+    expect(b).toMatchObject({ id: 1 });
+    expect(grants).toEqual(["client_credentials", "refresh_token"]);
+    expect(events).toEqual([{ type: "tokenRefreshed", source: "refresh_token", trigger: "expiring", accessToken: sc.accessToken }]);
+    expect(sc.tokenExpiresAt).toBe(Date.now() + 3_600_000);
+  });
+
+  it("keeps using the current token when the early refresh fails", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const { sc, events } = setup();
+    await sc.setToken({ ...(await sc.auth.getClientToken()), refresh_token: "revoked-refresh-token" });
+    advance(3_570_000);
+
+    await expect(sc.me.getMe()).resolves.toMatchObject({ id: 1 });
+    expect(events.map((e) => [e.type, e.trigger])).toEqual([["refreshFailed", "expiring"]]);
+  });
+
+  it("does not refresh early without a refresh mechanism or a known expiry", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const manual = setup({ autoRefresh: false });
+    await manual.sc.setToken(await manual.sc.auth.getClientToken());
+    const unknown = setup();
+    await unknown.sc.setToken((await unknown.sc.auth.getClientToken()).access_token);
+    expect(unknown.sc.tokenExpiresAt).toBeUndefined();
+    advance(3_590_000);
+
+    await manual.sc.me.getMe();
+    await unknown.sc.me.getMe();
+    expect(manual.grants).toEqual(["client_credentials"]);
+    expect(unknown.grants).toEqual(["client_credentials"]);
+  });
+
+  it("refreshes on demand and reads the expiry from a tokenStore", async () => {
+    const stored: { access?: string; refresh?: string; expiresAt?: number } = {};
+    const tokenStore: TokenStore = {
+      getAccessToken: () => stored.access,
+      getRefreshToken: () => stored.refresh,
+      getExpiresAt: () => stored.expiresAt,
+      setTokens: (access, refresh, expiresAt) => void Object.assign(stored, { access, refresh, expiresAt }),
+      clearTokens: () => void Object.assign(stored, { access: undefined, refresh: undefined, expiresAt: undefined }),
+    };
+    const { sc, events } = setup({ tokenStore });
+    await sc.setToken(await sc.auth.getClientToken());
+    const before = stored.access;
+
+    const access = await sc.refreshAccessToken();
+    expect(access).not.toBe(before);
+    expect(stored).toMatchObject({ access, expiresAt: sc.tokenExpiresAt });
+    expect(events.map((e) => [e.type, e.trigger])).toEqual([["tokenRefreshed", "manual"]]);
+
+    stored.expiresAt = 42;
+    expect(sc.tokenExpiresAt).toBe(42);
+    await sc.clearToken();
+    expect(sc.tokenExpiresAt).toBeUndefined();
+  });
+});
+
+describe("single-flight refresh", () => {
+  it("coalesces concurrent 401s into one grant and replays every request with the new token", async () => {
+    const { api, sc, grants, events } = setup();
+    await sc.setToken(await sc.auth.getClientToken());
+    api.expireTokens();
+
+    const results = await Promise.all([sc.me.getMe(), sc.users.getUser(1), sc.me.getFollowings(), sc.me.getTracks(), sc.users.getUser(1, { noCache: true })]);
+    expect(results).toHaveLength(5);
+    expect(grants).toEqual(["client_credentials", "refresh_token"]);
+    expect(events).toHaveLength(1);
+  });
+
+  it("replays a 401 for an already replaced token without another grant", async () => {
+    const { api, sc, grants } = setup();
+    const first = await sc.auth.getClientToken();
+    await sc.setToken(first);
+    api.expireTokens();
+    await sc.me.getMe();
+
+    // A request that was sent with the old token answers late
+    await expect(sc.me.getMe({ token: first.access_token })).resolves.toMatchObject({ id: 1 });
+    expect(grants).toEqual(["client_credentials", "refresh_token"]);
+  });
+
+  it("refreshes under the store's lock and picks up a refresh made by another process", async () => {
+    const stored: { access?: string; refresh?: string } = {};
+    const locks: string[] = [];
+    let otherProcess: (() => Promise<void>) | undefined;
+    const tokenStore: TokenStore = {
+      getAccessToken: () => stored.access,
+      getRefreshToken: () => stored.refresh,
+      setTokens: (access, refresh) => void Object.assign(stored, { access, refresh }),
+      clearTokens: () => void Object.assign(stored, { access: undefined, refresh: undefined }),
+      async withRefreshLock(refresh) {
+        locks.push("acquired");
+        await otherProcess?.();
+        return refresh();
+      },
+    };
+    const { api, sc, grants } = setup({ tokenStore });
+    await sc.setToken(await sc.auth.getClientToken());
+    api.expireTokens();
+
+    await sc.me.getMe();
+    expect(grants).toEqual(["client_credentials", "refresh_token"]);
+
+    // Another process holds the lock first and rotates the tokens; this one must not refresh again
+    api.expireTokens();
+    otherProcess = async () => {
+      const rotated = await sc.auth.refreshUserToken(stored.refresh!);
+      Object.assign(stored, { access: rotated.access_token, refresh: rotated.refresh_token });
+    };
+    await expect(sc.me.getMe()).resolves.toMatchObject({ id: 1 });
+    expect(grants).toEqual(["client_credentials", "refresh_token", "refresh_token"]);
+    expect(locks).toHaveLength(2);
+  });
+
+  it("reuses a token another process stored between sending the request and its 401", async () => {
+    const stored: { access?: string; refresh?: string } = {};
+    const tokenStore: TokenStore = {
+      getAccessToken: () => stored.access,
+      getRefreshToken: () => stored.refresh,
+      setTokens: (access, refresh) => void Object.assign(stored, { access, refresh }),
+      clearTokens: () => void Object.assign(stored, { access: undefined, refresh: undefined }),
+      withRefreshLock: (refresh) => refresh(),
+    };
+    const api = new MockSoundCloudApi({ seed: { users: [{ id: 1, username: "Me" }] }, strictTokens: true });
+    const grants: string[] = [];
+    let inFlight: (() => void) | undefined;
+    const fetch = vi.fn(async (input: string | URL | Request, init?: RequestInit) => {
+      if (String(input).endsWith("/oauth/token")) grants.push(new URLSearchParams(String(init?.body)).get("grant_type")!);
+      // Hold the first /me request until the other process has rotated the tokens
+      if (String(input).endsWith("/me") && grants.length === 1) await new Promise<void>((resolve) => (inFlight = resolve));
+      return api.fetch(input, init);
+    });
+    const sc = new SoundCloudClient({ clientId: "cid", clientSecret: "cs", fetch, autoRefresh: true, tokenStore });
+    await sc.setToken(await sc.auth.getClientToken());
+    const sent = stored.access;
+
+    const request = sc.me.getMe();
+    await vi.waitFor(() => expect(inFlight).toBeDefined());
+    api.expireTokens();
+    const rotated = await sc.auth.refreshUserToken(stored.refresh!);
+    Object.assign(stored, { access: rotated.access_token, refresh: rotated.refresh_token });
+    inFlight!();
+
+    await expect(request).resolves.toMatchObject({ id: 1 });
+    expect(sent).not.toBe(rotated.access_token);
+    // The only refresh grant is the other process's
+    expect(grants).toEqual(["client_credentials", "refresh_token"]);
+    expect(stored).toEqual({ access: rotated.access_token, refresh: rotated.refresh_token });
+  });
+
+  it("stops refreshing after maxRefreshAttempts consecutive failures until new tokens are set", async () => {
+    const onDebug = vi.fn();
+    const { api, sc, grants, events } = setup({ maxRefreshAttempts: 2, onDebug });
+    await sc.setToken((await sc.auth.getClientToken()).access_token, "revoked-refresh-token");
+    api.expireTokens();
+
+    const errors = [];
+    for (let i = 0; i < 3; i++) errors.push(await sc.me.getMe().catch((e: unknown) => e));
+    expect(grants).toEqual(["client_credentials", "refresh_token", "refresh_token"]);
+    expect(errors.map((e) => (e as SoundCloudError).status)).toEqual([400, 400, 400]);
+    expect(errors[2]).toBe(errors[1]);
+    expect(events).toHaveLength(2);
+    expect(onDebug).toHaveBeenCalledWith("Token refresh skipped after 2 consecutive failures; call setToken() with new tokens");
+
+    await sc.setToken(await sc.auth.getClientToken());
+    api.expireTokens();
+    await expect(sc.me.getMe()).resolves.toMatchObject({ id: 1 });
+  });
+});
@@ -1,5 +1,7 @@
-import { describe, it, expect } from "vitest";
-import type { SoundCloudCache, SoundCloudCacheEntry } from "../cache.js";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { ResponseCache, type SoundCloudCache, type SoundCloudCacheEntry } from "../cache.js";
+import { SoundCloudClient } from "../SoundCloudClient.js";
+import { mockFetch } from "../../__tests__/helpers.js";
 
 /**
  * A simple in-memory implementation of SoundCloudCache for testing the interface contract.
@@ -91,3 +93,265 @@ describe("SoundCloudCacheEntry type contract", () => {
     expect(typeof entry.expiresAt).toBe("number");
   });
 });
+
+describe("ResponseCache", () => {
+  it("derives keys from method, path and token without exposing the token", () => {
+    const rc = new ResponseCache(new InMemoryCache());
+    const key = rc.key("GET", "/tracks/1", "secret-token");
+    expect(key).toMatch(/^sc:GET:\/tracks\/1:[0-9a-f]{8}$/);
+    expect(key).not.toContain("secret-token");
+    expect(rc.key("GET", "/tracks/1", "other")).not.toBe(key);
+    expect(rc.key("GET", "/tracks/1")).toBe("sc:GET:/tracks/1:anon");
+  });
+
+  it("treats absolute api.soundcloud.com URLs like relative paths", () => {
+    const rc = new ResponseCache(new InMemoryCache());
+    expect(rc.key("GET", "https://api.soundcloud.com/tracks?page=2", "t")).toBe(rc.key("GET", "/tracks?page=2", "t"));
+  });
+
+  it("does not store undefined results", async () => {
+    const backend = new InMemoryCache();
+    const rc = new ResponseCache(backend);
+    await rc.wrap("/empty", "t", async () => ({ value: undefined }));
+    expect(backend.size).toBe(0);
+  });
+
+  it("invalidate drops every indexed variant of a pathname", async () => {
+    const backend = new InMemoryCache();
+    const rc = new ResponseCache(backend);
+    await rc.wrap("/playlists/1/tracks?limit=5", "a", async () => ({ value: { n: 1 } }));
+    await rc.wrap("/playlists/1/tracks?limit=10", "b", async () => ({ value: { n: 2 } }));
+    await rc.wrap("/playlists/2", "a", async () => ({ value: { n: 3 } }));
+    await rc.invalidate(["/playlists/1/tracks"], "a");
+    expect(backend.size).toBe(1);
+  });
+
+  it("prunes expired keys from the pathname index", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    try {
+      const rc = new ResponseCache(new InMemoryCache(), 1000, 0);
+      const index = (rc as unknown as { keysByPathname: Map<string, Map<string, number>> }).keysByPathname;
+      for (let i = 0; i < 999; i++) await rc.wrap(`/tracks/${i}`, "t", async () => ({ value: i }));
+      expect(index.size).toBe(999);
+
+      vi.setSystemTime(Date.now() + 1000);
+      await rc.wrap("/tracks/live", "t", async () => ({ value: 1 }));
+      expect([...index.keys()]).toEqual(["/tracks/live"]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe("SoundCloudClient cache integration", () => {
+  beforeEach(() => { vi.restoreAllMocks(); });
+
+  const makeClient = (cache: SoundCloudCache, cacheTtlMs?: number) => {
+    const sc = new SoundCloudClient({ clientId: "cid", clientSecret: "cs", cache, cacheTtlMs });
+    sc.setToken("tok");
+    return sc;
+  };
+
+  it("serves repeated GETs from the cache", async () => {
+    const fn = mockFetch({ json: { id: 1, title: "cached" } });
+    const sc = makeClient(new InMemoryCache());
+
+    const a = await sc.tracks.getTrack(1);
+    const b = await sc.tracks.getTrack(1);
+
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(b).toEqual(a);
+  });
+
+  it("keys entries by token identity", async () => {
+    const fn = mockFetch({ json: { id: 1 } });
+    const sc = makeClient(new InMemoryCache());
+
+    await sc.users.getUser(1);
+    await sc.users.getUser(1, { token: "someone-else" });
+
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it("uses cacheTtlMs as the default TTL and honours per-call overrides", async () => {
+    mockFetch({ json: { id: 1 } });
+    const backend = new InMemoryCache();
+    const set = vi.spyOn(backend, "set");
+    const sc = makeClient(backend, 5000);
+
+    await sc.playlists.getPlaylist(1);
+    await sc.playlists.getPlaylist(2, { cacheTtlMs: 100 });
+
+    expect(set.mock.calls[0][2]).toEqual({ ttlMs: 5000 });
+    expect(set.mock.calls[1][2]).toEqual({ ttlMs: 100 });
+  });
+
+  it("noCache bypasses the lookup but refreshes the entry", async () => {
+    const fn = mockFetch({ json: { id: 1 } });
+    const sc = makeClient(new InMemoryCache());
+
+    await sc.tracks.getTrack(1);
+    await sc.tracks.getTrack(1, { noCache: true });
+    await sc.tracks.getTrack(1);
+
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it("caches search and resolve results", async () => {
+    const fn = mockFetch({ status: 302, headers: { location: "https://api.soundcloud.com/tracks/1" } });
+    const sc = makeClient(new InMemoryCache());
+
+    await sc.resolve.resolveUrl("https://soundcloud.com/a/b");
+    const url = await sc.resolve.resolveUrl("https://soundcloud.com/a/b");
+
+    expect(url).toBe("https://api.soundcloud.com/tracks/1");
+    expect(fn).toHaveBeenCalledTimes(1);
+
+    mockFetch({ json: { collection: [], next_href: null } });
+    await sc.search.tracks("lofi");
+    const fn2 = mockFetch({ json: { collection: [], next_href: null } });
+    await sc.search.tracks("lofi");
+    expect(fn2).not.toHaveBeenCalled();
+  });
+
+  it("tracks.update invalidates the cached track", async () => {
+    const fn = mockFetch({ json: { id: 1 } });
+    const sc = makeClient(new InMemoryCache());
+
+    await sc.tracks.getTrack(1);
+    await sc.tracks.update(1, { title: "new" });
+    await sc.tracks.getTrack(1);
+
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it("likes and reposts invalidate the affected resource", async () => {
+    const fn = mockFetch({ json: { id: 1 } });
+    const sc = makeClient(new InMemoryCache());
+
+    await sc.playlists.getPlaylist(7);
+    await sc.likes.likePlaylist(7);
+    await sc.playlists.getPlaylist(7);
+    await sc.reposts.repostPlaylist(7);
+    await sc.playlists.getPlaylist(7);
+
+    expect(fn).toHaveBeenCalledTimes(5);
+  });
+
+  it("does not invalidate when the mutation fails", async () => {
+    mockFetch({ json: { id: 1 } });
+    const sc = makeClient(new InMemoryCache());
+    await sc.tracks.getTrack(1);
+
+    mockFetch({ status: 403, statusText: "Forbidden", json: {} });
+    expect(await sc.likes.likeTrack(1)).toBe(false);
+
+    const fn = mockFetch({ json: { id: 1 } });
+    await sc.tracks.getTrack(1);
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it("caches next_href pages fetched during pagination", async () => {
+    const backend = new InMemoryCache();
+    const sc = makeClient(backend);
+    const pages = [
+      { json: { collection: [1], next_href: "https://api.soundcloud.com/tracks?page=2" } },
+      { json: { collection: [2], next_href: null } },
+    ];
+
+    for (let run = 0; run < 2; run++) {
+      let i = 0;
+      globalThis.fetch = vi.fn().mockImplementation(() => {
+        const page = pages[i++];
+        return Promise.resolve({ status: 200, ok: true, json: () => Promise.resolve(page.json), headers: { get: () => null } });
+      }) as unknown as typeof fetch;
+      const all = await sc.fetchAll(() => sc.search.tracks("q") as never);
+      expect(all).toEqual([1, 2]);
+      expect(globalThis.fetch).toHaveBeenCalledTimes(run === 0 ? 2 : 0);
+    }
+  });
+});
+
+describe("conditional revalidation", () => {
+  beforeEach(() => { vi.useFakeTimers({ toFake: ["Date"] }); });
+  afterEach(() => { vi.useRealTimers(); });
+
+  const respond = (status: number, headers: Record<string, string> = {}, json: unknown = { id: 1, title: "v1" }) => ({
+    status,
+    statusText: status === 304 ? "Not Modified" : "OK",
+    ok: status < 300,
+    json: () => Promise.resolve(json),
+    headers: new Headers(headers),
+  });
+
+  const makeClient = (backend: SoundCloudCache, fetchFn: ReturnType<typeof vi.fn>) => {
+    const sc = new SoundCloudClient({
+      clientId: "cid",
+      clientSecret: "cs",
+      cache: backend,
+      cacheTtlMs: 1000,
+      fetch: fetchFn as unknown as typeof fetch,
+    });
+    sc.setToken("tok");
+    return sc;
+  };
+
+  it("revalidates a stale entry with If-None-Match and serves a 304 from the cache", async () => {
+    const fetchFn = vi.fn()
+      .mockResolvedValueOnce(respond(200, { etag: '"abc"' }))
+      .mockResolvedValueOnce(respond(304, { etag: '"abc"' }));
+    const sc = makeClient(new InMemoryCache(), fetchFn);
+
+    const first = await sc.users.getUser(1);
+    vi.advanceTimersByTime(1500);
+    const second = await sc.users.getUser(1);
+    const third = await sc.users.getUser(1);
+
+    expect(second).toEqual(first);
+    expect(third).toEqual(first);
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+    expect(fetchFn.mock.calls[1][1].headers["If-None-Match"]).toBe('"abc"');
+  });
+
+  it("sends If-Modified-Since and stores a changed response", async () => {
+    const lastModified = "Mon, 01 Jan 2024 00:00:00 GMT";
+    const fetchFn = vi.fn()
+      .mockResolvedValueOnce(respond(200, { "last-modified": lastModified }))
+      .mockResolvedValueOnce(respond(200, { "last-modified": lastModified }, { id: 1, title: "v2" }));
+    const sc = makeClient(new InMemoryCache(), fetchFn);
+
+    await sc.playlists.getPlaylist(1);
+    vi.advanceTimersByTime(1500);
+    const updated = await sc.playlists.getPlaylist(1);
+
+    expect(fetchFn.mock.calls[1][1].headers["If-Modified-Since"]).toBe(lastModified);
+    expect(updated).toEqual({ id: 1, title: "v2" });
+  });
+
+  it("sends unconditional requests for responses without validators or with noCache", async () => {
+    const fetchFn = vi.fn().mockImplementation(() => Promise.resolve(respond(200)));
+    const sc = makeClient(new InMemoryCache(), fetchFn);
+
+    await sc.tracks.getTrack(1);
+    vi.advanceTimersByTime(1500);
+    await sc.tracks.getTrack(1);
+    expect(fetchFn.mock.calls[1][1].headers).not.toHaveProperty("If-None-Match");
+
+    fetchFn.mockImplementation(() => Promise.resolve(respond(200, { etag: '"x"' })));
+    await sc.tracks.getTrack(2);
+    vi.advanceTimersByTime(1500);
+    await sc.tracks.getTrack(2, { noCache: true });
+    expect(fetchFn.mock.calls[3][1].headers).not.toHaveProperty("If-None-Match");
+  });
+
+  it("drops validators when a mutation invalidates the resource", async () => {
+    const backend = new InMemoryCache();
+    const fetchFn = vi.fn().mockImplementation(() => Promise.resolve(respond(200, { etag: '"abc"' })));
+    const sc = makeClient(backend, fetchFn);
+
+    await sc.tracks.getTrack(1);
+    expect(backend.size).toBe(2);
+    await sc.tracks.update(1, { title: "new" });
+    expect(backend.size).toBe(0);
+  });
+});
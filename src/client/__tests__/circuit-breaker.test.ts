@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { CircuitBreaker, type CircuitStateChange } from "../circuit-breaker.js";
+import { scFetch, type SCRequestTelemetry } from "../http.js";
+import { SoundCloudClient } from "../SoundCloudClient.js";
+import { SoundCloudCircuitOpenError, SoundCloudError } from "../../errors.js";
+
+const ok = () => Promise.resolve({ status: 200 });
+const serverError = () => Promise.resolve({ status: 503 });
+const isFailure = (r: { status: number }) => r.status >= 500;
+
+function statusFetch(status: number) {
+  return vi.fn().mockResolvedValue({
+    status,
+    statusText: status >= 500 ? "Service Unavailable" : "OK",
+    ok: status < 400,
+    json: () => Promise.resolve({ id: 1 }),
+    headers: { get: () => null },
+  });
+}
+
+describe("CircuitBreaker", () => {
+  beforeEach(() => { vi.useFakeTimers(); });
+  afterEach(() => { vi.useRealTimers(); });
+
+  it("opens once the failure ratio reaches the threshold", async () => {
+    const changes: CircuitStateChange[] = [];
+    const breaker = new CircuitBreaker({ minimumRequests: 4, failureThreshold: 0.5, onStateChange: (c) => changes.push(c) });
+
+    await breaker.call(ok, isFailure);
+    await breaker.call(ok, isFailure);
+    await breaker.call(serverError, isFailure);
+    expect(breaker.state).toBe("closed");
+    await breaker.call(serverError, isFailure);
+
+    expect(breaker.state).toBe("open");
+    expect(changes).toEqual([{ from: "closed", to: "open", failureRatio: 0.5 }]);
+  });
+
+  it("fails fast while open without running the attempt", async () => {
+    const breaker = new CircuitBreaker({ minimumRequests: 1, openMs: 10_000 });
+    await breaker.call(serverError, isFailure);
+    vi.advanceTimersByTime(4000);
+
+    const attempt = vi.fn(ok);
+    const err = await breaker.call(attempt, isFailure).catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(SoundCloudCircuitOpenError);
+    expect(err).toBeInstanceOf(SoundCloudError);
+    expect((err as SoundCloudCircuitOpenError).retryAfterMs).toBe(6000);
+    expect((err as SoundCloudCircuitOpenError).status).toBe(503);
+    expect(attempt).not.toHaveBeenCalled();
+  });
+
+  it("counts rejected attempts as failures unless aborted", async () => {
+    const breaker = new CircuitBreaker({ minimumRequests: 2 });
+    const controller = new AbortController();
+    controller.abort();
+    await expect(breaker.call(() => Promise.reject(new Error("aborted")), isFailure, controller.signal)).rejects.toThrow();
+    await expect(breaker.call(() => Promise.reject(new Error("ECONNRESET")), isFailure)).rejects.toThrow();
+    expect(breaker.state).toBe("closed");
+    await expect(breaker.call(() => Promise.reject(new Error("ECONNRESET")), isFailure)).rejects.toThrow();
+    expect(breaker.state).toBe("open");
+  });
+
+  it("half-opens after openMs and closes when the probe succeeds", async () => {
+    const changes: string[] = [];
+    const breaker = new CircuitBreaker({ minimumRequests: 1, openMs: 1000, onStateChange: (c) => changes.push(c.to) });
+    await breaker.call(serverError, isFailure);
+    vi.advanceTimersByTime(1000);
+
+    expect(breaker.state).toBe("half-open");
+    await breaker.call(ok, isFailure);
+    expect(breaker.state).toBe("closed");
+    expect(changes).toEqual(["open", "half-open", "closed"]);
+  });
+
+  it("limits half-open probes and reopens when a probe fails", async () => {
+    const breaker = new CircuitBreaker({ minimumRequests: 1, openMs: 1000 });
+    await breaker.call(serverError, isFailure);
+    vi.advanceTimersByTime(1000);
+
+    let finishProbe!: (r: { status: number }) => void;
+    const probe = breaker.call(() => new Promise<{ status: number }>((r) => { finishProbe = r; }), isFailure);
+    await expect(breaker.call(ok, isFailure)).rejects.toMatchObject({ retryAfterMs: 0 });
+
+    finishProbe({ status: 500 });
+    await probe;
+    expect(breaker.state).toBe("open");
+  });
+
+  it("reset() closes the circuit", async () => {
+    const breaker = new CircuitBreaker({ minimumRequests: 1 });
+    await breaker.call(serverError, isFailure);
+    breaker.reset();
+    expect(breaker.state).toBe("closed");
+    expect(breaker.failureRatio).toBe(0);
+  });
+});
+
+describe("circuit breaker in the request pipeline", () => {
+  it("stops retrying once the circuit opens mid-request and reports telemetry", async () => {
+    const fetchFn = statusFetch(503);
+    const onRequest = vi.fn<(t: SCRequestTelemetry) => void>();
+    const breaker = new CircuitBreaker({ minimumRequests: 2 });
+    const ctx = {
+      getToken: () => "tok",
+      setToken: () => {},
+      retry: { maxRetries: 5, retryBaseDelay: 0 },
+      fetch: fetchFn as unknown as typeof fetch,
+      circuitBreaker: breaker,
+      onRequest,
+    };
+
+    await expect(scFetch({ path: "/tracks/1", method: "GET" }, ctx)).rejects.toBeInstanceOf(SoundCloudCircuitOpenError);
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+    expect(onRequest.mock.calls[0][0]).toMatchObject({ status: 503, error: expect.stringContaining("Circuit breaker is open") });
+  });
+
+  it("does not count 4xx responses as failures", async () => {
+    const breaker = new CircuitBreaker({ minimumRequests: 1 });
+    const fetchFn = statusFetch(404);
+    await expect(scFetch({ path: "/tracks/1", method: "GET", fetch: fetchFn as unknown as typeof fetch, circuitBreaker: breaker })).rejects.toThrow();
+    expect(breaker.state).toBe("closed");
+  });
+
+  it("is shared by namespaces and raw on a client", async () => {
+    const fetchFn = statusFetch(500);
+    const c = new SoundCloudClient({
+      clientId: "cid",
+      clientSecret: "cs",
+      fetch: fetchFn as unknown as typeof fetch,
+      maxRetries: 0,
+      circuitBreaker: { minimumRequests: 1 },
+    });
+    c.setToken("tok");
+
+    await expect(c.tracks.getTrack(1)).rejects.toMatchObject({ status: 500 });
+    await expect(c.users.getUser(1)).rejects.toBeInstanceOf(SoundCloudCircuitOpenError);
+    await expect(c.raw.get("/me")).rejects.toBeInstanceOf(SoundCloudCircuitOpenError);
+    expect(fetchFn).toHaveBeenCalledOnce();
+  });
+});
@@ -1,5 +1,7 @@
-import { describe, it, expect, vi } from "vitest";
+import { describe, it, expect, vi, beforeEach } from "vitest";
 import { InFlightDeduper } from "../dedupe.js";
+import { SoundCloudClient } from "../SoundCloudClient.js";
+import type { SCRequestTelemetry } from "../http.js";
 
 describe("InFlightDeduper", () => {
   it("returns the same promise for concurrent identical keys", () => {
@@ -79,6 +81,14 @@ describe("InFlightDeduper", () => {
     expect(factoryB).toHaveBeenCalledTimes(1);
   });
 
+  it(".has reports whether a key is in flight", async () => {
+    const deduper = new InFlightDeduper();
+    const p = deduper.add("k", () => Promise.resolve(1));
+    expect(deduper.has("k")).toBe(true);
+    await p;
+    expect(deduper.has("k")).toBe(false);
+  });
+
   it(".size reflects in-flight count", () => {
     const deduper = new InFlightDeduper();
 
@@ -89,3 +99,128 @@ describe("InFlightDeduper", () => {
     expect(deduper.size).toBe(2);
   });
 });
+
+/** A fetch mock whose responses stay pending until `release()` is called. */
+function deferredFetch(json: unknown, status = 200) {
+  const pending: Array<() => void> = [];
+  const fn = vi.fn().mockImplementation(
+    () =>
+      new Promise((resolve) => {
+        pending.push(() =>
+          resolve({
+            status,
+            statusText: status === 200 ? "OK" : "Error",
+            ok: status >= 200 && status < 300,
+            json: () => Promise.resolve(json),
+            headers: { get: () => null },
+          }),
+        );
+      }),
+  );
+  globalThis.fetch = fn as unknown as typeof fetch;
+  return { fn, release: () => pending.splice(0).forEach((r) => r()) };
+}
+
+describe("SoundCloudClient dedupe integration", () => {
+  beforeEach(() => { vi.restoreAllMocks(); });
+
+  const makeClient = (extra?: { dedupe?: boolean; onRequest?: (t: SCRequestTelemetry) => void }) => {
+    const sc = new SoundCloudClient({ clientId: "cid", clientSecret: "cs", maxRetries: 0, ...extra });
+    sc.setToken("tok");
+    return sc;
+  };
+
+  it("shares one request between identical concurrent GETs", async () => {
+    const { fn, release } = deferredFetch({ id: 1 });
+    const sc = makeClient();
+
+    const calls = Promise.all([sc.users.getUser(1), sc.users.getUser(1), sc.users.getUser(1)]);
+    await Promise.resolve();
+    release();
+    const [a, b, c] = await calls;
+
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(a).toEqual({ id: 1 });
+    expect(b).toBe(a);
+    expect(c).toBe(a);
+  });
+
+  it("keeps requests with different tokens separate", async () => {
+    const { fn, release } = deferredFetch({ id: 1 });
+    const sc = makeClient();
+
+    const calls = Promise.all([sc.tracks.getTrack(1), sc.tracks.getTrack(1, { token: "other" })]);
+    await Promise.resolve();
+    release();
+    await calls;
+
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it("never dedupes mutations", async () => {
+    const { fn, release } = deferredFetch({ id: 1 });
+    const sc = makeClient();
+
+    const calls = Promise.all([sc.tracks.update(1, { title: "a" }), sc.tracks.update(1, { title: "a" })]);
+    await Promise.resolve();
+    release();
+    await calls;
+
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it("can be disabled with dedupe: false", async () => {
+    const { fn, release } = deferredFetch({ id: 1 });
+    const sc = makeClient({ dedupe: false });
+
+    const calls = Promise.all([sc.users.getUser(1), sc.users.getUser(1)]);
+    await Promise.resolve();
+    release();
+    await calls;
+
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it("propagates a shared failure to every caller", async () => {
+    const { release } = deferredFetch({ message: "nope" }, 404);
+    const sc = makeClient();
+
+    const calls = Promise.allSettled([sc.users.getUser(1), sc.users.getUser(1)]);
+    await Promise.resolve();
+    release();
+    const results = await calls;
+
+    expect(results.map((r) => r.status)).toEqual(["rejected", "rejected"]);
+  });
+
+  it("reports joined calls in telemetry with deduped: true", async () => {
+    const onRequest = vi.fn();
+    const { release } = deferredFetch({ id: 1 });
+    const sc = makeClient({ onRequest });
+
+    const calls = Promise.all([sc.users.getUser(1), sc.users.getUser(1)]);
+    await Promise.resolve();
+    release();
+    await calls;
+
+    const events = onRequest.mock.calls.map((c) => c[0] as SCRequestTelemetry);
+    expect(events).toHaveLength(2);
+    expect(events.filter((t) => t.deduped)).toHaveLength(1);
+    expect(events.find((t) => t.deduped)?.status).toBe(200);
+  });
+
+  it("shares concurrent next_href page fetches", async () => {
+    const { fn, release } = deferredFetch({ collection: [2], next_href: null });
+    const sc = makeClient();
+    const first = () => Promise.resolve({ collection: [1], next_href: "https://api.soundcloud.com/tracks?page=2" });
+
+    const calls = Promise.all([sc.fetchAll(first), sc.fetchAll(first)]);
+    await new Promise((r) => setTimeout(r, 0));
+    release();
+    const [a, b] = await calls;
+
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(a).toEqual([1, 2]);
+    expect(b).toEqual([1, 2]);
+  });
+});
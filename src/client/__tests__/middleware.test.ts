@@ -0,0 +1,150 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { composeMiddleware, type Middleware, type MiddlewareResponse } from "../middleware.js";
+import { scFetch, scFetchUrl, type SCRequestTelemetry } from "../http.js";
+import { SoundCloudClient } from "../SoundCloudClient.js";
+import { SoundCloudError } from "../../errors.js";
+
+function jsonFetch(json: unknown, status = 200) {
+  return vi.fn().mockResolvedValue({
+    status,
+    statusText: status === 200 ? "OK" : "Not Found",
+    ok: status >= 200 && status < 300,
+    json: () => Promise.resolve(json),
+    headers: {
+      get: () => null,
+      forEach: (cb: (v: string, k: string) => void) => cb("abc", "x-request-id"),
+    },
+  });
+}
+
+const canned: MiddlewareResponse = { status: 200, headers: { "x-canned": "1" }, data: { id: 42 } };
+
+beforeEach(() => { vi.restoreAllMocks(); });
+
+describe("composeMiddleware", () => {
+  it("runs middleware outermost first around the core", async () => {
+    const order: string[] = [];
+    const tag = (name: string): Middleware => async (request, next) => {
+      order.push(`${name}:in`);
+      const response = await next(request);
+      order.push(`${name}:out`);
+      return response;
+    };
+    const core = vi.fn(async () => {
+      order.push("core");
+      return canned;
+    });
+
+    await composeMiddleware([tag("a"), tag("b")], core)({ method: "GET", url: "https://x", headers: {} });
+    expect(order).toEqual(["a:in", "b:in", "core", "b:out", "a:out"]);
+  });
+
+  it("calls the core directly when there is no middleware", async () => {
+    const core = vi.fn().mockResolvedValue(canned);
+    expect(await composeMiddleware([], core)({ method: "GET", url: "https://x", headers: {} })).toBe(canned);
+  });
+});
+
+describe("scFetch middleware", () => {
+  it("lets middleware rewrite the URL and headers", async () => {
+    const fetchFn = jsonFetch({ id: 1 });
+    const mw: Middleware = (request, next) =>
+      next({ ...request, url: `${request.url}?signed=1`, headers: { ...request.headers, "X-Signature": "sig" } });
+    await scFetch({ path: "/tracks/1", method: "GET", token: "tok", fetch: fetchFn as unknown as typeof fetch, middleware: [mw] });
+    expect(fetchFn.mock.calls[0][0]).toBe("https://api.soundcloud.com/tracks/1?signed=1");
+    expect(fetchFn.mock.calls[0][1].headers).toMatchObject({ Authorization: "OAuth tok", "X-Signature": "sig" });
+  });
+
+  it("short-circuits with a synthetic response and still reports telemetry", async () => {
+    const fetchFn = jsonFetch({});
+    const onRequest = vi.fn<(t: SCRequestTelemetry) => void>();
+    const result = await scFetch<{ id: number; _meta?: unknown }>(
+      { path: "/tracks/1", method: "GET", fetch: fetchFn as unknown as typeof fetch, middleware: [async () => canned] },
+      undefined,
+      onRequest,
+    );
+    expect(result).toEqual({ id: 42 });
+    expect(result._meta).toEqual({ status: 200, headers: { "x-canned": "1" } });
+    expect(fetchFn).not.toHaveBeenCalled();
+    expect(onRequest.mock.calls[0][0]).toMatchObject({ status: 200, path: "/tracks/1" });
+  });
+
+  it("lets middleware transform the parsed body", async () => {
+    const fetchFn = jsonFetch({ id: 1, title: "song" });
+    const upper: Middleware = async (request, next) => {
+      const response = await next(request);
+      const data = response.data as { title: string };
+      return { ...response, data: { ...data, title: data.title.toUpperCase() } };
+    };
+    const track = await scFetch<{ title: string }>({ path: "/tracks/1", method: "GET", fetch: fetchFn as unknown as typeof fetch, middleware: [upper] });
+    expect(track.title).toBe("SONG");
+  });
+
+  it("lets middleware wrap errors thrown for error statuses", async () => {
+    class NotFound extends Error {}
+    const fetchFn = jsonFetch({ message: "missing" }, 404);
+    const wrap: Middleware = async (request, next) => {
+      try {
+        return await next(request);
+      } catch (err) {
+        if (err instanceof SoundCloudError && err.isNotFound) throw new NotFound(request.url, { cause: err });
+        throw err;
+      }
+    };
+    const onRequest = vi.fn<(t: SCRequestTelemetry) => void>();
+    await expect(
+      scFetch({ path: "/tracks/1", method: "GET", fetch: fetchFn as unknown as typeof fetch, middleware: [wrap] }, undefined, onRequest),
+    ).rejects.toBeInstanceOf(NotFound);
+    expect(onRequest.mock.calls[0][0]).toMatchObject({ status: 404, error: "https://api.soundcloud.com/tracks/1" });
+  });
+
+  it("runs middleware for scFetchUrl", async () => {
+    const fetchFn = jsonFetch({ collection: [], next_href: null });
+    const seen = vi.fn();
+    const mw: Middleware = (request, next) => {
+      seen(request.url);
+      return next(request);
+    };
+    await scFetchUrl("https://api.soundcloud.com/tracks?page=2", "tok", undefined, undefined, { fetch: fetchFn as unknown as typeof fetch, middleware: [mw] });
+    expect(seen).toHaveBeenCalledWith("https://api.soundcloud.com/tracks?page=2");
+  });
+});
+
+describe("SoundCloudClient middleware", () => {
+  const addHeader: Middleware = (request, next) => next({ ...request, headers: { ...request.headers, "X-Team": "audio" } });
+
+  it("applies config.middleware to namespace, pagination and raw requests", async () => {
+    const fetchFn = jsonFetch({ collection: [], next_href: null });
+    const c = new SoundCloudClient({ clientId: "cid", clientSecret: "cs", fetch: fetchFn as unknown as typeof fetch, middleware: [addHeader] });
+    c.setToken("tok");
+
+    await c.tracks.getTrack(1);
+    await c.fetchAll(() => Promise.resolve({ collection: [], next_href: "https://api.soundcloud.com/tracks?page=2" }));
+    await c.raw.get("/tracks/1");
+
+    expect(fetchFn).toHaveBeenCalledTimes(3);
+    for (const call of fetchFn.mock.calls) expect(call[1].headers["X-Team"]).toBe("audio");
+  });
+
+  it("applies middleware added with use() to auth requests", async () => {
+    const fetchFn = jsonFetch({ access_token: "a" });
+    const c = new SoundCloudClient({ clientId: "cid", clientSecret: "cs", fetch: fetchFn as unknown as typeof fetch });
+    expect(c.use(addHeader)).toBe(c);
+    await c.auth.getClientToken();
+    expect(fetchFn.mock.calls[0][1].headers["X-Team"]).toBe("audio");
+  });
+
+  it("lets raw middleware see non-2xx responses without throwing", async () => {
+    const fetchFn = jsonFetch({ error: "nope" }, 404);
+    const statuses: number[] = [];
+    const c = new SoundCloudClient({ clientId: "cid", clientSecret: "cs", fetch: fetchFn as unknown as typeof fetch });
+    c.use(async (request, next) => {
+      const response = await next(request);
+      statuses.push(response.status);
+      return response;
+    });
+    const res = await c.raw.get("/tracks/1");
+    expect(res.status).toBe(404);
+    expect(statuses).toEqual([404]);
+  });
+});
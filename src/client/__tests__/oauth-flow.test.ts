@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { SoundCloudClient } from "../SoundCloudClient.js";
+import type { OAuthLoginAttempt, OAuthStateStore } from "../../auth/oauth-flow.js";
+import { generateCodeChallenge } from "../../auth/pkce.js";
+import { MockSoundCloudApi } from "../../mock/api.js";
+import { SoundCloudOAuthError } from "../../errors.js";
+
+function setup() {
+  const api = new MockSoundCloudApi({ seed: { users: [{ id: 1, username: "Me" }] } });
+  const exchanges: URLSearchParams[] = [];
+  const fetch = vi.fn(async (input: string | URL | Request, init?: RequestInit) => {
+    if (String(input).endsWith("/oauth/token")) exchanges.push(new URLSearchParams(String(init?.body)));
+    return api.fetch(input, init);
+  });
+  const sc = new SoundCloudClient({ clientId: "cid", clientSecret: "cs", redirectUri: "https://app.example/callback", fetch });
+  /** Follow the authorization URL like a browser and return where SoundCloud redirects to */
+  const authorize = async (url: string) => (await api.fetch(url)).headers.get("location")!;
+  return { sc, exchanges, authorize };
+}
+
+describe("OAuthFlow", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("starts an attempt with random state and PKCE, and exchanges the callback's code with its verifier", async () => {
+    const { sc, exchanges, authorize } = setup();
+    const flow = sc.auth.createFlow();
+    const first = await flow.start();
+    const second = await flow.start();
+    expect(first.state).not.toBe(second.state);
+
+    const params = new URL(first.url).searchParams;
+    expect(params.get("state")).toBe(first.state);
+    expect(params.get("code_challenge_method")).toBe("S256");
+
+    const callback = await authorize(first.url);
+    const token = await flow.handleCallback(callback);
+    expect(token.access_token).toMatch(/^mock-access-/);
+    const verifier = exchanges[0].get("code_verifier")!;
+    expect(await generateCodeChallenge(verifier)).toBe(params.get("code_challenge"));
+    expect(exchanges[0].get("code")).toBe(new URL(callback).searchParams.get("code"));
+
+    await sc.setToken(token);
+    await expect(sc.me.getMe()).resolves.toMatchObject({ username: "Me" });
+  });
+
+  it("accepts a callback path and rejects replays, unknown and missing state", async () => {
+    const { sc, exchanges, authorize } = setup();
+    const flow = sc.auth.createFlow();
+    const callback = new URL(await authorize((await flow.start()).url));
+
+    await flow.handleCallback(`${callback.pathname}${callback.search}`);
+    await expect(flow.handleCallback(callback)).rejects.toMatchObject({ code: "invalid_state" });
+    await expect(sc.auth.createFlow().handleCallback(await authorize((await flow.start()).url))).rejects.toMatchObject({ code: "invalid_state" });
+    await expect(flow.handleCallback("/callback?code=abc")).rejects.toMatchObject({ code: "missing_state" });
+    expect(exchanges).toHaveLength(1);
+  });
+
+  it("surfaces SoundCloud's error parameters and consumes the attempt", async () => {
+    const { sc, exchanges } = setup();
+    const flow = sc.auth.createFlow();
+    const { state } = await flow.start();
+
+    const error = await flow.handleCallback(`/callback?error=access_denied&error_description=User+declined&state=${state}`).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(SoundCloudOAuthError);
+    expect(error).toMatchObject({ code: "access_denied", description: "User declined", message: "OAuth callback rejected: access_denied (User declined)" });
+    await expect(flow.handleCallback(`/callback?code=abc&state=${state}`)).rejects.toMatchObject({ code: "invalid_state" });
+
+    const { state: other } = await flow.start();
+    await expect(flow.handleCallback(`/callback?state=${other}`)).rejects.toMatchObject({ code: "missing_code" });
+    expect(exchanges).toHaveLength(0);
+  });
+
+  it("expires attempts after ttlMs and keeps them in a custom store", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const saved = new Map<string, OAuthLoginAttempt>();
+    const store: OAuthStateStore = {
+      save: async (attempt) => void saved.set(attempt.state, attempt),
+      take: async (state) => {
+        const attempt = saved.get(state);
+        saved.delete(state);
+        return attempt;
+      },
+    };
+    const { sc, authorize } = setup();
+    const flow = sc.auth.createFlow({ store, ttlMs: 60_000 });
+    const { url, state, expiresAt } = await flow.start();
+    expect(saved.get(state)).toMatchObject({ state, expiresAt });
+    expect(expiresAt).toBe(Date.now() + 60_000);
+
+    vi.setSystemTime(expiresAt);
+    await expect(flow.handleCallback(await authorize(url))).rejects.toMatchObject({ code: "expired_state" });
+    expect(saved.size).toBe(0);
+  });
+
+  it("requires a redirectUri", async () => {
+    const sc = new SoundCloudClient({ clientId: "cid", clientSecret: "cs" });
+    await expect(sc.auth.createFlow().start()).rejects.toThrow("redirectUri is required for getAuthorizationUrl");
+  });
+});
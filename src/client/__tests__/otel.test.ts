@@ -0,0 +1,204 @@
+import { describe, it, expect } from "vitest";
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { OTelAttributes, OTelMeter, OTelSpan, OTelSpanOptions, OTelTracer } from "../otel.js";
+import { matchOperation } from "../registry.js";
+import { SoundCloudClient, type SoundCloudClientConfig } from "../SoundCloudClient.js";
+import type { SoundCloudCache } from "../cache.js";
+import { MockSoundCloudApi } from "../../mock/api.js";
+import { getTrack } from "../../tracks/getTrack.js";
+
+interface RecordedSpan extends OTelSpan {
+  name: string;
+  kind?: number;
+  parent?: RecordedSpan;
+  attributes: OTelAttributes;
+  events: { name: string; attributes?: OTelAttributes }[];
+  status?: { code: number; message?: string };
+  exceptions: unknown[];
+  ended: boolean;
+}
+
+/** A tracer that records spans, parenting them through the active span like the OpenTelemetry context manager */
+function recordingTracer() {
+  const active = new AsyncLocalStorage<RecordedSpan>();
+  const spans: RecordedSpan[] = [];
+  const tracer: OTelTracer = {
+    startActiveSpan<F extends (span: OTelSpan) => unknown>(name: string, options: OTelSpanOptions, fn: F): ReturnType<F> {
+      const span: RecordedSpan = {
+        name,
+        kind: options.kind,
+        parent: active.getStore(),
+        attributes: { ...options.attributes },
+        events: [],
+        exceptions: [],
+        ended: false,
+        setAttribute(key, value) {
+          span.attributes[key] = value;
+        },
+        addEvent(eventName, attributes) {
+          span.events.push({ name: eventName, attributes });
+        },
+        setStatus(status) {
+          span.status = status;
+        },
+        recordException(exception) {
+          span.exceptions.push(exception);
+        },
+        end() {
+          span.ended = true;
+        },
+      };
+      spans.push(span);
+      return active.run(span, () => fn(span)) as ReturnType<F>;
+    },
+  };
+  return { tracer, spans };
+}
+
+function recordingMeter() {
+  const created: string[] = [];
+  const points: { name: string; value: number; attributes?: OTelAttributes }[] = [];
+  const meter: OTelMeter = {
+    createCounter(name) {
+      created.push(name);
+      return { add: (value, attributes) => points.push({ name, value, attributes }) };
+    },
+    createHistogram(name) {
+      created.push(name);
+      return { record: (value, attributes) => points.push({ name, value, attributes }) };
+    },
+  };
+  return { meter, created, points };
+}
+
+function mapCache(): SoundCloudCache {
+  const entries = new Map<string, unknown>();
+  return {
+    get: (key) => entries.get(key) as never,
+    set: (key, value) => void entries.set(key, value),
+    delete: (key) => void entries.delete(key),
+  };
+}
+
+function setup(config: Partial<SoundCloudClientConfig> = {}) {
+  const api = new MockSoundCloudApi({
+    seed: { users: [{ id: 1, username: "Me" }], tracks: [{ id: 10, user_id: 1, title: "A" }] },
+  });
+  const { tracer, spans } = recordingTracer();
+  const sc = new SoundCloudClient({ clientId: "cid", clientSecret: "cs", fetch: api.fetch, retryBaseDelay: 0, openTelemetry: { tracer }, ...config });
+  sc.setToken("tok");
+  return { api, sc, spans };
+}
+
+describe("OpenTelemetry tracing", () => {
+  it("emits an operation span with a child span per attempt and a retry event", async () => {
+    const { api, sc, spans } = setup();
+    api.injectError({ status: 503, path: "/tracks/10" });
+
+    await sc.tracks.getTrack(10);
+
+    const [operation, ...attempts] = spans;
+    expect(operation).toMatchObject({
+      name: "tracks.getTrack",
+      kind: 0,
+      ended: true,
+      attributes: {
+        "soundcloud.operation": "tracks.getTrack",
+        "soundcloud.operation_id": "get_tracks_track_id",
+        "url.template": "/tracks/{track_id}",
+        "http.response.status_code": 200,
+        "soundcloud.retry_count": 1,
+        "soundcloud.cache_hit": false,
+        "soundcloud.dedupe_hit": false,
+      },
+    });
+    expect(operation.status).toBeUndefined();
+    expect(operation.events).toEqual([
+      { name: "soundcloud.retry", attributes: expect.objectContaining({ "soundcloud.retry.attempt": 1, "http.response.status_code": 503 }) },
+    ]);
+
+    expect(attempts.map((s) => [s.name, s.kind, s.parent, s.attributes["http.response.status_code"], s.attributes["http.request.resend_count"]])).toEqual([
+      ["GET /tracks/{track_id}", 2, operation, 503, undefined],
+      ["GET /tracks/{track_id}", 2, operation, 200, 1],
+    ]);
+    expect(attempts[0].status).toEqual({ code: 2 });
+    expect(attempts[1].attributes["url.full"]).toBe("https://api.soundcloud.com/tracks/10");
+    expect(spans.every((s) => s.ended)).toBe(true);
+  });
+
+  it("marks failed operations as errors", async () => {
+    const { sc, spans } = setup();
+    await expect(sc.tracks.getTrack(999)).rejects.toMatchObject({ status: 404 });
+
+    expect(spans[0]).toMatchObject({ name: "tracks.getTrack", status: { code: 2 }, attributes: { "error.type": "404", "http.response.status_code": 404 } });
+    expect(spans[0].exceptions).toHaveLength(1);
+  });
+
+  it("flags cache and dedupe hits, which send no attempts", async () => {
+    const { sc, spans } = setup({ cache: mapCache() });
+    await sc.tracks.getTrack(10);
+    spans.length = 0;
+    await sc.tracks.getTrack(10);
+    expect(spans).toHaveLength(1);
+    expect(spans[0].attributes).toMatchObject({ "soundcloud.cache_hit": true, "soundcloud.dedupe_hit": false, "http.response.status_code": 200 });
+
+    const deduping = setup();
+    await Promise.all([deduping.sc.users.getUser(1), deduping.sc.users.getUser(1)]);
+    const operations = deduping.spans.filter((s) => s.kind === 0);
+    expect(operations.map((s) => s.attributes["soundcloud.dedupe_hit"])).toEqual([false, true]);
+    expect(deduping.spans.filter((s) => s.kind === 2)).toHaveLength(1);
+  });
+
+  it("names standalone requests after their operation id", async () => {
+    const { api } = setup();
+    const { tracer, spans } = recordingTracer();
+    await getTrack("tok", 10, { fetch: api.fetch, openTelemetry: { tracer } });
+    expect(spans.map((s) => s.name)).toEqual(["get_tracks_track_id", "GET /tracks/{track_id}"]);
+  });
+});
+
+describe("OpenTelemetry metrics", () => {
+  it("counts operations and retries and records durations", async () => {
+    const { meter, created, points } = recordingMeter();
+    const { api, sc } = setup({ openTelemetry: { meter } });
+    api.injectError({ status: 429, retryAfter: 0, path: "/tracks/10" });
+
+    await sc.tracks.getTrack(10);
+    await expect(sc.tracks.getTrack(999)).rejects.toThrow();
+
+    expect(created).toEqual([
+      "soundcloud.client.operations",
+      "soundcloud.client.operation.duration",
+      "soundcloud.client.attempt.duration",
+      "soundcloud.client.retries",
+    ]);
+    const byName = (name: string) => points.filter((p) => p.name === name);
+    expect(byName("soundcloud.client.operations").map((p) => [p.value, p.attributes?.["http.response.status_code"], p.attributes?.["error.type"]])).toEqual([
+      [1, 200, undefined],
+      [1, 404, "404"],
+    ]);
+    expect(byName("soundcloud.client.retries")).toEqual([
+      { name: "soundcloud.client.retries", value: 1, attributes: expect.objectContaining({ "soundcloud.operation": "tracks.getTrack", "soundcloud.retry.strategy": "retry-after" }) },
+    ]);
+    expect(byName("soundcloud.client.attempt.duration")).toHaveLength(3);
+    expect(byName("soundcloud.client.operation.duration")[0].attributes).toMatchObject({ "soundcloud.operation_id": "get_tracks_track_id", "http.request.method": "GET" });
+
+    // Instruments are created once per meter, however many clients share it
+    setup({ openTelemetry: { meter } });
+    await new SoundCloudClient({ clientId: "cid", clientSecret: "cs", fetch: api.fetch, openTelemetry: { meter } }).auth.getClientToken();
+    expect(created).toHaveLength(4);
+  });
+});
+
+describe("matchOperation", () => {
+  it("matches paths and absolute URLs to operation templates", () => {
+    expect(matchOperation("GET", "/tracks/123")).toEqual({ method: "GET", template: "/tracks/{track_id}", operationId: "get_tracks_track_id" });
+    expect(matchOperation("GET", "/tracks/soundcloud:tracks:1/favoriters?limit=5")?.operationId).toBe("get_tracks_track_id_likes");
+    expect(matchOperation("GET", "https://api.soundcloud.com/users/1/tracks?offset=50")?.template).toBe("/users/{user_id}/tracks");
+    expect(matchOperation("GET", "/me/followings/tracks")?.operationId).toBe("get_me_followings_tracks");
+    expect(matchOperation("PUT", "/me/followings/42")?.operationId).toBe("post_me_followings_user_id");
+    expect(matchOperation("GET", "/tracks?q=x")?.operationId).toBe("get_tracks");
+    expect(matchOperation("POST", "/tracks/1")).toBeUndefined();
+    expect(matchOperation("GET", "/unknown")).toBeUndefined();
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { RateLimiter } from "../rate-limit.js";
+import { scFetch, type SCRequestTelemetry } from "../http.js";
+import { SoundCloudClient } from "../SoundCloudClient.js";
+
+const noHeaders = { get: () => null };
+const headers = (values: Record<string, string>) => ({ get: (key: string) => values[key] ?? null });
+
+/** Resolve pending microtasks so granted slots settle. */
+const flush = () => vi.advanceTimersByTimeAsync(0);
+
+describe("RateLimiter", () => {
+  beforeEach(() => { vi.useFakeTimers(); });
+  afterEach(() => { vi.useRealTimers(); });
+
+  it("grants a burst up to the bucket size, then refills over the window", async () => {
+    const limiter = new RateLimiter({ requests: 2, windowMs: 1000 });
+    const granted: number[] = [];
+    for (let i = 0; i < 3; i++) void limiter.acquire().then(() => granted.push(i));
+
+    await flush();
+    expect(granted).toEqual([0, 1]);
+    expect(limiter.queueDepth).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(granted).toEqual([0, 1, 2]);
+  });
+
+  it("reports wait time and queue depth on the slot", async () => {
+    const limiter = new RateLimiter({ requests: 1, windowMs: 1000 });
+    await limiter.acquire();
+    const pending = limiter.acquire();
+    await vi.advanceTimersByTimeAsync(1000);
+    const slot = await pending;
+    expect(slot.waitMs).toBe(1000);
+    expect(slot.queueDepth).toBe(0);
+  });
+
+  it("caps concurrency until a slot is released", async () => {
+    const limiter = new RateLimiter({ requests: 10, maxConcurrency: 1 });
+    const first = await limiter.acquire();
+    let secondGranted = false;
+    void limiter.acquire().then(() => { secondGranted = true; });
+
+    await flush();
+    expect(secondGranted).toBe(false);
+    first.release();
+    first.release(); // idempotent
+    await flush();
+    expect(secondGranted).toBe(true);
+  });
+
+  it("pauses the queue for a 429 retry-after", async () => {
+    const limiter = new RateLimiter({ requests: 10 });
+    limiter.observe(429, headers({ "retry-after": "3" }));
+    let granted = false;
+    void limiter.acquire().then(() => { granted = true; });
+
+    await vi.advanceTimersByTimeAsync(2900);
+    expect(granted).toBe(false);
+    await vi.advanceTimersByTimeAsync(500);
+    expect(granted).toBe(true);
+  });
+
+  it("understands HTTP-date retry-after values", async () => {
+    const limiter = new RateLimiter({ requests: 10 });
+    limiter.observe(429, headers({ "retry-after": new Date(Date.now() + 5000).toUTCString() }));
+    let granted = false;
+    void limiter.acquire().then(() => { granted = true; });
+
+    await vi.advanceTimersByTimeAsync(4000);
+    expect(granted).toBe(false);
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(granted).toBe(true);
+  });
+
+  it("pauses until x-ratelimit-reset once the remaining quota hits zero", async () => {
+    const limiter = new RateLimiter({ requests: 10 });
+    limiter.observe(200, headers({ "x-ratelimit-remaining": "5", "x-ratelimit-reset": "60" }));
+    await expect(limiter.acquire()).resolves.toBeDefined();
+
+    limiter.observe(200, headers({ "x-ratelimit-remaining": "0", "x-ratelimit-reset": "2" }));
+    let granted = false;
+    void limiter.acquire().then(() => { granted = true; });
+    await vi.advanceTimersByTimeAsync(1500);
+    expect(granted).toBe(false);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(granted).toBe(true);
+  });
+
+  it("ignores successful responses without rate limit headers", async () => {
+    const limiter = new RateLimiter({ requests: 10 });
+    limiter.observe(200, noHeaders);
+    await expect(limiter.acquire()).resolves.toBeDefined();
+  });
+
+  it("drops aborted requests from the queue", async () => {
+    const limiter = new RateLimiter({ requests: 1, windowMs: 1000 });
+    await limiter.acquire();
+    const controller = new AbortController();
+    const pending = limiter.acquire(controller.signal);
+    expect(limiter.queueDepth).toBe(1);
+    controller.abort();
+    await expect(pending).rejects.toThrow();
+    expect(limiter.queueDepth).toBe(0);
+  });
+});
+
+describe("rate limiter in the request pipeline", () => {
+  const okFetch = () =>
+    vi.fn().mockResolvedValue({ status: 200, statusText: "OK", ok: true, json: () => Promise.resolve({ id: 1 }), headers: noHeaders });
+
+  it("adds queue stats to telemetry", async () => {
+    const onRequest = vi.fn<(t: SCRequestTelemetry) => void>();
+    const fetchFn = okFetch();
+    await scFetch(
+      { path: "/tracks/1", method: "GET", fetch: fetchFn as unknown as typeof fetch, rateLimiter: new RateLimiter() },
+      undefined,
+      onRequest,
+    );
+    expect(onRequest.mock.calls[0][0]).toMatchObject({ queuedMs: 0, queueDepth: 0 });
+  });
+
+  it("omits queue stats without a rate limiter", async () => {
+    const onRequest = vi.fn<(t: SCRequestTelemetry) => void>();
+    await scFetch({ path: "/tracks/1", method: "GET", fetch: okFetch() as unknown as typeof fetch }, undefined, onRequest);
+    expect(onRequest.mock.calls[0][0]).not.toHaveProperty("queuedMs");
+  });
+
+  it("queues requests from every namespace and raw on one client limiter", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const fetchFn = vi.fn(async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((r) => setTimeout(r, 5));
+      inFlight--;
+      return { status: 200, statusText: "OK", ok: true, json: () => Promise.resolve({ id: 1 }), headers: noHeaders };
+    });
+    const c = new SoundCloudClient({
+      clientId: "cid",
+      clientSecret: "cs",
+      fetch: fetchFn as unknown as typeof fetch,
+      rateLimit: { requests: 100, maxConcurrency: 1 },
+    });
+    c.setToken("tok");
+
+    await Promise.all([c.tracks.getTrack(1), c.users.getUser(2), c.playlists.getPlaylist(3), c.raw.get("/me")]);
+    expect(fetchFn).toHaveBeenCalledTimes(4);
+    expect(maxInFlight).toBe(1);
+  });
+
+  it("accepts a shared RateLimiter instance", async () => {
+    const limiter = new RateLimiter({ requests: 1, windowMs: 60_000 });
+    const a = new SoundCloudClient({ clientId: "cid", clientSecret: "cs", fetch: okFetch() as unknown as typeof fetch, rateLimit: limiter });
+    const b = new SoundCloudClient({ clientId: "cid", clientSecret: "cs", fetch: okFetch() as unknown as typeof fetch, rateLimit: limiter });
+    a.setToken("tok");
+    b.setToken("tok");
+
+    await a.tracks.getTrack(1);
+    const controller = new AbortController();
+    const pending = b.tracks.getTrack(1, { signal: controller.signal });
+    await new Promise((r) => setTimeout(r, 10));
+    expect(limiter.queueDepth).toBe(1);
+    controller.abort();
+    await expect(pending).rejects.toMatchObject({ name: "SoundCloudAbortError" });
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi } from "vitest";
+import { HttpRecorder, type HttpFixture } from "../recorder.js";
+import { SoundCloudClient } from "../SoundCloudClient.js";
+
+const json = (body: unknown, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status: 200, headers: { "content-type": "application/json", ...headers } });
+
+function fixture(url: string, body: unknown, method = "GET"): HttpFixture {
+  return {
+    request: { method, url, headers: {} },
+    response: { status: 200, statusText: "OK", headers: { "content-type": "application/json" }, body: JSON.stringify(body) },
+  };
+}
+
+describe("HttpRecorder — record", () => {
+  it("captures client requests with credentials redacted", async () => {
+    const network = vi.fn((url: string) =>
+      Promise.resolve(url.includes("/oauth/token")
+        ? json({ access_token: "live-access", refresh_token: "live-refresh", expires_in: 3600 })
+        : json({ id: 1, title: "Song" }, { "set-cookie": "session=1", "x-request-id": "r1" })),
+    );
+    const recorder = new HttpRecorder({ mode: "record" });
+    const sc = new SoundCloudClient({ clientId: "cid", clientSecret: "top-secret", fetch: network as unknown as typeof fetch, recorder });
+
+    const token = await sc.auth.getClientToken();
+    sc.setToken(token.access_token);
+    const track = await sc.tracks.getTrack(1);
+
+    expect(token.access_token).toBe("live-access");
+    expect(track).toEqual({ id: 1, title: "Song" });
+    expect(network).toHaveBeenCalledTimes(2);
+
+    const saved = JSON.stringify(recorder);
+    expect(saved).not.toContain("live-access");
+    expect(saved).not.toContain("live-refresh");
+    expect(saved).not.toContain("top-secret");
+    expect(saved).not.toContain(Buffer.from("cid:top-secret").toString("base64"));
+
+    const [grant, get] = recorder.fixtures;
+    expect(JSON.parse(grant.response.body)).toEqual({ access_token: "[REDACTED]", refresh_token: "[REDACTED]", expires_in: 3600 });
+    expect(get.request).toMatchObject({ method: "GET", url: "https://api.soundcloud.com/tracks/1", headers: { authorization: "[REDACTED]" } });
+    expect(get.response.headers).toEqual({ "content-type": "application/json", "x-request-id": "r1" });
+  });
+
+  it("redacts secret query parameters, form fields and custom names", async () => {
+    const network = vi.fn(() => Promise.resolve(json({ ok: true, api_key: "k" })));
+    const onRecord = vi.fn();
+    const recorder = new HttpRecorder({ mode: "record", redact: ["api_key"], onRecord });
+    const fetchFn = recorder.wrap(network as unknown as typeof fetch);
+
+    await fetchFn("https://api.soundcloud.com/x?client_secret=s&limit=5", {
+      method: "POST",
+      body: new URLSearchParams({ grant_type: "authorization_code", code: "c0de" }),
+    });
+
+    const [recorded] = recorder.fixtures;
+    expect(recorded.request.url).toBe("https://api.soundcloud.com/x?client_secret=%5BREDACTED%5D&limit=5");
+    expect(recorded.request.body).toBe("grant_type=authorization_code&code=%5BREDACTED%5D");
+    expect(JSON.parse(recorded.response.body)).toEqual({ ok: true, api_key: "[REDACTED]" });
+    expect(onRecord).toHaveBeenCalledWith(recorded);
+  });
+});
+
+describe("HttpRecorder — replay", () => {
+  it("serves fixtures to a client without touching the network", async () => {
+    const network = vi.fn();
+    globalThis.fetch = network as unknown as typeof fetch;
+    const recorder = new HttpRecorder({ mode: "replay", fixtures: { version: 1, fixtures: [fixture("https://api.soundcloud.com/tracks/1", { id: 1 })] } });
+    const sc = new SoundCloudClient({ clientId: "cid", clientSecret: "cs", recorder, apiBaseUrl: "http://localhost:4010" });
+    sc.setToken("tok");
+
+    await expect(sc.tracks.getTrack(1)).resolves.toEqual({ id: 1 });
+    expect(network).not.toHaveBeenCalled();
+    expect(recorder.pending).toHaveLength(0);
+  });
+
+  it("round-trips through JSON", async () => {
+    const recorder = new HttpRecorder({ mode: "record" });
+    const fetchFn = recorder.wrap((() => Promise.resolve(new Response(null, { status: 204 }))) as unknown as typeof fetch);
+    await fetchFn("https://api.soundcloud.com/tracks/1", { method: "DELETE" });
+
+    const replay = new HttpRecorder({ mode: "replay", fixtures: JSON.parse(JSON.stringify(recorder)) });
+    const response = await replay.fetch("https://api.soundcloud.com/tracks/1", { method: "DELETE" });
+    expect(response.status).toBe(204);
+  });
+
+  it("strict matching requires the same query and serves each fixture once, in order", async () => {
+    const recorder = new HttpRecorder({
+      mode: "replay",
+      fixtures: [
+        fixture("https://api.soundcloud.com/me?a=1&b=2", { n: 1 }),
+        fixture("https://api.soundcloud.com/me?a=1&b=2", { n: 2 }),
+      ],
+    });
+
+    expect(await (await recorder.fetch("https://api.soundcloud.com/me?b=2&a=1")).json()).toEqual({ n: 1 });
+    expect(await (await recorder.fetch("https://api.soundcloud.com/me?a=1&b=2")).json()).toEqual({ n: 2 });
+    await expect(recorder.fetch("https://api.soundcloud.com/me?a=1&b=2")).rejects.toThrow("no strict fixture matches GET");
+    await expect(recorder.fetch("https://api.soundcloud.com/me?a=9")).rejects.toThrow();
+  });
+
+  it("lenient matching ignores the query and reuses the last fixture", async () => {
+    const recorder = new HttpRecorder({
+      mode: "replay",
+      matching: "lenient",
+      fixtures: [fixture("https://api.soundcloud.com/tracks?q=a", { q: "a" }), fixture("https://api.soundcloud.com/tracks?q=b", { q: "b" })],
+    });
+
+    expect(await (await recorder.fetch("https://api.soundcloud.com/tracks?q=b")).json()).toEqual({ q: "b" });
+    expect(await (await recorder.fetch("https://api.soundcloud.com/tracks?q=zzz")).json()).toEqual({ q: "a" });
+    expect(await (await recorder.fetch("https://api.soundcloud.com/tracks?q=b")).json()).toEqual({ q: "b" });
+    await expect(recorder.fetch("https://api.soundcloud.com/users")).rejects.toThrow();
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi } from "vitest";
+import { SoundCloudClient } from "../SoundCloudClient.js";
+import type { SCResponseMeta } from "../http.js";
+import { getTrack } from "../../tracks/getTrack.js";
+import type { SoundCloudCache } from "../cache.js";
+
+function respond(status: number, json?: unknown, headers: Record<string, string> = {}) {
+  return {
+    status,
+    statusText: status >= 400 ? "Error" : "OK",
+    ok: status >= 200 && status < 300,
+    json: () => Promise.resolve(json),
+    headers: new Headers(headers),
+  };
+}
+
+function makeClient(fetchFn: ReturnType<typeof vi.fn>, extra: { cache?: SoundCloudCache } = {}) {
+  const sc = new SoundCloudClient({ clientId: "cid", clientSecret: "cs", retryBaseDelay: 0, fetch: fetchFn as unknown as typeof fetch, ...extra });
+  sc.setToken("tok");
+  return sc;
+}
+
+describe("withResponse()", () => {
+  it("resolves objects with status, headers, request id and timing", async () => {
+    const fetchFn = vi.fn()
+      .mockResolvedValueOnce(respond(503))
+      .mockResolvedValueOnce(respond(200, { id: 1 }, { "x-request-id": "req-1", "x-ratelimit-remaining": "49" }));
+    const res = await makeClient(fetchFn).tracks.withResponse().getTrack(1);
+
+    expect(res.data).toEqual({ id: 1 });
+    expect(res.status).toBe(200);
+    expect(res.requestId).toBe("req-1");
+    expect(res.headers["x-ratelimit-remaining"]).toBe("49");
+    expect(res.retryCount).toBe(1);
+    expect(res.durationMs).toBeGreaterThanOrEqual(0);
+    expect(res.cached).toBeUndefined();
+  });
+
+  it("works for arrays, redirect URLs and empty responses", async () => {
+    const fetchFn = vi.fn()
+      .mockResolvedValueOnce(respond(200, [{ id: 1 }, { id: 2 }]))
+      .mockResolvedValueOnce(respond(302, undefined, { location: "https://api.soundcloud.com/tracks/1" }))
+      .mockResolvedValueOnce(respond(204));
+    const sc = makeClient(fetchFn);
+
+    const related = await sc.tracks.withResponse().getRelated(1);
+    const resolved = await sc.resolve.withResponse().resolveUrl("https://soundcloud.com/a/b");
+    const deleted = await sc.tracks.withResponse().delete(1);
+
+    expect(related).toMatchObject({ data: [{ id: 1 }, { id: 2 }], status: 200 });
+    expect(resolved).toMatchObject({ data: "https://api.soundcloud.com/tracks/1", status: 302 });
+    expect(deleted).toMatchObject({ data: undefined, status: 204 });
+  });
+
+  it("reports the error status for methods that swallow failures", async () => {
+    const fetchFn = vi.fn().mockResolvedValue(respond(403, { error: "forbidden" }, { "x-request-id": "req-2" }));
+    const res = await makeClient(fetchFn).likes.withResponse().likeTrack(1);
+    expect(res).toMatchObject({ data: false, status: 403, requestId: "req-2" });
+  });
+
+  it("flags cache hits", async () => {
+    const store = new Map<string, unknown>();
+    const cache: SoundCloudCache = {
+      get: (key) => store.get(key) as never,
+      set: (key, value) => { store.set(key, value); },
+      delete: (key) => { store.delete(key); },
+    };
+    const fetchFn = vi.fn().mockResolvedValue(respond(200, { id: 1 }));
+    const sc = makeClient(fetchFn, { cache });
+
+    await sc.users.getUser(1);
+    const res = await sc.users.withResponse().getUser(1);
+    expect(res).toMatchObject({ data: { id: 1 }, status: 200, cached: true, headers: {} });
+    expect(fetchFn).toHaveBeenCalledOnce();
+  });
+
+  it("keeps concurrent calls apart", async () => {
+    const fetchFn = vi.fn((url: string) =>
+      Promise.resolve(respond(200, { url }, { "x-request-id": url.endsWith("/1") ? "one" : "two" })),
+    );
+    const view = makeClient(fetchFn).tracks.withResponse();
+    const [a, b] = await Promise.all([view.getTrack(1), view.getTrack(2)]);
+    expect(a.requestId).toBe("one");
+    expect(b.requestId).toBe("two");
+  });
+
+  it("is available on auth", async () => {
+    const fetchFn = vi.fn().mockResolvedValue(respond(200, { access_token: "a" }, { "x-request-id": "auth-1" }));
+    const res = await makeClient(fetchFn).auth.withResponse().getClientToken();
+    expect(res).toMatchObject({ data: { access_token: "a" }, requestId: "auth-1" });
+  });
+});
+
+describe("onResponse", () => {
+  it("reports metadata to standalone functions", async () => {
+    const fetchFn = vi.fn().mockResolvedValue(respond(200, { id: 1 }, { "x-request-id": "solo" }));
+    const onResponse = vi.fn<(meta: SCResponseMeta) => void>();
+    await getTrack("tok", 1, { fetch: fetchFn as unknown as typeof fetch, onResponse });
+    expect(onResponse).toHaveBeenCalledWith(expect.objectContaining({ status: 200, requestId: "solo", retryCount: 0 }));
+  });
+
+  it("reports error responses before the error is thrown", async () => {
+    const fetchFn = vi.fn().mockResolvedValue(respond(404, { error: "nope" }));
+    const onResponse = vi.fn<(meta: SCResponseMeta) => void>();
+    await expect(getTrack("tok", 1, { fetch: fetchFn as unknown as typeof fetch, onResponse })).rejects.toMatchObject({ status: 404 });
+    expect(onResponse).toHaveBeenCalledWith(expect.objectContaining({ status: 404 }));
+  });
+});
@@ -0,0 +1,209 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { BackoffStrategy, type RetryContext } from "../retry.js";
+import { scFetch, type RetryInfo } from "../http.js";
+import { SoundCloudClient } from "../SoundCloudClient.js";
+import { SoundCloudError } from "../../errors.js";
+
+const headers = (values: Record<string, string> = {}) => ({ get: (key: string) => values[key] ?? null });
+
+const context = (overrides: Partial<RetryContext> = {}): RetryContext => ({
+  attempt: 1,
+  method: "GET",
+  idempotent: true,
+  status: 500,
+  headers: headers(),
+  previousDelayMs: 0,
+  elapsedDelayMs: 0,
+  ...overrides,
+});
+
+function sequenceFetch(responses: { status: number; headers?: Record<string, string> }[]) {
+  const fn = vi.fn();
+  for (const r of responses) {
+    fn.mockResolvedValueOnce({
+      status: r.status,
+      statusText: r.status >= 400 ? "Error" : "OK",
+      ok: r.status < 400,
+      json: () => Promise.resolve({ id: 1 }),
+      headers: headers(r.headers),
+    });
+  }
+  return fn as unknown as typeof fetch;
+}
+
+describe("BackoffStrategy", () => {
+  afterEach(() => { vi.restoreAllMocks(); });
+
+  it("retries 429 and 5xx but not other statuses", () => {
+    const strategy = new BackoffStrategy();
+    expect(strategy.nextDelay(context({ status: 429 }))).toBeDefined();
+    expect(strategy.nextDelay(context({ status: 503 }))).toBeDefined();
+    expect(strategy.nextDelay(context({ status: 404 }))).toBeUndefined();
+  });
+
+  it("backs off exponentially without jitter", () => {
+    const strategy = new BackoffStrategy({ baseDelayMs: 100, jitter: "none" });
+    expect(strategy.nextDelay(context({ attempt: 1 }))).toEqual({ delayMs: 100, strategy: "exponential" });
+    expect(strategy.nextDelay(context({ attempt: 3 }))).toEqual({ delayMs: 400, strategy: "exponential" });
+  });
+
+  it("adds up to 10% of the exponential delay with proportional jitter", () => {
+    const strategy = new BackoffStrategy({ baseDelayMs: 100, jitter: "proportional" });
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    expect(strategy.nextDelay(context({ attempt: 3 }))).toEqual({ delayMs: 400, strategy: "exponential" });
+    vi.spyOn(Math, "random").mockReturnValue(0.999);
+    expect(strategy.nextDelay(context({ attempt: 3 }))!.delayMs).toBeCloseTo(439.96);
+    expect(new BackoffStrategy({ baseDelayMs: 100 }).nextDelay(context({ attempt: 3 }))!.delayMs).toBeLessThan(440);
+  });
+
+  it("applies full and decorrelated jitter", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+    const full = new BackoffStrategy({ baseDelayMs: 100, jitter: "full" });
+    expect(full.nextDelay(context({ attempt: 2 }))).toEqual({ delayMs: 100, strategy: "full-jitter" });
+
+    const decorrelated = new BackoffStrategy({ baseDelayMs: 100, jitter: "decorrelated" });
+    expect(decorrelated.nextDelay(context({ previousDelayMs: 300 }))).toEqual({ delayMs: 500, strategy: "decorrelated-jitter" });
+  });
+
+  it("honors retry-after in seconds and as an HTTP date", () => {
+    vi.spyOn(Date, "now").mockReturnValue(Date.parse("2024-01-01T00:00:00Z"));
+    const strategy = new BackoffStrategy();
+    expect(strategy.nextDelay(context({ status: 429, headers: headers({ "retry-after": "2" }) }))).toEqual({
+      delayMs: 2000,
+      strategy: "retry-after",
+    });
+    expect(
+      strategy.nextDelay(context({ status: 503, headers: headers({ "retry-after": "Mon, 01 Jan 2024 00:00:05 GMT" }) })),
+    ).toEqual({ delayMs: 5000, strategy: "retry-after" });
+  });
+
+  it("falls back to x-ratelimit-reset, then to backoff", () => {
+    const now = Date.parse("2024-01-01T00:00:00Z");
+    vi.spyOn(Date, "now").mockReturnValue(now);
+    const strategy = new BackoffStrategy({ jitter: "none" });
+    expect(strategy.nextDelay(context({ status: 429, headers: headers({ "x-ratelimit-reset": String(now / 1000 + 3) }) }))).toEqual({
+      delayMs: 3000,
+      strategy: "rate-limit-reset",
+    });
+    expect(strategy.nextDelay(context({ status: 429, headers: headers({ "retry-after": "soon" }) }))?.strategy).toBe("exponential");
+  });
+
+  it("caps long delays and reports it", () => {
+    const strategy = new BackoffStrategy({ maxDelayMs: 10_000 });
+    expect(strategy.nextDelay(context({ status: 429, headers: headers({ "retry-after": "120" }) }))).toEqual({
+      delayMs: 10_000,
+      strategy: "retry-after",
+      capped: true,
+    });
+  });
+
+  it("gives up once the retry budget is spent", () => {
+    const strategy = new BackoffStrategy({ baseDelayMs: 1000, jitter: "none", maxRetryBudgetMs: 3000 });
+    expect(strategy.nextDelay(context({ attempt: 2, elapsedDelayMs: 1000 }))).toBeDefined();
+    expect(strategy.nextDelay(context({ attempt: 3, elapsedDelayMs: 3000 }))).toBeUndefined();
+  });
+
+  it("applies per-status policies", () => {
+    const strategy = new BackoffStrategy({
+      jitter: "none",
+      statusPolicies: { 408: { retry: true, baseDelayMs: 50 }, 502: { maxRetries: 1 }, 500: { retry: false } },
+    });
+    expect(strategy.nextDelay(context({ status: 408 }))).toEqual({ delayMs: 50, strategy: "exponential" });
+    expect(strategy.nextDelay(context({ status: 502, attempt: 1 }))).toBeDefined();
+    expect(strategy.nextDelay(context({ status: 502, attempt: 2 }))).toBeUndefined();
+    expect(strategy.nextDelay(context({ status: 500 }))).toBeUndefined();
+  });
+});
+
+describe("retry strategy in the request pipeline", () => {
+  it("reports the chosen strategy in RetryInfo", async () => {
+    const onRetry = vi.fn<(info: RetryInfo) => void>();
+    const fetchFn = sequenceFetch([{ status: 429, headers: { "retry-after": "0" } }, { status: 500 }, { status: 200 }]);
+    const ctx = {
+      getToken: () => "tok",
+      setToken: () => {},
+      retry: { maxRetries: 3, retryBaseDelay: 0, onRetry },
+      fetch: fetchFn,
+    };
+
+    await expect(scFetch({ path: "/tracks/1", method: "GET" }, ctx)).resolves.toEqual({ id: 1 });
+    expect(onRetry.mock.calls.map(([info]) => info.strategy)).toEqual(["retry-after", "exponential"]);
+  });
+
+  it("stops when the strategy gives up before maxRetries", async () => {
+    const fetchFn = sequenceFetch([{ status: 502 }, { status: 502 }, { status: 200 }]);
+    const c = new SoundCloudClient({
+      clientId: "cid",
+      clientSecret: "cs",
+      fetch: fetchFn,
+      retryStrategy: new BackoffStrategy({ baseDelayMs: 0, statusPolicies: { 502: { maxRetries: 1 } } }),
+    });
+    c.setToken("tok");
+
+    await expect(c.tracks.getTrack(1)).rejects.toBeInstanceOf(SoundCloudError);
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+  });
+
+  it("can make otherwise fatal statuses retryable", async () => {
+    const fetchFn = sequenceFetch([{ status: 408 }, { status: 200 }]);
+    const c = new SoundCloudClient({
+      clientId: "cid",
+      clientSecret: "cs",
+      fetch: fetchFn,
+      retryStrategy: new BackoffStrategy({ baseDelayMs: 0, statusPolicies: { 408: { retry: true } } }),
+    });
+    c.setToken("tok");
+
+    await expect(c.tracks.getTrack(1)).resolves.toEqual({ id: 1 });
+  });
+});
+
+describe("non-idempotent requests", () => {
+  const client = (fetchFn: typeof fetch) => {
+    const c = new SoundCloudClient({ clientId: "cid", clientSecret: "cs", fetch: fetchFn, retryBaseDelay: 0 });
+    c.setToken("tok");
+    return c;
+  };
+
+  it("does not retry a POST on 5xx by default", async () => {
+    const fetchFn = sequenceFetch([{ status: 503 }, { status: 200 }]);
+    await expect(client(fetchFn).tracks.createComment(1, "nice")).rejects.toMatchObject({ status: 503 });
+    expect(fetchFn).toHaveBeenCalledOnce();
+  });
+
+  it("still retries a POST on 429", async () => {
+    const fetchFn = sequenceFetch([{ status: 429, headers: { "retry-after": "0" } }, { status: 200 }]);
+    await expect(client(fetchFn).tracks.createComment(1, "nice")).resolves.toEqual({ id: 1 });
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+  });
+
+  it("retries a POST that opted in with idempotent", async () => {
+    const fetchFn = sequenceFetch([{ status: 500 }, { status: 200 }]);
+    await expect(client(fetchFn).tracks.createComment(1, "nice", undefined, { idempotent: true })).resolves.toEqual({ id: 1 });
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+  });
+
+  it("stops retrying a GET marked idempotent: false", async () => {
+    const fetchFn = sequenceFetch([{ status: 500 }, { status: 200 }]);
+    await expect(client(fetchFn).tracks.getTrack(1, { idempotent: false })).rejects.toMatchObject({ status: 500 });
+    expect(fetchFn).toHaveBeenCalledOnce();
+  });
+
+  it("returns the reconciled resource instead of retrying", async () => {
+    const fetchFn = sequenceFetch([{ status: 504 }, { status: 200 }]);
+    const existing = { id: 42, title: "Mix" };
+    const reconcile = vi.fn().mockResolvedValue(existing);
+    const playlist = await client(fetchFn).playlists.create({ title: "Mix" }, { reconcile });
+    expect(playlist).toBe(existing);
+    expect(reconcile).toHaveBeenCalledOnce();
+    expect(fetchFn).toHaveBeenCalledOnce();
+  });
+
+  it("retries when reconcile finds nothing", async () => {
+    const fetchFn = sequenceFetch([{ status: 504 }, { status: 200 }]);
+    const reconcile = vi.fn().mockResolvedValue(undefined);
+    await expect(client(fetchFn).playlists.create({ title: "Mix" }, { reconcile })).resolves.toEqual({ id: 1 });
+    expect(reconcile).toHaveBeenCalledOnce();
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, vi } from "vitest";
+import { SoundCloudClient, type SoundCloudClientConfig } from "../SoundCloudClient.js";
+import type { TokenProvider, TokenStore } from "../../auth/token-provider.js";
+import { MockSoundCloudApi } from "../../mock/api.js";
+
+class MemoryStore implements TokenStore {
+  access?: string;
+  refresh?: string;
+  getAccessToken() {
+    return this.access;
+  }
+  getRefreshToken() {
+    return this.refresh;
+  }
+  setTokens(access: string, refresh?: string) {
+    this.access = access;
+    this.refresh = refresh;
+  }
+  clearTokens() {
+    this.access = undefined;
+    this.refresh = undefined;
+  }
+}
+
+/** A session store that answers asynchronously, like Redis or a database */
+class AsyncSessionProvider implements TokenProvider {
+  session: { access?: string; refresh?: string } = {};
+  writes: [string, string | undefined][] = [];
+  refreshes = 0;
+  async getAccessToken() {
+    await new Promise((resolve) => setTimeout(resolve, 1));
+    return this.session.access;
+  }
+  async setTokens(access: string, refresh?: string) {
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    this.writes.push([access, refresh]);
+    this.session = { access, refresh };
+  }
+  async refreshIfNeeded(client: SoundCloudClient) {
+    this.refreshes++;
+    const token = await client.auth.refreshUserToken(this.session.refresh!);
+    this.session = { access: token.access_token, refresh: token.refresh_token };
+    return token.access_token;
+  }
+  async clearTokens() {
+    this.session = {};
+  }
+}
+
+function setup(config: Partial<SoundCloudClientConfig>) {
+  const api = new MockSoundCloudApi({
+    seed: { users: [{ id: 1, username: "Me" }], tracks: [{ id: 10, user_id: 1 }, { id: 11, user_id: 1 }] },
+    strictTokens: true,
+  });
+  const sent: (string | null)[] = [];
+  const fetch = vi.fn(async (input: string | URL | Request, init?: RequestInit) => {
+    sent.push(new Headers(init?.headers).get("authorization"));
+    return api.fetch(input, init);
+  });
+  const sc = new SoundCloudClient({ clientId: "cid", clientSecret: "cs", fetch, ...config });
+  return { api, sc, sent };
+}
+
+describe("tokenStore", () => {
+  it("reads the token per request and writes setToken/clearToken through", async () => {
+    const tokenStore = new MemoryStore();
+    const { sc, sent } = setup({ tokenStore });
+    const first = await sc.auth.getClientToken();
+    tokenStore.setTokens(first.access_token, first.refresh_token);
+
+    await sc.me.getMe();
+    expect(sent.at(-1)).toBe(`OAuth ${first.access_token}`);
+    expect(sc.accessToken).toBe(first.access_token);
+
+    const second = await sc.auth.getClientToken();
+    await sc.setToken(second.access_token);
+    expect(tokenStore.access).toBe(second.access_token);
+    expect(tokenStore.refresh).toBe(first.refresh_token);
+    await sc.raw.get("/me");
+    expect(sent.at(-1)).toBe(`OAuth ${second.access_token}`);
+
+    await sc.clearToken();
+    expect(tokenStore.access).toBeUndefined();
+    await expect(sc.me.getMe()).rejects.toThrow("No access token available");
+  });
+
+  it("persists tokens from onTokenRefresh after a 401", async () => {
+    const tokenStore = new MemoryStore();
+    const { api, sc } = setup({
+      tokenStore,
+      onTokenRefresh: (client) => client.auth.refreshUserToken(client.refreshToken!),
+    });
+    const token = await sc.auth.getClientToken();
+    await sc.setToken(token.access_token, token.refresh_token);
+    api.expireTokens();
+
+    await sc.me.getMe();
+    expect(tokenStore.access).not.toBe(token.access_token);
+    expect(tokenStore.refresh).not.toBe(token.refresh_token);
+    expect(tokenStore.access).toMatch(/^mock-access-/);
+  });
+});
+
+describe("tokenProvider", () => {
+  it("awaits pending writes before reading the token", async () => {
+    const tokenProvider = new AsyncSessionProvider();
+    const { sc, sent } = setup({ tokenProvider });
+    const token = await sc.auth.getClientToken();
+
+    void sc.setToken(token.access_token, token.refresh_token);
+    await sc.tracks.getTrack(10);
+    expect(sent.at(-1)).toBe(`OAuth ${token.access_token}`);
+    expect(tokenProvider.writes).toEqual([[token.access_token, token.refresh_token]]);
+  });
+
+  it("reads tokens written by another process and pages with them", async () => {
+    const tokenProvider = new AsyncSessionProvider();
+    const { sc, sent } = setup({ tokenProvider });
+    const token = await sc.auth.getClientToken();
+    tokenProvider.session = { access: token.access_token, refresh: token.refresh_token };
+
+    const tracks = await sc.fetchAll(() => sc.users.getTracks(1, 1));
+    expect(tracks).toHaveLength(2);
+    expect(sent.slice(-2)).toEqual([`OAuth ${token.access_token}`, `OAuth ${token.access_token}`]);
+    expect(sc.accessToken).toBe(token.access_token);
+  });
+
+  it("refreshes through refreshIfNeeded on a 401 without writing the tokens back", async () => {
+    const tokenProvider = new AsyncSessionProvider();
+    const { api, sc, sent } = setup({ tokenProvider });
+    const token = await sc.auth.getClientToken();
+    await sc.setToken(token.access_token, token.refresh_token);
+    api.expireTokens();
+
+    await sc.me.getMe();
+    expect(tokenProvider.refreshes).toBe(1);
+    expect(tokenProvider.writes).toHaveLength(1);
+    expect(sent.at(-1)).toBe(`OAuth ${tokenProvider.session.access}`);
+    expect(sc.accessToken).toBe(tokenProvider.session.access);
+
+    await sc.clearToken();
+    expect(tokenProvider.session).toEqual({});
+  });
+
+  it("rejects setToken when the write fails, without breaking later requests", async () => {
+    const tokenProvider = new AsyncSessionProvider();
+    const { sc } = setup({ tokenProvider });
+    const token = await sc.auth.getClientToken();
+    tokenProvider.session = { access: token.access_token };
+    vi.spyOn(tokenProvider, "setTokens").mockRejectedValueOnce(new Error("session store down"));
+
+    await expect(sc.setToken("other")).rejects.toThrow("session store down");
+    await expect(sc.tracks.getTrack(10)).resolves.toMatchObject({ id: 10 });
+  });
+
+  it("cannot be combined with a tokenStore", () => {
+    expect(() => setup({ tokenProvider: new AsyncSessionProvider(), tokenStore: new MemoryStore() })).toThrow(
+      "Pass either tokenProvider or tokenStore, not both",
+    );
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, it, expect, vi } from "vitest";
+import { validateResponse, type ValidationIssue } from "../validate.js";
+import { responseSchemas } from "../schemas.js";
+import { SoundCloudClient } from "../SoundCloudClient.js";
+import { SoundCloudValidationError } from "../../errors.js";
+import { MockSoundCloudApi } from "../../mock/api.js";
+import { buildPlaylist, buildTrack, buildUser } from "../../testing/factories.js";
+
+const jsonFetch = (body: unknown) => vi.fn(async () => new Response(JSON.stringify(body), { status: 200, headers: { "content-type": "application/json" } }));
+
+/** A track as SoundCloud sometimes sends it: nulls where the type promises values */
+const brokenTrack = () => ({ ...buildTrack({ id: 1 }), duration: null, title: null, user: null });
+
+describe("validateResponse", () => {
+  it("reports the path of each mismatch and repairs them in coerce mode", () => {
+    const issues: ValidationIssue[] = [];
+    const debug: string[] = [];
+    const track = validateResponse(responseSchemas.SoundCloudTrack, brokenTrack(), { mode: "coerce", onIssue: (i) => issues.push(i) }, (m) => debug.push(m), "GET /tracks/1");
+
+    expect(issues).toEqual([
+      { path: "$.duration", expected: "number", received: "null" },
+      { path: "$.title", expected: "string", received: "null" },
+      { path: "$.user", expected: "SoundCloudUser", received: "null" },
+    ]);
+    expect(debug[0]).toBe("Validation (coerce): GET /tracks/1: $.duration expected number, received null");
+    expect(track).toMatchObject({ id: 1, duration: 0, title: "", user: { id: 0, kind: "user", username: "", city: null, subscriptions: [] } });
+  });
+
+  it("passes the value through in warn mode and throws in strict mode", () => {
+    const input = brokenTrack();
+    expect(validateResponse(responseSchemas.SoundCloudTrack, input, "warn")).toBe(input);
+
+    let error: unknown;
+    try {
+      validateResponse(responseSchemas.SoundCloudTrack, input, "strict", undefined, "GET /tracks/1");
+    } catch (err) {
+      error = err;
+    }
+    expect(error).toBeInstanceOf(SoundCloudValidationError);
+    expect((error as SoundCloudValidationError).issues).toHaveLength(3);
+    expect((error as SoundCloudValidationError).message).toBe(
+      "GET /tracks/1: response does not match its type: $.duration expected number, received null (and 2 more)",
+    );
+    expect(validateResponse(responseSchemas.SoundCloudTrack, buildTrack({ id: 2 }), "strict")).toMatchObject({ id: 2 });
+  });
+
+  it("coerces primitives, keeps undeclared fields and drops null optionals", () => {
+    const value = validateResponse(
+      responseSchemas.SoundCloudStreams,
+      { hls_mp3_128_url: 5, preview_mp3_128_url: null, extra: true },
+      "coerce",
+    );
+    expect(value).toEqual({ hls_mp3_128_url: "5", extra: true });
+    expect(validateResponse(responseSchemas.SoundCloudQuota, { unlimited_upload_quota: "true", upload_seconds_used: "12" }, "coerce")).toEqual({
+      unlimited_upload_quota: true,
+      upload_seconds_used: 12,
+      upload_seconds_left: null,
+    });
+  });
+
+  it("validates paginated envelopes and activity origins by kind", () => {
+    const issues: ValidationIssue[] = [];
+    const onIssue = (i: ValidationIssue) => issues.push(i);
+    validateResponse(
+      responseSchemas.SoundCloudPaginatedResponse(responseSchemas.SoundCloudUser),
+      { collection: [buildUser({ id: 1 }), { ...buildUser({ id: 2 }), username: null }], next_href: null },
+      { mode: "warn", onIssue },
+    );
+    validateResponse(
+      responseSchemas.SoundCloudActivitiesResponse,
+      {
+        collection: [{ type: "playlist", created_at: "", origin: { ...buildPlaylist({ id: 3 }), tracks: null } }],
+        next_href: "",
+        future_href: "",
+      },
+      { mode: "warn", onIssue },
+    );
+    expect(issues.map((i) => `${i.path}: ${i.expected}`)).toEqual([
+      "$.collection[1].username: string",
+      "$.collection[0].origin.tracks: SoundCloudTrack[]",
+    ]);
+  });
+
+  it("accepts null for optional metadata and checks literal unions", () => {
+    const issues: ValidationIssue[] = [];
+    const track = validateResponse(
+      responseSchemas.SoundCloudTrack,
+      { ...buildTrack({ id: 1 }), bpm: null, genre: null, release_year: null, sharing: "unlisted", kind: "playlist", access: 3 },
+      { mode: "coerce", onIssue: (i) => issues.push(i) },
+    );
+    expect(issues).toEqual([
+      { path: "$.access", expected: '"blocked" | "preview" | "playable"', received: "number" },
+      { path: "$.kind", expected: '"track"', received: '"playlist"' },
+      { path: "$.sharing", expected: '"private" | "public"', received: '"unlisted"' },
+    ]);
+    expect(track).toMatchObject({ bpm: null, genre: null, release_year: null, access: "blocked", kind: "track", sharing: "private" });
+  });
+
+  it("accepts a client_credentials token without refresh_token or scope", () => {
+    const token = { access_token: "a", expires_in: 3600, token_type: "bearer" };
+    expect(validateResponse(responseSchemas.SoundCloudToken, token, "strict")).toBe(token);
+    expect(() => validateResponse(responseSchemas.SoundCloudToken, { ...token, scope: 5 }, "strict")).toThrow("$.scope expected string, received number");
+  });
+
+  it("picks the activity schema by type, falling back to the origin's kind", () => {
+    const playlist = buildPlaylist({ id: 3 });
+    const issuesOf = (type: string) => {
+      const issues: string[] = [];
+      validateResponse(responseSchemas.SoundCloudActivity, { type, created_at: "", origin: playlist }, { mode: "warn", onIssue: (i) => issues.push(`${i.path}: ${i.received}`) });
+      return issues;
+    };
+
+    expect(issuesOf("playlist-repost")).toEqual([]);
+    expect(issuesOf("station")).toEqual(['$.type: "station"']);
+    expect(issuesOf("track-sharing")).toContain('$.origin.kind: "playlist"');
+  });
+});
+
+describe("SoundCloudClient validation", () => {
+  it("validates namespace responses and reports through onDebug", async () => {
+    const onDebug = vi.fn();
+    const sc = new SoundCloudClient({ clientId: "cid", clientSecret: "cs", fetch: jsonFetch(brokenTrack()), validation: "coerce", onDebug });
+    sc.setToken("tok");
+
+    const track = await sc.tracks.getTrack(1);
+    expect(track.user.username).toBe("");
+    expect(track.duration).toBe(0);
+    expect(onDebug).toHaveBeenCalledWith("Validation (coerce): GET /tracks/1: $.duration expected number, received null");
+  });
+
+  it("throws in strict mode without retrying", async () => {
+    const fetch = jsonFetch(brokenTrack());
+    const sc = new SoundCloudClient({ clientId: "cid", clientSecret: "cs", fetch, validation: "strict" });
+    sc.setToken("tok");
+
+    await expect(sc.tracks.getTrack(1)).rejects.toBeInstanceOf(SoundCloudValidationError);
+    expect(fetch).toHaveBeenCalledOnce();
+  });
+
+  it("is off by default and skips operations without a body schema", async () => {
+    const sc = new SoundCloudClient({ clientId: "cid", clientSecret: "cs", fetch: jsonFetch(brokenTrack()) });
+    sc.setToken("tok");
+    await expect(sc.tracks.getTrack(1)).resolves.toMatchObject({ duration: null });
+
+    const strict = new SoundCloudClient({ clientId: "cid", clientSecret: "cs", fetch: jsonFetch({ unexpected: true }), validation: "strict" });
+    strict.setToken("tok");
+    await expect(strict.raw.get("/tracks/1")).resolves.toMatchObject({ data: { unexpected: true } });
+    await expect(strict.likes.likeTrack(1)).resolves.toBe(true);
+  });
+
+  it("accepts everything the mock API serves in strict mode", async () => {
+    const api = new MockSoundCloudApi({
+      seed: {
+        users: [{ id: 1, username: "Me" }, { id: 2 }],
+        tracks: [{ id: 10, user_id: 2 }],
+        playlists: [{ id: 20, user_id: 2, track_ids: [10] }],
+        comments: [{ track_id: 10, user_id: 1, body: "hi" }],
+        followings: [{ user_id: 1, following_id: 2 }],
+      },
+    });
+    const sc = new SoundCloudClient({ clientId: "cid", clientSecret: "cs", fetch: api.fetch, validation: "strict" });
+    sc.setToken((await sc.auth.getClientToken()).access_token);
+
+    await sc.me.getMe();
+    await sc.me.getActivities();
+    await sc.me.getFollowings();
+    await sc.users.getUser(2);
+    await sc.tracks.getTrack(10);
+    await sc.tracks.getTracks([10]);
+    await sc.tracks.getComments(10);
+    await sc.tracks.getStreams(10);
+    await sc.playlists.getPlaylist(20);
+    await sc.search.tracks("");
+  });
+});
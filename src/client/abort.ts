@@ -0,0 +1,82 @@
+import { SoundCloudAbortError } from "../errors.js";
+
+/**
+ * Cancellation state for a single logical request: the caller's signal combined
+ * with an optional timeout.
+ */
+export interface RequestAbort {
+  /** Signal passed to `fetch`, or `undefined` when neither a signal nor a timeout was given */
+  signal?: AbortSignal;
+  /** Build the {@link SoundCloudAbortError} describing why the request was aborted */
+  toError(cause?: unknown): SoundCloudAbortError;
+  /** Clear the timeout timer and detach from the caller's signal */
+  dispose(): void;
+}
+
+/**
+ * Combine an optional caller signal and timeout into one {@link RequestAbort}.
+ * Always call `dispose()` once the request settles.
+ */
+export function linkAbort(parent?: AbortSignal, timeoutMs?: number): RequestAbort {
+  if (!parent && !timeoutMs) {
+    return { signal: undefined, toError: (cause) => new SoundCloudAbortError("Request aborted", { cause }), dispose: () => {} };
+  }
+
+  const controller = new AbortController();
+  let timedOut = false;
+  const onAbort = () => controller.abort(parent?.reason);
+  if (parent?.aborted) controller.abort(parent.reason);
+  else parent?.addEventListener("abort", onAbort, { once: true });
+
+  const timer = timeoutMs
+    ? setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, timeoutMs)
+    : undefined;
+
+  return {
+    signal: controller.signal,
+    toError: (cause) =>
+      new SoundCloudAbortError(timedOut ? `Request timed out after ${timeoutMs}ms` : "Request aborted", {
+        isTimeout: timedOut,
+        cause: cause ?? controller.signal.reason,
+      }),
+    dispose: () => {
+      clearTimeout(timer);
+      parent?.removeEventListener("abort", onAbort);
+    },
+  };
+}
+
+/**
+ * Reject as soon as `signal` aborts, even if `promise` never settles
+ * (e.g. a custom `fetch` that ignores its signal).
+ */
+export function raceAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(signal.reason);
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener("abort", onAbort);
+        resolve(value);
+      },
+      (err) => {
+        signal.removeEventListener("abort", onAbort);
+        reject(err);
+      },
+    );
+  });
+}
+
+/**
+ * `catch` handler of the boolean mutations (`likes.*`, `reposts.*`): a failed request resolves
+ * `false`, but cancellation still rejects with its {@link SoundCloudAbortError}.
+ */
+export function falseUnlessAborted(err: unknown): false {
+  if (err instanceof SoundCloudAbortError) throw err;
+  return false;
+}
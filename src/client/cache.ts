@@ -44,3 +44,198 @@ export interface SoundCloudCache {
   /** Remove a cached entry */
   delete(key: string): Promise<void> | void;
 }
+
+/**
+ * Per-call cache controls accepted by client methods and {@link scFetch}.
+ */
+export interface CacheCallOptions {
+  /** Override the client's `cacheTtlMs` for this response */
+  cacheTtlMs?: number;
+  /** Skip the cache lookup and always hit the network (the fresh response is still stored) */
+  noCache?: boolean;
+}
+
+/**
+ * Validators from a cached response, sent back as `If-None-Match` / `If-Modified-Since`
+ * to revalidate the entry once it is stale.
+ */
+export interface CacheValidators {
+  /** The response's `ETag` header */
+  etag?: string;
+  /** The response's `Last-Modified` header */
+  lastModified?: string;
+}
+
+/**
+ * What the fetcher passed to {@link ResponseCache.wrap} resolves with.
+ */
+export interface CacheFetchResult<T> {
+  /** The response body (`undefined` for 304s and empty responses) */
+  value: T;
+  /** True when the server answered a conditional request with 304 Not Modified */
+  notModified?: boolean;
+  /** Validators from the response headers, if it carried any */
+  validators?: CacheValidators;
+}
+
+/** A response kept past its TTL together with its validators, so it can be revalidated. */
+interface StaleEntry<T> {
+  value: T;
+  validators: CacheValidators;
+}
+
+/** Key of the stale entry that shadows the fresh entry `key`. */
+function staleKey(key: string): string {
+  return `${key}:stale`;
+}
+
+/** FNV-1a hash — keeps raw tokens out of cache keys without needing async crypto. */
+function fingerprint(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+function normalizePath(pathOrUrl: string): string {
+  return pathOrUrl.replace(/^https?:\/\/[^/?#]+/, "");
+}
+
+/**
+ * Build a stable request identity of the form `sc:<METHOD>:<path>:<token fingerprint>`.
+ * Absolute URLs share keys with their relative paths (whatever the API host), and the
+ * token is hashed so raw credentials never end up in cache keys.
+ */
+export function requestKey(method: string, pathOrUrl: string, token?: string): string {
+  return `sc:${method}:${normalizePath(pathOrUrl)}:${token ? fingerprint(token) : "anon"}`;
+}
+
+/** Written keys between sweeps of the pathname index, at minimum. */
+const INDEX_SWEEP_INTERVAL = 1000;
+
+function pathnameOf(path: string): string {
+  const q = path.indexOf("?");
+  return q === -1 ? path : path.slice(0, q);
+}
+
+/**
+ * Wraps a user-supplied {@link SoundCloudCache} with key derivation, TTL defaults,
+ * conditional revalidation and mutation invalidation. Used internally by {@link SoundCloudClient}.
+ *
+ * Keys come from {@link requestKey}, so responses are never shared between
+ * different access tokens. Keys written by this instance are indexed by pathname until
+ * their TTL runs out, allowing a mutation on `/tracks/123` to drop every cached variant
+ * of that resource (any query string, any token). With a backend shared between
+ * processes, variants written by another process are not in this index: a mutation
+ * there only drops the canonical key (no query string) for the mutating token, and the
+ * other variants stay until their TTL expires.
+ *
+ * Responses carrying an `ETag` or `Last-Modified` header are also kept under a second
+ * `<key>:stale` entry for `revalidateTtlMs`. Once the fresh entry expires, the next GET
+ * sends those validators and a 304 answer is served from the stale entry.
+ */
+export class ResponseCache {
+  /** Keys written by this instance with the time their last entry expires, by pathname */
+  private keysByPathname = new Map<string, Map<string, number>>();
+  private indexedKeys = 0;
+  private nextSweep = INDEX_SWEEP_INTERVAL;
+
+  constructor(
+    private backend: SoundCloudCache,
+    private defaultTtlMs: number = 60000,
+    private revalidateTtlMs: number = 86_400_000,
+  ) {}
+
+  /** Build the cache key for a request (see {@link requestKey}). */
+  key(method: string, pathOrUrl: string, token?: string): string {
+    return requestKey(method, pathOrUrl, token);
+  }
+
+  /**
+   * Return the cached response for a GET, or run `fetcher` and store its result.
+   * When only a stale entry is left, `fetcher` receives its validators and a
+   * `notModified` result is answered from that entry.
+   * `undefined` results (204 / empty bodies) are never stored.
+   */
+  async wrap<T>(
+    pathOrUrl: string,
+    token: string | undefined,
+    fetcher: (validators?: CacheValidators) => Promise<CacheFetchResult<T>>,
+    options?: CacheCallOptions,
+  ): Promise<T> {
+    const key = this.key("GET", pathOrUrl, token);
+    let stale: StaleEntry<T> | undefined;
+    if (!options?.noCache) {
+      const hit = await this.backend.get<T>(key);
+      if (hit !== undefined) return hit;
+      if (this.revalidateTtlMs > 0) stale = await this.backend.get<StaleEntry<T>>(staleKey(key));
+    }
+    const result = await fetcher(stale?.validators);
+    const value = result.notModified && stale ? stale.value : result.value;
+    if (value !== undefined) {
+      let ttlMs = options?.cacheTtlMs ?? this.defaultTtlMs;
+      await this.backend.set(key, value, { ttlMs });
+      const validators = result.validators ?? (result.notModified ? stale?.validators : undefined);
+      if (validators && this.revalidateTtlMs > 0) {
+        await this.backend.set<StaleEntry<T>>(staleKey(key), { value, validators }, { ttlMs: this.revalidateTtlMs });
+        ttlMs = Math.max(ttlMs, this.revalidateTtlMs);
+      }
+      this.track(pathOrUrl, key, Date.now() + ttlMs);
+    }
+    return value;
+  }
+
+  /**
+   * Delete cached GET responses for the given resource paths (query strings are ignored).
+   *
+   * @param paths - Resource paths affected by a mutation, e.g. `["/tracks/123"]`
+   * @param token - Token of the mutating request; its canonical key is removed even if written by another process
+   *   (other query variants written by another process are not known here and expire with their TTL)
+   */
+  async invalidate(paths: string[], token?: string): Promise<void> {
+    const keys = new Set<string>();
+    for (const path of paths) {
+      const pathname = pathnameOf(normalizePath(path));
+      keys.add(this.key("GET", pathname, token));
+      const indexed = this.keysByPathname.get(pathname);
+      if (!indexed) continue;
+      for (const key of indexed.keys()) keys.add(key);
+      this.indexedKeys -= indexed.size;
+      this.keysByPathname.delete(pathname);
+    }
+    await Promise.all([...keys].flatMap((key) => [this.backend.delete(key), this.backend.delete(staleKey(key))]));
+  }
+
+  private track(pathOrUrl: string, key: string, expiresAt: number): void {
+    const pathname = pathnameOf(normalizePath(pathOrUrl));
+    let keys = this.keysByPathname.get(pathname);
+    if (!keys) {
+      keys = new Map();
+      this.keysByPathname.set(pathname, keys);
+    }
+    if (!keys.has(key)) this.indexedKeys++;
+    keys.set(key, Math.max(keys.get(key) ?? 0, expiresAt));
+    if (this.indexedKeys >= this.nextSweep) this.prune();
+  }
+
+  /**
+   * Drop index entries whose cache entries have expired. Runs once the index has doubled since
+   * the last sweep, so it stays proportional to the live entries at an amortized constant cost.
+   * Entries the backend evicts early stay indexed until their TTL, and deleting them is a no-op.
+   */
+  private prune(): void {
+    const now = Date.now();
+    for (const [pathname, keys] of this.keysByPathname) {
+      for (const [key, expiresAt] of keys) {
+        if (expiresAt <= now) keys.delete(key);
+      }
+      if (keys.size === 0) this.keysByPathname.delete(pathname);
+    }
+    let indexed = 0;
+    for (const keys of this.keysByPathname.values()) indexed += keys.size;
+    this.indexedKeys = indexed;
+    this.nextSweep = Math.max(indexed * 2, INDEX_SWEEP_INTERVAL);
+  }
+}
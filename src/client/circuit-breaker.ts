@@ -0,0 +1,169 @@
+import { SoundCloudCircuitOpenError } from "../errors.js";
+
+/** Circuit breaker state */
+export type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * Passed to {@link CircuitBreakerOptions.onStateChange} on every transition.
+ */
+export interface CircuitStateChange {
+  /** State before the transition */
+  from: CircuitState;
+  /** State after the transition */
+  to: CircuitState;
+  /** Failure ratio over the rolling window at the time of the transition (0–1) */
+  failureRatio: number;
+}
+
+/**
+ * Options for {@link CircuitBreaker}.
+ */
+export interface CircuitBreakerOptions {
+  /** Failure ratio over the rolling window that opens the circuit, between 0 and 1 (default: 0.5) */
+  failureThreshold?: number;
+  /** Minimum attempts in the window before the ratio is evaluated (default: 10) */
+  minimumRequests?: number;
+  /** Number of most recent attempts the failure ratio is computed over (default: 20) */
+  windowSize?: number;
+  /** How long the circuit stays open before letting probe requests through, in milliseconds (default: 30000) */
+  openMs?: number;
+  /** Successful probes needed in the half-open state to close the circuit; also the max probes in flight (default: 1) */
+  halfOpenProbes?: number;
+  /** Called on every state transition */
+  onStateChange?: (change: CircuitStateChange) => void;
+}
+
+/**
+ * Circuit breaker for sustained SoundCloud outages.
+ *
+ * Every attempt (retries included) is recorded: 5xx responses and network errors count
+ * as failures, anything else as a success, and aborted attempts are not counted. Once the
+ * failure ratio over the last `windowSize` attempts reaches `failureThreshold`, the circuit
+ * opens and requests fail fast with {@link SoundCloudCircuitOpenError} instead of burning
+ * through their retry backoff. After `openMs` it half-opens and lets `halfOpenProbes`
+ * requests through: if they succeed the circuit closes, if one fails it opens again.
+ *
+ * @example
+ * ```ts
+ * const breaker = new CircuitBreaker({
+ *   failureThreshold: 0.5,
+ *   openMs: 30_000,
+ *   onStateChange: ({ from, to }) => console.warn(`SoundCloud circuit ${from} -> ${to}`),
+ * });
+ * const sc = new SoundCloudClient({ clientId, clientSecret, circuitBreaker: breaker });
+ * ```
+ */
+export class CircuitBreaker {
+  private readonly failureThreshold: number;
+  private readonly minimumRequests: number;
+  private readonly windowSize: number;
+  private readonly openMs: number;
+  private readonly halfOpenProbes: number;
+  private readonly onStateChange?: (change: CircuitStateChange) => void;
+  private _state: CircuitState = "closed";
+  private outcomes: boolean[] = [];
+  private openedAt = 0;
+  private probesInFlight = 0;
+  private probeSuccesses = 0;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThreshold = options.failureThreshold ?? 0.5;
+    this.minimumRequests = options.minimumRequests ?? 10;
+    this.windowSize = Math.max(options.windowSize ?? 20, 1);
+    this.openMs = options.openMs ?? 30000;
+    this.halfOpenProbes = Math.max(options.halfOpenProbes ?? 1, 1);
+    this.onStateChange = options.onStateChange;
+  }
+
+  /** Current state; an open circuit whose `openMs` has elapsed reports `"half-open"` */
+  get state(): CircuitState {
+    if (this._state === "open" && Date.now() - this.openedAt >= this.openMs) this.transition("half-open");
+    return this._state;
+  }
+
+  /** Failure ratio over the rolling window (0–1) */
+  get failureRatio(): number {
+    if (this.outcomes.length === 0) return 0;
+    return this.outcomes.filter((ok) => !ok).length / this.outcomes.length;
+  }
+
+  /**
+   * Run one attempt through the breaker.
+   *
+   * @param attempt - Sends the request
+   * @param isFailure - Classifies a settled response (e.g. `status >= 500`)
+   * @param signal - When aborted, a rejected attempt is not counted as a failure
+   * @returns The attempt's result
+   * @throws {SoundCloudCircuitOpenError} When the circuit is open or all half-open probes are taken
+   */
+  async call<T>(attempt: () => Promise<T>, isFailure: (result: T) => boolean, signal?: AbortSignal): Promise<T> {
+    this.admit();
+    let result: T;
+    try {
+      result = await attempt();
+    } catch (err) {
+      if (signal?.aborted) this.release();
+      else this.record(false);
+      throw err;
+    }
+    this.record(!isFailure(result));
+    return result;
+  }
+
+  /** Close the circuit and forget all recorded outcomes */
+  reset(): void {
+    this.outcomes = [];
+    this.probesInFlight = 0;
+    this.probeSuccesses = 0;
+    if (this._state !== "closed") this.transition("closed");
+  }
+
+  private admit(): void {
+    const state = this.state;
+    if (state === "open") {
+      throw new SoundCloudCircuitOpenError(this.openMs - (Date.now() - this.openedAt));
+    }
+    if (state === "half-open") {
+      if (this.probesInFlight >= this.halfOpenProbes) throw new SoundCloudCircuitOpenError(0);
+      this.probesInFlight++;
+    }
+  }
+
+  private release(): void {
+    if (this._state === "half-open") this.probesInFlight = Math.max(this.probesInFlight - 1, 0);
+  }
+
+  private record(ok: boolean): void {
+    if (this._state === "half-open") {
+      this.release();
+      if (!ok) {
+        this.open();
+      } else if (++this.probeSuccesses >= this.halfOpenProbes) {
+        this.outcomes = [];
+        this.transition("closed");
+      }
+      return;
+    }
+    // Attempts that were admitted before the circuit opened still settle afterwards
+    if (this._state === "open") return;
+
+    this.outcomes.push(ok);
+    if (this.outcomes.length > this.windowSize) this.outcomes.shift();
+    if (this.outcomes.length >= this.minimumRequests && this.failureRatio >= this.failureThreshold) this.open();
+  }
+
+  private open(): void {
+    this.openedAt = Date.now();
+    this.transition("open");
+  }
+
+  private transition(to: CircuitState): void {
+    const from = this._state;
+    this._state = to;
+    if (to === "half-open") {
+      this.probesInFlight = 0;
+      this.probeSuccesses = 0;
+    }
+    if (from !== to) this.onStateChange?.({ from, to, failureRatio: this.failureRatio });
+  }
+}
@@ -36,6 +36,11 @@ export class InFlightDeduper {
     return promise;
   }
 
+  /** Whether a request for `key` is currently in flight (i.e. `add` would join it) */
+  has(key: string): boolean {
+    return this.inFlight.has(key);
+  }
+
   /** Number of currently in-flight requests */
   get size(): number {
     return this.inFlight.size;
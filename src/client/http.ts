@@ -1,13 +1,111 @@
-import { SoundCloudError, type SoundCloudErrorBody } from "../errors.js";
+import { SoundCloudError, SoundCloudAbortError, type SoundCloudErrorBody } from "../errors.js";
+import { linkAbort, raceAbort } from "./abort.js";
+import { requestKey, type CacheCallOptions, type CacheValidators, type ResponseCache } from "./cache.js";
+import type { InFlightDeduper } from "./dedupe.js";
+import { composeMiddleware, type Middleware, type MiddlewareRequest, type MiddlewareResponse } from "./middleware.js";
+import type { RateLimiter } from "./rate-limit.js";
+import type { CircuitBreaker } from "./circuit-breaker.js";
+import { BackoffStrategy, type RetryStrategy } from "./retry.js";
+import { matchOperation } from "./registry.js";
+import { traceOperation, type OpenTelemetryOptions, type OperationTrace } from "./otel.js";
+import { responseSchemaFor } from "./schemas.js";
+import { validateResponse, type ValidationMode, type ValidationOptions } from "./validate.js";
+
+/** Public SoundCloud API origin, used unless `apiBaseUrl` is set */
+export const DEFAULT_API_BASE_URL = "https://api.soundcloud.com";
+/** Public SoundCloud auth origin (token grants, authorize, sign-out), used unless `authBaseUrl` is set */
+export const DEFAULT_AUTH_BASE_URL = "https://secure.soundcloud.com";
 
-const BASE_URL = "https://api.soundcloud.com";
-const AUTH_BASE_URL = "https://secure.soundcloud.com";
+/**
+ * Host overrides for pointing the library at a local stand-in of the SoundCloud API.
+ */
+export interface BaseUrlOptions {
+  /** Origin (and optional path prefix) replacing `https://api.soundcloud.com` */
+  apiBaseUrl?: string;
+  /** Origin (and optional path prefix) replacing `https://secure.soundcloud.com` */
+  authBaseUrl?: string;
+}
+
+/**
+ * Transport-level settings accepted by {@link scFetch}, {@link scFetchUrl} and
+ * every standalone endpoint function.
+ */
+export interface TransportOptions extends BaseUrlOptions {
+  /** Custom fetch implementation, e.g. an undici agent with keep-alive or a test double (defaults to `globalThis.fetch`) */
+  fetch?: typeof globalThis.fetch;
+  /** Cancels the request, including any pending retry backoff */
+  signal?: AbortSignal;
+  /** Abort the request (retries included) after this many milliseconds */
+  timeoutMs?: number;
+  /** Interceptors run around the request, outermost first (see {@link Middleware}) */
+  middleware?: Middleware[];
+  /** Client-side rate limiter every attempt waits on before it is sent */
+  rateLimiter?: RateLimiter;
+  /** Circuit breaker that records every attempt and fails fast while open */
+  circuitBreaker?: CircuitBreaker;
+  /** Receives the status, headers and timing of the request once it settles (see {@link SCResponseMeta}) */
+  onResponse?: (meta: SCResponseMeta) => void;
+  /** Tracer and/or meter that receive a span per request, a child span per attempt and request metrics */
+  openTelemetry?: OpenTelemetryOptions;
+  /** Check response bodies against their declared types (see {@link ValidationMode}); off by default */
+  validation?: ValidationMode | ValidationOptions;
+}
+
+/**
+ * HTTP metadata of a settled request, passed to `onResponse`.
+ * Reported for successful requests and for error responses that end in a {@link SoundCloudError}.
+ */
+export interface SCResponseMeta {
+  /** HTTP status of the final response (200 for cache hits) */
+  status: number;
+  /** Headers of the final response, lower-cased (empty for cache hits) */
+  headers: Record<string, string>;
+  /** The `x-request-id` header, useful when reporting problems to SoundCloud */
+  requestId?: string;
+  /** Number of retries before the final response */
+  retryCount: number;
+  /** Total time including retries, in milliseconds */
+  durationMs: number;
+  /** True when the body came from the client cache (a plain hit or a 304 revalidation) */
+  cached?: boolean;
+}
+
+/**
+ * A response body together with its HTTP metadata, as resolved by `withResponse()` views.
+ * Works for every body type: objects, arrays, redirect URLs and empty (204) responses.
+ */
+export interface SCResponse<T> extends SCResponseMeta {
+  /** The parsed body, redirect URL, or `undefined` for empty responses */
+  data: T;
+}
+
+/**
+ * Retry controls for requests that are not safe to repeat blindly (POST).
+ */
+export interface MutationRetryOptions<T = unknown> {
+  /**
+   * Declare the request safe to repeat, so it is retried on 5xx like a GET. POST requests
+   * are otherwise only retried on 429; set `false` to stop retrying any method
+   */
+  idempotent?: boolean;
+  /**
+   * Checks whether a failed create took effect anyway (e.g. by listing the user's playlists).
+   * Runs after each backoff, before the request is retried; resolving with a value returns it
+   * as the request's result, resolving `undefined` goes ahead with the retry.
+   * Setting it also makes a POST retryable.
+   */
+  reconcile?: () => Promise<T | undefined>;
+}
 
 /**
  * Options for making a request to the SoundCloud API via {@link scFetch}.
  */
-export interface RequestOptions {
-  /** API path relative to `https://api.soundcloud.com` (e.g. "/tracks/123"). Paths starting with `/oauth` are routed to `https://secure.soundcloud.com`. */
+export interface RequestOptions extends TransportOptions, CacheCallOptions, MutationRetryOptions {
+  /**
+   * API path relative to `https://api.soundcloud.com` (e.g. "/tracks/123"), or an absolute URL such as a
+   * `next_href`. Paths starting with `/oauth` are routed to `https://secure.soundcloud.com`. Both hosts
+   * can be overridden with `apiBaseUrl` / `authBaseUrl`.
+   */
   path: string;
   /** HTTP method */
   method: "GET" | "POST" | "PUT" | "DELETE";
@@ -19,6 +117,12 @@ export interface RequestOptions {
   headers?: Record<string, string>;
   /** Override the Content-Type header (defaults to "application/json" for object bodies) */
   contentType?: string;
+  /** Resource paths whose cached GET responses are dropped after this request succeeds (requires a client cache) */
+  invalidates?: string[];
+  /** Name of the client method making the request, e.g. `"tracks.getTrack"`, used as the OpenTelemetry span name */
+  operation?: string;
+  /** Resolve any 2xx response with `undefined` without parsing its body (for endpoints such as `/sign-out` that answer with arbitrary text) */
+  ignoreBody?: boolean;
 }
 
 /**
@@ -37,6 +141,30 @@ export interface SCRequestTelemetry {
   retryCount: number;
   /** Error message if the request ultimately failed */
   error?: string;
+  /** True when this call joined an identical in-flight GET instead of sending its own request (status mirrors the shared request) */
+  deduped?: boolean;
+  /** Total time spent waiting in the client-side rate limiter queue, in milliseconds (only with a rate limiter) */
+  queuedMs?: number;
+  /** Requests already queued in the rate limiter when this one first arrived (only with a rate limiter) */
+  queueDepth?: number;
+  /**
+   * Random id of the call, shared by every event it emits (e.g. the 401 and the retried request
+   * after a token refresh) and set as `soundcloud.correlation_id` on its OpenTelemetry span
+   */
+  correlationId: string;
+  /** Client method that made the request, e.g. `"tracks.getTrack"` (absent for standalone functions and pagination) */
+  operation?: string;
+  /** OpenAPI operation id, one of `IMPLEMENTED_OPERATIONS` (absent for paths the library does not implement) */
+  operationId?: string;
+  /** Path with ids replaced by placeholders, e.g. `/tracks/{track_id}`, for grouping requests */
+  pathTemplate?: string;
+  /** Size of the response body in bytes, from its `Content-Length` header */
+  responseBytes?: number;
+  /**
+   * How the client cache handled a GET (only with a cache): served from it (`"hit"`), answered by a
+   * 304 (`"revalidated"`), fetched (`"miss"`) or fetched because of `noCache` (`"bypass"`)
+   */
+  cacheStatus?: "hit" | "revalidated" | "miss" | "bypass";
 }
 
 /**
@@ -53,16 +181,22 @@ export interface RetryInfo {
   status?: number;
   /** The URL that was requested */
   url: string;
+  /** Which rule of the retry strategy chose the delay (e.g. `"retry-after"`, `"exponential"`) */
+  strategy: string;
+  /** True when the delay was cut down to the strategy's maximum */
+  capped?: boolean;
 }
 
 /**
- * Configuration for automatic retry with exponential backoff on transient errors.
+ * Configuration for automatic retry on transient errors.
  */
 export interface RetryConfig {
-  /** Maximum number of retries on 429/5xx responses (default: 3) */
+  /** Maximum number of retries (default: 3) */
   maxRetries: number;
-  /** Base delay in milliseconds for exponential backoff (default: 1000) */
+  /** Base delay in milliseconds for exponential backoff when no `strategy` is given (default: 1000) */
   retryBaseDelay: number;
+  /** Decides which responses are retried and how long to wait (default: a {@link BackoffStrategy} using `retryBaseDelay`) */
+  strategy?: RetryStrategy;
   /** Optional callback for debug logging of retry attempts */
   onDebug?: (message: string) => void;
   /** Optional callback fired before each retry with structured retry info */
@@ -75,15 +209,50 @@ export interface RetryConfig {
  */
 export interface AutoRefreshContext {
   /** Returns the current stored access token */
-  getToken: () => string | undefined;
-  /** Called to obtain fresh tokens; if absent, 401 errors are thrown directly */
-  onTokenRefresh?: () => Promise<{ access_token: string; refresh_token?: string }>;
-  /** Callback to store the new tokens after a successful refresh */
-  setToken: (accessToken: string, refreshToken?: string) => void;
+  getToken: () => string | undefined | Promise<string | undefined>;
+  /**
+   * Called with the token that got the 401 to obtain fresh tokens; if absent, 401 errors are
+   * thrown directly. Concurrent calls may share one refresh
+   */
+  onTokenRefresh?: (failedToken?: string) => Promise<{ access_token: string; refresh_token?: string }>;
+  /** Callback to store the new tokens after a successful refresh; a returned promise is awaited */
+  setToken: (accessToken: string, refreshToken?: string) => void | Promise<void>;
   /** Retry configuration for this context */
   retry?: RetryConfig;
   /** Called after every API request with structured telemetry */
   onRequest?: (telemetry: SCRequestTelemetry) => void;
+  /** Response cache consulted for GET requests and invalidated by mutations */
+  cache?: ResponseCache;
+  /** Shares one network request between identical concurrent GETs */
+  deduper?: InFlightDeduper;
+  /** Fetch implementation used when the request itself does not specify one */
+  fetch?: typeof globalThis.fetch;
+  /** Default timeout in milliseconds when the request itself does not specify one */
+  timeoutMs?: number;
+  /** Middleware used when the request itself does not specify any */
+  middleware?: Middleware[];
+  /** Rate limiter used when the request itself does not specify one */
+  rateLimiter?: RateLimiter;
+  /** Circuit breaker used when the request itself does not specify one */
+  circuitBreaker?: CircuitBreaker;
+  /** API origin used when the request itself does not specify one */
+  apiBaseUrl?: string;
+  /** Auth origin used when the request itself does not specify one */
+  authBaseUrl?: string;
+  /** Response metadata callback used when the request itself does not specify one */
+  onResponse?: (meta: SCResponseMeta) => void;
+  /** OpenTelemetry tracer and meter used when the request itself does not specify them */
+  openTelemetry?: OpenTelemetryOptions;
+  /** Response validation used when the request itself does not specify it */
+  validation?: ValidationMode | ValidationOptions;
+}
+
+/**
+ * Options for {@link scFetchUrl}.
+ */
+export interface FetchUrlOptions extends TransportOptions {
+  /** Deduper so identical concurrent page fetches share one request */
+  deduper?: InFlightDeduper;
 }
 
 const DEFAULT_RETRY: RetryConfig = { maxRetries: 3, retryBaseDelay: 1000 };
@@ -92,31 +261,179 @@ const DEFAULT_RETRY: RetryConfig = { maxRetries: 3, retryBaseDelay: 1000 };
  * Creates a promise that resolves after the specified delay.
  *
  * @param ms - Delay duration in milliseconds
+ * @param signal - Optional signal that rejects the promise (with the signal's reason) as soon as it aborts
  * @returns A promise that resolves after `ms` milliseconds
  */
-export function delay(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Run `request` through the deduper so identical concurrent GETs share one network call.
+ * Callers that join an existing request emit their own telemetry event flagged `deduped`.
+ */
+async function shareInFlight<S extends { status: number }>(
+  deduper: InFlightDeduper,
+  key: string,
+  base: Pick<SCRequestTelemetry, "path" | "correlationId" | "operation" | "operationId" | "pathTemplate">,
+  onRequest: ((telemetry: SCRequestTelemetry) => void) | undefined,
+  request: () => Promise<S>,
+): Promise<S> {
+  const joined = deduper.has(key);
+  const startTime = Date.now();
+  const emit = (status: number, error?: string) => {
+    if (!joined || !onRequest) return;
+    onRequest({
+      method: "GET",
+      ...base,
+      durationMs: Date.now() - startTime,
+      status,
+      retryCount: 0,
+      deduped: true,
+      ...(error ? { error } : {}),
+    });
+  };
+  try {
+    const shared = await deduper.add(key, request);
+    emit(shared.status);
+    return shared;
+  } catch (err) {
+    emit(err instanceof SoundCloudError ? err.status : 0, (err as Error).message);
+    throw err;
+  }
+}
+
+/**
+ * Move an absolute URL from the `from` origin onto `to`, leaving other URLs untouched.
+ * Used to follow `next_href` links (which always name the public host) on an overridden base URL.
+ */
+export function rebaseUrl(url: string, from: string, to: string): string {
+  if (from === to || !url.startsWith(from)) return url;
+  const rest = url.slice(from.length);
+  if (rest !== "" && !/^[/?#]/.test(rest)) return url;
+  return `${to.replace(/\/+$/, "")}${rest}`;
+}
+
+/**
+ * Resolve a request path against the (possibly overridden) API or auth base URL.
+ * Relative paths starting with `/oauth` go to the auth host; absolute URLs on the
+ * public hosts are rebased onto the overrides.
+ */
+export function resolveUrl(path: string, bases: BaseUrlOptions = {}): string {
+  const api = bases.apiBaseUrl ?? DEFAULT_API_BASE_URL;
+  const auth = bases.authBaseUrl ?? DEFAULT_AUTH_BASE_URL;
+  if (/^https?:\/\//.test(path)) {
+    return rebaseUrl(rebaseUrl(path, DEFAULT_API_BASE_URL, api), DEFAULT_AUTH_BASE_URL, auth);
+  }
+  return joinUrl(path.startsWith("/oauth") ? auth : api, path);
+}
+
+/**
+ * Absolute URL of an endpoint on the (possibly overridden) auth host, e.g. `/authorize` or `/sign-out`.
+ */
+export function authUrl(path: string, authBaseUrl: string = DEFAULT_AUTH_BASE_URL): string {
+  return joinUrl(authBaseUrl, path);
+}
+
+function joinUrl(base: string, path: string): string {
+  return `${base.replace(/\/+$/, "")}${path}`;
+}
+
+function headersOf(response: { headers: { forEach?: Headers["forEach"] } }): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (typeof response.headers.forEach === "function") {
+    response.headers.forEach((value: string, key: string) => {
+      headers[key] = value;
+    });
+  }
+  return headers;
 }
 
-function isRetryable(status: number): boolean {
-  return status === 429 || (status >= 500 && status <= 599);
+/** Read the revalidation headers of a response, if it carried any */
+function validatorsOf(headers: Record<string, string>): CacheValidators | undefined {
+  const etag = headers["etag"];
+  const lastModified = headers["last-modified"];
+  if (!etag && !lastModified) return undefined;
+  return { ...(etag ? { etag } : {}), ...(lastModified ? { lastModified } : {}) };
 }
 
-function getRetryDelay(
-  response: { status: number; headers: { get(key: string): string | null } },
-  attempt: number,
-  config: RetryConfig,
-): number {
-  if (response.status === 429) {
-    const retryAfter = response.headers.get("retry-after");
-    if (retryAfter) {
-      const seconds = Number(retryAfter);
-      if (!Number.isNaN(seconds)) return Math.min(seconds * 1000, 60000);
+/** Attach non-enumerable _meta so callers can access status/headers without breaking toEqual checks */
+function withMeta(response: MiddlewareResponse): unknown {
+  const { data } = response;
+  if (typeof data === "object" && data !== null) {
+    try {
+      Object.defineProperty(data, "_meta", {
+        value: { status: response.status, headers: response.headers },
+        enumerable: false,
+        configurable: true,
+        writable: true,
+      });
+    } catch {
+      // frozen objects — skip
     }
   }
-  // Exponential backoff with jitter
-  const base = config.retryBaseDelay * Math.pow(2, attempt);
-  return base + Math.random() * base * 0.1;
+  return data;
+}
+
+interface QueueStats {
+  queuedMs: number;
+  queueDepth?: number;
+}
+
+/**
+ * Send one attempt, holding a rate limiter slot (when configured) until the response
+ * arrives and letting the limiter learn from the response headers.
+ */
+async function sendThrottled(
+  limiter: RateLimiter | undefined,
+  signal: AbortSignal | undefined,
+  stats: QueueStats,
+  send: () => Promise<Response>,
+): Promise<Response> {
+  if (!limiter) return send();
+  const slot = await limiter.acquire(signal);
+  stats.queuedMs += slot.waitMs;
+  stats.queueDepth ??= slot.queueDepth;
+  try {
+    const response = await send();
+    limiter.observe(response.status, response.headers);
+    return response;
+  } finally {
+    slot.release();
+  }
+}
+
+/**
+ * Send one attempt through the circuit breaker (5xx and network errors count as failures)
+ * and then the rate limiter, so an open circuit fails fast without queueing.
+ */
+function sendAttempt(
+  guards: Pick<TransportOptions, "rateLimiter" | "circuitBreaker">,
+  signal: AbortSignal | undefined,
+  stats: QueueStats,
+  send: () => Promise<Response>,
+): Promise<Response> {
+  const throttled = () => sendThrottled(guards.rateLimiter, signal, stats, send);
+  if (!guards.circuitBreaker) return throttled();
+  return guards.circuitBreaker.call(throttled, (response) => response.status >= 500, signal);
+}
+
+function queueTelemetry(limiter: RateLimiter | undefined, stats: QueueStats): Pick<SCRequestTelemetry, "queuedMs" | "queueDepth"> {
+  return limiter ? { queuedMs: stats.queuedMs, queueDepth: stats.queueDepth ?? 0 } : {};
 }
 
 async function parseErrorBody(response: { json(): Promise<unknown> }): Promise<unknown> {
@@ -128,16 +445,31 @@ async function parseErrorBody(response: { json(): Promise<unknown> }): Promise<u
 }
 
 /**
- * Make a request to the SoundCloud API using native `fetch`.
+ * Make a request to the SoundCloud API using native `fetch` (or the `fetch` supplied in
+ * the options or refresh context). `path` may be relative to the API base or an absolute
+ * URL (e.g. a `next_href`); both go through the same pipeline.
  *
  * Handles JSON serialization, OAuth headers, automatic retries on 429/5xx,
  * and optional automatic token refresh on 401. For 302 redirects, returns
  * the `Location` header value. For 204 responses, returns `undefined`.
+ * When the context carries a cache, GET responses are served from and stored
+ * in it, and successful mutations drop the paths listed in `invalidates`.
+ * With a deduper, identical concurrent GETs share a single network request.
+ * Pass `signal` and/or `timeoutMs` to cancel the request, including retry backoff.
+ * Middleware from the options (or refresh context) runs around the request, see {@link Middleware}.
+ * With a rate limiter, every attempt first waits for a slot in its queue; with a circuit
+ * breaker, attempts fail fast with {@link SoundCloudCircuitOpenError} while it is open.
+ * With `openTelemetry`, the request runs in a span named after `operation` with a child span
+ * per HTTP attempt, and is counted in the `soundcloud.client.*` metrics.
+ * With `validation`, 2xx bodies of known operations are checked against their declared types.
  *
  * @param options - Request configuration (path, method, token, body)
  * @param refreshCtx - Optional auto-refresh context for transparent token renewal
  * @returns Parsed JSON response, redirect URL, or undefined for empty responses
  * @throws {SoundCloudError} When the API returns a non-retryable error status
+ * @throws {SoundCloudAbortError} When the signal aborts or the timeout elapses
+ * @throws {SoundCloudCircuitOpenError} When the circuit breaker is open
+ * @throws {SoundCloudValidationError} When `validation` is `"strict"` and the body does not match its type
  *
  * @example
  * ```ts
@@ -158,26 +490,151 @@ export async function scFetch<T>(
   onRequest?: (telemetry: SCRequestTelemetry) => void,
 ): Promise<T> {
   const retryConfig = refreshCtx?.retry ?? DEFAULT_RETRY;
+  const strategy = retryConfig.strategy ?? new BackoffStrategy({ baseDelayMs: retryConfig.retryBaseDelay });
   const telemetryCallback = onRequest ?? refreshCtx?.onRequest;
+  const fetchFn = options.fetch ?? refreshCtx?.fetch ?? globalThis.fetch;
+  const middleware = options.middleware ?? refreshCtx?.middleware ?? [];
+  const rateLimiter = options.rateLimiter ?? refreshCtx?.rateLimiter;
+  const guards = { rateLimiter, circuitBreaker: options.circuitBreaker ?? refreshCtx?.circuitBreaker };
+  const queueStats: QueueStats = { queuedMs: 0 };
+  const abort = linkAbort(options.signal, options.timeoutMs ?? refreshCtx?.timeoutMs);
   const startTime = Date.now();
   let retryCount = 0;
   let finalStatus = 0;
+  let finalHeaders: Record<string, string> = {};
+  let responded = false;
+  let conditional: CacheValidators | undefined;
+  let deduped = false;
+  let attempts = 0;
+  let trace: OperationTrace | undefined;
+
+  const matched = matchOperation(options.method, options.path);
+  const correlationId = globalThis.crypto.randomUUID();
+  const annotations = {
+    path: options.path,
+    correlationId,
+    ...(options.operation ? { operation: options.operation } : {}),
+    ...(matched ? { operationId: matched.operationId, pathTemplate: matched.template } : {}),
+  };
+  const cacheable = refreshCtx?.cache !== undefined && options.method === "GET";
+  const validation = options.validation ?? refreshCtx?.validation;
+  const schema = validation && matched ? responseSchemaFor(matched.operationId) : undefined;
 
-  const emitTelemetry = (error?: string) => {
+  const emitTelemetry = (error?: string, cacheHit = false) => {
     if (!telemetryCallback) return;
+    const cacheStatus = !cacheable ? undefined : cacheHit ? "hit" : options.noCache ? "bypass" : finalStatus === 304 ? "revalidated" : "miss";
+    const responseBytes = cacheHit || finalHeaders["content-length"] === undefined ? NaN : Number(finalHeaders["content-length"]);
     telemetryCallback({
       method: options.method,
-      path: options.path,
+      ...annotations,
       durationMs: Date.now() - startTime,
-      status: finalStatus,
+      status: cacheHit ? 200 : finalStatus,
       retryCount,
+      ...queueTelemetry(rateLimiter, queueStats),
+      ...(Number.isFinite(responseBytes) ? { responseBytes } : {}),
+      ...(cacheStatus ? { cacheStatus } : {}),
       ...(error ? { error } : {}),
     });
   };
 
+  const idempotent = options.idempotent ?? (options.reconcile !== undefined || options.method !== "POST");
+
+  const exchange = async (request: MiddlewareRequest): Promise<MiddlewareResponse> => {
+    let previousDelayMs = 0;
+    let elapsedDelayMs = 0;
+
+    for (let attempt = 0; ; attempt++) {
+      abort.signal?.throwIfAborted();
+      const response = await raceAbort(
+        sendAttempt(guards, abort.signal, queueStats, () => {
+          const send = () =>
+            fetchFn(request.url, {
+              method: request.method,
+              headers: request.headers,
+              body: request.body,
+              redirect: "manual",
+              signal: request.signal,
+            });
+          return trace ? trace.attempt(attempts++, request.url, send) : send();
+        }),
+        abort.signal,
+      );
+
+      finalStatus = response.status;
+      finalHeaders = headersOf(response);
+      responded = true;
+
+      if (response.status === 302) {
+        const location = response.headers.get("location");
+        if (location) return { status: response.status, headers: finalHeaders, data: location };
+      }
+
+      // Only sent for conditional revalidation requests; the cache supplies the body
+      if (response.status === 304) {
+        return { status: response.status, headers: finalHeaders, data: undefined };
+      }
+
+      if (response.status === 204 || response.headers.get("content-length") === "0" || (response.ok && options.ignoreBody)) {
+        return { status: response.status, headers: finalHeaders, data: undefined };
+      }
+
+      if (response.ok) {
+        const data = await raceAbort(response.json(), abort.signal);
+        return { status: response.status, headers: finalHeaders, data };
+      }
+
+      // Never retry 401 (handled by token refresh); the strategy decides everything else
+      const decision =
+        response.status !== 401 && attempt < retryConfig.maxRetries
+          ? strategy.nextDelay({
+              attempt: attempt + 1,
+              method: request.method,
+              idempotent,
+              status: response.status,
+              headers: response.headers,
+              previousDelayMs,
+              elapsedDelayMs,
+            })
+          : undefined;
+      if (!decision) {
+        const body = await parseErrorBody(response);
+        throw new SoundCloudError(response.status, response.statusText, body as SoundCloudErrorBody);
+      }
+
+      retryCount = attempt + 1;
+      const { delayMs } = decision;
+      retryConfig.onDebug?.(
+        `Retry ${retryCount}/${retryConfig.maxRetries} after ${Math.round(delayMs)}ms (status ${response.status}, ${decision.strategy}${decision.capped ? ", capped" : ""})`,
+      );
+      retryConfig.onRetry?.({
+        attempt: retryCount,
+        delayMs,
+        reason: `${response.status} ${response.statusText}`,
+        status: response.status,
+        url: request.url,
+        strategy: decision.strategy,
+        ...(decision.capped ? { capped: true } : {}),
+      });
+      trace?.retry({ attempt: retryCount, delayMs, status: response.status, strategy: decision.strategy });
+      previousDelayMs = delayMs;
+      elapsedDelayMs += delayMs;
+      await delay(delayMs, abort.signal);
+
+      if (options.reconcile && response.status !== 429) {
+        const existing = await raceAbort(options.reconcile(), abort.signal);
+        if (existing !== undefined) {
+          retryConfig.onDebug?.(`Reconciled ${request.method} ${request.url} instead of retrying`);
+          return { status: 200, headers: {}, data: existing };
+        }
+      }
+    }
+  };
+
   const execute = async (tokenOverride?: string): Promise<T> => {
-    const isAuthPath = options.path.startsWith("/oauth");
-    const url = `${isAuthPath ? AUTH_BASE_URL : BASE_URL}${options.path}`;
+    const url = resolveUrl(options.path, {
+      apiBaseUrl: options.apiBaseUrl ?? refreshCtx?.apiBaseUrl,
+      authBaseUrl: options.authBaseUrl ?? refreshCtx?.authBaseUrl,
+    });
     const headers: Record<string, string> = {
       Accept: "application/json",
       ...options.headers,
@@ -187,6 +644,8 @@ export async function scFetch<T>(
     if (token && !headers["Authorization"]) {
       headers["Authorization"] = `OAuth ${token}`;
     }
+    if (conditional?.etag) headers["If-None-Match"] = conditional.etag;
+    if (conditional?.lastModified) headers["If-Modified-Since"] = conditional.lastModified;
 
     let fetchBody: string | FormData | URLSearchParams | undefined;
     if (options.body) {
@@ -203,117 +662,165 @@ export async function scFetch<T>(
       headers["Content-Type"] = options.contentType;
     }
 
-    let lastResponse: Awaited<ReturnType<typeof fetch>> | undefined;
-
-    for (let attempt = 0; attempt <= retryConfig.maxRetries; attempt++) {
-      const response = await fetch(url, {
+    try {
+      const response = await composeMiddleware(middleware, exchange)({
         method: options.method,
+        url,
         headers,
         body: fetchBody,
-        redirect: "manual",
+        signal: abort.signal,
       });
-
       finalStatus = response.status;
+      finalHeaders = response.headers;
+      responded = true;
+      const data =
+        schema && response.status < 300 && response.data !== undefined
+          ? validateResponse(schema, response.data, validation!, retryConfig.onDebug, `${options.method} ${options.path}`)
+          : response.data;
+      emitTelemetry();
+      return withMeta({ ...response, data }) as T;
+    } catch (err) {
+      if (err instanceof SoundCloudError) finalStatus = err.status;
+      // Aborts are reported once by `guarded`
+      if (!abort.signal?.aborted) emitTelemetry((err as Error).message);
+      throw err;
+    }
+  };
 
-      if (response.status === 302) {
-        const location = response.headers.get("location");
-        if (location) {
-          emitTelemetry();
-          return location as T;
-        }
-      }
-
-      if (response.status === 204 || response.headers.get("content-length") === "0") {
-        emitTelemetry();
-        return undefined as T;
-      }
-
-      if (response.ok) {
-        const data = await response.json();
-        // Attach non-enumerable _meta so callers can access status/headers without breaking toEqual checks
-        if (typeof data === "object" && data !== null) {
-          const metaHeaders: Record<string, string> = {};
-          if (typeof response.headers.forEach === "function") {
-            response.headers.forEach((value: string, key: string) => {
-              metaHeaders[key] = value;
-            });
-          }
-          try {
-            Object.defineProperty(data, "_meta", {
-              value: { status: response.status, headers: metaHeaders },
-              enumerable: false,
-              configurable: true,
-              writable: true,
-            });
-          } catch {
-            // frozen objects — skip
-          }
-        }
-        emitTelemetry();
-        return data as T;
+  const run = async (): Promise<T> => {
+    try {
+      return await execute();
+    } catch (err) {
+      // Auto-refresh on 401
+      if (
+        refreshCtx?.onTokenRefresh &&
+        err instanceof SoundCloudError &&
+        err.status === 401
+      ) {
+        const newToken = await refreshCtx.onTokenRefresh(options.token);
+        await refreshCtx.setToken(newToken.access_token, newToken.refresh_token);
+        return execute(newToken.access_token);
       }
+      throw err;
+    }
+  };
 
-      // Don't retry 401 (handled by token refresh) or non-retryable 4xx
-      if (!isRetryable(response.status)) {
-        const body = await parseErrorBody(response);
-        const err = new SoundCloudError(response.status, response.statusText, body as SoundCloudErrorBody);
-        emitTelemetry(err.message);
-        throw err;
+  const guarded = async (): Promise<T> => {
+    try {
+      return await run();
+    } catch (err) {
+      if (abort.signal?.aborted && !(err instanceof SoundCloudAbortError)) {
+        const abortErr = abort.toError();
+        emitTelemetry(abortErr.message);
+        throw abortErr;
       }
+      throw err;
+    }
+  };
 
-      lastResponse = response;
-
-      if (attempt < retryConfig.maxRetries) {
-        retryCount = attempt + 1;
-        const delayMs = getRetryDelay(response, attempt, retryConfig);
-        retryConfig.onDebug?.(
-          `Retry ${attempt + 1}/${retryConfig.maxRetries} after ${Math.round(delayMs)}ms (status ${response.status})`,
-        );
-        retryConfig.onRetry?.({
-          attempt: retryCount,
-          delayMs,
-          reason: `${response.status} ${response.statusText}`,
-          status: response.status,
-          url,
+  // Requests with their own signal own their lifecycle, so they never join a shared request
+  const deduper = options.method === "GET" && !options.signal ? refreshCtx?.deduper : undefined;
+  const send = deduper
+    ? () => {
+        const key = requestKey("GET", options.path, options.token);
+        deduped = deduper.has(key);
+        return shareInFlight(deduper, key, annotations, telemetryCallback, async () => {
+          const value = await guarded();
+          return { value, status: finalStatus, headers: finalHeaders };
+        }).then((shared) => {
+          finalStatus = shared.status;
+          finalHeaders = shared.headers;
+          responded = true;
+          return shared.value;
         });
-        await delay(delayMs);
       }
+    : guarded;
+
+  const onResponse = options.onResponse ?? refreshCtx?.onResponse;
+  const report = () => {
+    if (!onResponse) return;
+    const cached = !responded || finalStatus === 304;
+    onResponse({
+      status: responded ? finalStatus : 200,
+      headers: finalHeaders,
+      ...(finalHeaders["x-request-id"] ? { requestId: finalHeaders["x-request-id"] } : {}),
+      retryCount,
+      durationMs: Date.now() - startTime,
+      ...(cached ? { cached } : {}),
+    });
+  };
+
+  const respond = async (): Promise<T> => {
+    const cache = refreshCtx?.cache;
+    if (!cache) return send();
+    if (options.method === "GET") {
+      const value = await cache.wrap(
+        options.path,
+        options.token,
+        async (validators) => {
+          // Conditional requests carry their own headers, so they never join a shared request
+          conditional = validators;
+          const value = await (validators ? guarded() : send());
+          return { value, notModified: finalStatus === 304, validators: validatorsOf(finalHeaders) };
+        },
+        options,
+      );
+      if (!responded) emitTelemetry(undefined, true);
+      return value;
     }
 
-    // All retries exhausted
-    const body = await parseErrorBody(lastResponse!);
-    const err = new SoundCloudError(lastResponse!.status, lastResponse!.statusText, body as SoundCloudErrorBody);
-    emitTelemetry(err.message);
-    throw err;
+    const result = await guarded();
+    if (options.invalidates?.length) await cache.invalidate(options.invalidates, options.token);
+    return result;
   };
 
-  try {
-    return await execute();
-  } catch (err) {
-    // Auto-refresh on 401
-    if (
-      refreshCtx?.onTokenRefresh &&
-      err instanceof SoundCloudError &&
-      err.status === 401
-    ) {
-      const newToken = await refreshCtx.onTokenRefresh();
-      refreshCtx.setToken(newToken.access_token, newToken.refresh_token);
-      return execute(newToken.access_token);
-    }
-    throw err;
-  }
+  const operation = {
+    name: options.operation ?? matched?.operationId ?? options.method,
+    method: options.method,
+    operationId: matched?.operationId,
+    template: matched?.template,
+    correlationId,
+  };
+  // Without a response, a GET that did not fail was answered by the cache
+  const outcome = (failed: boolean) => {
+    const cacheHit = !failed && cacheable && (!responded || finalStatus === 304);
+    return { status: responded ? finalStatus : cacheHit ? 200 : 0, retryCount, cacheHit, deduped };
+  };
+
+  return traceOperation(
+    options.openTelemetry ?? refreshCtx?.openTelemetry,
+    operation,
+    async (operationTrace) => {
+      trace = operationTrace;
+      try {
+        const result = await respond();
+        report();
+        return result;
+      } catch (err) {
+        if (responded && err instanceof SoundCloudError) report();
+        throw err;
+      } finally {
+        abort.dispose();
+      }
+    },
+    outcome,
+  );
 }
 
 /**
  * Fetch an absolute URL (e.g. `next_href` from paginated responses).
  *
- * Used internally for pagination — follows the same retry logic as {@link scFetch}.
+ * A GET shorthand for {@link scFetch}, which accepts absolute URLs as `path`, so pages get
+ * the same retry, middleware, rate limiting and telemetry behavior as any other request.
  *
  * @param url - Absolute URL to fetch (typically a `next_href` value)
  * @param token - OAuth access token to include in the Authorization header
  * @param retryConfig - Optional retry configuration override
+ * @param onRequest - Optional telemetry callback
+ * @param options - Optional custom `fetch`, abort signal, timeout, middleware, rate limiter, circuit breaker and deduper
  * @returns Parsed JSON response
  * @throws {SoundCloudError} When the API returns a non-retryable error status
+ * @throws {SoundCloudAbortError} When the signal aborts or the timeout elapses
  *
  * @example
  * ```ts
@@ -330,99 +837,14 @@ export async function scFetchUrl<T>(
   token?: string,
   retryConfig?: RetryConfig,
   onRequest?: (telemetry: SCRequestTelemetry) => void,
+  options?: FetchUrlOptions,
 ): Promise<T> {
-  const config = retryConfig ?? DEFAULT_RETRY;
-  const headers: Record<string, string> = { Accept: "application/json" };
-  if (token) headers["Authorization"] = `OAuth ${token}`;
-
-  const startTime = Date.now();
-  let retryCount = 0;
-  let finalStatus = 0;
-
-  const emitTelemetry = (error?: string) => {
-    if (!onRequest) return;
-    onRequest({
-      method: "GET",
-      path: url,
-      durationMs: Date.now() - startTime,
-      status: finalStatus,
-      retryCount,
-      ...(error ? { error } : {}),
-    });
+  const { deduper, ...transport } = options ?? {};
+  const ctx: AutoRefreshContext = {
+    getToken: () => token,
+    setToken: /* v8 ignore next */ () => {},
+    retry: retryConfig,
+    deduper,
   };
-
-  let lastResponse: Awaited<ReturnType<typeof fetch>> | undefined;
-
-  for (let attempt = 0; attempt <= config.maxRetries; attempt++) {
-    const response = await fetch(url, { method: "GET", headers, redirect: "manual" });
-
-    finalStatus = response.status;
-
-    if (response.status === 302) {
-      const location = response.headers.get("location");
-      if (location) {
-        emitTelemetry();
-        return location as T;
-      }
-    }
-
-    if (response.status === 204 || response.headers.get("content-length") === "0") {
-      emitTelemetry();
-      return undefined as T;
-    }
-
-    if (response.ok) {
-      const data = await response.json();
-      if (typeof data === "object" && data !== null) {
-        const metaHeaders: Record<string, string> = {};
-        if (typeof response.headers.forEach === "function") {
-          response.headers.forEach((value: string, key: string) => {
-            metaHeaders[key] = value;
-          });
-        }
-        try {
-          Object.defineProperty(data, "_meta", {
-            value: { status: response.status, headers: metaHeaders },
-            enumerable: false,
-            configurable: true,
-            writable: true,
-          });
-        } catch {
-          // frozen objects — skip
-        }
-      }
-      emitTelemetry();
-      return data as T;
-    }
-
-    if (!isRetryable(response.status)) {
-      const body = await parseErrorBody(response);
-      const err = new SoundCloudError(response.status, response.statusText, body as SoundCloudErrorBody);
-      emitTelemetry(err.message);
-      throw err;
-    }
-
-    lastResponse = response;
-
-    if (attempt < config.maxRetries) {
-      retryCount = attempt + 1;
-      const delayMs = getRetryDelay(response, attempt, config);
-      config.onDebug?.(
-        `Retry ${attempt + 1}/${config.maxRetries} after ${Math.round(delayMs)}ms (status ${response.status})`,
-      );
-      config.onRetry?.({
-        attempt: retryCount,
-        delayMs,
-        reason: `${response.status} ${response.statusText}`,
-        status: response.status,
-        url,
-      });
-      await delay(delayMs);
-    }
-  }
-
-  const body = await parseErrorBody(lastResponse!);
-  const err = new SoundCloudError(lastResponse!.status, lastResponse!.statusText, body as SoundCloudErrorBody);
-  emitTelemetry(err.message);
-  throw err;
+  return scFetch<T>({ ...transport, path: url, method: "GET", token }, ctx, onRequest);
 }
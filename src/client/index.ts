@@ -1,5 +1,16 @@
 export { SoundCloudClient } from "./SoundCloudClient.js";
-export type { SoundCloudClientConfig, TokenOption } from "./SoundCloudClient.js";
+export type { SoundCloudClientConfig, TokenOption, CallOptions, CreateCallOptions, WithResponse } from "./SoundCloudClient.js";
 export { scFetch, scFetchUrl } from "./http.js";
-export type { RequestOptions, AutoRefreshContext } from "./http.js";
+export type { RequestOptions, TransportOptions, BaseUrlOptions, FetchUrlOptions, MutationRetryOptions, AutoRefreshContext, SCResponse, SCResponseMeta } from "./http.js";
 export { paginate, paginateItems, fetchAll } from "./paginate.js";
+export type { PaginateOptions } from "./paginate.js";
+export { composeMiddleware } from "./middleware.js";
+export type { Middleware, MiddlewareNext, MiddlewareRequest, MiddlewareResponse } from "./middleware.js";
+export { RateLimiter } from "./rate-limit.js";
+export type { RateLimitOptions, RateLimitSlot } from "./rate-limit.js";
+export { CircuitBreaker } from "./circuit-breaker.js";
+export type { CircuitBreakerOptions, CircuitState, CircuitStateChange } from "./circuit-breaker.js";
+export { BackoffStrategy } from "./retry.js";
+export { HttpRecorder } from "./recorder.js";
+export type { FixtureMatching, HttpFixture, HttpFixtureFile, HttpRecorderOptions } from "./recorder.js";
+export type { BackoffStrategyOptions, JitterMode, RetryContext, RetryDecision, RetryStrategy, StatusRetryPolicy } from "./retry.js";
@@ -0,0 +1,70 @@
+/**
+ * Outgoing request as seen by a {@link Middleware}. Pass a modified copy to `next`
+ * to rewrite the URL, headers or body.
+ */
+export interface MiddlewareRequest {
+  /** HTTP method */
+  method: string;
+  /** Absolute URL, query string included */
+  url: string;
+  /** Request headers, including `Authorization` when a token is set */
+  headers: Record<string, string>;
+  /** Serialized request body */
+  body?: string | FormData | URLSearchParams;
+  /** Signal combining the caller's `signal` and `timeoutMs` */
+  signal?: AbortSignal;
+}
+
+/**
+ * Response passed back up the middleware chain.
+ */
+export interface MiddlewareResponse<T = unknown> {
+  /** HTTP status code */
+  status: number;
+  /** Response headers as a plain object */
+  headers: Record<string, string>;
+  /** Parsed body: JSON for 2xx responses, the `Location` value for 302s, `undefined` for empty responses */
+  data: T;
+}
+
+/**
+ * Invokes the rest of the chain (and finally the network) with the given request.
+ */
+export type MiddlewareNext = (request: MiddlewareRequest) => Promise<MiddlewareResponse>;
+
+/**
+ * Request/response interceptor. Middleware runs in registration order around the
+ * request; each one may:
+ *
+ * - rewrite the request before calling `next(request)`
+ * - short-circuit by returning a response without calling `next`
+ * - transform the response returned by `next`
+ * - catch and wrap errors thrown by `next`
+ *
+ * For {@link scFetch} and {@link scFetchUrl}, `next` covers the whole retry loop and
+ * throws {@link SoundCloudError} for error statuses. For `sc.raw`, `next` resolves
+ * with any status. Cache hits and joined in-flight requests do not run middleware.
+ *
+ * @example
+ * ```ts
+ * const signRequests: Middleware = async (request, next) => {
+ *   const signature = await sign(request.url);
+ *   return next({ ...request, headers: { ...request.headers, "X-Signature": signature } });
+ * };
+ *
+ * const sc = new SoundCloudClient({ clientId, clientSecret, middleware: [signRequests] });
+ * ```
+ */
+export type Middleware = (request: MiddlewareRequest, next: MiddlewareNext) => Promise<MiddlewareResponse>;
+
+/**
+ * Compose `middleware` around `core` into a single {@link MiddlewareNext}.
+ * The first middleware is the outermost.
+ *
+ * @param middleware - Middleware in registration order
+ * @param core - Final handler that performs the request
+ * @returns A function that runs the request through the whole chain
+ */
+export function composeMiddleware(middleware: readonly Middleware[], core: MiddlewareNext): MiddlewareNext {
+  return middleware.reduceRight<MiddlewareNext>((next, mw) => (request) => mw(request, next), core);
+}
@@ -0,0 +1,293 @@
+/**
+ * Structural subsets of the `@opentelemetry/api` tracing and metrics interfaces. A `Tracer`
+ * from `trace.getTracer()` and a `Meter` from `metrics.getMeter()` satisfy them, so the
+ * client emits OpenTelemetry data without depending on the OpenTelemetry packages.
+ */
+
+/** An attribute value as accepted by OpenTelemetry */
+export type OTelAttributeValue = string | number | boolean;
+
+/** Span, event and metric attributes; `undefined` values are dropped by OpenTelemetry */
+export type OTelAttributes = Record<string, OTelAttributeValue | undefined>;
+
+/** The subset of an OpenTelemetry `Span` the client uses */
+export interface OTelSpan {
+  setAttribute(key: string, value: OTelAttributeValue): unknown;
+  addEvent(name: string, attributes?: OTelAttributes): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: Error | string): void;
+  end(): void;
+}
+
+/** Options the client passes when starting a span */
+export interface OTelSpanOptions {
+  /** `SpanKind`: 0 = internal, 2 = client */
+  kind?: number;
+  attributes?: OTelAttributes;
+}
+
+/** The subset of an OpenTelemetry `Tracer` the client uses */
+export interface OTelTracer {
+  startActiveSpan<F extends (span: OTelSpan) => unknown>(name: string, options: OTelSpanOptions, fn: F): ReturnType<F>;
+}
+
+/** Options the client passes when creating an instrument */
+export interface OTelInstrumentOptions {
+  description?: string;
+  unit?: string;
+}
+
+/** The subset of an OpenTelemetry `Counter` the client uses */
+export interface OTelCounter {
+  add(value: number, attributes?: OTelAttributes): void;
+}
+
+/** The subset of an OpenTelemetry `Histogram` the client uses */
+export interface OTelHistogram {
+  record(value: number, attributes?: OTelAttributes): void;
+}
+
+/** The subset of an OpenTelemetry `Meter` the client uses */
+export interface OTelMeter {
+  createCounter(name: string, options?: OTelInstrumentOptions): OTelCounter;
+  createHistogram(name: string, options?: OTelInstrumentOptions): OTelHistogram;
+}
+
+/**
+ * Where the client sends OpenTelemetry spans and metrics. Either may be omitted.
+ *
+ * @example
+ * ```ts
+ * import { trace, metrics } from '@opentelemetry/api';
+ *
+ * const sc = new SoundCloudClient({
+ *   clientId, clientSecret,
+ *   openTelemetry: { tracer: trace.getTracer('soundcloud'), meter: metrics.getMeter('soundcloud') },
+ * });
+ * ```
+ */
+export interface OpenTelemetryOptions {
+  /** Receives a span per operation (e.g. `tracks.getTrack`) with a child span per HTTP attempt */
+  tracer?: OTelTracer;
+  /** Receives the `soundcloud.client.*` counters and histograms */
+  meter?: OTelMeter;
+}
+
+const SPAN_KIND_INTERNAL = 0;
+const SPAN_KIND_CLIENT = 2;
+const SPAN_STATUS_ERROR = 2;
+
+/** What is known about an operation before it is sent */
+export interface OperationInfo {
+  /** Span name: the namespace method (e.g. `tracks.getTrack`), else the operation id or HTTP method */
+  name: string;
+  method: string;
+  /** OpenAPI operation id from the registry, when the path matches one */
+  operationId?: string;
+  /** Path template from the registry, e.g. `/tracks/{track_id}` */
+  template?: string;
+  /** The call's `correlationId`, as reported in `SCRequestTelemetry` */
+  correlationId?: string;
+}
+
+/** How an operation ended, collected by {@link scFetch} */
+export interface OperationOutcome {
+  /** Final HTTP status (0 when no response arrived) */
+  status: number;
+  retryCount: number;
+  /** Served from the client cache, directly or after a 304 revalidation */
+  cacheHit: boolean;
+  /** Joined an identical in-flight GET instead of sending its own request */
+  deduped: boolean;
+}
+
+interface Instruments {
+  operations: OTelCounter;
+  operationDuration: OTelHistogram;
+  attemptDuration: OTelHistogram;
+  retries: OTelCounter;
+}
+
+const instrumentCache = new WeakMap<OTelMeter, Instruments>();
+
+/** Create the client's instruments once per meter, so standalone calls don't re-register them */
+function instrumentsFor(meter: OTelMeter): Instruments {
+  let instruments = instrumentCache.get(meter);
+  if (!instruments) {
+    instruments = {
+      operations: meter.createCounter("soundcloud.client.operations", { description: "SoundCloud API operations, by outcome" }),
+      operationDuration: meter.createHistogram("soundcloud.client.operation.duration", {
+        description: "Duration of SoundCloud API operations, retries included",
+        unit: "ms",
+      }),
+      attemptDuration: meter.createHistogram("soundcloud.client.attempt.duration", {
+        description: "Duration of single HTTP attempts to the SoundCloud API",
+        unit: "ms",
+      }),
+      retries: meter.createCounter("soundcloud.client.retries", { description: "Retries scheduled by the retry strategy" }),
+    };
+    instrumentCache.set(meter, instruments);
+  }
+  return instruments;
+}
+
+function errorType(error: unknown, status: number): string {
+  if (status >= 400) return String(status);
+  return error instanceof Error ? error.name : "Error";
+}
+
+/**
+ * Spans and metrics of one {@link scFetch} call: the operation span it was created in,
+ * plus a child span per HTTP attempt and a `soundcloud.retry` event per scheduled retry.
+ */
+export class OperationTrace {
+  private readonly startTime = Date.now();
+
+  constructor(
+    private readonly info: OperationInfo,
+    private readonly tracer: OTelTracer | undefined,
+    private readonly instruments: Instruments | undefined,
+    private readonly span: OTelSpan | undefined,
+  ) {}
+
+  /** Low-cardinality attributes shared by every metric of the operation */
+  private get metricAttributes(): OTelAttributes {
+    return {
+      "soundcloud.operation": this.info.name,
+      "soundcloud.operation_id": this.info.operationId,
+      "http.request.method": this.info.method,
+    };
+  }
+
+  /** Run one HTTP attempt (`send`) in a client span */
+  attempt(attempt: number, url: string, send: () => Promise<Response>): Promise<Response> {
+    const startTime = Date.now();
+    const record = (status: number, error?: unknown) => {
+      this.instruments?.attemptDuration.record(Date.now() - startTime, {
+        ...this.metricAttributes,
+        ...(status ? { "http.response.status_code": status } : {}),
+        ...(error !== undefined || status >= 400 ? { "error.type": errorType(error, status) } : {}),
+      });
+    };
+    const run = async (span?: OTelSpan) => {
+      try {
+        const response = await send();
+        span?.setAttribute("http.response.status_code", response.status);
+        if (response.status >= 400) {
+          span?.setAttribute("error.type", String(response.status));
+          span?.setStatus({ code: SPAN_STATUS_ERROR });
+        }
+        record(response.status);
+        return response;
+      } catch (error) {
+        span?.recordException(error as Error);
+        span?.setAttribute("error.type", errorType(error, 0));
+        span?.setStatus({ code: SPAN_STATUS_ERROR, message: (error as Error).message });
+        record(0, error);
+        throw error;
+      } finally {
+        span?.end();
+      }
+    };
+    if (!this.tracer) return run();
+    const name = this.info.template ? `${this.info.method} ${this.info.template}` : this.info.method;
+    return this.tracer.startActiveSpan(
+      name,
+      {
+        kind: SPAN_KIND_CLIENT,
+        attributes: {
+          "http.request.method": this.info.method,
+          "url.full": url,
+          "url.template": this.info.template,
+          "soundcloud.operation_id": this.info.operationId,
+          ...(attempt > 0 ? { "http.request.resend_count": attempt } : {}),
+        },
+      },
+      run,
+    );
+  }
+
+  /** Note a retry scheduled after a failed attempt */
+  retry(retry: { attempt: number; delayMs: number; status: number; strategy: string }): void {
+    this.span?.addEvent("soundcloud.retry", {
+      "soundcloud.retry.attempt": retry.attempt,
+      "soundcloud.retry.delay_ms": retry.delayMs,
+      "soundcloud.retry.strategy": retry.strategy,
+      "http.response.status_code": retry.status,
+    });
+    this.instruments?.retries.add(1, {
+      ...this.metricAttributes,
+      "http.response.status_code": retry.status,
+      "soundcloud.retry.strategy": retry.strategy,
+    });
+  }
+
+  /** Record the outcome on the operation span and metrics; `error` is set when the operation failed */
+  end(outcome: OperationOutcome, error?: unknown): void {
+    const failed = error !== undefined;
+    const attributes: OTelAttributes = {
+      ...this.metricAttributes,
+      ...(outcome.status ? { "http.response.status_code": outcome.status } : {}),
+      "soundcloud.cache_hit": outcome.cacheHit,
+      "soundcloud.dedupe_hit": outcome.deduped,
+      ...(failed ? { "error.type": errorType(error, outcome.status) } : {}),
+    };
+    if (this.span) {
+      for (const [key, value] of Object.entries(attributes)) {
+        if (value !== undefined) this.span.setAttribute(key, value);
+      }
+      this.span.setAttribute("soundcloud.retry_count", outcome.retryCount);
+      if (failed) {
+        this.span.recordException(error as Error);
+        this.span.setStatus({ code: SPAN_STATUS_ERROR, message: (error as Error).message });
+      }
+    }
+    this.instruments?.operations.add(1, attributes);
+    this.instruments?.operationDuration.record(Date.now() - this.startTime, attributes);
+  }
+}
+
+/**
+ * Run `run` inside an operation span (and/or with operation metrics), ending it with the
+ * outcome reported by `outcome` once `run` settles. Without a tracer or meter, `run` is
+ * called directly with no trace.
+ */
+export function traceOperation<T>(
+  options: OpenTelemetryOptions | undefined,
+  info: OperationInfo,
+  run: (trace: OperationTrace | undefined) => Promise<T>,
+  outcome: (failed: boolean) => OperationOutcome,
+): Promise<T> {
+  if (!options?.tracer && !options?.meter) return run(undefined);
+  const { tracer, meter } = options;
+  const instruments = meter ? instrumentsFor(meter) : undefined;
+
+  const traced = async (span?: OTelSpan): Promise<T> => {
+    const trace = new OperationTrace(info, tracer, instruments, span);
+    try {
+      const result = await run(trace);
+      trace.end(outcome(false));
+      return result;
+    } catch (error) {
+      trace.end(outcome(true), error);
+      throw error;
+    } finally {
+      span?.end();
+    }
+  };
+  if (!tracer) return traced();
+  return tracer.startActiveSpan(
+    info.name,
+    {
+      kind: SPAN_KIND_INTERNAL,
+      attributes: {
+        "soundcloud.operation": info.name,
+        "soundcloud.operation_id": info.operationId,
+        "http.request.method": info.method,
+        "url.template": info.template,
+        "soundcloud.correlation_id": info.correlationId,
+      },
+    },
+    traced,
+  );
+}
@@ -1,4 +1,17 @@
 import type { SoundCloudPaginatedResponse } from "../types/api.js";
+import { SoundCloudAbortError } from "../errors.js";
+
+/**
+ * Options shared by the pagination helpers.
+ */
+export interface PaginateOptions {
+  /** Stops pagination before the next page is requested once aborted */
+  signal?: AbortSignal;
+}
+
+function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) throw new SoundCloudAbortError("Pagination aborted", { cause: signal.reason });
+}
 
 /**
  * Async generator that automatically follows `next_href` pagination,
@@ -6,7 +19,9 @@ import type { SoundCloudPaginatedResponse } from "../types/api.js";
  *
  * @param firstPage - Function that fetches the first page of results
  * @param fetchNext - Function that fetches subsequent pages given a `next_href` URL
+ * @param options - Optional abort signal
  * @returns An async generator yielding arrays of items (one per page)
+ * @throws {SoundCloudAbortError} When the signal aborts between pages
  *
  * @example
  * ```ts
@@ -27,11 +42,14 @@ import type { SoundCloudPaginatedResponse } from "../types/api.js";
 export async function* paginate<T>(
   firstPage: () => Promise<SoundCloudPaginatedResponse<T>>,
   fetchNext: (url: string) => Promise<SoundCloudPaginatedResponse<T>>,
+  options?: PaginateOptions,
 ): AsyncGenerator<T[], void, undefined> {
+  throwIfAborted(options?.signal);
   let page = await firstPage();
   yield page.collection;
 
   while (page.next_href) {
+    throwIfAborted(options?.signal);
     page = await fetchNext(page.next_href);
     yield page.collection;
   }
@@ -43,7 +61,9 @@ export async function* paginate<T>(
  *
  * @param firstPage - Function that fetches the first page of results
  * @param fetchNext - Function that fetches subsequent pages given a `next_href` URL
+ * @param options - Optional abort signal
  * @returns An async generator yielding individual items
+ * @throws {SoundCloudAbortError} When the signal aborts between pages
  *
  * @example
  * ```ts
@@ -64,8 +84,9 @@ export async function* paginate<T>(
 export async function* paginateItems<T>(
   firstPage: () => Promise<SoundCloudPaginatedResponse<T>>,
   fetchNext: (url: string) => Promise<SoundCloudPaginatedResponse<T>>,
+  options?: PaginateOptions,
 ): AsyncGenerator<T, void, undefined> {
-  for await (const page of paginate(firstPage, fetchNext)) {
+  for await (const page of paginate(firstPage, fetchNext, options)) {
     for (const item of page) {
       yield item;
     }
@@ -79,7 +100,9 @@ export async function* paginateItems<T>(
  * @param fetchNext - Function that fetches subsequent pages given a `next_href` URL
  * @param options - Optional configuration
  * @param options.maxItems - Maximum number of items to collect (defaults to all)
+ * @param options.signal - Stops collecting before the next page is requested once aborted
  * @returns A promise that resolves to a flat array of all collected items
+ * @throws {SoundCloudAbortError} When the signal aborts between pages
  *
  * @example
  * ```ts
@@ -98,12 +121,12 @@ export async function* paginateItems<T>(
 export async function fetchAll<T>(
   firstPage: () => Promise<SoundCloudPaginatedResponse<T>>,
   fetchNext: (url: string) => Promise<SoundCloudPaginatedResponse<T>>,
-  options?: { maxItems?: number },
+  options?: PaginateOptions & { maxItems?: number },
 ): Promise<T[]> {
   const result: T[] = [];
   const max = options?.maxItems ?? Infinity;
 
-  for await (const page of paginate(firstPage, fetchNext)) {
+  for await (const page of paginate(firstPage, fetchNext, options)) {
     for (const item of page) {
       result.push(item);
       if (result.length >= max) return result;
@@ -0,0 +1,169 @@
+import { parseReset, parseRetryAfter, type HeaderSource } from "./retry.js";
+
+/**
+ * Options for {@link RateLimiter}.
+ */
+export interface RateLimitOptions {
+  /** Requests allowed per window; also the burst size (default: 50) */
+  requests?: number;
+  /** Window length in milliseconds over which `requests` refill (default: 1000) */
+  windowMs?: number;
+  /** Maximum requests in flight at once (default: unlimited) */
+  maxConcurrency?: number;
+}
+
+/**
+ * A granted slot from {@link RateLimiter.acquire}.
+ */
+export interface RateLimitSlot {
+  /** Time spent queued before the slot was granted, in milliseconds */
+  waitMs: number;
+  /** Requests already waiting when this one was enqueued */
+  queueDepth: number;
+  /** Give the concurrency slot back; call once the response has arrived */
+  release(): void;
+}
+
+interface Waiter {
+  enqueuedAt: number;
+  queueDepth: number;
+  resolve: (slot: RateLimitSlot) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+/**
+ * Proactive client-side rate limiter: a token bucket with a FIFO queue and an
+ * optional concurrency cap, shared by every request made through a client.
+ *
+ * The bucket holds `requests` tokens and refills continuously over `windowMs`.
+ * After each response the limiter reads `retry-after` and `x-ratelimit-remaining` /
+ * `x-ratelimit-reset` headers and pauses the whole queue until the server's quota resets.
+ *
+ * @example
+ * ```ts
+ * const limiter = new RateLimiter({ requests: 15, windowMs: 1000, maxConcurrency: 4 });
+ * const slot = await limiter.acquire();
+ * try {
+ *   const res = await fetch(url);
+ *   limiter.observe(res.status, res.headers);
+ * } finally {
+ *   slot.release();
+ * }
+ * ```
+ */
+export class RateLimiter {
+  private readonly capacity: number;
+  private readonly windowMs: number;
+  private readonly maxConcurrency: number;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private active = 0;
+  private pausedUntil = 0;
+  private queue: Waiter[] = [];
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(options: RateLimitOptions = {}) {
+    this.capacity = options.requests ?? 50;
+    this.windowMs = options.windowMs ?? 1000;
+    this.maxConcurrency = options.maxConcurrency ?? Infinity;
+    this.tokens = this.capacity;
+  }
+
+  /** Number of requests currently waiting for a slot */
+  get queueDepth(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Wait for a slot. Requests are granted in arrival order.
+   *
+   * @param signal - Removes the request from the queue and rejects with the signal's reason when aborted
+   * @returns The granted slot; call `release()` once the response has arrived
+   */
+  acquire(signal?: AbortSignal): Promise<RateLimitSlot> {
+    if (signal?.aborted) return Promise.reject(signal.reason);
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = { enqueuedAt: Date.now(), queueDepth: this.queue.length, resolve, signal };
+      if (signal) {
+        waiter.onAbort = () => {
+          this.queue = this.queue.filter((w) => w !== waiter);
+          if (this.queue.length === 0) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+          }
+          reject(signal.reason);
+        };
+        signal.addEventListener("abort", waiter.onAbort, { once: true });
+      }
+      this.queue.push(waiter);
+      this.pump();
+    });
+  }
+
+  /**
+   * Learn from a response: a `retry-after` header, or `x-ratelimit-remaining: 0` with an
+   * `x-ratelimit-reset` header, pauses the queue until that time.
+   *
+   * @param status - HTTP status of the response
+   * @param headers - Response headers
+   */
+  observe(status: number, headers: HeaderSource): void {
+    const now = Date.now();
+    let until: number | undefined;
+    const retryAfter = headers.get("retry-after");
+    if (retryAfter && (status === 429 || status === 503)) until = parseRetryAfter(retryAfter, now);
+    const reset = headers.get("x-ratelimit-reset");
+    if (until === undefined && reset && headers.get("x-ratelimit-remaining") === "0") until = parseReset(reset, now);
+    if (until === undefined && status === 429) until = now + this.windowMs;
+    if (until !== undefined && until > this.pausedUntil) {
+      this.pausedUntil = until;
+      // Empty the bucket and start refilling only once the server's quota resets
+      this.tokens = 0;
+      this.lastRefill = until;
+      this.schedule();
+    }
+  }
+
+  private refill(now: number): void {
+    if (now <= this.lastRefill) return;
+    const elapsed = now - this.lastRefill;
+    this.tokens = Math.min(this.capacity, this.tokens + (elapsed * this.capacity) / this.windowMs);
+    this.lastRefill = now;
+  }
+
+  private pump(): void {
+    const now = Date.now();
+    this.refill(now);
+    while (this.queue.length > 0 && this.active < this.maxConcurrency && now >= this.pausedUntil && this.tokens >= 1) {
+      const waiter = this.queue.shift()!;
+      if (waiter.onAbort) waiter.signal!.removeEventListener("abort", waiter.onAbort);
+      this.tokens -= 1;
+      this.active += 1;
+      let released = false;
+      waiter.resolve({
+        waitMs: now - waiter.enqueuedAt,
+        queueDepth: waiter.queueDepth,
+        release: () => {
+          if (released) return;
+          released = true;
+          this.active -= 1;
+          this.pump();
+        },
+      });
+    }
+    this.schedule();
+  }
+
+  /** Wake up when the next token is due or the pause ends; concurrency waits are woken by `release()` */
+  private schedule(): void {
+    if (this.timer || this.queue.length === 0 || this.active >= this.maxConcurrency) return;
+    const now = Date.now();
+    const tokenDue = this.tokens >= 1 ? 0 : ((1 - this.tokens) * this.windowMs) / this.capacity;
+    const wait = Math.max(this.pausedUntil - now, tokenDue, 0);
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.pump();
+    }, Math.ceil(wait));
+  }
+}
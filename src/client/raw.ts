@@ -1,3 +1,7 @@
+import { linkAbort, raceAbort } from "./abort.js";
+import { composeMiddleware, type MiddlewareRequest } from "./middleware.js";
+import { DEFAULT_API_BASE_URL, rebaseUrl, type TransportOptions } from "./http.js";
+
 /**
  * Raw response from the SoundCloud API, including status code and headers.
  */
@@ -24,14 +28,21 @@ export type RawResponse<T = unknown> = {
 export class RawClient {
   constructor(
     private baseUrl: string,
-    private getToken: () => string | undefined,
+    private getToken: () => string | undefined | Promise<string | undefined>,
     private fetchFn: typeof fetch,
+    private transport: Omit<TransportOptions, "fetch" | "signal"> = {},
   ) {}
 
   /**
    * Make a raw HTTP request. Path template placeholders like `{id}` are substituted
    * from matching keys in `query` before the remaining query params are appended to
    * the URL as search parameters.
+   *
+   * Pass `signal` and/or `timeoutMs` (defaulting to the client's `timeoutMs`) to cancel the
+   * request; cancellation rejects with {@link SoundCloudAbortError}. The client's middleware
+   * runs around the request and sees every status, since raw requests never throw on non-2xx.
+   * Requests also go through the client's rate limiter and circuit breaker, when configured;
+   * an open circuit rejects with {@link SoundCloudCircuitOpenError}.
    */
   async request<T = unknown>({
     method,
@@ -39,12 +50,16 @@ export class RawClient {
     query,
     body,
     token,
+    signal,
+    timeoutMs,
   }: {
     method: string;
     path: string;
     query?: Record<string, string | number | boolean | undefined>;
     body?: unknown;
     token?: string;
+    signal?: AbortSignal;
+    timeoutMs?: number;
   }): Promise<RawResponse<T>> {
     // Path templating: substitute {param} placeholders from query params
     let resolvedPath = path;
@@ -63,9 +78,10 @@ export class RawClient {
     }
 
     // Build URL with remaining query params
+    // Concatenate rather than resolve so a path prefix in the base URL is kept
     const fullUrl = resolvedPath.startsWith("http")
-      ? new URL(resolvedPath)
-      : new URL(resolvedPath, this.baseUrl);
+      ? new URL(rebaseUrl(resolvedPath, DEFAULT_API_BASE_URL, this.baseUrl))
+      : new URL(`${this.baseUrl.replace(/\/+$/, "")}/${resolvedPath.replace(/^\/+/, "")}`);
     for (const [key, value] of Object.entries(remainingQuery)) {
       fullUrl.searchParams.set(key, value);
     }
@@ -74,7 +90,8 @@ export class RawClient {
       Accept: "application/json",
     };
 
-    const authToken = token ?? this.getToken();
+    const stored = token ?? this.getToken();
+    const authToken = stored instanceof Promise ? await stored : stored;
     if (authToken) {
       headers["Authorization"] = `OAuth ${authToken}`;
     }
@@ -85,11 +102,40 @@ export class RawClient {
       fetchBody = JSON.stringify(body);
     }
 
-    const response = await this.fetchFn(fullUrl.toString(), {
-      method,
-      headers,
-      body: fetchBody,
-    });
+    const abort = linkAbort(signal, timeoutMs ?? this.transport.timeoutMs);
+    try {
+      const send = composeMiddleware(this.transport.middleware ?? [], (request) => this.send(request));
+      const response = await raceAbort(send({ method, url: fullUrl.toString(), headers, body: fetchBody, signal: abort.signal }), abort.signal);
+      return response as RawResponse<T>;
+    } catch (err) {
+      if (abort.signal?.aborted) throw abort.toError();
+      throw err;
+    } finally {
+      abort.dispose();
+    }
+  }
+
+  private async send({ method, url, headers, body, signal }: MiddlewareRequest): Promise<RawResponse> {
+    signal?.throwIfAborted();
+    const { rateLimiter, circuitBreaker } = this.transport;
+    const throttled = async () => {
+      const slot = await rateLimiter?.acquire(signal);
+      try {
+        const response = await this.fetchFn(url, {
+          method,
+          headers,
+          body,
+          signal,
+        });
+        rateLimiter?.observe(response.status, response.headers);
+        return response;
+      } finally {
+        slot?.release();
+      }
+    };
+    const response = circuitBreaker
+      ? await circuitBreaker.call(throttled, (res) => res.status >= 500, signal)
+      : await throttled();
 
     // Collect response headers
     const responseHeaders: Record<string, string> = {};
@@ -100,15 +146,15 @@ export class RawClient {
     }
 
     // Parse body
-    let data: T;
+    let data: unknown;
     const contentLength = response.headers.get("content-length");
     if (response.status === 204 || contentLength === "0") {
-      data = undefined as T;
+      data = undefined;
     } else {
       try {
-        data = (await response.json()) as T;
+        data = await response.json();
       } catch {
-        data = undefined as T;
+        data = undefined;
       }
     }
 
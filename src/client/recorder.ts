@@ -0,0 +1,246 @@
+/** One recorded request/response pair */
+export interface HttpFixture {
+  request: {
+    /** HTTP method */
+    method: string;
+    /** Full request URL, with secret query parameters redacted */
+    url: string;
+    /** Request headers, with credentials redacted */
+    headers: Record<string, string>;
+    /** Request body as text, with secret fields redacted */
+    body?: string;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    /** Response headers (lower-cased), without `set-cookie` */
+    headers: Record<string, string>;
+    /** Response body as text, with secret fields redacted */
+    body: string;
+  };
+}
+
+/** Serialized form of an {@link HttpRecorder}, e.g. the contents of a fixture file */
+export interface HttpFixtureFile {
+  version: 1;
+  fixtures: HttpFixture[];
+}
+
+/**
+ * How replayed requests are matched against fixtures:
+ * - `"strict"` — method, path and query (in any order) must match, and each fixture is served once, in recorded order
+ * - `"lenient"` — method and path must match; a fixture with the same query is preferred, and the last
+ *   matching fixture is served again once all have been used
+ */
+export type FixtureMatching = "strict" | "lenient";
+
+/**
+ * Options for {@link HttpRecorder}.
+ */
+export interface HttpRecorderOptions {
+  /** `"record"` sends requests over the network and captures them; `"replay"` answers from `fixtures` only */
+  mode: "record" | "replay";
+  /** Fixtures to replay, as loaded from a fixture file */
+  fixtures?: HttpFixtureFile | HttpFixture[];
+  /** How replayed requests are matched (default: `"strict"`) */
+  matching?: FixtureMatching;
+  /** Extra header, query parameter and body field names to redact, on top of the built-in credential names */
+  redact?: string[];
+  /** Called with each fixture as soon as it is recorded */
+  onRecord?: (fixture: HttpFixture) => void;
+}
+
+const REDACTED = "[REDACTED]";
+
+const SECRET_HEADERS = ["authorization", "cookie", "proxy-authorization"];
+const SECRET_FIELDS = ["access_token", "refresh_token", "client_secret", "code", "code_verifier", "oauth_token", "password"];
+
+/** Statuses whose responses must not have a body */
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+function headersToRecord(headers: HeadersInit | undefined): Record<string, string> {
+  const out: Record<string, string> = {};
+  if (!headers) return out;
+  new Headers(headers).forEach((value, key) => {
+    out[key] = value;
+  });
+  return out;
+}
+
+function bodyToText(body: BodyInit | null | undefined): string | undefined {
+  if (body === undefined || body === null) return undefined;
+  if (typeof body === "string") return body;
+  if (body instanceof URLSearchParams) return body.toString();
+  // Multipart uploads are not worth storing in a fixture
+  return "[binary body]";
+}
+
+/** Identity of a request for matching: path plus sorted query, ignoring the host */
+function parseTarget(url: string): { path: string; query: string } {
+  const parsed = new URL(url);
+  const params = [...parsed.searchParams.entries()].sort(([a], [b]) => a.localeCompare(b));
+  return { path: parsed.pathname, query: new URLSearchParams(params).toString() };
+}
+
+/**
+ * Record-and-replay `fetch` for offline integration tests.
+ *
+ * In `"record"` mode it forwards every request to the real `fetch` and captures the request/response
+ * pair, redacting tokens, client secrets and authorization codes from headers, query strings and
+ * JSON or form bodies. In `"replay"` mode it never touches the network: each request is answered
+ * from the fixtures, and a request without a match rejects with an error naming it.
+ *
+ * Pass it as `recorder` in {@link SoundCloudClientConfig} so every namespace, auth, pagination and
+ * `sc.raw` request goes through it, or use {@link HttpRecorder.fetch} directly. Recorders serialize
+ * with `JSON.stringify`, so writing a fixture file is left to the caller and no Node-only API is needed.
+ *
+ * @example
+ * ```ts
+ * // Record once against the real API
+ * const recorder = new HttpRecorder({ mode: 'record' });
+ * const sc = new SoundCloudClient({ clientId, clientSecret, recorder });
+ * await sc.tracks.getTrack(123456);
+ * fs.writeFileSync('fixtures/tracks.json', JSON.stringify(recorder, null, 2));
+ *
+ * // Replay in tests, no network
+ * const replay = new HttpRecorder({ mode: 'replay', fixtures: JSON.parse(fs.readFileSync('fixtures/tracks.json', 'utf8')) });
+ * const offline = new SoundCloudClient({ clientId, clientSecret, recorder: replay });
+ * ```
+ */
+export class HttpRecorder {
+  readonly mode: "record" | "replay";
+  private readonly matching: FixtureMatching;
+  private readonly secretFields: Set<string>;
+  private readonly secretHeaders: Set<string>;
+  private readonly onRecord?: (fixture: HttpFixture) => void;
+  private readonly recorded: HttpFixture[];
+  private readonly used = new Set<HttpFixture>();
+  private network: typeof globalThis.fetch = (input, init) => globalThis.fetch(input, init);
+
+  constructor(options: HttpRecorderOptions) {
+    this.mode = options.mode;
+    this.matching = options.matching ?? "strict";
+    const extra = (options.redact ?? []).map((name) => name.toLowerCase());
+    this.secretFields = new Set([...SECRET_FIELDS, ...extra]);
+    this.secretHeaders = new Set([...SECRET_HEADERS, ...extra]);
+    this.onRecord = options.onRecord;
+    const fixtures = options.fixtures;
+    this.recorded = Array.isArray(fixtures) ? [...fixtures] : [...(fixtures?.fixtures ?? [])];
+  }
+
+  /** Recorded fixtures, or the fixtures being replayed */
+  get fixtures(): readonly HttpFixture[] {
+    return this.recorded;
+  }
+
+  /** Fixtures not served yet in replay mode */
+  get pending(): readonly HttpFixture[] {
+    return this.recorded.filter((fixture) => !this.used.has(fixture));
+  }
+
+  /**
+   * Wrap another `fetch` implementation for record mode (defaults to `globalThis.fetch`).
+   *
+   * @param fetchFn - The `fetch` that actually sends recorded requests
+   * @returns This recorder's {@link HttpRecorder.fetch}
+   */
+  wrap(fetchFn?: typeof globalThis.fetch): typeof globalThis.fetch {
+    if (fetchFn) this.network = fetchFn;
+    return this.fetch;
+  }
+
+  /** A `fetch` that records or replays, depending on the mode */
+  readonly fetch: typeof globalThis.fetch = async (input, init) => {
+    const url = typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+    const method = (init?.method ?? "GET").toUpperCase();
+    return this.mode === "replay" ? this.replay(method, url) : this.record(method, url, input, init);
+  };
+
+  /** Serialize for a fixture file */
+  toJSON(): HttpFixtureFile {
+    return { version: 1, fixtures: this.recorded };
+  }
+
+  private async record(method: string, url: string, input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+    const response = await this.network(input, init);
+    const headers = headersToRecord(response.headers);
+    delete headers["set-cookie"];
+    const body = NULL_BODY_STATUSES.has(response.status) ? "" : await response.clone().text();
+    const requestBody = bodyToText(init?.body);
+    const fixture: HttpFixture = {
+      request: {
+        method,
+        url: this.redactUrl(url),
+        headers: this.redactHeaders(headersToRecord(init?.headers)),
+        ...(requestBody !== undefined ? { body: this.redactBody(requestBody) } : {}),
+      },
+      response: { status: response.status, statusText: response.statusText, headers, body: this.redactBody(body) },
+    };
+    this.recorded.push(fixture);
+    this.onRecord?.(fixture);
+    return response;
+  }
+
+  private replay(method: string, url: string): Response {
+    const fixture = this.match(method, url);
+    if (!fixture) {
+      throw new Error(`HttpRecorder: no ${this.matching} fixture matches ${method} ${url}`);
+    }
+    this.used.add(fixture);
+    const { status, statusText, headers, body } = fixture.response;
+    return new Response(NULL_BODY_STATUSES.has(status) || body === "" ? null : body, { status, statusText, headers });
+  }
+
+  private match(method: string, url: string): HttpFixture | undefined {
+    // Fixtures hold redacted URLs, so compare against the redacted form of the request
+    const target = parseTarget(this.redactUrl(url));
+    const candidates = this.recorded.filter((fixture) => {
+      if (fixture.request.method !== method) return false;
+      return parseTarget(fixture.request.url).path === target.path;
+    });
+    const sameQuery = candidates.filter((fixture) => parseTarget(fixture.request.url).query === target.query);
+    const unused = (list: HttpFixture[]) => list.find((fixture) => !this.used.has(fixture));
+
+    if (this.matching === "strict") return unused(sameQuery);
+    return unused(sameQuery) ?? unused(candidates) ?? sameQuery.at(-1) ?? candidates.at(-1);
+  }
+
+  private redactHeaders(headers: Record<string, string>): Record<string, string> {
+    const out: Record<string, string> = {};
+    for (const [key, value] of Object.entries(headers)) out[key] = this.secretHeaders.has(key) ? REDACTED : value;
+    return out;
+  }
+
+  private redactUrl(url: string): string {
+    const parsed = new URL(url);
+    for (const key of [...parsed.searchParams.keys()]) {
+      if (this.secretFields.has(key.toLowerCase())) parsed.searchParams.set(key, REDACTED);
+    }
+    return parsed.href;
+  }
+
+  private redactBody(body: string): string {
+    if (body === "" || body === "[binary body]") return body;
+    try {
+      return JSON.stringify(this.redactJson(JSON.parse(body)));
+    } catch {
+      // Not JSON — treat it as a form body if it looks like one
+    }
+    if (!/^[^=&\s]+=[^&]*(&[^=&\s]+=[^&]*)*$/.test(body)) return body;
+    const params = new URLSearchParams(body);
+    for (const key of [...params.keys()]) {
+      if (this.secretFields.has(key.toLowerCase())) params.set(key, REDACTED);
+    }
+    return params.toString();
+  }
+
+  private redactJson(value: unknown): unknown {
+    if (Array.isArray(value)) return value.map((item) => this.redactJson(item));
+    if (typeof value !== "object" || value === null) return value;
+    const out: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      out[key] = this.secretFields.has(key.toLowerCase()) ? REDACTED : this.redactJson(item);
+    }
+    return out;
+  }
+}
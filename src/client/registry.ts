@@ -68,3 +68,103 @@ export const IMPLEMENTED_OPERATIONS: string[] = [
   // Resolve
   "get_resolve",
 ];
+
+/**
+ * An API operation as sent by this library: HTTP method, path template and OpenAPI operation id.
+ */
+export interface OperationTemplate {
+  /** HTTP method the library sends (follows use PUT, although the operation id says post) */
+  method: "GET" | "POST" | "PUT" | "DELETE";
+  /** Path with `{placeholders}` for ids, e.g. `/tracks/{track_id}` */
+  template: string;
+  /** OpenAPI operation id, one of {@link IMPLEMENTED_OPERATIONS} */
+  operationId: string;
+}
+
+/**
+ * Method and path template of every implemented operation, used to name requests in telemetry.
+ * More specific templates come before the ones they would otherwise be matched by.
+ */
+export const OPERATION_TEMPLATES: OperationTemplate[] = [
+  // Auth
+  { method: "POST", template: "/oauth/token", operationId: "post_oauth2_token" },
+
+  // Me
+  { method: "GET", template: "/me", operationId: "get_me" },
+  { method: "GET", template: "/me/activities", operationId: "get_me_activities" },
+  { method: "GET", template: "/me/activities/all/own", operationId: "get_me_activities_own" },
+  { method: "GET", template: "/me/activities/tracks", operationId: "get_me_activities_tracks" },
+  { method: "GET", template: "/me/likes/tracks", operationId: "get_me_likes_tracks" },
+  { method: "GET", template: "/me/likes/playlists", operationId: "get_me_likes_playlists" },
+  { method: "GET", template: "/me/followings", operationId: "get_me_followings" },
+  { method: "GET", template: "/me/followings/tracks", operationId: "get_me_followings_tracks" },
+  { method: "PUT", template: "/me/followings/{user_id}", operationId: "post_me_followings_user_id" },
+  { method: "DELETE", template: "/me/followings/{user_id}", operationId: "delete_me_followings_user_id" },
+  { method: "GET", template: "/me/followers", operationId: "get_me_followers" },
+  { method: "GET", template: "/me/playlists", operationId: "get_me_playlists" },
+  { method: "GET", template: "/me/tracks", operationId: "get_me_tracks" },
+  { method: "GET", template: "/me/connections", operationId: "get_me_connections" },
+
+  // Users
+  { method: "GET", template: "/users/{user_id}", operationId: "get_users_user_id" },
+  { method: "GET", template: "/users/{user_id}/followers", operationId: "get_users_user_id_followers" },
+  { method: "GET", template: "/users/{user_id}/followings", operationId: "get_users_user_id_followings" },
+  { method: "GET", template: "/users/{user_id}/tracks", operationId: "get_users_user_id_tracks" },
+  { method: "GET", template: "/users/{user_id}/playlists", operationId: "get_users_user_id_playlists" },
+  { method: "GET", template: "/users/{user_id}/likes/tracks", operationId: "get_users_user_id_likes_tracks" },
+  { method: "GET", template: "/users/{user_id}/likes/playlists", operationId: "get_users_user_id_likes_playlists" },
+  { method: "GET", template: "/users/{user_id}/web-profiles", operationId: "get_users_user_id_web_profiles" },
+
+  // Tracks
+  { method: "GET", template: "/tracks/{track_id}", operationId: "get_tracks_track_id" },
+  { method: "PUT", template: "/tracks/{track_id}", operationId: "put_tracks_track_id" },
+  { method: "DELETE", template: "/tracks/{track_id}", operationId: "delete_tracks_track_id" },
+  { method: "GET", template: "/tracks/{track_id}/comments", operationId: "get_tracks_track_id_comments" },
+  { method: "POST", template: "/tracks/{track_id}/comments", operationId: "post_tracks_track_id_comments" },
+  { method: "GET", template: "/tracks/{track_id}/favoriters", operationId: "get_tracks_track_id_likes" },
+  { method: "GET", template: "/tracks/{track_id}/reposters", operationId: "get_tracks_track_id_reposts" },
+  { method: "GET", template: "/tracks/{track_id}/related", operationId: "get_tracks_track_id_related" },
+  { method: "GET", template: "/tracks/{track_id}/streams", operationId: "get_tracks_track_id_streams" },
+  { method: "POST", template: "/likes/tracks/{track_id}", operationId: "post_likes_tracks_track_id" },
+  { method: "DELETE", template: "/likes/tracks/{track_id}", operationId: "delete_likes_tracks_track_id" },
+  { method: "POST", template: "/reposts/tracks/{track_id}", operationId: "post_reposts_tracks_track_id" },
+  { method: "DELETE", template: "/reposts/tracks/{track_id}", operationId: "delete_reposts_tracks_track_id" },
+
+  // Playlists
+  { method: "GET", template: "/playlists/{playlist_id}", operationId: "get_playlists_playlist_id" },
+  { method: "POST", template: "/playlists", operationId: "post_playlists" },
+  { method: "PUT", template: "/playlists/{playlist_id}", operationId: "put_playlists_playlist_id" },
+  { method: "DELETE", template: "/playlists/{playlist_id}", operationId: "delete_playlists_playlist_id" },
+  { method: "GET", template: "/playlists/{playlist_id}/tracks", operationId: "get_playlists_playlist_id_tracks" },
+  { method: "GET", template: "/playlists/{playlist_id}/reposters", operationId: "get_playlists_playlist_id_reposts" },
+  { method: "POST", template: "/likes/playlists/{playlist_id}", operationId: "post_likes_playlists_playlist_id" },
+  { method: "DELETE", template: "/likes/playlists/{playlist_id}", operationId: "delete_likes_playlists_playlist_id" },
+  { method: "POST", template: "/reposts/playlists/{playlist_id}", operationId: "post_reposts_playlists_playlist_id" },
+  { method: "DELETE", template: "/reposts/playlists/{playlist_id}", operationId: "delete_reposts_playlists_playlist_id" },
+
+  // Search (and `/tracks?ids=`)
+  { method: "GET", template: "/tracks", operationId: "get_tracks" },
+  { method: "GET", template: "/users", operationId: "get_users" },
+  { method: "GET", template: "/playlists", operationId: "get_playlists" },
+
+  // Resolve
+  { method: "GET", template: "/resolve", operationId: "get_resolve" },
+];
+
+const TEMPLATE_PATTERNS = OPERATION_TEMPLATES.map((operation) => ({
+  operation,
+  pattern: new RegExp(`^${operation.template.replace(/\{[^}]+\}/g, "[^/]+")}$`),
+}));
+
+/**
+ * Find the operation a request belongs to. The query string, and the origin of absolute URLs
+ * such as `next_href`, are ignored, so `/tracks/123?x=1` and `/tracks/456` both match `/tracks/{track_id}`.
+ *
+ * @param method - HTTP method of the request
+ * @param path - API path or absolute URL
+ * @returns The matching operation, or `undefined` for paths the library does not implement
+ */
+export function matchOperation(method: string, path: string): OperationTemplate | undefined {
+  const pathname = path.replace(/^https?:\/\/[^/?#]+/, "").replace(/[?#].*$/, "").replace(/(.)\/+$/, "$1");
+  return TEMPLATE_PATTERNS.find(({ operation, pattern }) => operation.method === method && pattern.test(pathname))?.operation;
+}
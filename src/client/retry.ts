@@ -0,0 +1,208 @@
+/** Response headers a retry strategy reads, e.g. a `fetch` `Headers` object */
+export type HeaderSource = { get(name: string): string | null };
+
+/**
+ * How backoff delays are randomised:
+ * - `"none"` — plain exponential backoff
+ * - `"proportional"` — exponential backoff plus up to 10% of that exponential delay (default)
+ * - `"full"` — a random delay between 0 and the exponential backoff
+ * - `"decorrelated"` — a random delay between the base delay and 3× the previous delay
+ */
+export type JitterMode = "none" | "proportional" | "full" | "decorrelated";
+
+/**
+ * What a {@link RetryStrategy} is told about a failed attempt.
+ */
+export interface RetryContext {
+  /** The retry about to be scheduled (1-based) */
+  attempt: number;
+  /** HTTP method of the request */
+  method: string;
+  /**
+   * Whether repeating the request is safe: true for GET, PUT and DELETE, false for POST
+   * unless the call opted in with `idempotent` or a `reconcile` hook
+   */
+  idempotent: boolean;
+  /** HTTP status of the failed response */
+  status: number;
+  /** Headers of the failed response */
+  headers: HeaderSource;
+  /** Delay before the previous retry in milliseconds (0 before the first retry) */
+  previousDelayMs: number;
+  /** Sum of all retry delays of this request so far, in milliseconds */
+  elapsedDelayMs: number;
+}
+
+/**
+ * A scheduled retry returned by {@link RetryStrategy.nextDelay}.
+ */
+export interface RetryDecision {
+  /** Delay in milliseconds before the retry fires */
+  delayMs: number;
+  /** Which rule produced the delay (e.g. `"retry-after"`, `"rate-limit-reset"`, `"full-jitter"`) */
+  strategy: string;
+  /** True when the delay was cut down to the strategy's maximum */
+  capped?: boolean;
+}
+
+/**
+ * Decides whether and when a failed request is retried.
+ * `scFetch` still enforces `maxRetries`; the strategy can stop earlier by returning `undefined`.
+ */
+export interface RetryStrategy {
+  /**
+   * @param context - The failed attempt
+   * @returns The delay before the next attempt, or `undefined` to give up and throw
+   */
+  nextDelay(context: RetryContext): RetryDecision | undefined;
+}
+
+/**
+ * Overrides for responses with one specific status code.
+ */
+export interface StatusRetryPolicy {
+  /** Whether the status is retried at all (default: true for 429 and 5xx, false otherwise) */
+  retry?: boolean;
+  /** Maximum retries for this status, below the request's overall `maxRetries` */
+  maxRetries?: number;
+  /** Base delay in milliseconds for this status */
+  baseDelayMs?: number;
+  /** Jitter mode for this status */
+  jitter?: JitterMode;
+}
+
+/**
+ * Options for {@link BackoffStrategy}.
+ */
+export interface BackoffStrategyOptions {
+  /** Base delay in milliseconds for exponential backoff (default: 1000) */
+  baseDelayMs?: number;
+  /** Upper bound for any single delay, server-requested ones included (default: 60000) */
+  maxDelayMs?: number;
+  /** How backoff delays are randomised (default: `"proportional"`) */
+  jitter?: JitterMode;
+  /** Give up once the delays of one request would add up to more than this, in milliseconds (default: unlimited) */
+  maxRetryBudgetMs?: number;
+  /** Wait as long as `retry-after` / `x-ratelimit-reset` ask for on 429 and 503 responses (default: true) */
+  respectRetryAfter?: boolean;
+  /**
+   * Also retry non-idempotent requests (POST) on 5xx, which can create duplicates when the
+   * server committed before failing. 429s are always retried (default: false)
+   */
+  retryNonIdempotent?: boolean;
+  /** Per-status overrides, keyed by HTTP status */
+  statusPolicies?: Record<number, StatusRetryPolicy>;
+}
+
+/**
+ * Parse a `retry-after` value — delay seconds or an HTTP date.
+ *
+ * @param value - Header value
+ * @param now - Current time in epoch milliseconds
+ * @returns When to retry, in epoch milliseconds, or `undefined` if the value is malformed
+ */
+export function parseRetryAfter(value: string, now: number): number | undefined {
+  const seconds = Number(value);
+  if (value.trim() !== "" && !Number.isNaN(seconds)) return now + seconds * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : date;
+}
+
+/**
+ * Parse an `x-ratelimit-reset` value — epoch seconds or delay seconds.
+ *
+ * @param value - Header value
+ * @param now - Current time in epoch milliseconds
+ * @returns When the quota resets, in epoch milliseconds, or `undefined` if the value is malformed
+ */
+export function parseReset(value: string, now: number): number | undefined {
+  const n = Number(value);
+  if (value.trim() === "" || Number.isNaN(n)) return undefined;
+  // Large values are epoch seconds, small ones a delay in seconds
+  return n > 1e9 ? n * 1000 : now + n * 1000;
+}
+
+/**
+ * Default {@link RetryStrategy}: retries 429 and 5xx responses with exponential backoff.
+ * Non-idempotent requests (POST) are only retried on 429, which SoundCloud sends before
+ * processing the request, unless the call opts in.
+ *
+ * On 429 and 503 responses a `retry-after` header (seconds or HTTP date) or an
+ * `x-ratelimit-reset` header (epoch or delay seconds) takes precedence over the backoff.
+ * Every delay is capped at `maxDelayMs`, and the returned decision says so when it is.
+ *
+ * @example
+ * ```ts
+ * const sc = new SoundCloudClient({
+ *   clientId,
+ *   clientSecret,
+ *   retryStrategy: new BackoffStrategy({
+ *     jitter: "decorrelated",
+ *     maxRetryBudgetMs: 20_000,
+ *     statusPolicies: { 502: { maxRetries: 1 }, 408: { retry: true } },
+ *   }),
+ * });
+ * ```
+ */
+export class BackoffStrategy implements RetryStrategy {
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly jitter: JitterMode;
+  private readonly maxRetryBudgetMs: number;
+  private readonly respectRetryAfter: boolean;
+  private readonly retryNonIdempotent: boolean;
+  private readonly statusPolicies: Record<number, StatusRetryPolicy>;
+
+  constructor(options: BackoffStrategyOptions = {}) {
+    this.baseDelayMs = options.baseDelayMs ?? 1000;
+    this.maxDelayMs = options.maxDelayMs ?? 60000;
+    this.jitter = options.jitter ?? "proportional";
+    this.maxRetryBudgetMs = options.maxRetryBudgetMs ?? Infinity;
+    this.respectRetryAfter = options.respectRetryAfter ?? true;
+    this.retryNonIdempotent = options.retryNonIdempotent ?? false;
+    this.statusPolicies = options.statusPolicies ?? {};
+  }
+
+  nextDelay(context: RetryContext): RetryDecision | undefined {
+    const policy = this.statusPolicies[context.status] ?? {};
+    const retryable = policy.retry ?? (context.status === 429 || (context.status >= 500 && context.status <= 599));
+    if (!retryable) return undefined;
+    if (!context.idempotent && !this.retryNonIdempotent && context.status !== 429) return undefined;
+    if (policy.maxRetries !== undefined && context.attempt > policy.maxRetries) return undefined;
+
+    const decision = this.serverDelay(context) ?? this.backoff(context, policy);
+    const capped = decision.delayMs > this.maxDelayMs;
+    const delayMs = Math.max(Math.min(decision.delayMs, this.maxDelayMs), 0);
+    if (context.elapsedDelayMs + delayMs > this.maxRetryBudgetMs) return undefined;
+    return { delayMs, strategy: decision.strategy, ...(capped ? { capped } : {}) };
+  }
+
+  private serverDelay({ status, headers }: RetryContext): RetryDecision | undefined {
+    if (!this.respectRetryAfter || (status !== 429 && status !== 503)) return undefined;
+    const now = Date.now();
+    const retryAfter = headers.get("retry-after");
+    const until = retryAfter ? parseRetryAfter(retryAfter, now) : undefined;
+    if (until !== undefined) return { delayMs: until - now, strategy: "retry-after" };
+    const reset = headers.get("x-ratelimit-reset");
+    const resetAt = reset ? parseReset(reset, now) : undefined;
+    if (resetAt !== undefined) return { delayMs: resetAt - now, strategy: "rate-limit-reset" };
+    return undefined;
+  }
+
+  private backoff(context: RetryContext, policy: StatusRetryPolicy): RetryDecision {
+    const base = policy.baseDelayMs ?? this.baseDelayMs;
+    const exponential = base * Math.pow(2, context.attempt - 1);
+    switch (policy.jitter ?? this.jitter) {
+      case "none":
+        return { delayMs: exponential, strategy: "exponential" };
+      case "full":
+        return { delayMs: Math.random() * exponential, strategy: "full-jitter" };
+      case "decorrelated": {
+        const upper = Math.max(context.previousDelayMs * 3, base);
+        return { delayMs: base + Math.random() * (upper - base), strategy: "decorrelated-jitter" };
+      }
+      default:
+        return { delayMs: exponential + Math.random() * exponential * 0.1, strategy: "exponential" };
+    }
+  }
+}
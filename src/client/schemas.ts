@@ -0,0 +1,373 @@
+import type * as Api from "../types/api.js";
+import { array, boolean, literal, nullable, number, object, oneOf, optional, string, type Schema, type Shape } from "./validate.js";
+
+// Keep in sync with src/types/api.ts: one schema per response type, field for field.
+// Literal unions list their most conservative value first: it is the coerce-mode fallback.
+
+const sharing = () => literal<Api.SoundCloudSharing>("private", "public");
+const embeddableBy = () => literal<Api.SoundCloudEmbeddableBy>("none", "me", "all");
+const access = () => literal<Api.SoundCloudAccess>("blocked", "preview", "playable");
+const license = () =>
+  literal<Api.SoundCloudLicense>(
+    "all-rights-reserved",
+    "no-rights-reserved",
+    "cc-by",
+    "cc-by-nc",
+    "cc-by-nd",
+    "cc-by-sa",
+    "cc-by-nc-nd",
+    "cc-by-nc-sa",
+  );
+
+const SoundCloudToken = object<Api.SoundCloudToken>("SoundCloudToken", {
+  access_token: string(),
+  expires_in: number(),
+  refresh_token: optional(string()),
+  scope: optional(string()),
+  token_type: string(),
+});
+
+const SoundCloudSubscriptionProduct = object<Api.SoundCloudSubscriptionProduct>("SoundCloudSubscriptionProduct", {
+  id: string(),
+  name: string(),
+});
+
+const SoundCloudSubscription = object<Api.SoundCloudSubscription>("SoundCloudSubscription", {
+  product: SoundCloudSubscriptionProduct,
+  recurring: optional(boolean()),
+});
+
+const userShape: Shape<Api.SoundCloudUser> = {
+  avatar_url: string(),
+  city: nullable(string()),
+  country: nullable(string()),
+  created_at: string(),
+  description: nullable(string()),
+  discogs_name: nullable(string()),
+  first_name: string(),
+  followers_count: number(),
+  followings_count: number(),
+  full_name: string(),
+  id: number(),
+  urn: string(),
+  kind: literal("user"),
+  last_modified: string(),
+  last_name: string(),
+  likes_count: number(),
+  online: boolean(),
+  permalink: string(),
+  permalink_url: string(),
+  plan: string(),
+  playlist_count: number(),
+  public_favorites_count: number(),
+  reposts_count: number(),
+  subscriptions: array(SoundCloudSubscription),
+  track_count: number(),
+  uri: string(),
+  username: string(),
+  website: nullable(string()),
+  website_title: nullable(string()),
+  comments_count: number(),
+  myspace_name: nullable(string()),
+};
+
+const SoundCloudUser = object<Api.SoundCloudUser>("SoundCloudUser", userShape);
+
+const SoundCloudQuota = object<Api.SoundCloudQuota>("SoundCloudQuota", {
+  unlimited_upload_quota: boolean(),
+  upload_seconds_used: number(),
+  upload_seconds_left: nullable(number()),
+});
+
+const SoundCloudMe = object<Api.SoundCloudMe>("SoundCloudMe", {
+  ...userShape,
+  locale: nullable(string()),
+  primary_email_confirmed: boolean(),
+  private_playlists_count: number(),
+  private_tracks_count: number(),
+  quota: SoundCloudQuota,
+  upload_seconds_left: nullable(number()),
+});
+
+const SoundCloudTrack = object<Api.SoundCloudTrack>("SoundCloudTrack", {
+  access: access(),
+  artwork_url: nullable(string()),
+  available_country_codes: nullable(array(string())),
+  bpm: nullable(number()),
+  comment_count: number(),
+  commentable: boolean(),
+  created_at: string(),
+  description: nullable(string()),
+  download_count: number(),
+  download_url: nullable(string()),
+  downloadable: boolean(),
+  duration: number(),
+  embeddable_by: embeddableBy(),
+  favoritings_count: number(),
+  genre: nullable(string()),
+  id: number(),
+  isrc: nullable(string()),
+  key_signature: nullable(string()),
+  kind: literal("track"),
+  label_name: nullable(string()),
+  license: license(),
+  metadata_artist: nullable(string()),
+  monetization_model: nullable(string()),
+  permalink_url: string(),
+  playback_count: number(),
+  policy: nullable(string()),
+  purchase_title: nullable(string()),
+  purchase_url: nullable(string()),
+  release: nullable(string()),
+  release_day: nullable(number()),
+  release_month: nullable(number()),
+  release_year: nullable(number()),
+  reposts_count: number(),
+  secret_uri: nullable(string()),
+  sharing: sharing(),
+  stream_url: nullable(string()),
+  streamable: boolean(),
+  tag_list: string(),
+  title: string(),
+  uri: string(),
+  urn: string(),
+  user: SoundCloudUser,
+  user_favorite: boolean(),
+  user_playback_count: nullable(number()),
+  waveform_url: string(),
+});
+
+const SoundCloudPlaylist = object<Api.SoundCloudPlaylist>("SoundCloudPlaylist", {
+  artwork_url: nullable(string()),
+  created_at: string(),
+  description: nullable(string()),
+  downloadable: boolean(),
+  duration: number(),
+  ean: nullable(string()),
+  embeddable_by: embeddableBy(),
+  genre: nullable(string()),
+  id: number(),
+  kind: literal("playlist"),
+  label: nullable(SoundCloudUser),
+  label_id: nullable(number()),
+  label_name: nullable(string()),
+  last_modified: string(),
+  license: license(),
+  likes_count: number(),
+  permalink: string(),
+  permalink_url: string(),
+  playlist_type: nullable(string()),
+  purchase_title: nullable(string()),
+  purchase_url: nullable(string()),
+  release: nullable(string()),
+  release_day: nullable(number()),
+  release_month: nullable(number()),
+  release_year: nullable(number()),
+  sharing: sharing(),
+  streamable: boolean(),
+  tag_list: string(),
+  tags: nullable(string()),
+  title: string(),
+  track_count: number(),
+  tracks: array(SoundCloudTrack),
+  tracks_uri: nullable(string()),
+  type: string(),
+  uri: string(),
+  urn: string(),
+  user: SoundCloudUser,
+  user_id: number(),
+  user_urn: string(),
+});
+
+const SoundCloudCommentUser = object<Api.SoundCloudCommentUser>("SoundCloudCommentUser", {
+  avatar_url: string(),
+  followers_count: number(),
+  followings_count: number(),
+  kind: literal("user"),
+  last_modified: string(),
+  permalink: string(),
+  permalink_url: string(),
+  reposts_count: number(),
+  uri: string(),
+  urn: string(),
+  username: string(),
+});
+
+const SoundCloudComment = object<Api.SoundCloudComment>("SoundCloudComment", {
+  body: string(),
+  created_at: string(),
+  id: number(),
+  kind: literal("comment"),
+  timestamp: number(),
+  track_urn: string(),
+  uri: string(),
+  urn: string(),
+  user: SoundCloudCommentUser,
+  user_urn: string(),
+});
+
+const SoundCloudStreams = object<Api.SoundCloudStreams>("SoundCloudStreams", {
+  hls_aac_160_url: optional(string()),
+  hls_mp3_128_url: optional(string()),
+  http_mp3_128_url: optional(string()),
+  preview_mp3_128_url: optional(string()),
+});
+
+const SoundCloudWebProfile = object<Api.SoundCloudWebProfile>("SoundCloudWebProfile", {
+  created_at: string(),
+  kind: literal("web-profile"),
+  service: string(),
+  title: string(),
+  url: string(),
+  urn: string(),
+  username: string(),
+});
+
+const trackActivityTypes: Api.SoundCloudTrackActivityType[] = ["track", "track-repost", "track-sharing"];
+const playlistActivityTypes: Api.SoundCloudPlaylistActivityType[] = ["playlist", "playlist-repost"];
+
+const SoundCloudTrackActivity = object<Api.SoundCloudTrackActivity>("SoundCloudTrackActivity", {
+  type: literal(...(trackActivityTypes as [Api.SoundCloudTrackActivityType])),
+  created_at: string(),
+  origin: SoundCloudTrack,
+});
+
+const SoundCloudPlaylistActivity = object<Api.SoundCloudPlaylistActivity>("SoundCloudPlaylistActivity", {
+  type: literal(...(playlistActivityTypes as [Api.SoundCloudPlaylistActivityType])),
+  created_at: string(),
+  origin: SoundCloudPlaylist,
+});
+
+/** Picked by `type`, or by `origin.kind` when the type is unknown */
+const SoundCloudActivity = oneOf<Api.SoundCloudActivity>(
+  "SoundCloudActivity",
+  (value) => {
+    const { type, origin } = value as { type?: unknown; origin?: { kind?: unknown } | null };
+    if ((trackActivityTypes as unknown[]).includes(type)) return SoundCloudTrackActivity;
+    if ((playlistActivityTypes as unknown[]).includes(type)) return SoundCloudPlaylistActivity;
+    return origin?.kind === "playlist" ? SoundCloudPlaylistActivity : SoundCloudTrackActivity;
+  },
+  SoundCloudTrackActivity,
+);
+
+// `next_href` is declared as a string but is `null` on the last page of every envelope
+const lastPageHref = nullable(string()) as Schema<string>;
+
+const SoundCloudActivitiesResponse = object<Api.SoundCloudActivitiesResponse>("SoundCloudActivitiesResponse", {
+  collection: array(SoundCloudActivity),
+  next_href: lastPageHref,
+  future_href: string(),
+});
+
+const SoundCloudConnection = object<Api.SoundCloudConnection>("SoundCloudConnection", {
+  created_at: string(),
+  id: number(),
+  kind: literal("connection"),
+  display_name: string(),
+  service: string(),
+  uri: string(),
+  post_publish: optional(boolean()),
+  post_favorite: optional(boolean()),
+});
+
+/** Schema of a {@link SoundCloudPaginatedResponse} of `item` */
+function SoundCloudPaginatedResponse<T>(item: Schema<T>): Schema<Api.SoundCloudPaginatedResponse<T>> {
+  return object<Api.SoundCloudPaginatedResponse<T>>(`SoundCloudPaginatedResponse<${item.expected}>`, {
+    collection: array(item),
+    next_href: lastPageHref,
+  });
+}
+
+/** A paginated response, or a plain array for the same operation (`/tracks?ids=` vs `/tracks?q=`) */
+function pageOrArray<T>(item: Schema<T>): Schema<Api.SoundCloudPaginatedResponse<T> | T[]> {
+  const page = SoundCloudPaginatedResponse(item);
+  const list = array(item);
+  return {
+    expected: `${page.expected} | ${list.expected}`,
+    parse: (value, path, issues) => (Array.isArray(value) ? list : page).parse(value, path, issues),
+    fallback: () => page.fallback(),
+  };
+}
+
+/**
+ * Runtime schemas for every response type exported from `soundcloud-api-ts/types`, for use
+ * with {@link validateResponse}. `SoundCloudPaginatedResponse` takes the item schema.
+ */
+export const responseSchemas = {
+  SoundCloudToken,
+  SoundCloudUser,
+  SoundCloudMe,
+  SoundCloudQuota,
+  SoundCloudSubscription,
+  SoundCloudSubscriptionProduct,
+  SoundCloudTrack,
+  SoundCloudPlaylist,
+  SoundCloudComment,
+  SoundCloudCommentUser,
+  SoundCloudStreams,
+  SoundCloudWebProfile,
+  SoundCloudActivity,
+  SoundCloudTrackActivity,
+  SoundCloudPlaylistActivity,
+  SoundCloudActivitiesResponse,
+  SoundCloudConnection,
+  SoundCloudPaginatedResponse,
+};
+
+const tracksPage = SoundCloudPaginatedResponse(SoundCloudTrack);
+const usersPage = SoundCloudPaginatedResponse(SoundCloudUser);
+const playlistsPage = SoundCloudPaginatedResponse(SoundCloudPlaylist);
+
+/** Response schema per operation id (see `OPERATION_TEMPLATES`); operations without a body are absent */
+const OPERATION_SCHEMAS: Record<string, Schema<unknown>> = {
+  post_oauth2_token: SoundCloudToken,
+
+  get_me: SoundCloudMe,
+  get_me_activities: SoundCloudActivitiesResponse,
+  get_me_activities_own: SoundCloudActivitiesResponse,
+  get_me_activities_tracks: SoundCloudActivitiesResponse,
+  get_me_likes_tracks: tracksPage,
+  get_me_likes_playlists: playlistsPage,
+  get_me_followings: usersPage,
+  get_me_followings_tracks: tracksPage,
+  get_me_followers: usersPage,
+  get_me_playlists: playlistsPage,
+  get_me_tracks: tracksPage,
+  get_me_connections: array(SoundCloudConnection),
+
+  get_users_user_id: SoundCloudUser,
+  get_users_user_id_followers: usersPage,
+  get_users_user_id_followings: usersPage,
+  get_users_user_id_tracks: tracksPage,
+  get_users_user_id_playlists: playlistsPage,
+  get_users_user_id_likes_tracks: tracksPage,
+  get_users_user_id_likes_playlists: playlistsPage,
+  get_users_user_id_web_profiles: array(SoundCloudWebProfile),
+
+  get_tracks_track_id: SoundCloudTrack,
+  put_tracks_track_id: SoundCloudTrack,
+  get_tracks_track_id_comments: SoundCloudPaginatedResponse(SoundCloudComment),
+  post_tracks_track_id_comments: SoundCloudComment,
+  get_tracks_track_id_likes: usersPage,
+  get_tracks_track_id_reposts: usersPage,
+  get_tracks_track_id_related: array(SoundCloudTrack),
+  get_tracks_track_id_streams: SoundCloudStreams,
+
+  get_playlists_playlist_id: SoundCloudPlaylist,
+  post_playlists: SoundCloudPlaylist,
+  put_playlists_playlist_id: SoundCloudPlaylist,
+  get_playlists_playlist_id_tracks: tracksPage,
+  get_playlists_playlist_id_reposts: usersPage,
+
+  get_tracks: pageOrArray(SoundCloudTrack),
+  get_users: usersPage,
+  get_playlists: playlistsPage,
+};
+
+/**
+ * The response schema of an operation, or `undefined` for operations that return no body
+ * (deletes, likes, follows) or a redirect (`/resolve`).
+ */
+export function responseSchemaFor(operationId: string): Schema<unknown> | undefined {
+  return OPERATION_SCHEMAS[operationId];
+}
@@ -0,0 +1,232 @@
+import { SoundCloudValidationError } from "../errors.js";
+
+/**
+ * What happens when a response does not match its declared type:
+ * - `"strict"` — throw a {@link SoundCloudValidationError} listing every mismatch
+ * - `"warn"` — report the mismatches and return the response unchanged
+ * - `"coerce"` — report the mismatches and return a copy repaired to the declared type
+ *   (`null` strings become `""`, numbers `0`, arrays `[]`, objects are filled with defaults)
+ */
+export type ValidationMode = "strict" | "warn" | "coerce";
+
+/**
+ * A single mismatch between a response and its declared type.
+ */
+export interface ValidationIssue {
+  /** Location of the mismatch, e.g. `$.collection[2].user.avatar_url` */
+  path: string;
+  /** What the declared type expects, e.g. `"string"`, `"number | null"` or `"SoundCloudUser"` */
+  expected: string;
+  /** What the response contained: `"null"`, `"undefined"`, `"array"`, a `typeof` name or an unexpected string literal */
+  received: string;
+}
+
+/**
+ * Opt-in runtime validation of API responses against the types in `soundcloud-api-ts/types`.
+ */
+export interface ValidationOptions {
+  /** How mismatches are handled (see {@link ValidationMode}) */
+  mode: ValidationMode;
+  /** Called with every mismatch, in addition to the `onDebug` message */
+  onIssue?: (issue: ValidationIssue) => void;
+}
+
+/**
+ * A runtime description of a response type. `parse` never throws: it records mismatches in
+ * `issues` and returns the value coerced to the type.
+ */
+export interface Schema<T> {
+  /** Name of the type in issue reports */
+  readonly expected: string;
+  /** True when the field may be absent (`field?: T`) */
+  readonly optional?: boolean;
+  /** Check `value` at `path`, pushing mismatches to `issues`, and return it coerced to the type */
+  parse(value: unknown, path: string, issues: ValidationIssue[]): T;
+  /** Value substituted in coerce mode when the response holds nothing usable */
+  fallback(): T;
+}
+
+function received(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function primitive<T>(expected: string, fallback: T, coerce: (value: unknown) => T | undefined): Schema<T> {
+  return {
+    expected,
+    parse(value, path, issues) {
+      if (typeof value === expected) return value as T;
+      issues.push({ path, expected, received: received(value) });
+      return coerce(value) ?? fallback;
+    },
+    fallback: () => fallback,
+  };
+}
+
+/** A string; numbers and booleans are coerced with `String()` */
+export const string = (): Schema<string> =>
+  primitive("string", "", (value) => (typeof value === "number" || typeof value === "boolean" ? String(value) : undefined));
+
+/** A finite number; numeric strings are coerced with `Number()` */
+export const number = (): Schema<number> =>
+  primitive("number", 0, (value) => (typeof value === "string" && value.trim() !== "" && Number.isFinite(Number(value)) ? Number(value) : undefined));
+
+/** A boolean; the strings `"true"` and `"false"` are coerced */
+export const boolean = (): Schema<boolean> =>
+  primitive("boolean", false, (value) => (value === "true" ? true : value === "false" ? false : undefined));
+
+/**
+ * One of a fixed set of strings, e.g. `literal("private", "public")`. Anything else is reported
+ * and coerced to the first value, so list the most conservative value first.
+ */
+export function literal<T extends string>(...values: [T, ...T[]]): Schema<T> {
+  const expected = values.map((value) => JSON.stringify(value)).join(" | ");
+  return {
+    expected,
+    parse(value, path, issues) {
+      if ((values as unknown[]).includes(value)) return value as T;
+      issues.push({ path, expected, received: typeof value === "string" ? JSON.stringify(value) : received(value) });
+      return values[0];
+    },
+    fallback: () => values[0],
+  };
+}
+
+/** `T | null`; a missing value is reported and coerced to `null` */
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  const expected = `${schema.expected} | null`;
+  return {
+    expected,
+    parse(value, path, issues) {
+      if (value === null) return null;
+      if (value === undefined) {
+        issues.push({ path, expected, received: "undefined" });
+        return null;
+      }
+      return schema.parse(value, path, issues);
+    },
+    fallback: () => null,
+  };
+}
+
+/** An optional field (`field?: T`); `null` is reported and coerced to absent */
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    expected: schema.expected,
+    optional: true,
+    parse(value, path, issues) {
+      if (value === undefined) return undefined;
+      if (value === null) {
+        issues.push({ path, expected: schema.expected, received: "null" });
+        return undefined;
+      }
+      return schema.parse(value, path, issues);
+    },
+    fallback: () => undefined,
+  };
+}
+
+/** An array of `T` */
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  const expected = `${item.expected}[]`;
+  return {
+    expected,
+    parse(value, path, issues) {
+      if (!Array.isArray(value)) {
+        issues.push({ path, expected, received: received(value) });
+        return [];
+      }
+      return value.map((element, index) => item.parse(element, `${path}[${index}]`, issues));
+    },
+    fallback: () => [],
+  };
+}
+
+/** The fields of an object type, each with its schema */
+export type Shape<T> = { [K in keyof T]-?: Schema<T[K]> };
+
+/**
+ * An object with the given fields. Fields that are not declared are kept as they are, so new
+ * API fields never count as mismatches.
+ */
+export function object<T>(name: string, shape: Shape<T>): Schema<T> {
+  const entries = Object.entries(shape) as [string, Schema<unknown>][];
+  const fallback = (): T => {
+    const out: Record<string, unknown> = {};
+    for (const [key, schema] of entries) {
+      if (!schema.optional) out[key] = schema.fallback();
+    }
+    return out as T;
+  };
+  return {
+    expected: name,
+    parse(value, path, issues) {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        issues.push({ path, expected: name, received: received(value) });
+        return fallback();
+      }
+      const out: Record<string, unknown> = { ...value };
+      for (const [key, schema] of entries) {
+        const parsed = schema.parse((value as Record<string, unknown>)[key], `${path}.${key}`, issues);
+        if (parsed === undefined) delete out[key];
+        else out[key] = parsed;
+      }
+      return out as T;
+    },
+    fallback,
+  };
+}
+
+/** One of several schemas, chosen by looking at the value (e.g. its `kind`) */
+export function oneOf<T>(expected: string, pick: (value: unknown) => Schema<T>, fallback: Schema<T>): Schema<T> {
+  return {
+    expected,
+    parse(value, path, issues) {
+      if (typeof value !== "object" || value === null) {
+        issues.push({ path, expected, received: received(value) });
+        return fallback.fallback();
+      }
+      return pick(value).parse(value, path, issues);
+    },
+    fallback: () => fallback.fallback(),
+  };
+}
+
+/**
+ * Validate `value` against `schema`. Mismatches are passed to `onIssue` and, with their path,
+ * to `onDebug`; then the mode decides whether to throw, pass the value through or repair it.
+ *
+ * @param schema - Schema of the expected type, e.g. `responseSchemas.SoundCloudTrack`
+ * @param value - The parsed response body
+ * @param options - The mode, or the mode and an `onIssue` callback
+ * @param onDebug - Receives one message per mismatch
+ * @param source - Prefix of debug and error messages, e.g. `"GET /tracks/123"`
+ * @returns The value unchanged (`strict`, `warn`) or coerced to the type (`coerce`)
+ * @throws {SoundCloudValidationError} In `strict` mode when there is at least one mismatch
+ *
+ * @example
+ * ```ts
+ * import { validateResponse, responseSchemas } from 'soundcloud-api-ts';
+ *
+ * const track = validateResponse(responseSchemas.SoundCloudTrack, json, { mode: 'coerce' });
+ * ```
+ */
+export function validateResponse<T>(
+  schema: Schema<T>,
+  value: unknown,
+  options: ValidationMode | ValidationOptions = "strict",
+  onDebug?: (message: string) => void,
+  source?: string,
+): T {
+  const { mode, onIssue } = typeof options === "string" ? { mode: options, onIssue: undefined } : options;
+  const issues: ValidationIssue[] = [];
+  const coerced = schema.parse(value, "$", issues);
+  const prefix = source ? `${source}: ` : "";
+  for (const issue of issues) {
+    onDebug?.(`Validation (${mode}): ${prefix}${issue.path} expected ${issue.expected}, received ${issue.received}`);
+    onIssue?.(issue);
+  }
+  if (issues.length > 0 && mode === "strict") throw new SoundCloudValidationError(issues, source);
+  return mode === "coerce" ? coerced : (value as T);
+}
@@ -1,3 +1,5 @@
+import type { ValidationIssue } from "./client/validate.js";
+
 /**
  * Shape of error response bodies returned by the SoundCloud API.
  *
@@ -128,3 +130,156 @@ export class SoundCloudError extends Error {
     return this.status >= 500 && this.status < 600;
   }
 }
+
+/**
+ * Error thrown when a request is cancelled through an `AbortSignal` or exceeds its `timeoutMs`.
+ *
+ * Distinct from {@link SoundCloudError}: no HTTP response was received (or it was
+ * discarded), so there is no status code. Retry backoff is interrupted immediately.
+ *
+ * @example
+ * ```ts
+ * import { SoundCloudAbortError } from 'soundcloud-api-ts';
+ *
+ * try {
+ *   await sc.tracks.getTrack(123456, { timeoutMs: 2000 });
+ * } catch (err) {
+ *   if (err instanceof SoundCloudAbortError && err.isTimeout) {
+ *     console.log('SoundCloud took too long');
+ *   }
+ * }
+ * ```
+ */
+export class SoundCloudAbortError extends Error {
+  /** True when the request was aborted because its timeout elapsed, false when cancelled by the caller's signal */
+  readonly isTimeout: boolean;
+
+  /**
+   * Creates a new SoundCloudAbortError.
+   *
+   * @param message - Human-readable description
+   * @param options - Whether the abort came from a timeout, and the underlying abort reason
+   */
+  constructor(message: string, options?: { isTimeout?: boolean; cause?: unknown }) {
+    super(message, { cause: options?.cause });
+    this.name = "SoundCloudAbortError";
+    this.isTimeout = options?.isTimeout ?? false;
+  }
+}
+
+/**
+ * Error thrown without contacting SoundCloud while the client's circuit breaker is open.
+ *
+ * Extends {@link SoundCloudError} with status 503 so existing `isServerError` handling
+ * applies; check `instanceof SoundCloudCircuitOpenError` to tell it apart from a real 503.
+ *
+ * @example
+ * ```ts
+ * import { SoundCloudCircuitOpenError } from 'soundcloud-api-ts';
+ *
+ * try {
+ *   await sc.tracks.getTrack(123456);
+ * } catch (err) {
+ *   if (err instanceof SoundCloudCircuitOpenError) {
+ *     console.log(`SoundCloud is down, next probe in ${err.retryAfterMs}ms`);
+ *   }
+ * }
+ * ```
+ */
+export class SoundCloudCircuitOpenError extends SoundCloudError {
+  /** Milliseconds until the circuit half-opens and lets a probe request through (0 when probes are already in flight) */
+  readonly retryAfterMs: number;
+
+  /**
+   * Creates a new SoundCloudCircuitOpenError.
+   *
+   * @param retryAfterMs - Time until the circuit half-opens, in milliseconds
+   */
+  constructor(retryAfterMs: number) {
+    const ms = Math.max(Math.round(retryAfterMs), 0);
+    super(503, "Service Unavailable", { message: `Circuit breaker is open; SoundCloud requests are failing fast (retry in ${ms}ms)` });
+    this.name = "SoundCloudCircuitOpenError";
+    this.retryAfterMs = ms;
+  }
+}
+
+/**
+ * Error thrown in `"strict"` validation mode when a response does not match its declared type.
+ *
+ * Thrown after the response arrived, so the request is not retried. Every mismatch is listed
+ * in {@link SoundCloudValidationError.issues} with its exact path.
+ *
+ * @example
+ * ```ts
+ * import { SoundCloudValidationError } from 'soundcloud-api-ts';
+ *
+ * const sc = new SoundCloudClient({ clientId, clientSecret, validation: 'strict' });
+ * try {
+ *   await sc.tracks.getTrack(123456);
+ * } catch (err) {
+ *   if (err instanceof SoundCloudValidationError) {
+ *     for (const issue of err.issues) console.log(issue.path, issue.expected, issue.received);
+ *   }
+ * }
+ * ```
+ */
+export class SoundCloudValidationError extends Error {
+  /** Every mismatch between the response and its type */
+  readonly issues: ValidationIssue[];
+
+  /**
+   * Creates a new SoundCloudValidationError.
+   *
+   * @param issues - The mismatches found
+   * @param source - The request that returned the response, e.g. `"GET /tracks/123"`
+   */
+  constructor(issues: ValidationIssue[], source?: string) {
+    const [first] = issues;
+    const more = issues.length > 1 ? ` (and ${issues.length - 1} more)` : "";
+    super(`${source ? `${source}: ` : ""}response does not match its type: ${first.path} expected ${first.expected}, received ${first.received}${more}`);
+    this.name = "SoundCloudValidationError";
+    this.issues = issues;
+  }
+}
+
+/**
+ * Error thrown by `OAuthFlow.handleCallback()` when an authorization callback is rejected before
+ * its code is exchanged.
+ *
+ * `code` is the `error` parameter SoundCloud sent (e.g. `"access_denied"` when the user declined),
+ * or one of `"missing_state"`, `"invalid_state"` (unknown or already used), `"expired_state"` and
+ * `"missing_code"`.
+ *
+ * @example
+ * ```ts
+ * import { SoundCloudOAuthError } from 'soundcloud-api-ts';
+ *
+ * try {
+ *   await sc.setToken(await flow.handleCallback(req.url));
+ * } catch (err) {
+ *   if (err instanceof SoundCloudOAuthError && err.code === 'access_denied') {
+ *     return res.redirect('/login?declined=1');
+ *   }
+ *   throw err;
+ * }
+ * ```
+ */
+export class SoundCloudOAuthError extends Error {
+  /** The OAuth `error` from the callback, or why the callback was rejected */
+  readonly code: string;
+  /** The callback's `error_description`, or a description of the rejection */
+  readonly description?: string;
+
+  /**
+   * Creates a new SoundCloudOAuthError.
+   *
+   * @param code - The OAuth error code
+   * @param description - Human-readable detail
+   */
+  constructor(code: string, description?: string) {
+    super(description ? `OAuth callback rejected: ${code} (${description})` : `OAuth callback rejected: ${code}`);
+    this.name = "SoundCloudOAuthError";
+    this.code = code;
+    this.description = description;
+  }
+}
@@ -1,17 +1,44 @@
 // Client
 export { SoundCloudClient } from "./client/SoundCloudClient.js";
-export type { SoundCloudClientConfig, TokenOption } from "./client/SoundCloudClient.js";
+export type { SoundCloudClientConfig, TokenOption, CallOptions, AuthCallOptions, CreateCallOptions, WithResponse, TokenRefreshEvent, TokenRefreshSource, TokenRefreshTrigger } from "./client/SoundCloudClient.js";
 export { scFetch, scFetchUrl } from "./client/http.js";
-export type { RequestOptions, RetryConfig, RetryInfo, SCRequestTelemetry } from "./client/http.js";
+export type { RequestOptions, TransportOptions, BaseUrlOptions, FetchUrlOptions, MutationRetryOptions, RetryConfig, RetryInfo, SCRequestTelemetry, SCResponse, SCResponseMeta } from "./client/http.js";
 export { RawClient } from "./client/raw.js";
 export type { RawResponse } from "./client/raw.js";
-export type { SoundCloudCache, SoundCloudCacheEntry } from "./client/cache.js";
+export type { SoundCloudCache, SoundCloudCacheEntry, CacheCallOptions } from "./client/cache.js";
 export { InFlightDeduper } from "./client/dedupe.js";
-export { IMPLEMENTED_OPERATIONS } from "./client/registry.js";
+export { RateLimiter } from "./client/rate-limit.js";
+export type { RateLimitOptions, RateLimitSlot } from "./client/rate-limit.js";
+export { CircuitBreaker } from "./client/circuit-breaker.js";
+export type { CircuitBreakerOptions, CircuitState, CircuitStateChange } from "./client/circuit-breaker.js";
+export { BackoffStrategy } from "./client/retry.js";
+export { HttpRecorder } from "./client/recorder.js";
+export type { FixtureMatching, HttpFixture, HttpFixtureFile, HttpRecorderOptions } from "./client/recorder.js";
+export type { BackoffStrategyOptions, JitterMode, RetryContext, RetryDecision, RetryStrategy, StatusRetryPolicy } from "./client/retry.js";
+export { composeMiddleware } from "./client/middleware.js";
+export type { Middleware, MiddlewareNext, MiddlewareRequest, MiddlewareResponse } from "./client/middleware.js";
+export { IMPLEMENTED_OPERATIONS, OPERATION_TEMPLATES, matchOperation } from "./client/registry.js";
+export type { OperationTemplate } from "./client/registry.js";
+export type {
+  OpenTelemetryOptions,
+  OTelAttributes,
+  OTelAttributeValue,
+  OTelCounter,
+  OTelHistogram,
+  OTelInstrumentOptions,
+  OTelMeter,
+  OTelSpan,
+  OTelSpanOptions,
+  OTelTracer,
+} from "./client/otel.js";
+export { validateResponse } from "./client/validate.js";
+export type { Schema, ValidationIssue, ValidationMode, ValidationOptions } from "./client/validate.js";
+export { responseSchemas } from "./client/schemas.js";
 
 // Errors
-export { SoundCloudError } from "./errors.js";
+export { SoundCloudError, SoundCloudAbortError, SoundCloudCircuitOpenError, SoundCloudValidationError, SoundCloudOAuthError } from "./errors.js";
 export { paginate, paginateItems, fetchAll } from "./client/paginate.js";
+export type { PaginateOptions } from "./client/paginate.js";
 
 // Types
 export type {
@@ -28,13 +55,24 @@ export type {
   SoundCloudStreams,
   SoundCloudWebProfile,
   SoundCloudActivity,
+  SoundCloudTrackActivity,
+  SoundCloudPlaylistActivity,
+  SoundCloudActivityType,
+  SoundCloudTrackActivityType,
+  SoundCloudPlaylistActivityType,
   SoundCloudActivitiesResponse,
   SoundCloudPaginatedResponse,
+  SoundCloudKind,
+  SoundCloudSharing,
+  SoundCloudEmbeddableBy,
+  SoundCloudAccess,
+  SoundCloudLicense,
   SoundCloudConnection,
 } from "./types/api.js";
 
 // Auth
-export { getClientToken, getUserToken, refreshUserToken, signOut, getAuthorizationUrl, generateCodeVerifier, generateCodeChallenge } from "./auth/index.js";
+export { getClientToken, getUserToken, refreshUserToken, signOut, getAuthorizationUrl, generateCodeVerifier, generateCodeChallenge, OAuthFlow, MemoryOAuthStateStore } from "./auth/index.js";
+export type { OAuthFlowOptions, OAuthFlowStart, OAuthLoginAttempt, OAuthStateStore } from "./auth/index.js";
 export type { TokenProvider, TokenStore } from "./auth/token-provider.js";
 
 // Users
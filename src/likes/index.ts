@@ -1,11 +1,14 @@
-import { scFetch } from "../client/http.js";
+import { scFetch, type TransportOptions } from "../client/http.js";
+import { falseUnlessAborted } from "../client/abort.js";
 
 /**
  * Like (favorite) a track as the authenticated user.
  *
  * @param token - OAuth access token
  * @param trackId - The track's numeric ID or URN
+ * @param options - Optional transport settings such as a custom `fetch`
  * @returns `true` if the like was successful, `false` on failure
+ * @throws {SoundCloudAbortError} When the call is cancelled or times out
  *
  * @example
  * ```ts
@@ -16,8 +19,8 @@ import { scFetch } from "../client/http.js";
  *
  * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/likes/post_likes_tracks__track_id_
  */
-export const likeTrack = async (token: string, trackId: string | number): Promise<boolean> => {
-  try { await scFetch<unknown>({ path: `/likes/tracks/${trackId}`, method: "POST", token }); return true; } catch { return false; }
+export const likeTrack = async (token: string, trackId: string | number, options?: TransportOptions): Promise<boolean> => {
+  try { await scFetch<unknown>({ path: `/likes/tracks/${trackId}`, method: "POST", token, ...options }); return true; } catch (err) { return falseUnlessAborted(err); }
 };
 
 /**
@@ -25,7 +28,9 @@ export const likeTrack = async (token: string, trackId: string | number): Promis
  *
  * @param token - OAuth access token
  * @param trackId - The track's numeric ID or URN
+ * @param options - Optional transport settings such as a custom `fetch`
  * @returns `true` if the unlike was successful, `false` on failure
+ * @throws {SoundCloudAbortError} When the call is cancelled or times out
  *
  * @example
  * ```ts
@@ -36,8 +41,8 @@ export const likeTrack = async (token: string, trackId: string | number): Promis
  *
  * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/likes/delete_likes_tracks__track_id_
  */
-export const unlikeTrack = async (token: string, trackId: string | number): Promise<boolean> => {
-  try { await scFetch<unknown>({ path: `/likes/tracks/${trackId}`, method: "DELETE", token }); return true; } catch { return false; }
+export const unlikeTrack = async (token: string, trackId: string | number, options?: TransportOptions): Promise<boolean> => {
+  try { await scFetch<unknown>({ path: `/likes/tracks/${trackId}`, method: "DELETE", token, ...options }); return true; } catch (err) { return falseUnlessAborted(err); }
 };
 
 /**
@@ -45,7 +50,9 @@ export const unlikeTrack = async (token: string, trackId: string | number): Prom
  *
  * @param token - OAuth access token
  * @param playlistId - The playlist's numeric ID or URN
+ * @param options - Optional transport settings such as a custom `fetch`
  * @returns `true` if the like was successful, `false` on failure
+ * @throws {SoundCloudAbortError} When the call is cancelled or times out
  *
  * @example
  * ```ts
@@ -56,8 +63,8 @@ export const unlikeTrack = async (token: string, trackId: string | number): Prom
  *
  * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/likes/post_likes_playlists__playlist_id_
  */
-export const likePlaylist = async (token: string, playlistId: string | number): Promise<boolean> => {
-  try { await scFetch<unknown>({ path: `/likes/playlists/${playlistId}`, method: "POST", token }); return true; } catch { return false; }
+export const likePlaylist = async (token: string, playlistId: string | number, options?: TransportOptions): Promise<boolean> => {
+  try { await scFetch<unknown>({ path: `/likes/playlists/${playlistId}`, method: "POST", token, ...options }); return true; } catch (err) { return falseUnlessAborted(err); }
 };
 
 /**
@@ -65,7 +72,9 @@ export const likePlaylist = async (token: string, playlistId: string | number):
  *
  * @param token - OAuth access token
  * @param playlistId - The playlist's numeric ID or URN
+ * @param options - Optional transport settings such as a custom `fetch`
  * @returns `true` if the unlike was successful, `false` on failure
+ * @throws {SoundCloudAbortError} When the call is cancelled or times out
  *
  * @example
  * ```ts
@@ -76,6 +85,6 @@ export const likePlaylist = async (token: string, playlistId: string | number):
  *
  * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/likes/delete_likes_playlists__playlist_id_
  */
-export const unlikePlaylist = async (token: string, playlistId: string | number): Promise<boolean> => {
-  try { await scFetch<unknown>({ path: `/likes/playlists/${playlistId}`, method: "DELETE", token }); return true; } catch { return false; }
+export const unlikePlaylist = async (token: string, playlistId: string | number, options?: TransportOptions): Promise<boolean> => {
+  try { await scFetch<unknown>({ path: `/likes/playlists/${playlistId}`, method: "DELETE", token, ...options }); return true; } catch (err) { return falseUnlessAborted(err); }
 };
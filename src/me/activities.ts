@@ -1,4 +1,4 @@
-import { scFetch } from "../client/http.js";
+import { scFetch, type TransportOptions } from "../client/http.js";
 import type { SoundCloudActivitiesResponse } from "../types/api.js";
 
 /**
@@ -6,6 +6,7 @@ import type { SoundCloudActivitiesResponse } from "../types/api.js";
  *
  * @param token - OAuth access token
  * @param limit - Maximum number of activities per page
+ * @param options - Optional transport settings such as a custom `fetch`
  * @returns Activities response with `future_href` for polling
  * @throws {SoundCloudError} When the API returns an error
  *
@@ -19,14 +20,15 @@ import type { SoundCloudActivitiesResponse } from "../types/api.js";
  *
  * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/me/get_me_activities
  */
-export const getMeActivities = (token: string, limit?: number): Promise<SoundCloudActivitiesResponse> =>
-  scFetch({ path: `/me/activities?${limit ? `limit=${limit}&` : ""}linked_partitioning=true`, method: "GET", token });
+export const getMeActivities = (token: string, limit?: number, options?: TransportOptions): Promise<SoundCloudActivitiesResponse> =>
+  scFetch({ path: `/me/activities?${limit ? `limit=${limit}&` : ""}linked_partitioning=true`, method: "GET", token, ...options });
 
 /**
  * Fetch the authenticated user's own activities (uploads, reposts by the user).
  *
  * @param token - OAuth access token
  * @param limit - Maximum number of activities per page
+ * @param options - Optional transport settings such as a custom `fetch`
  * @returns Activities response
  * @throws {SoundCloudError} When the API returns an error
  *
@@ -40,14 +42,15 @@ export const getMeActivities = (token: string, limit?: number): Promise<SoundClo
  *
  * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/me/get_me_activities_all_own
  */
-export const getMeActivitiesOwn = (token: string, limit?: number): Promise<SoundCloudActivitiesResponse> =>
-  scFetch({ path: `/me/activities/all/own?${limit ? `limit=${limit}&` : ""}linked_partitioning=true`, method: "GET", token });
+export const getMeActivitiesOwn = (token: string, limit?: number, options?: TransportOptions): Promise<SoundCloudActivitiesResponse> =>
+  scFetch({ path: `/me/activities/all/own?${limit ? `limit=${limit}&` : ""}linked_partitioning=true`, method: "GET", token, ...options });
 
 /**
  * Fetch track-related activities in the authenticated user's feed.
  *
  * @param token - OAuth access token
  * @param limit - Maximum number of activities per page
+ * @param options - Optional transport settings such as a custom `fetch`
  * @returns Activities response filtered to track activities
  * @throws {SoundCloudError} When the API returns an error
  *
@@ -61,5 +64,5 @@ export const getMeActivitiesOwn = (token: string, limit?: number): Promise<Sound
  *
  * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/me/get_me_activities_tracks
  */
-export const getMeActivitiesTracks = (token: string, limit?: number): Promise<SoundCloudActivitiesResponse> =>
-  scFetch({ path: `/me/activities/tracks?${limit ? `limit=${limit}&` : ""}linked_partitioning=true`, method: "GET", token });
+export const getMeActivitiesTracks = (token: string, limit?: number, options?: TransportOptions): Promise<SoundCloudActivitiesResponse> =>
+  scFetch({ path: `/me/activities/tracks?${limit ? `limit=${limit}&` : ""}linked_partitioning=true`, method: "GET", token, ...options });
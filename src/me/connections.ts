@@ -1,10 +1,11 @@
-import { scFetch } from "../client/http.js";
+import { scFetch, type TransportOptions } from "../client/http.js";
 import type { SoundCloudConnection } from "../types/api.js";
 
 /**
  * List the authenticated user's connected external social accounts.
  *
  * @param token - OAuth access token (user token required)
+ * @param options - Optional transport settings such as a custom `fetch`
  * @returns Array of connection objects for linked social services
  * @throws {SoundCloudError} When the API returns an error
  *
@@ -20,5 +21,5 @@ import type { SoundCloudConnection } from "../types/api.js";
  *
  * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/me/get_me_connections
  */
-export const getMeConnections = (token: string): Promise<SoundCloudConnection[]> =>
-  scFetch<SoundCloudConnection[]>({ path: "/me/connections", method: "GET", token });
+export const getMeConnections = (token: string, options?: TransportOptions): Promise<SoundCloudConnection[]> =>
+  scFetch<SoundCloudConnection[]>({ path: "/me/connections", method: "GET", token, ...options });
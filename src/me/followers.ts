@@ -1,4 +1,4 @@
-import { scFetch } from "../client/http.js";
+import { scFetch, type TransportOptions } from "../client/http.js";
 import type { SoundCloudUser, SoundCloudPaginatedResponse } from "../types/api.js";
 
 /**
@@ -6,6 +6,7 @@ import type { SoundCloudUser, SoundCloudPaginatedResponse } from "../types/api.j
  *
  * @param token - OAuth access token
  * @param limit - Maximum number of users per page
+ * @param options - Optional transport settings such as a custom `fetch`
  * @returns Paginated list of follower users
  * @throws {SoundCloudError} When the API returns an error
  *
@@ -19,5 +20,5 @@ import type { SoundCloudUser, SoundCloudPaginatedResponse } from "../types/api.j
  *
  * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/me/get_me_followers
  */
-export const getMeFollowers = (token: string, limit?: number): Promise<SoundCloudPaginatedResponse<SoundCloudUser>> =>
-  scFetch({ path: `/me/followers?${limit ? `limit=${limit}&` : ""}linked_partitioning=true`, method: "GET", token });
+export const getMeFollowers = (token: string, limit?: number, options?: TransportOptions): Promise<SoundCloudPaginatedResponse<SoundCloudUser>> =>
+  scFetch({ path: `/me/followers?${limit ? `limit=${limit}&` : ""}linked_partitioning=true`, method: "GET", token, ...options });
@@ -1,4 +1,4 @@
-import { scFetch } from "../client/http.js";
+import { scFetch, type TransportOptions } from "../client/http.js";
 import type { SoundCloudUser, SoundCloudTrack, SoundCloudPaginatedResponse } from "../types/api.js";
 
 /**
@@ -6,6 +6,7 @@ import type { SoundCloudUser, SoundCloudTrack, SoundCloudPaginatedResponse } fro
  *
  * @param token - OAuth access token
  * @param limit - Maximum number of users per page
+ * @param options - Optional transport settings such as a custom `fetch`
  * @returns Paginated list of followed users
  * @throws {SoundCloudError} When the API returns an error
  *
@@ -19,14 +20,15 @@ import type { SoundCloudUser, SoundCloudTrack, SoundCloudPaginatedResponse } fro
  *
  * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/me/get_me_followings
  */
-export const getMeFollowings = (token: string, limit?: number): Promise<SoundCloudPaginatedResponse<SoundCloudUser>> =>
-  scFetch({ path: `/me/followings?${limit ? `limit=${limit}&` : ""}linked_partitioning=true`, method: "GET", token });
+export const getMeFollowings = (token: string, limit?: number, options?: TransportOptions): Promise<SoundCloudPaginatedResponse<SoundCloudUser>> =>
+  scFetch({ path: `/me/followings?${limit ? `limit=${limit}&` : ""}linked_partitioning=true`, method: "GET", token, ...options });
 
 /**
  * Fetch recent tracks from users the authenticated user is following.
  *
  * @param token - OAuth access token
  * @param limit - Maximum number of tracks per page
+ * @param options - Optional transport settings such as a custom `fetch`
  * @returns Paginated list of tracks from followed users
  * @throws {SoundCloudError} When the API returns an error
  *
@@ -40,14 +42,15 @@ export const getMeFollowings = (token: string, limit?: number): Promise<SoundClo
  *
  * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/me/get_me_followings_tracks
  */
-export const getMeFollowingsTracks = (token: string, limit?: number): Promise<SoundCloudPaginatedResponse<SoundCloudTrack>> =>
-  scFetch({ path: `/me/followings/tracks?${limit ? `limit=${limit}&` : ""}linked_partitioning=true`, method: "GET", token });
+export const getMeFollowingsTracks = (token: string, limit?: number, options?: TransportOptions): Promise<SoundCloudPaginatedResponse<SoundCloudTrack>> =>
+  scFetch({ path: `/me/followings/tracks?${limit ? `limit=${limit}&` : ""}linked_partitioning=true`, method: "GET", token, ...options });
 
 /**
  * Follow a user as the authenticated user.
  *
  * @param token - OAuth access token
  * @param userUrn - The user's ID or URN to follow
+ * @param options - Optional transport settings such as a custom `fetch`
  * @throws {SoundCloudError} When the API returns an error
  *
  * @example
@@ -59,14 +62,15 @@ export const getMeFollowingsTracks = (token: string, limit?: number): Promise<So
  *
  * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/me/put_me_followings__user_id_
  */
-export const followUser = (token: string, userUrn: string | number): Promise<void> =>
-  scFetch<void>({ path: `/me/followings/${userUrn}`, method: "PUT", token });
+export const followUser = (token: string, userUrn: string | number, options?: TransportOptions): Promise<void> =>
+  scFetch<void>({ path: `/me/followings/${userUrn}`, method: "PUT", token, ...options });
 
 /**
  * Unfollow a user as the authenticated user.
  *
  * @param token - OAuth access token
  * @param userUrn - The user's ID or URN to unfollow
+ * @param options - Optional transport settings such as a custom `fetch`
  * @throws {SoundCloudError} When the API returns an error
  *
  * @example
@@ -78,5 +82,5 @@ export const followUser = (token: string, userUrn: string | number): Promise<voi
  *
  * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/me/delete_me_followings__user_id_
  */
-export const unfollowUser = (token: string, userUrn: string | number): Promise<void> =>
-  scFetch<void>({ path: `/me/followings/${userUrn}`, method: "DELETE", token });
+export const unfollowUser = (token: string, userUrn: string | number, options?: TransportOptions): Promise<void> =>
+  scFetch<void>({ path: `/me/followings/${userUrn}`, method: "DELETE", token, ...options });
@@ -1,4 +1,4 @@
-import { scFetch } from "../client/http.js";
+import { scFetch, type TransportOptions } from "../client/http.js";
 import type { SoundCloudTrack, SoundCloudPlaylist, SoundCloudPaginatedResponse } from "../types/api.js";
 
 /**
@@ -6,6 +6,7 @@ import type { SoundCloudTrack, SoundCloudPlaylist, SoundCloudPaginatedResponse }
  *
  * @param token - OAuth access token
  * @param limit - Maximum number of tracks per page
+ * @param options - Optional transport settings such as a custom `fetch`
  * @returns Paginated list of liked tracks
  * @throws {SoundCloudError} When the API returns an error
  *
@@ -19,14 +20,15 @@ import type { SoundCloudTrack, SoundCloudPlaylist, SoundCloudPaginatedResponse }
  *
  * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/me/get_me_likes_tracks
  */
-export const getMeLikesTracks = (token: string, limit?: number): Promise<SoundCloudPaginatedResponse<SoundCloudTrack>> =>
-  scFetch({ path: `/me/likes/tracks?${limit ? `limit=${limit}&` : ""}linked_partitioning=true`, method: "GET", token });
+export const getMeLikesTracks = (token: string, limit?: number, options?: TransportOptions): Promise<SoundCloudPaginatedResponse<SoundCloudTrack>> =>
+  scFetch({ path: `/me/likes/tracks?${limit ? `limit=${limit}&` : ""}linked_partitioning=true`, method: "GET", token, ...options });
 
 /**
  * Fetch playlists liked by the authenticated user.
  *
  * @param token - OAuth access token
  * @param limit - Maximum number of playlists per page
+ * @param options - Optional transport settings such as a custom `fetch`
  * @returns Paginated list of liked playlists
  * @throws {SoundCloudError} When the API returns an error
  *
@@ -40,5 +42,5 @@ export const getMeLikesTracks = (token: string, limit?: number): Promise<SoundCl
  *
  * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/me/get_me_likes_playlists
  */
-export const getMeLikesPlaylists = (token: string, limit?: number): Promise<SoundCloudPaginatedResponse<SoundCloudPlaylist>> =>
-  scFetch({ path: `/me/likes/playlists?${limit ? `limit=${limit}&` : ""}linked_partitioning=true`, method: "GET", token });
+export const getMeLikesPlaylists = (token: string, limit?: number, options?: TransportOptions): Promise<SoundCloudPaginatedResponse<SoundCloudPlaylist>> =>
+  scFetch({ path: `/me/likes/playlists?${limit ? `limit=${limit}&` : ""}linked_partitioning=true`, method: "GET", token, ...options });
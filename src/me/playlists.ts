@@ -1,4 +1,4 @@
-import { scFetch } from "../client/http.js";
+import { scFetch, type TransportOptions } from "../client/http.js";
 import type { SoundCloudPlaylist, SoundCloudPaginatedResponse } from "../types/api.js";
 
 /**
@@ -6,6 +6,7 @@ import type { SoundCloudPlaylist, SoundCloudPaginatedResponse } from "../types/a
  *
  * @param token - OAuth access token
  * @param limit - Maximum number of playlists per page
+ * @param options - Optional transport settings such as a custom `fetch`
  * @returns Paginated list of playlists
  * @throws {SoundCloudError} When the API returns an error
  *
@@ -19,5 +20,5 @@ import type { SoundCloudPlaylist, SoundCloudPaginatedResponse } from "../types/a
  *
  * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/me/get_me_playlists
  */
-export const getMePlaylists = (token: string, limit?: number): Promise<SoundCloudPaginatedResponse<SoundCloudPlaylist>> =>
-  scFetch({ path: `/me/playlists?${limit ? `limit=${limit}&` : ""}linked_partitioning=true`, method: "GET", token });
+export const getMePlaylists = (token: string, limit?: number, options?: TransportOptions): Promise<SoundCloudPaginatedResponse<SoundCloudPlaylist>> =>
+  scFetch({ path: `/me/playlists?${limit ? `limit=${limit}&` : ""}linked_partitioning=true`, method: "GET", token, ...options });
@@ -1,4 +1,4 @@
-import { scFetch } from "../client/http.js";
+import { scFetch, type TransportOptions } from "../client/http.js";
 import type { SoundCloudTrack, SoundCloudPaginatedResponse } from "../types/api.js";
 
 /**
@@ -6,6 +6,7 @@ import type { SoundCloudTrack, SoundCloudPaginatedResponse } from "../types/api.
  *
  * @param token - OAuth access token
  * @param limit - Maximum number of tracks per page
+ * @param options - Optional transport settings such as a custom `fetch`
  * @returns Paginated list of the user's tracks
  * @throws {SoundCloudError} When the API returns an error
  *
@@ -19,5 +20,5 @@ import type { SoundCloudTrack, SoundCloudPaginatedResponse } from "../types/api.
  *
  * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/me/get_me_tracks
  */
-export const getMeTracks = (token: string, limit?: number): Promise<SoundCloudPaginatedResponse<SoundCloudTrack>> =>
-  scFetch({ path: `/me/tracks?${limit ? `limit=${limit}&` : ""}linked_partitioning=true`, method: "GET", token });
+export const getMeTracks = (token: string, limit?: number, options?: TransportOptions): Promise<SoundCloudPaginatedResponse<SoundCloudTrack>> =>
+  scFetch({ path: `/me/tracks?${limit ? `limit=${limit}&` : ""}linked_partitioning=true`, method: "GET", token, ...options });
@@ -0,0 +1,183 @@
+import { describe, it, expect, vi } from "vitest";
+import { MockSoundCloudApi } from "../api.js";
+import type { MockSeed } from "../store.js";
+import { SoundCloudClient } from "../../client/SoundCloudClient.js";
+import type { SoundCloudToken } from "../../types/api.js";
+
+const seed: MockSeed = {
+  users: [
+    { id: 1, username: "Listener" },
+    { id: 2, username: "Artist", city: "Berlin" },
+  ],
+  tracks: [
+    { id: 10, user_id: 2, title: "Night Drive", genre: "Electronic", created_at: "2024-03-01T00:00:00Z" },
+    { id: 11, user_id: 2, title: "Day Trip", genre: "Electronic", created_at: "2024-02-01T00:00:00Z" },
+    { id: 12, user_id: 1, title: "Demo", genre: "Rock", created_at: "2024-01-15T00:00:00Z" },
+  ],
+  playlists: [{ id: 20, user_id: 2, title: "Best Of", track_ids: [10, 11] }],
+  comments: [{ track_id: 10, user_id: 1, body: "great", timestamp: 1000 }],
+  likes: [{ user_id: 1, track_id: 10 }],
+  followings: [{ user_id: 1, following_id: 2 }],
+};
+
+async function setup(options: ConstructorParameters<typeof MockSoundCloudApi>[0] = {}) {
+  // Seeds are plain JSON
+  const api = new MockSoundCloudApi({ seed: JSON.parse(JSON.stringify(seed)), ...options });
+  const sc = new SoundCloudClient({ clientId: "cid", clientSecret: "cs", fetch: api.fetch, retryBaseDelay: 0 });
+  const token = await sc.auth.getClientToken();
+  sc.setToken(token.access_token, token.refresh_token);
+  return { api, sc, token };
+}
+
+describe("MockSoundCloudApi — reads", () => {
+  it("serves seeded records filled with defaults and derived counters", async () => {
+    const { sc } = await setup();
+
+    const me = await sc.me.getMe();
+    expect(me).toMatchObject({ id: 1, username: "Listener", followings_count: 1, public_favorites_count: 1, permalink_url: "https://soundcloud.com/listener" });
+    expect(me.quota).toBeDefined();
+
+    const track = await sc.tracks.getTrack("soundcloud:tracks:10");
+    expect(track).toMatchObject({ id: 10, title: "Night Drive", favoritings_count: 1, comment_count: 1, user_favorite: true, user: { id: 2, username: "Artist" } });
+    expect(track.permalink_url).toBe("https://soundcloud.com/artist/night-drive");
+
+    const playlist = await sc.playlists.getPlaylist(20);
+    expect(playlist.tracks.map((t) => t.id)).toEqual([10, 11]);
+    expect(playlist.duration).toBe(360000);
+  });
+
+  it("paginates with next_href on the request's origin", async () => {
+    const { sc } = await setup();
+    const first = await sc.users.getTracks(2, 1);
+    expect(first.collection.map((t) => t.id)).toEqual([10]);
+    expect(first.next_href).toMatch(/^https:\/\/api\.soundcloud\.com\/users\/2\/tracks\?.*offset=1/);
+
+    const all = [];
+    for await (const track of sc.paginateItems(() => sc.users.getTracks(2, 1))) all.push(track.id);
+    expect(all).toEqual([10, 11]);
+  });
+
+  it("serves relations, activities, search and plain arrays", async () => {
+    const { sc } = await setup();
+    expect((await sc.me.getFollowings()).collection.map((u) => u.id)).toEqual([2]);
+    expect((await sc.users.getFollowers(2)).collection.map((u) => u.id)).toEqual([1]);
+    expect((await sc.me.getLikesTracks()).collection.map((t) => t.id)).toEqual([10]);
+    expect((await sc.tracks.getLikes(10)).collection.map((u) => u.id)).toEqual([1]);
+    expect((await sc.tracks.getComments(10)).collection[0]).toMatchObject({ body: "great", timestamp: 1000, user: { username: "Listener" } });
+    expect((await sc.me.getActivities()).collection.map((a) => [a.type, a.origin.id])).toEqual([
+      ["track", 10],
+      ["track", 11],
+      ["playlist", 20],
+    ]);
+    expect((await sc.search.tracks("drive")).collection.map((t) => t.id)).toEqual([10]);
+    expect((await sc.search.users("berlin")).collection.map((u) => u.id)).toEqual([2]);
+    expect((await sc.tracks.getTracks([12, 10])).map((t) => t.id)).toEqual([12, 10]);
+    expect((await sc.tracks.getRelated(10)).map((t) => t.id)).toEqual([11, 12]);
+    expect(await sc.tracks.getStreams(10)).toHaveProperty("http_mp3_128_url");
+  });
+
+  it("resolves permalinks with a redirect", async () => {
+    const { sc } = await setup();
+    await expect(sc.resolve.resolveUrl("https://soundcloud.com/artist/night-drive")).resolves.toBe("https://api.soundcloud.com/tracks/10");
+    await expect(sc.resolve.resolveUrl("https://m.soundcloud.com/artist/sets/best-of/")).resolves.toBe("https://api.soundcloud.com/playlists/20");
+    await expect(sc.resolve.resolveUrl("https://soundcloud.com/nobody")).rejects.toMatchObject({ status: 404 });
+  });
+
+  it("answers unknown ids and routes with 404", async () => {
+    const { sc } = await setup();
+    await expect(sc.tracks.getTrack(999)).rejects.toMatchObject({ status: 404 });
+    await expect(sc.raw.get("/nope")).resolves.toMatchObject({ status: 404, data: { message: "No mock route for GET /nope" } });
+  });
+});
+
+describe("MockSoundCloudApi — writes", () => {
+  it("applies likes, reposts and followings", async () => {
+    const { sc, api } = await setup();
+    expect(await sc.likes.likeTrack(11)).toBe(true);
+    expect(await sc.reposts.repostPlaylist(20)).toBe(true);
+    await sc.me.unfollow(2);
+    expect(await sc.likes.unlikeTrack(12)).toBe(false);
+
+    expect(api.store.likedTracks(1).map((t) => t.id)).toEqual([11, 10]);
+    expect(api.store.repostersOf("playlist", 20).map((u) => u.id)).toEqual([1]);
+    expect((await sc.me.getFollowings()).collection).toEqual([]);
+  });
+
+  it("creates, updates and deletes owned resources", async () => {
+    const { sc, api } = await setup();
+    const comment = await sc.tracks.createComment(11, "nice", 5000);
+    expect(comment).toMatchObject({ body: "nice", timestamp: 5000, track_urn: "soundcloud:tracks:11" });
+
+    const playlist = await sc.playlists.create({ title: "Mine", tracks: [{ urn: "soundcloud:tracks:12" }, { urn: "soundcloud:tracks:10" }] });
+    expect(playlist).toMatchObject({ title: "Mine", user_id: 1, track_count: 2 });
+    expect(playlist.id).toBeGreaterThan(20);
+
+    await expect(sc.playlists.update(playlist.id, { title: "Renamed" })).resolves.toMatchObject({ title: "Renamed", track_count: 2 });
+    await expect(sc.tracks.update(12, { title: "Final" })).resolves.toMatchObject({ title: "Final" });
+    await sc.tracks.delete(12);
+    expect(api.store.getTrack(12)).toBeUndefined();
+    expect(api.store.getPlaylist(playlist.id)?.track_count).toBe(1);
+
+    await expect(sc.tracks.delete(10)).rejects.toMatchObject({ status: 403 });
+  });
+});
+
+describe("MockSoundCloudApi — auth and errors", () => {
+  it("runs the OAuth grants", async () => {
+    const { sc, api, token } = await setup({ clientId: "cid", clientSecret: "cs" });
+    expect(token).toMatchObject({ access_token: "mock-access-1", refresh_token: "mock-refresh-1", expires_in: 3600 });
+    await expect(sc.auth.getUserToken("code", "verifier")).resolves.toHaveProperty("access_token", "mock-access-2");
+    await expect(sc.auth.refreshUserToken(token.refresh_token!)).resolves.toHaveProperty("access_token", "mock-access-3");
+
+    const wrong = new SoundCloudClient({ clientId: "cid", clientSecret: "bad", fetch: api.fetch });
+    await expect(wrong.auth.getClientToken()).rejects.toMatchObject({ status: 401 });
+  });
+
+  it("rejects missing, revoked and (in strict mode) unknown tokens", async () => {
+    const { sc, token } = await setup({ strictTokens: true });
+    await expect(sc.me.getMe()).resolves.toBeDefined();
+
+    sc.setToken("made-up");
+    await expect(sc.me.getMe()).rejects.toMatchObject({ status: 401 });
+
+    sc.setToken(token.access_token);
+    await sc.auth.signOut(token.access_token);
+    await expect(sc.me.getMe()).rejects.toMatchObject({ status: 401 });
+  });
+
+  it("expires tokens so the client refreshes them", async () => {
+    const api = new MockSoundCloudApi({ seed });
+    const onTokenRefresh = vi.fn((client: SoundCloudClient): Promise<SoundCloudToken> => client.auth.refreshUserToken(client.refreshToken!));
+    const sc = new SoundCloudClient({ clientId: "cid", clientSecret: "cs", fetch: api.fetch, onTokenRefresh });
+    const token = await sc.auth.getClientToken();
+    sc.setToken(token.access_token, token.refresh_token);
+
+    api.expireTokens();
+    await expect(sc.me.getMe()).resolves.toMatchObject({ id: 1 });
+    expect(onTokenRefresh).toHaveBeenCalledOnce();
+    expect(sc.accessToken).toBe("mock-access-2");
+  });
+
+  it("injects 429s with retry-after and 5xx errors", async () => {
+    const { sc, api } = await setup();
+    const onRetry = vi.fn();
+    const retrying = new SoundCloudClient({ clientId: "cid", clientSecret: "cs", fetch: api.fetch, retryBaseDelay: 0, onRetry });
+    retrying.setToken("any");
+
+    api.injectError({ status: 429, retryAfter: 0, path: "/tracks/10" });
+    api.injectError({ status: 503, path: /^\/users\//, times: 2 });
+    await expect(retrying.tracks.getTrack(10)).resolves.toMatchObject({ id: 10 });
+    await expect(retrying.users.getUser(2)).resolves.toMatchObject({ id: 2 });
+    expect(onRetry.mock.calls.map(([info]) => [info.status, info.strategy])).toEqual([
+      [429, "retry-after"],
+      [503, "exponential"],
+      [503, "exponential"],
+    ]);
+
+    api.injectError({ status: 500, method: "POST", times: Infinity });
+    await expect(sc.tracks.createComment(10, "hi")).rejects.toMatchObject({ status: 500 });
+    await expect(sc.tracks.createComment(10, "hi")).rejects.toMatchObject({ status: 500 });
+    api.clearErrors();
+    await expect(sc.tracks.createComment(10, "hi")).resolves.toMatchObject({ body: "hi" });
+  });
+});
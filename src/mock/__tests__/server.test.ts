@@ -0,0 +1,47 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { startMockServer, type MockServer } from "../server.js";
+import { SoundCloudClient } from "../../client/SoundCloudClient.js";
+
+describe("startMockServer", () => {
+  let server: MockServer | undefined;
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  it("serves the API and auth host to a client over HTTP", async () => {
+    server = await startMockServer({
+      pageSize: 1,
+      seed: {
+        users: [{ id: 1, username: "Me" }],
+        tracks: [
+          { id: 10, user_id: 1, title: "A", created_at: "2024-02-01T00:00:00Z" },
+          { id: 11, user_id: 1, title: "B", created_at: "2024-01-01T00:00:00Z" },
+        ],
+      },
+    });
+    expect(server.url).toMatch(/^http:\/\/127\.0\.0\.1:\d+$/);
+
+    const sc = new SoundCloudClient({ clientId: "cid", clientSecret: "cs", apiBaseUrl: server.url, authBaseUrl: server.url });
+    sc.setToken((await sc.auth.getClientToken()).access_token);
+
+    const page = await sc.me.getTracks();
+    expect(page.collection.map((t) => t.id)).toEqual([10]);
+    expect(page.next_href.startsWith(`${server.url}/me/tracks?`)).toBe(true);
+    expect(await sc.fetchAll(() => sc.me.getTracks())).toHaveLength(2);
+
+    await expect(sc.resolve.resolveUrl("https://soundcloud.com/me/b")).resolves.toBe(`${server.url}/tracks/11`);
+    await expect(sc.playlists.create({ title: "Set", tracks: [{ urn: "soundcloud:tracks:11" }] })).resolves.toMatchObject({ track_count: 1 });
+    expect(server.api.store.playlistsBy(1)).toHaveLength(1);
+  });
+
+  it("sends injected errors with their headers", async () => {
+    server = await startMockServer();
+    server.api.injectError({ status: 429, retryAfter: 7 });
+
+    const response = await fetch(`${server.url}/me`, { headers: { Authorization: "OAuth tok" } });
+    expect(response.status).toBe(429);
+    expect(response.headers.get("retry-after")).toBe("7");
+    expect(await response.json()).toMatchObject({ code: 429, status: "429 - Too Many Requests" });
+  });
+});
@@ -0,0 +1,480 @@
+import type { SoundCloudToken, SoundCloudTrack } from "../types/api.js";
+import { MockStore, type MockPlaylistSeed, type MockResourceKind, type MockSeed } from "./store.js";
+
+/**
+ * An error the mock returns instead of handling a matching request.
+ */
+export interface MockErrorRule {
+  /** HTTP status to respond with, e.g. 429, 401 or 503 */
+  status: number;
+  /** Only match this HTTP method (default: any) */
+  method?: string;
+  /** Only match this path — an exact pathname such as `/tracks/1`, or a pattern (default: any) */
+  path?: string | RegExp;
+  /** How many matching requests fail before the rule is used up (default: 1; `Infinity` for always) */
+  times?: number;
+  /** Seconds sent in a `retry-after` header */
+  retryAfter?: number;
+  /** Response body (default: a SoundCloud-style error body for the status) */
+  body?: unknown;
+}
+
+/**
+ * Options for {@link MockSoundCloudApi}.
+ */
+export interface MockApiOptions {
+  /** Initial data, e.g. parsed from a JSON fixture file */
+  seed?: MockSeed;
+  /** Page size of `linked_partitioning` responses when the request sets no `limit` (default: 50) */
+  pageSize?: number;
+  /** Client id expected by `/oauth/token` (default: any) */
+  clientId?: string;
+  /** Client secret expected by `/oauth/token` (default: any) */
+  clientSecret?: string;
+  /** Lifetime of issued access tokens in seconds; expired tokens get a 401 (default: 3600) */
+  tokenTtlSeconds?: number;
+  /** Only accept access tokens issued by this mock (default: false, any `OAuth` token is accepted) */
+  strictTokens?: boolean;
+}
+
+interface RouteContext {
+  request: Request;
+  url: URL;
+  /** Path parameters, already parsed into numeric ids */
+  ids: number[];
+}
+
+type Handler = (ctx: RouteContext) => Response | Promise<Response>;
+
+const STATUS_TEXT: Record<number, string> = {
+  400: "Bad Request",
+  401: "Unauthorized",
+  403: "Forbidden",
+  404: "Not Found",
+  422: "Unprocessable Entity",
+  429: "Too Many Requests",
+  500: "Internal Server Error",
+  502: "Bad Gateway",
+  503: "Service Unavailable",
+  504: "Gateway Timeout",
+};
+
+const json = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status, headers: { "content-type": "application/json; charset=utf-8", ...headers } });
+
+const noContent = () => new Response(null, { status: 204 });
+
+const errorBody = (status: number, message = "") => {
+  const label = `${status} - ${STATUS_TEXT[status] ?? "Error"}`;
+  return {
+    code: status,
+    message,
+    link: "https://developers.soundcloud.com/docs/api/explorer/open-api",
+    status: label,
+    errors: [{ error_message: message || label }],
+    error: null,
+  };
+};
+
+const fail = (status: number, message?: string) => json(errorBody(status, message), status);
+
+/** Endpoints of the auth host, which take no access token */
+const AUTH_HOST_PATHS = new Set(["/oauth/token", "/authorize", "/sign-out"]);
+
+/** Accepts numeric ids as well as URNs such as `soundcloud:tracks:123` */
+const parseId = (segment: string) => Number(decodeURIComponent(segment).split(":").pop());
+
+/**
+ * The SoundCloud API as a web-standard request handler over a {@link MockStore}.
+ *
+ * Serves every operation in `IMPLEMENTED_OPERATIONS` — `/me`, users, tracks, playlists, comments,
+ * likes, reposts, followings, search, `/resolve` redirects — plus the `/oauth/token`, `/authorize`
+ * and `/sign-out` endpoints of the auth host, so one origin can stand in for both. List endpoints
+ * honor `limit`/`offset` and return `{ collection, next_href }` pages when `linked_partitioning`
+ * is set. {@link MockSoundCloudApi.injectError} makes upcoming requests fail with 429s, 401s or 5xxs.
+ *
+ * Pass {@link MockSoundCloudApi.fetch} as the client's `fetch` to run without a network, or serve
+ * it over HTTP with `startMockServer()`.
+ *
+ * @example
+ * ```ts
+ * const api = new MockSoundCloudApi({ seed: JSON.parse(fs.readFileSync('seed.json', 'utf8')) });
+ * const sc = new SoundCloudClient({ clientId: 'id', clientSecret: 'secret', fetch: api.fetch });
+ * sc.setToken((await sc.auth.getClientToken()).access_token);
+ *
+ * api.injectError({ status: 429, retryAfter: 1, path: '/tracks/10' });
+ * await sc.tracks.getTrack(10); // retried after one second
+ * ```
+ */
+export class MockSoundCloudApi {
+  readonly store: MockStore;
+  private readonly options: MockApiOptions;
+  private readonly routes: [string, RegExp, Handler][];
+  private errors: (MockErrorRule & { remaining: number })[] = [];
+  /** Issued access tokens and when they expire (epoch ms) */
+  private accessTokens = new Map<string, number>();
+  private refreshTokens = new Set<string>();
+  private revoked = new Set<string>();
+  private issued = 0;
+
+  constructor(options: MockApiOptions = {}) {
+    this.options = options;
+    this.store = new MockStore(options.seed);
+    this.routes = this.buildRoutes();
+  }
+
+  /** A `fetch` that answers from this mock instead of the network */
+  readonly fetch: typeof globalThis.fetch = async (input, init) => this.handle(new Request(input, init));
+
+  /**
+   * Answer one request.
+   *
+   * @param request - Request against the API or auth host; only path, query, method, headers and body are used
+   * @returns The mock's response
+   */
+  async handle(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const method = request.method.toUpperCase();
+
+    const injected = this.takeError(method, url.pathname);
+    if (injected) return injected;
+
+    for (const [routeMethod, pattern, handler] of this.routes) {
+      if (routeMethod !== method) continue;
+      const match = pattern.exec(url.pathname);
+      if (!match) continue;
+      const ids = match.slice(1).map(parseId);
+      if (ids.some(Number.isNaN)) return fail(404);
+      if (!AUTH_HOST_PATHS.has(url.pathname)) {
+        const denied = this.authenticate(request);
+        if (denied) return denied;
+      }
+      return handler({ request, url, ids });
+    }
+    return fail(404, `No mock route for ${method} ${url.pathname}`);
+  }
+
+  /**
+   * Make upcoming requests fail. Rules are checked in the order they were added.
+   *
+   * @param rule - Which requests fail, how often and with what
+   *
+   * @example
+   * ```ts
+   * api.injectError({ status: 429, retryAfter: 2 });           // next request is rate limited
+   * api.injectError({ status: 503, path: /^\/tracks/, times: 3 });
+   * api.injectError({ status: 401, method: 'GET', path: '/me' }); // forces a token refresh
+   * ```
+   */
+  injectError(rule: MockErrorRule): void {
+    this.errors.push({ ...rule, remaining: rule.times ?? 1 });
+  }
+
+  /** Drop all injected errors that have not fired yet */
+  clearErrors(): void {
+    this.errors = [];
+  }
+
+  /** Expire every access token issued so far; requests using them get a 401 until a token is refreshed */
+  expireTokens(): void {
+    for (const token of this.accessTokens.keys()) this.accessTokens.set(token, 0);
+  }
+
+  // ── Auth ───────────────────────────────────────────────────────────
+
+  private authenticate(request: Request): Response | undefined {
+    const header = request.headers.get("authorization") ?? "";
+    const token = /^(OAuth|Bearer) (.+)$/i.exec(header)?.[2];
+    if (!token || this.revoked.has(token)) return fail(401, "invalid_token");
+    const expiresAt = this.accessTokens.get(token);
+    if (expiresAt === undefined) return this.options.strictTokens ? fail(401, "invalid_token") : undefined;
+    return expiresAt > Date.now() ? undefined : fail(401, "token_expired");
+  }
+
+  private async token(request: Request): Promise<Response> {
+    const params = new URLSearchParams(await request.text());
+    const grant = params.get("grant_type");
+    const oauthError = (status: number, error: string) => json({ error, error_description: error.replace(/_/g, " ") }, status);
+
+    const [clientId, clientSecret] = this.clientCredentials(request, params);
+    const wrongClient =
+      (this.options.clientId !== undefined && clientId !== this.options.clientId) ||
+      (this.options.clientSecret !== undefined && clientSecret !== this.options.clientSecret);
+
+    switch (grant) {
+      case "client_credentials":
+        // SoundCloud only accepts client credentials for this grant in a Basic header
+        if (!request.headers.get("authorization")?.startsWith("Basic ") || wrongClient) {
+          return oauthError(401, "invalid_client");
+        }
+        return json(this.issueToken());
+      case "authorization_code":
+        if (wrongClient) return oauthError(401, "invalid_client");
+        if (!params.get("code")) return oauthError(400, "invalid_grant");
+        return json(this.issueToken());
+      case "refresh_token": {
+        if (wrongClient) return oauthError(401, "invalid_client");
+        const refreshToken = params.get("refresh_token") ?? "";
+        const known = this.refreshTokens.delete(refreshToken);
+        if (!refreshToken || (!known && this.options.strictTokens)) return oauthError(400, "invalid_grant");
+        return json(this.issueToken());
+      }
+      default:
+        return oauthError(400, "unsupported_grant_type");
+    }
+  }
+
+  private clientCredentials(request: Request, params: URLSearchParams): [string | null, string | null] {
+    const basic = /^Basic (.+)$/.exec(request.headers.get("authorization") ?? "")?.[1];
+    if (!basic) return [params.get("client_id"), params.get("client_secret")];
+    const decoded = atob(basic);
+    const colon = decoded.indexOf(":");
+    return [decoded.slice(0, colon), decoded.slice(colon + 1)];
+  }
+
+  private issueToken(): SoundCloudToken {
+    const n = ++this.issued;
+    const ttl = this.options.tokenTtlSeconds ?? 3600;
+    const token = { access_token: `mock-access-${n}`, refresh_token: `mock-refresh-${n}`, expires_in: ttl, scope: "*", token_type: "bearer" };
+    this.accessTokens.set(token.access_token, Date.now() + ttl * 1000);
+    this.refreshTokens.add(token.refresh_token);
+    return token;
+  }
+
+  private authorize(url: URL): Response {
+    const redirectUri = url.searchParams.get("redirect_uri");
+    if (!redirectUri) return fail(400, "redirect_uri is required");
+    const target = new URL(redirectUri);
+    target.searchParams.set("code", `mock-code-${++this.issued}`);
+    const state = url.searchParams.get("state");
+    if (state !== null) target.searchParams.set("state", state);
+    return new Response(null, { status: 302, headers: { location: target.href } });
+  }
+
+  private async signOut(request: Request): Promise<Response> {
+    const body = (await request.json().catch(() => ({}))) as { access_token?: string };
+    if (body.access_token) this.revoked.add(body.access_token);
+    return json({});
+  }
+
+  // ── Routing ────────────────────────────────────────────────────────
+
+  private takeError(method: string, path: string): Response | undefined {
+    const rule = this.errors.find(
+      (r) =>
+        (r.method === undefined || r.method.toUpperCase() === method) &&
+        (r.path === undefined || (typeof r.path === "string" ? r.path === path : r.path.test(path))),
+    );
+    if (!rule) return undefined;
+    if (--rule.remaining <= 0) this.errors = this.errors.filter((r) => r !== rule);
+    const headers: Record<string, string> = rule.retryAfter !== undefined ? { "retry-after": String(rule.retryAfter) } : {};
+    return json(rule.body ?? errorBody(rule.status), rule.status, headers);
+  }
+
+  private buildRoutes(): [string, RegExp, Handler][] {
+    const s = this.store;
+    const me = () => s.meUserId ?? -1;
+    const id = "([^/]+)";
+    const route = (method: string, path: string, handler: Handler): [string, RegExp, Handler] => [
+      method,
+      new RegExp(`^${path.replace(/:id/g, id)}/?$`),
+      handler,
+    ];
+    const found = <T>(value: T | undefined) => (value === undefined ? fail(404) : json(value));
+    const list = <T>(ctx: RouteContext, items: T[] | undefined) => (items === undefined ? fail(404) : this.page(ctx.url, items));
+    const ifUser = <T>(userId: number, items: () => T[]) => (s.getUser(userId) ? items() : undefined);
+    const ifTrack = <T>(trackId: number, items: () => T[]) => (s.getTrack(trackId) ? items() : undefined);
+    const ifPlaylist = <T>(playlistId: number, items: () => T[]) => (s.getPlaylist(playlistId) ? items() : undefined);
+
+    const action = (kind: MockResourceKind, apply: (userId: number, kind: MockResourceKind, id: number) => boolean, undo: boolean): Handler =>
+      ({ ids: [targetId] }) => {
+        const exists = kind === "track" ? s.getTrack(targetId) : s.getPlaylist(targetId);
+        if (!exists) return fail(404);
+        const changed = apply(me(), kind, targetId);
+        if (undo) return changed ? noContent() : fail(404);
+        return json({ status: changed ? "201 - Created" : "200 - OK" }, changed ? 201 : 200);
+      };
+
+    /** Only the owner may change or delete a track or playlist */
+    const owned = (kind: MockResourceKind, handler: Handler): Handler => (ctx) => {
+      const owner = s.ownerOf(kind, ctx.ids[0]);
+      if (owner === undefined) return fail(404);
+      return owner === me() ? handler(ctx) : fail(403);
+    };
+
+    const activities = (ctx: RouteContext, userIds: number[], includePlaylists: boolean) => {
+      const items = userIds.flatMap((userId) => [
+        ...s.tracksBy(userId).map((origin) => ({ type: "track", created_at: origin.created_at, origin })),
+        ...(includePlaylists ? s.playlistsBy(userId).map((origin) => ({ type: "playlist", created_at: origin.created_at, origin })) : []),
+      ]);
+      items.sort((a, b) => b.created_at.localeCompare(a.created_at) || b.origin.id - a.origin.id);
+      return this.page(ctx.url, items, { future_href: `${ctx.url.origin}${ctx.url.pathname}?uuid[to]=mock` });
+    };
+    const followedIds = () => s.followingsOf(me()).map((user) => user.id);
+
+    return [
+      // Auth host
+      route("POST", "/oauth/token", ({ request }) => this.token(request)),
+      route("GET", "/authorize", ({ url }) => this.authorize(url)),
+      route("POST", "/sign-out", ({ request }) => this.signOut(request)),
+
+      // Me
+      route("GET", "/me", () => found(s.getMe())),
+      route("GET", "/me/activities", (ctx) => activities(ctx, followedIds(), true)),
+      route("GET", "/me/activities/all/own", (ctx) => activities(ctx, [me()], true)),
+      route("GET", "/me/activities/tracks", (ctx) => activities(ctx, followedIds(), false)),
+      route("GET", "/me/likes/tracks", (ctx) => list(ctx, s.likedTracks(me()))),
+      route("GET", "/me/likes/playlists", (ctx) => list(ctx, s.likedPlaylists(me()))),
+      route("GET", "/me/followings", (ctx) => list(ctx, s.followingsOf(me()))),
+      route("GET", "/me/followings/tracks", (ctx) => list(ctx, followedIds().flatMap((userId) => s.tracksBy(userId)))),
+      ...["PUT", "POST"].map((method) =>
+        route(method, "/me/followings/:id", ({ ids: [userId] }) => {
+          if (!s.getUser(userId)) return fail(404);
+          s.follow(me(), userId);
+          return json(s.getUser(userId));
+        }),
+      ),
+      route("DELETE", "/me/followings/:id", ({ ids: [userId] }) => (s.unfollow(me(), userId) ? noContent() : fail(404))),
+      route("GET", "/me/followers", (ctx) => list(ctx, s.followersOf(me()))),
+      route("GET", "/me/playlists", (ctx) => list(ctx, s.playlistsBy(me()))),
+      route("GET", "/me/tracks", (ctx) => list(ctx, s.tracksBy(me()))),
+      route("GET", "/me/connections", () => json(s.connections())),
+
+      // Users
+      route("GET", "/users", (ctx) => list(ctx, s.searchUsers(ctx.url.searchParams.get("q") ?? ""))),
+      route("GET", "/users/:id", ({ ids: [userId] }) => found(s.getUser(userId))),
+      route("GET", "/users/:id/followers", (ctx) => list(ctx, ifUser(ctx.ids[0], () => s.followersOf(ctx.ids[0])))),
+      route("GET", "/users/:id/followings", (ctx) => list(ctx, ifUser(ctx.ids[0], () => s.followingsOf(ctx.ids[0])))),
+      route("GET", "/users/:id/tracks", (ctx) => list(ctx, ifUser(ctx.ids[0], () => s.tracksBy(ctx.ids[0])))),
+      route("GET", "/users/:id/playlists", (ctx) => list(ctx, ifUser(ctx.ids[0], () => s.playlistsBy(ctx.ids[0])))),
+      route("GET", "/users/:id/likes/tracks", (ctx) => list(ctx, ifUser(ctx.ids[0], () => s.likedTracks(ctx.ids[0])))),
+      route("GET", "/users/:id/likes/playlists", (ctx) => list(ctx, ifUser(ctx.ids[0], () => s.likedPlaylists(ctx.ids[0])))),
+      route("GET", "/users/:id/web-profiles", ({ ids: [userId] }) => found(ifUser(userId, () => s.webProfilesOf(userId)))),
+
+      // Tracks
+      route("GET", "/tracks", (ctx) => {
+        const ids = ctx.url.searchParams.get("ids");
+        if (ids !== null) return json(s.tracksById(ids.split(",").map(parseId)));
+        return list(ctx, s.searchTracks(ctx.url.searchParams.get("q") ?? ""));
+      }),
+      route("GET", "/tracks/:id", ({ ids: [trackId] }) => found(s.getTrack(trackId))),
+      route("PUT", "/tracks/:id", owned("track", async ({ request, ids: [trackId] }) => {
+        const body = (await request.json().catch(() => undefined)) as { track?: Partial<SoundCloudTrack> } | undefined;
+        if (!body?.track) return fail(422, "track is required");
+        return json(s.updateTrack(trackId, body.track));
+      })),
+      route("DELETE", "/tracks/:id", owned("track", ({ ids: [trackId] }) => {
+        s.deleteTrack(trackId);
+        return noContent();
+      })),
+      route("GET", "/tracks/:id/comments", (ctx) => list(ctx, ifTrack(ctx.ids[0], () => s.commentsOn(ctx.ids[0])))),
+      route("POST", "/tracks/:id/comments", async ({ request, ids: [trackId] }) => {
+        if (!s.getTrack(trackId)) return fail(404);
+        const body = (await request.json().catch(() => undefined)) as { comment?: { body?: string; timestamp?: number } } | undefined;
+        if (!body?.comment?.body) return fail(422, "comment body is required");
+        const { body: text, timestamp } = body.comment;
+        return json(
+          s.addComment({ track_id: trackId, user_id: me(), body: text, created_at: new Date().toISOString(), ...(timestamp !== undefined ? { timestamp } : {}) }),
+          201,
+        );
+      }),
+      route("GET", "/tracks/:id/favoriters", (ctx) => list(ctx, ifTrack(ctx.ids[0], () => s.likersOf("track", ctx.ids[0])))),
+      route("GET", "/tracks/:id/reposters", (ctx) => list(ctx, ifTrack(ctx.ids[0], () => s.repostersOf("track", ctx.ids[0])))),
+      route("GET", "/tracks/:id/related", ({ url, ids: [trackId] }) => {
+        if (!s.getTrack(trackId)) return fail(404);
+        return json(s.relatedTracks(trackId).slice(0, this.limit(url)));
+      }),
+      route("GET", "/tracks/:id/streams", ({ url, ids: [trackId] }) => {
+        if (!s.getTrack(trackId)) return fail(404);
+        const base = `${url.origin}/mock-streams/${trackId}`;
+        return json({
+          http_mp3_128_url: `${base}.mp3`,
+          hls_mp3_128_url: `${base}.m3u8`,
+          hls_aac_160_url: `${base}.aac.m3u8`,
+          preview_mp3_128_url: `${base}-preview.mp3`,
+        });
+      }),
+
+      // Likes and reposts
+      route("POST", "/likes/tracks/:id", action("track", (...a) => s.like(...a), false)),
+      route("DELETE", "/likes/tracks/:id", action("track", (...a) => s.unlike(...a), true)),
+      route("POST", "/likes/playlists/:id", action("playlist", (...a) => s.like(...a), false)),
+      route("DELETE", "/likes/playlists/:id", action("playlist", (...a) => s.unlike(...a), true)),
+      route("POST", "/reposts/tracks/:id", action("track", (...a) => s.repost(...a), false)),
+      route("DELETE", "/reposts/tracks/:id", action("track", (...a) => s.unrepost(...a), true)),
+      route("POST", "/reposts/playlists/:id", action("playlist", (...a) => s.repost(...a), false)),
+      route("DELETE", "/reposts/playlists/:id", action("playlist", (...a) => s.unrepost(...a), true)),
+
+      // Playlists
+      route("GET", "/playlists", (ctx) => list(ctx, s.searchPlaylists(ctx.url.searchParams.get("q") ?? ""))),
+      route("POST", "/playlists", async ({ request }) => {
+        const body = (await request.json().catch(() => undefined)) as { playlist?: PlaylistBody } | undefined;
+        if (!body?.playlist?.title) return fail(422, "title is required");
+        const { tracks, ...fields } = body.playlist;
+        const trackIds = tracksOf(tracks);
+        if (trackIds.some((trackId) => !s.getTrack(trackId))) return fail(422, "unknown track");
+        const created = s.addPlaylist({
+          created_at: new Date().toISOString(),
+          ...fields,
+          id: s.nextId(),
+          user_id: me(),
+          track_ids: trackIds,
+        });
+        return json(created, 201);
+      }),
+      route("GET", "/playlists/:id", ({ ids: [playlistId] }) => found(s.getPlaylist(playlistId))),
+      route("PUT", "/playlists/:id", owned("playlist", async ({ request, ids: [playlistId] }) => {
+        const body = (await request.json().catch(() => undefined)) as { playlist?: PlaylistBody } | undefined;
+        if (!body?.playlist) return fail(422, "playlist is required");
+        const { tracks, ...fields } = body.playlist;
+        const trackIds = tracks === undefined ? undefined : tracksOf(tracks);
+        if (trackIds?.some((trackId) => !s.getTrack(trackId))) return fail(422, "unknown track");
+        return json(s.updatePlaylist(playlistId, { ...fields, ...(trackIds ? { track_ids: trackIds } : {}) }));
+      })),
+      route("DELETE", "/playlists/:id", owned("playlist", ({ ids: [playlistId] }) => {
+        s.deletePlaylist(playlistId);
+        return noContent();
+      })),
+      route("GET", "/playlists/:id/tracks", (ctx) => list(ctx, s.getPlaylist(ctx.ids[0])?.tracks)),
+      route("GET", "/playlists/:id/reposters", (ctx) => list(ctx, ifPlaylist(ctx.ids[0], () => s.repostersOf("playlist", ctx.ids[0])))),
+
+      // Resolve
+      route("GET", "/resolve", ({ url }) => {
+        const path = s.resolve(url.searchParams.get("url") ?? "");
+        return path ? new Response(null, { status: 302, headers: { location: `${url.origin}${path}` } }) : fail(404);
+      }),
+    ];
+  }
+
+  private limit(url: URL): number {
+    const limit = Number(url.searchParams.get("limit"));
+    return limit > 0 ? Math.min(limit, 200) : (this.options.pageSize ?? 50);
+  }
+
+  /**
+   * Slice a list by `limit`/`offset` (or `cursor`). With `linked_partitioning` the slice is wrapped in
+   * `{ collection, next_href }`, where `next_href` points at this mock's origin or is null on the last page.
+   */
+  private page<T>(url: URL, items: T[], extra: Record<string, unknown> = {}): Response {
+    const limit = this.limit(url);
+    const offset = Math.max(Number(url.searchParams.get("offset") ?? url.searchParams.get("cursor")) || 0, 0);
+    const collection = items.slice(offset, offset + limit);
+    if (!url.searchParams.has("linked_partitioning")) return json(collection);
+
+    let next_href: string | null = null;
+    if (offset + limit < items.length) {
+      const next = new URL(url.href);
+      next.searchParams.delete("cursor");
+      next.searchParams.set("limit", String(limit));
+      next.searchParams.set("offset", String(offset + limit));
+      next_href = next.href;
+    }
+    return json({ collection, next_href, ...extra });
+  }
+}
+
+type PlaylistBody = Partial<Omit<MockPlaylistSeed, "id" | "user_id" | "track_ids">> & { tracks?: { urn?: string; id?: number }[] };
+
+/** Track ids from a playlist body's `tracks: [{ urn }]` (or `[{ id }]`) list */
+const tracksOf = (tracks: PlaylistBody["tracks"]) =>
+  (tracks ?? []).map((track) => (track.urn !== undefined ? parseId(track.urn) : Number(track.id)));
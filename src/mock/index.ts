@@ -0,0 +1,16 @@
+export { MockSoundCloudApi } from "./api.js";
+export type { MockApiOptions, MockErrorRule } from "./api.js";
+export { startMockServer } from "./server.js";
+export type { MockServer, MockServerOptions } from "./server.js";
+export { MockStore } from "./store.js";
+export type {
+  MockActionSeed,
+  MockCommentSeed,
+  MockFollowingSeed,
+  MockPlaylistSeed,
+  MockResourceKind,
+  MockSeed,
+  MockTrackSeed,
+  MockUserSeed,
+  MockWebProfileSeed,
+} from "./store.js";
@@ -0,0 +1,100 @@
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { MockSoundCloudApi, type MockApiOptions } from "./api.js";
+
+/**
+ * Options for {@link startMockServer}.
+ */
+export interface MockServerOptions extends MockApiOptions {
+  /** Port to listen on (default: 0, a free port) */
+  port?: number;
+  /** Interface to bind (default: `"127.0.0.1"`) */
+  hostname?: string;
+}
+
+/**
+ * A running mock server, returned by {@link startMockServer}.
+ */
+export interface MockServer {
+  /** Origin the server listens on, e.g. `http://127.0.0.1:53412` — use it as both `apiBaseUrl` and `authBaseUrl` */
+  url: string;
+  /** The mock behind the server, for seeding data and injecting errors */
+  api: MockSoundCloudApi;
+  /** Stop listening and close open connections */
+  close(): Promise<void>;
+}
+
+async function toRequest(req: IncomingMessage, origin: string): Promise<Request> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (value !== undefined) headers.set(name, Array.isArray(value) ? value.join(", ") : value);
+  }
+  const method = req.method ?? "GET";
+  const body = chunks.length > 0 && method !== "GET" && method !== "HEAD" ? Buffer.concat(chunks) : undefined;
+  return new Request(new URL(req.url ?? "/", origin), { method, headers, body });
+}
+
+async function writeResponse(res: ServerResponse, response: Response): Promise<void> {
+  res.statusCode = response.status;
+  response.headers.forEach((value, name) => res.setHeader(name, value));
+  res.end(Buffer.from(await response.arrayBuffer()));
+}
+
+/**
+ * Serve a {@link MockSoundCloudApi} over HTTP on localhost.
+ *
+ * Point a client at it with `apiBaseUrl` and `authBaseUrl` — the mock answers both the API and the
+ * auth host — or use it from any other language or tool during development.
+ *
+ * @param options - Mock options plus the port and interface to listen on
+ * @returns The running server
+ *
+ * @example
+ * ```ts
+ * import { startMockServer } from 'soundcloud-api-ts/mock';
+ *
+ * const server = await startMockServer({
+ *   seed: { users: [{ id: 1, username: 'me' }], tracks: [{ id: 10, user_id: 1, title: 'Demo' }] },
+ * });
+ * const sc = new SoundCloudClient({ clientId: 'id', clientSecret: 'secret', apiBaseUrl: server.url, authBaseUrl: server.url });
+ * sc.setToken((await sc.auth.getClientToken()).access_token);
+ * await sc.tracks.getTrack(10);
+ * await server.close();
+ * ```
+ */
+export async function startMockServer(options: MockServerOptions = {}): Promise<MockServer> {
+  const { port = 0, hostname = "127.0.0.1", ...apiOptions } = options;
+  const api = new MockSoundCloudApi(apiOptions);
+  let origin = "";
+
+  const server = createServer((req, res) => {
+    toRequest(req, origin)
+      .then((request) => api.handle(request))
+      .then((response) => writeResponse(res, response))
+      .catch((error: unknown) => {
+        res.statusCode = 500;
+        res.setHeader("content-type", "application/json");
+        res.end(JSON.stringify({ code: 500, message: error instanceof Error ? error.message : String(error) }));
+      });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, hostname, () => resolve());
+  });
+  const address = server.address() as AddressInfo;
+  const host = address.family === "IPv6" ? `[${address.address}]` : address.address;
+  origin = `http://${host}:${address.port}`;
+
+  return {
+    url: origin,
+    api,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.close((error) => (error ? reject(error) : resolve()));
+        server.closeAllConnections();
+      }),
+  };
+}
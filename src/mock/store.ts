@@ -0,0 +1,705 @@
+import type {
+  SoundCloudComment,
+  SoundCloudConnection,
+  SoundCloudMe,
+  SoundCloudPlaylist,
+  SoundCloudTrack,
+  SoundCloudUser,
+  SoundCloudWebProfile,
+} from "../types/api.js";
+
+/** A user to seed; everything except `id` is filled with defaults */
+export type MockUserSeed = Partial<SoundCloudUser> & { id: number };
+
+/** A track to seed, owned by `user_id`; everything else is filled with defaults */
+export type MockTrackSeed = Partial<Omit<SoundCloudTrack, "user">> & { id: number; user_id: number };
+
+/** A playlist to seed, owned by `user_id` and holding `track_ids` in order */
+export type MockPlaylistSeed = Partial<Omit<SoundCloudPlaylist, "tracks" | "user" | "user_id">> & {
+  id: number;
+  user_id: number;
+  track_ids?: number[];
+};
+
+/** A comment by `user_id` on `track_id`; the id is assigned when omitted */
+export type MockCommentSeed = Partial<Omit<SoundCloudComment, "user" | "track_urn" | "user_urn">> & {
+  track_id: number;
+  user_id: number;
+  body: string;
+};
+
+/** A like or repost of a track (`track_id`) or playlist (`playlist_id`) by `user_id` */
+export interface MockActionSeed {
+  user_id: number;
+  track_id?: number;
+  playlist_id?: number;
+}
+
+/** `user_id` follows `following_id` */
+export interface MockFollowingSeed {
+  user_id: number;
+  following_id: number;
+}
+
+/** A web profile link of `user_id` */
+export type MockWebProfileSeed = Partial<SoundCloudWebProfile> & { user_id: number; url: string };
+
+/**
+ * JSON-serializable contents of a {@link MockStore}. Only ids and relations are required;
+ * counters such as `followers_count` or `comment_count` are derived from the relations
+ * unless the seed sets them explicitly.
+ */
+export interface MockSeed {
+  users?: MockUserSeed[];
+  /** Id of the authenticated user served at `/me` (default: the first user) */
+  me?: number;
+  tracks?: MockTrackSeed[];
+  playlists?: MockPlaylistSeed[];
+  comments?: MockCommentSeed[];
+  likes?: MockActionSeed[];
+  reposts?: MockActionSeed[];
+  followings?: MockFollowingSeed[];
+  web_profiles?: MockWebProfileSeed[];
+  /** Connected services of the authenticated user (`/me/connections`) */
+  connections?: Partial<SoundCloudConnection>[];
+}
+
+/** Whether an action targets a track or a playlist */
+export type MockResourceKind = "track" | "playlist";
+
+interface Action {
+  userId: number;
+  kind: MockResourceKind;
+  id: number;
+}
+
+const SEED_DATE = "2024-01-01T00:00:00Z";
+const WEB_HOST = "https://soundcloud.com";
+const API_HOST = "https://api.soundcloud.com";
+
+const slug = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "") || "untitled";
+
+/** Strip scheme variants, `www.`/`m.` hosts, query and trailing slashes so permalinks compare equal */
+const normalizePermalink = (url: string) =>
+  url
+    .trim()
+    .replace(/^https?:\/\/(www\.|m\.)?/, "")
+    .replace(/[?#].*$/, "")
+    .replace(/\/+$/, "")
+    .toLowerCase();
+
+const matches = (query: string, ...fields: (string | null | undefined)[]) => {
+  const needle = query.trim().toLowerCase();
+  return needle === "" || fields.some((field) => field?.toLowerCase().includes(needle));
+};
+
+/** Newest first, ties broken by id so the order is stable */
+const newestFirst = <T extends { created_at: string; id: number }>(a: T, b: T) =>
+  b.created_at.localeCompare(a.created_at) || b.id - a.id;
+
+/**
+ * In-memory data behind the mock SoundCloud API.
+ *
+ * Records are kept as the partial seeds they were created from and rendered into full API
+ * objects on every read, so embedded users and derived counters always reflect the current
+ * relations. Mutating methods are what the mock's routes call, and can equally be used by
+ * tests to arrange state directly.
+ *
+ * @example
+ * ```ts
+ * const store = new MockStore({
+ *   users: [{ id: 1, username: 'me' }, { id: 2, username: 'artist' }],
+ *   tracks: [{ id: 10, user_id: 2, title: 'Night Drive' }],
+ *   followings: [{ user_id: 1, following_id: 2 }],
+ * });
+ * store.like(1, 'track', 10);
+ * store.getTrack(10)?.favoritings_count; // 1
+ * ```
+ */
+export class MockStore {
+  private users = new Map<number, MockUserSeed>();
+  private tracks = new Map<number, MockTrackSeed>();
+  private playlists = new Map<number, MockPlaylistSeed>();
+  private comments = new Map<number, MockCommentSeed & { id: number }>();
+  private likes: Action[] = [];
+  private reposts: Action[] = [];
+  private followings: MockFollowingSeed[] = [];
+  private webProfiles: MockWebProfileSeed[] = [];
+  private connectionList: Partial<SoundCloudConnection>[] = [];
+  private meId?: number;
+  private lastId = 0;
+
+  constructor(seed: MockSeed = {}) {
+    this.load(seed);
+  }
+
+  /**
+   * Add everything in a seed to the store. Owners must be seeded before (or alongside) what they own.
+   *
+   * @param seed - Records and relations to add
+   * @throws {Error} When a record refers to a user, track or playlist that does not exist
+   */
+  load(seed: MockSeed): void {
+    for (const user of seed.users ?? []) this.addUser(user);
+    if (seed.me !== undefined) this.setMe(seed.me);
+    for (const track of seed.tracks ?? []) this.addTrack(track);
+    for (const playlist of seed.playlists ?? []) this.addPlaylist(playlist);
+    for (const comment of seed.comments ?? []) this.addComment(comment);
+    for (const like of seed.likes ?? []) this.like(like.user_id, ...this.target(like));
+    for (const repost of seed.reposts ?? []) this.repost(repost.user_id, ...this.target(repost));
+    for (const { user_id, following_id } of seed.followings ?? []) this.follow(user_id, following_id);
+    for (const profile of seed.web_profiles ?? []) {
+      this.requireUser(profile.user_id);
+      this.webProfiles.push(profile);
+    }
+    this.connectionList.push(...(seed.connections ?? []));
+  }
+
+  /** Remove all records, then load `seed` if given */
+  reset(seed?: MockSeed): void {
+    this.users.clear();
+    this.tracks.clear();
+    this.playlists.clear();
+    this.comments.clear();
+    this.likes = [];
+    this.reposts = [];
+    this.followings = [];
+    this.webProfiles = [];
+    this.connectionList = [];
+    this.meId = undefined;
+    this.lastId = 0;
+    if (seed) this.load(seed);
+  }
+
+  /** Make `userId` the authenticated user served at `/me` */
+  setMe(userId: number): void {
+    this.requireUser(userId);
+    this.meId = userId;
+  }
+
+  /** Id of the authenticated user, or `undefined` while the store has no users */
+  get meUserId(): number | undefined {
+    return this.meId ?? this.users.keys().next().value;
+  }
+
+  /** A fresh id, above every id seen so far */
+  nextId(): number {
+    return ++this.lastId;
+  }
+
+  // ── Users ──────────────────────────────────────────────────────────
+
+  addUser(seed: MockUserSeed): SoundCloudUser {
+    this.users.set(seed.id, seed);
+    this.seen(seed.id);
+    return this.renderUser(seed);
+  }
+
+  getUser(id: number): SoundCloudUser | undefined {
+    const seed = this.users.get(id);
+    return seed && this.renderUser(seed);
+  }
+
+  /** The authenticated user with the private `/me` fields */
+  getMe(): SoundCloudMe | undefined {
+    const id = this.meUserId;
+    const user = id === undefined ? undefined : this.getUser(id);
+    if (!user) return undefined;
+    return {
+      locale: null,
+      primary_email_confirmed: true,
+      private_playlists_count: 0,
+      private_tracks_count: 0,
+      quota: { unlimited_upload_quota: false, upload_seconds_used: 0, upload_seconds_left: 10800 },
+      upload_seconds_left: 10800,
+      ...user,
+    };
+  }
+
+  searchUsers(query: string): SoundCloudUser[] {
+    return this.allUsers().filter((user) => matches(query, user.username, user.full_name, user.permalink, user.city));
+  }
+
+  followingsOf(userId: number): SoundCloudUser[] {
+    return this.followings
+      .filter((f) => f.user_id === userId)
+      .map((f) => this.getUser(f.following_id))
+      .filter((user): user is SoundCloudUser => user !== undefined)
+      .reverse();
+  }
+
+  followersOf(userId: number): SoundCloudUser[] {
+    return this.followings
+      .filter((f) => f.following_id === userId)
+      .map((f) => this.getUser(f.user_id))
+      .filter((user): user is SoundCloudUser => user !== undefined)
+      .reverse();
+  }
+
+  /** @returns False when the user was already followed */
+  follow(userId: number, followingId: number): boolean {
+    this.requireUser(userId);
+    this.requireUser(followingId);
+    if (this.followings.some((f) => f.user_id === userId && f.following_id === followingId)) return false;
+    this.followings.push({ user_id: userId, following_id: followingId });
+    return true;
+  }
+
+  /** @returns False when the user was not followed */
+  unfollow(userId: number, followingId: number): boolean {
+    const before = this.followings.length;
+    this.followings = this.followings.filter((f) => !(f.user_id === userId && f.following_id === followingId));
+    return this.followings.length < before;
+  }
+
+  webProfilesOf(userId: number): SoundCloudWebProfile[] {
+    return this.webProfiles
+      .filter((profile) => profile.user_id === userId)
+      .map(({ user_id: _owner, ...profile }, index) => ({
+        created_at: SEED_DATE,
+        kind: "web-profile",
+        service: "personal",
+        title: profile.url,
+        username: "",
+        urn: `soundcloud:web-profiles:${userId}${index}`,
+        ...profile,
+      }));
+  }
+
+  connections(): SoundCloudConnection[] {
+    return this.connectionList.map((connection, index) => ({
+      created_at: SEED_DATE,
+      id: index + 1,
+      kind: "connection",
+      display_name: "",
+      service: "twitter",
+      uri: `${API_HOST}/connections/${index + 1}`,
+      ...connection,
+    }));
+  }
+
+  // ── Tracks ─────────────────────────────────────────────────────────
+
+  addTrack(seed: MockTrackSeed): SoundCloudTrack {
+    this.requireUser(seed.user_id);
+    this.tracks.set(seed.id, seed);
+    this.seen(seed.id);
+    return this.renderTrack(seed);
+  }
+
+  getTrack(id: number): SoundCloudTrack | undefined {
+    const seed = this.tracks.get(id);
+    return seed && this.renderTrack(seed);
+  }
+
+  /** Owner of a track or playlist */
+  ownerOf(kind: MockResourceKind, id: number): number | undefined {
+    return (kind === "track" ? this.tracks.get(id) : this.playlists.get(id))?.user_id;
+  }
+
+  updateTrack(id: number, changes: Partial<Omit<SoundCloudTrack, "id" | "user">>): SoundCloudTrack | undefined {
+    const seed = this.tracks.get(id);
+    if (!seed) return undefined;
+    // The id and owner never change, whatever a request body says
+    const updated = { ...seed, ...changes, id: seed.id, user_id: seed.user_id };
+    this.tracks.set(id, updated);
+    return this.renderTrack(updated);
+  }
+
+  /** Delete a track with its comments, likes and reposts, and remove it from playlists */
+  deleteTrack(id: number): boolean {
+    if (!this.tracks.delete(id)) return false;
+    for (const [commentId, comment] of this.comments) {
+      if (comment.track_id === id) this.comments.delete(commentId);
+    }
+    const other = (action: Action) => !(action.kind === "track" && action.id === id);
+    this.likes = this.likes.filter(other);
+    this.reposts = this.reposts.filter(other);
+    for (const playlist of this.playlists.values()) {
+      if (playlist.track_ids) playlist.track_ids = playlist.track_ids.filter((trackId) => trackId !== id);
+    }
+    return true;
+  }
+
+  allTracks(): SoundCloudTrack[] {
+    return [...this.tracks.values()].map((seed) => this.renderTrack(seed));
+  }
+
+  /** Tracks with any of the given ids, in the order asked for */
+  tracksById(ids: number[]): SoundCloudTrack[] {
+    return ids.map((id) => this.getTrack(id)).filter((track): track is SoundCloudTrack => track !== undefined);
+  }
+
+  tracksBy(userId: number): SoundCloudTrack[] {
+    return this.allTracks()
+      .filter((track) => track.user.id === userId)
+      .sort(newestFirst);
+  }
+
+  searchTracks(query: string): SoundCloudTrack[] {
+    return this.allTracks().filter((track) => matches(query, track.title, track.genre, track.tag_list, track.description));
+  }
+
+  /** Other tracks of the same genre first, then the rest */
+  relatedTracks(id: number): SoundCloudTrack[] {
+    const genre = this.getTrack(id)?.genre;
+    const others = this.allTracks().filter((track) => track.id !== id);
+    return [...others.filter((track) => track.genre === genre), ...others.filter((track) => track.genre !== genre)];
+  }
+
+  // ── Playlists ──────────────────────────────────────────────────────
+
+  addPlaylist(seed: MockPlaylistSeed): SoundCloudPlaylist {
+    this.requireUser(seed.user_id);
+    for (const trackId of seed.track_ids ?? []) this.requireTrack(trackId);
+    this.playlists.set(seed.id, seed);
+    this.seen(seed.id);
+    return this.renderPlaylist(seed);
+  }
+
+  getPlaylist(id: number): SoundCloudPlaylist | undefined {
+    const seed = this.playlists.get(id);
+    return seed && this.renderPlaylist(seed);
+  }
+
+  updatePlaylist(id: number, changes: Partial<Omit<MockPlaylistSeed, "id" | "user_id">>): SoundCloudPlaylist | undefined {
+    const seed = this.playlists.get(id);
+    if (!seed) return undefined;
+    for (const trackId of changes.track_ids ?? []) this.requireTrack(trackId);
+    const updated = { ...seed, ...changes, id: seed.id, user_id: seed.user_id };
+    this.playlists.set(id, updated);
+    return this.renderPlaylist(updated);
+  }
+
+  deletePlaylist(id: number): boolean {
+    if (!this.playlists.delete(id)) return false;
+    const other = (action: Action) => !(action.kind === "playlist" && action.id === id);
+    this.likes = this.likes.filter(other);
+    this.reposts = this.reposts.filter(other);
+    return true;
+  }
+
+  playlistsBy(userId: number): SoundCloudPlaylist[] {
+    return [...this.playlists.values()]
+      .filter((seed) => seed.user_id === userId)
+      .map((seed) => this.renderPlaylist(seed))
+      .sort(newestFirst);
+  }
+
+  searchPlaylists(query: string): SoundCloudPlaylist[] {
+    return [...this.playlists.values()]
+      .map((seed) => this.renderPlaylist(seed))
+      .filter((playlist) => matches(query, playlist.title, playlist.genre, playlist.tag_list, playlist.description));
+  }
+
+  // ── Comments ───────────────────────────────────────────────────────
+
+  addComment(seed: MockCommentSeed): SoundCloudComment {
+    this.requireTrack(seed.track_id);
+    this.requireUser(seed.user_id);
+    const stored = { ...seed, id: seed.id ?? this.nextId() };
+    this.comments.set(stored.id, stored);
+    this.seen(stored.id);
+    return this.renderComment(stored);
+  }
+
+  commentsOn(trackId: number): SoundCloudComment[] {
+    return [...this.comments.values()]
+      .filter((comment) => comment.track_id === trackId)
+      .map((comment) => this.renderComment(comment))
+      .sort(newestFirst);
+  }
+
+  // ── Likes and reposts ──────────────────────────────────────────────
+
+  /** @returns False when it was already liked */
+  like(userId: number, kind: MockResourceKind, id: number): boolean {
+    return this.act(this.likes, userId, kind, id);
+  }
+
+  /** @returns False when it was not liked */
+  unlike(userId: number, kind: MockResourceKind, id: number): boolean {
+    const before = this.likes.length;
+    this.likes = this.likes.filter((a) => !(a.userId === userId && a.kind === kind && a.id === id));
+    return this.likes.length < before;
+  }
+
+  /** @returns False when it was already reposted */
+  repost(userId: number, kind: MockResourceKind, id: number): boolean {
+    return this.act(this.reposts, userId, kind, id);
+  }
+
+  /** @returns False when it was not reposted */
+  unrepost(userId: number, kind: MockResourceKind, id: number): boolean {
+    const before = this.reposts.length;
+    this.reposts = this.reposts.filter((a) => !(a.userId === userId && a.kind === kind && a.id === id));
+    return this.reposts.length < before;
+  }
+
+  likedTracks(userId: number): SoundCloudTrack[] {
+    return this.actedOn(this.likes, userId, "track").map((id) => this.getTrack(id)!);
+  }
+
+  likedPlaylists(userId: number): SoundCloudPlaylist[] {
+    return this.actedOn(this.likes, userId, "playlist").map((id) => this.getPlaylist(id)!);
+  }
+
+  /** Users who liked a track or playlist, most recent first */
+  likersOf(kind: MockResourceKind, id: number): SoundCloudUser[] {
+    return this.actors(this.likes, kind, id);
+  }
+
+  /** Users who reposted a track or playlist, most recent first */
+  repostersOf(kind: MockResourceKind, id: number): SoundCloudUser[] {
+    return this.actors(this.reposts, kind, id);
+  }
+
+  // ── Resolve ────────────────────────────────────────────────────────
+
+  /**
+   * Find the resource behind a soundcloud.com permalink.
+   *
+   * @returns The API path of the user, track or playlist (e.g. `/tracks/10`), or `undefined`
+   */
+  resolve(url: string): string | undefined {
+    const target = normalizePermalink(url);
+    const found = (items: { permalink_url: string; id: number }[]) =>
+      items.find((item) => normalizePermalink(item.permalink_url) === target);
+    const track = found(this.allTracks());
+    if (track) return `/tracks/${track.id}`;
+    const playlist = found([...this.playlists.values()].map((seed) => this.renderPlaylist(seed)));
+    if (playlist) return `/playlists/${playlist.id}`;
+    const user = found(this.allUsers());
+    return user && `/users/${user.id}`;
+  }
+
+  // ── Rendering ──────────────────────────────────────────────────────
+
+  private allUsers(): SoundCloudUser[] {
+    return [...this.users.values()].map((seed) => this.renderUser(seed));
+  }
+
+  private renderUser(seed: MockUserSeed): SoundCloudUser {
+    const id = seed.id;
+    const username = seed.username ?? `user-${id}`;
+    const permalink = seed.permalink ?? slug(username);
+    const liked = this.likes.filter((a) => a.userId === id);
+    return {
+      avatar_url: `https://i1.sndcdn.com/avatars-${id}-large.jpg`,
+      city: "",
+      country: "",
+      created_at: SEED_DATE,
+      description: "",
+      discogs_name: null,
+      first_name: "",
+      followers_count: this.followings.filter((f) => f.following_id === id).length,
+      followings_count: this.followings.filter((f) => f.user_id === id).length,
+      full_name: "",
+      urn: `soundcloud:users:${id}`,
+      kind: "user",
+      last_modified: SEED_DATE,
+      last_name: "",
+      likes_count: liked.length,
+      online: false,
+      permalink,
+      permalink_url: `${WEB_HOST}/${permalink}`,
+      plan: "Free",
+      playlist_count: [...this.playlists.values()].filter((p) => p.user_id === id).length,
+      public_favorites_count: liked.filter((a) => a.kind === "track").length,
+      reposts_count: this.reposts.filter((a) => a.userId === id).length,
+      subscriptions: [],
+      track_count: [...this.tracks.values()].filter((t) => t.user_id === id).length,
+      uri: `${API_HOST}/users/${id}`,
+      username,
+      website: null,
+      website_title: null,
+      comments_count: [...this.comments.values()].filter((c) => c.user_id === id).length,
+      myspace_name: null,
+      ...seed,
+    };
+  }
+
+  private renderTrack(seed: MockTrackSeed): SoundCloudTrack {
+    const { user_id: userId, ...fields } = seed;
+    const id = seed.id;
+    const user = this.getUser(userId)!;
+    const title = seed.title ?? `Track ${id}`;
+    const me = this.meUserId;
+    return {
+      access: "playable",
+      artwork_url: `https://i1.sndcdn.com/artworks-${id}-large.jpg`,
+      available_country_codes: null,
+      bpm: 0,
+      comment_count: [...this.comments.values()].filter((c) => c.track_id === id).length,
+      commentable: true,
+      created_at: SEED_DATE,
+      description: "",
+      download_count: 0,
+      download_url: `${API_HOST}/tracks/${id}/download`,
+      downloadable: false,
+      duration: 180000,
+      embeddable_by: "all",
+      favoritings_count: this.likersOf("track", id).length,
+      genre: "",
+      isrc: null,
+      key_signature: null,
+      kind: "track",
+      label_name: "",
+      license: "all-rights-reserved",
+      metadata_artist: null,
+      monetization_model: null,
+      permalink_url: `${user.permalink_url}/${slug(title)}`,
+      playback_count: 0,
+      policy: "ALLOW",
+      purchase_title: "",
+      purchase_url: "",
+      release: null,
+      release_day: 1,
+      release_month: 1,
+      release_year: 2024,
+      reposts_count: this.repostersOf("track", id).length,
+      secret_uri: null,
+      sharing: "public",
+      stream_url: `${API_HOST}/tracks/${id}/stream`,
+      streamable: true,
+      tag_list: "",
+      title,
+      uri: `${API_HOST}/tracks/${id}`,
+      urn: `soundcloud:tracks:${id}`,
+      user_favorite: me !== undefined && this.likes.some((a) => a.userId === me && a.kind === "track" && a.id === id),
+      user_playback_count: null,
+      waveform_url: `https://wave.sndcdn.com/${id}_m.png`,
+      ...fields,
+      user,
+    };
+  }
+
+  private renderPlaylist(seed: MockPlaylistSeed): SoundCloudPlaylist {
+    const { track_ids: trackIds = [], ...fields } = seed;
+    const id = seed.id;
+    const user = this.getUser(seed.user_id)!;
+    const title = seed.title ?? `Playlist ${id}`;
+    const permalink = seed.permalink ?? slug(title);
+    const tracks = this.tracksById(trackIds);
+    return {
+      artwork_url: `https://i1.sndcdn.com/artworks-${id}-large.jpg`,
+      created_at: SEED_DATE,
+      description: "",
+      downloadable: false,
+      duration: tracks.reduce((total, track) => total + track.duration, 0),
+      ean: "",
+      embeddable_by: "all",
+      genre: "",
+      kind: "playlist",
+      label: null,
+      label_id: null,
+      label_name: "",
+      last_modified: SEED_DATE,
+      license: "all-rights-reserved",
+      likes_count: this.likersOf("playlist", id).length,
+      permalink,
+      permalink_url: `${user.permalink_url}/sets/${permalink}`,
+      playlist_type: "playlist",
+      purchase_title: "",
+      purchase_url: "",
+      release: "",
+      release_day: 1,
+      release_month: 1,
+      release_year: 2024,
+      sharing: "public",
+      streamable: true,
+      tag_list: "",
+      tags: null,
+      title,
+      track_count: tracks.length,
+      tracks_uri: `${API_HOST}/playlists/${id}/tracks`,
+      type: "playlist",
+      uri: `${API_HOST}/playlists/${id}`,
+      urn: `soundcloud:playlists:${id}`,
+      user_urn: user.urn,
+      ...fields,
+      tracks,
+      user,
+      user_id: seed.user_id,
+    };
+  }
+
+  private renderComment(seed: MockCommentSeed & { id: number }): SoundCloudComment {
+    const { track_id: trackId, user_id: userId, ...fields } = seed;
+    const user = this.getUser(userId)!;
+    return {
+      created_at: SEED_DATE,
+      kind: "comment",
+      timestamp: 0,
+      track_urn: `soundcloud:tracks:${trackId}`,
+      uri: `${API_HOST}/comments/${seed.id}`,
+      urn: `soundcloud:comments:${seed.id}`,
+      user_urn: user.urn,
+      ...fields,
+      user: {
+        avatar_url: user.avatar_url,
+        followers_count: user.followers_count,
+        followings_count: user.followings_count,
+        kind: user.kind,
+        last_modified: user.last_modified,
+        permalink: user.permalink,
+        permalink_url: user.permalink_url,
+        reposts_count: user.reposts_count,
+        uri: user.uri,
+        urn: user.urn,
+        username: user.username,
+      },
+    };
+  }
+
+  // ── Helpers ────────────────────────────────────────────────────────
+
+  private act(list: Action[], userId: number, kind: MockResourceKind, id: number): boolean {
+    this.requireUser(userId);
+    if (kind === "track") this.requireTrack(id);
+    else this.requirePlaylist(id);
+    if (list.some((a) => a.userId === userId && a.kind === kind && a.id === id)) return false;
+    list.push({ userId, kind, id });
+    return true;
+  }
+
+  private actedOn(list: Action[], userId: number, kind: MockResourceKind): number[] {
+    return list
+      .filter((a) => a.userId === userId && a.kind === kind)
+      .map((a) => a.id)
+      .reverse();
+  }
+
+  private actors(list: Action[], kind: MockResourceKind, id: number): SoundCloudUser[] {
+    return list
+      .filter((a) => a.kind === kind && a.id === id)
+      .map((a) => this.getUser(a.userId)!)
+      .reverse();
+  }
+
+  private target(seed: MockActionSeed): [MockResourceKind, number] {
+    if (seed.track_id !== undefined) return ["track", seed.track_id];
+    if (seed.playlist_id !== undefined) return ["playlist", seed.playlist_id];
+    throw new Error(`MockStore: action by user ${seed.user_id} needs a track_id or playlist_id`);
+  }
+
+  private seen(id: number): void {
+    this.lastId = Math.max(this.lastId, id);
+  }
+
+  private requireUser(id: number): void {
+    if (!this.users.has(id)) throw new Error(`MockStore: unknown user ${id}`);
+  }
+
+  private requireTrack(id: number): void {
+    if (!this.tracks.has(id)) throw new Error(`MockStore: unknown track ${id}`);
+  }
+
+  private requirePlaylist(id: number): void {
+    if (!this.playlists.has(id)) throw new Error(`MockStore: unknown playlist ${id}`);
+  }
+}
@@ -1,4 +1,4 @@
-import { scFetch } from "../client/http.js";
+import { scFetch, type MutationRetryOptions, type TransportOptions } from "../client/http.js";
 import type { SoundCloudPlaylist } from "../types/api.js";
 
 /**
@@ -42,6 +42,7 @@ export interface CreatePlaylistParams {
  *
  * @param token - OAuth access token
  * @param params - Playlist creation parameters (title is required)
+ * @param options - Optional transport settings such as a custom `fetch`, plus `idempotent` / `reconcile` retry controls
  * @returns The created playlist object
  * @throws {SoundCloudError} When the API returns an error
  *
@@ -62,10 +63,12 @@ export interface CreatePlaylistParams {
 export const createPlaylist = (
   token: string,
   params: CreatePlaylistParams,
+  options?: TransportOptions & MutationRetryOptions<SoundCloudPlaylist>,
 ): Promise<SoundCloudPlaylist> =>
   scFetch<SoundCloudPlaylist>({
     path: "/playlists",
     method: "POST",
     token,
     body: { playlist: params },
+    ...options,
   });
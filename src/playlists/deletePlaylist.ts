@@ -1,10 +1,11 @@
-import { scFetch } from "../client/http.js";
+import { scFetch, type TransportOptions } from "../client/http.js";
 
 /**
  * Delete a playlist.
  *
  * @param token - OAuth access token
  * @param playlistId - The playlist's numeric ID or URN
+ * @param options - Optional transport settings such as a custom `fetch`
  * @throws {SoundCloudError} When the API returns an error
  *
  * @example
@@ -16,5 +17,5 @@ import { scFetch } from "../client/http.js";
  *
  * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/playlists/delete_playlists__playlist_id_
  */
-export const deletePlaylist = (token: string, playlistId: string | number): Promise<void> =>
-  scFetch<void>({ path: `/playlists/${playlistId}`, method: "DELETE", token });
+export const deletePlaylist = (token: string, playlistId: string | number, options?: TransportOptions): Promise<void> =>
+  scFetch<void>({ path: `/playlists/${playlistId}`, method: "DELETE", token, ...options });
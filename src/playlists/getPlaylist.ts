@@ -1,4 +1,4 @@
-import { scFetch } from "../client/http.js";
+import { scFetch, type TransportOptions } from "../client/http.js";
 import type { SoundCloudPlaylist } from "../types/api.js";
 
 /**
@@ -6,6 +6,7 @@ import type { SoundCloudPlaylist } from "../types/api.js";
  *
  * @param token - OAuth access token
  * @param playlistId - The playlist's numeric ID or URN
+ * @param options - Optional transport settings such as a custom `fetch`
  * @returns The playlist object with track data
  * @throws {SoundCloudError} When the playlist is not found or the API returns an error
  *
@@ -19,5 +20,5 @@ import type { SoundCloudPlaylist } from "../types/api.js";
  *
  * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/playlists/get_playlists__playlist_id_
  */
-export const getPlaylist = (token: string, playlistId: string | number): Promise<SoundCloudPlaylist> =>
-  scFetch<SoundCloudPlaylist>({ path: `/playlists/${playlistId}`, method: "GET", token });
+export const getPlaylist = (token: string, playlistId: string | number, options?: TransportOptions): Promise<SoundCloudPlaylist> =>
+  scFetch<SoundCloudPlaylist>({ path: `/playlists/${playlistId}`, method: "GET", token, ...options });
@@ -1,4 +1,4 @@
-import { scFetch } from "../client/http.js";
+import { scFetch, type TransportOptions } from "../client/http.js";
 import type { SoundCloudTrack, SoundCloudPaginatedResponse } from "../types/api.js";
 
 /**
@@ -8,6 +8,7 @@ import type { SoundCloudTrack, SoundCloudPaginatedResponse } from "../types/api.
  * @param playlistId - The playlist's numeric ID or URN
  * @param limit - Maximum number of tracks per page
  * @param offset - Number of tracks to skip (for offset-based pagination)
+ * @param options - Optional transport settings such as a custom `fetch`
  * @returns Paginated list of tracks
  * @throws {SoundCloudError} When the API returns an error
  *
@@ -21,5 +22,5 @@ import type { SoundCloudTrack, SoundCloudPaginatedResponse } from "../types/api.
  *
  * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/playlists/get_playlists__playlist_id__tracks
  */
-export const getPlaylistTracks = (token: string, playlistId: string | number, limit?: number, offset?: number): Promise<SoundCloudPaginatedResponse<SoundCloudTrack>> =>
-  scFetch({ path: `/playlists/${playlistId}/tracks?${limit ? `limit=${limit}&` : ""}linked_partitioning=true${offset ? `&offset=${offset}` : ""}`, method: "GET", token });
+export const getPlaylistTracks = (token: string, playlistId: string | number, limit?: number, offset?: number, options?: TransportOptions): Promise<SoundCloudPaginatedResponse<SoundCloudTrack>> =>
+  scFetch({ path: `/playlists/${playlistId}/tracks?${limit ? `limit=${limit}&` : ""}linked_partitioning=true${offset ? `&offset=${offset}` : ""}`, method: "GET", token, ...options });
@@ -1,4 +1,4 @@
-import { scFetch } from "../client/http.js";
+import { scFetch, type TransportOptions } from "../client/http.js";
 import type { SoundCloudPlaylist } from "../types/api.js";
 
 /**
@@ -43,6 +43,7 @@ export interface UpdatePlaylistParams {
  * @param token - OAuth access token
  * @param playlistId - The playlist's numeric ID or URN
  * @param params - Fields to update
+ * @param options - Optional transport settings such as a custom `fetch`
  * @returns The updated playlist object
  * @throws {SoundCloudError} When the API returns an error
  *
@@ -62,10 +63,12 @@ export const updatePlaylist = (
   token: string,
   playlistId: string | number,
   params: UpdatePlaylistParams,
+  options?: TransportOptions,
 ): Promise<SoundCloudPlaylist> =>
   scFetch<SoundCloudPlaylist>({
     path: `/playlists/${playlistId}`,
     method: "PUT",
     token,
     body: { playlist: params },
+    ...options,
   });
@@ -1,11 +1,14 @@
-import { scFetch } from "../client/http.js";
+import { scFetch, type TransportOptions } from "../client/http.js";
+import { falseUnlessAborted } from "../client/abort.js";
 
 /**
  * Repost a track to your profile.
  *
  * @param token - OAuth access token
  * @param trackId - The track's numeric ID or URN
+ * @param options - Optional transport settings such as a custom `fetch`
  * @returns `true` if the repost was successful, `false` on failure
+ * @throws {SoundCloudAbortError} When the call is cancelled or times out
  *
  * @example
  * ```ts
@@ -16,8 +19,8 @@ import { scFetch } from "../client/http.js";
  *
  * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/reposts/post_reposts_tracks__track_id_
  */
-export const repostTrack = async (token: string, trackId: string | number): Promise<boolean> => {
-  try { await scFetch<unknown>({ path: `/reposts/tracks/${trackId}`, method: "POST", token }); return true; } catch { return false; }
+export const repostTrack = async (token: string, trackId: string | number, options?: TransportOptions): Promise<boolean> => {
+  try { await scFetch<unknown>({ path: `/reposts/tracks/${trackId}`, method: "POST", token, ...options }); return true; } catch (err) { return falseUnlessAborted(err); }
 };
 
 /**
@@ -25,7 +28,9 @@ export const repostTrack = async (token: string, trackId: string | number): Prom
  *
  * @param token - OAuth access token
  * @param trackId - The track's numeric ID or URN
+ * @param options - Optional transport settings such as a custom `fetch`
  * @returns `true` if the unrepost was successful, `false` on failure
+ * @throws {SoundCloudAbortError} When the call is cancelled or times out
  *
  * @example
  * ```ts
@@ -36,8 +41,8 @@ export const repostTrack = async (token: string, trackId: string | number): Prom
  *
  * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/reposts/delete_reposts_tracks__track_id_
  */
-export const unrepostTrack = async (token: string, trackId: string | number): Promise<boolean> => {
-  try { await scFetch<unknown>({ path: `/reposts/tracks/${trackId}`, method: "DELETE", token }); return true; } catch { return false; }
+export const unrepostTrack = async (token: string, trackId: string | number, options?: TransportOptions): Promise<boolean> => {
+  try { await scFetch<unknown>({ path: `/reposts/tracks/${trackId}`, method: "DELETE", token, ...options }); return true; } catch (err) { return falseUnlessAborted(err); }
 };
 
 /**
@@ -45,7 +50,9 @@ export const unrepostTrack = async (token: string, trackId: string | number): Pr
  *
  * @param token - OAuth access token
  * @param playlistId - The playlist's numeric ID or URN
+ * @param options - Optional transport settings such as a custom `fetch`
  * @returns `true` if the repost was successful, `false` on failure
+ * @throws {SoundCloudAbortError} When the call is cancelled or times out
  *
  * @example
  * ```ts
@@ -56,8 +63,8 @@ export const unrepostTrack = async (token: string, trackId: string | number): Pr
  *
  * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/reposts/post_reposts_playlists__playlist_id_
  */
-export const repostPlaylist = async (token: string, playlistId: string | number): Promise<boolean> => {
-  try { await scFetch<unknown>({ path: `/reposts/playlists/${playlistId}`, method: "POST", token }); return true; } catch { return false; }
+export const repostPlaylist = async (token: string, playlistId: string | number, options?: TransportOptions): Promise<boolean> => {
+  try { await scFetch<unknown>({ path: `/reposts/playlists/${playlistId}`, method: "POST", token, ...options }); return true; } catch (err) { return falseUnlessAborted(err); }
 };
 
 /**
@@ -65,7 +72,9 @@ export const repostPlaylist = async (token: string, playlistId: string | number)
  *
  * @param token - OAuth access token
  * @param playlistId - The playlist's numeric ID or URN
+ * @param options - Optional transport settings such as a custom `fetch`
  * @returns `true` if the unrepost was successful, `false` on failure
+ * @throws {SoundCloudAbortError} When the call is cancelled or times out
  *
  * @example
  * ```ts
@@ -76,6 +85,6 @@ export const repostPlaylist = async (token: string, playlistId: string | number)
  *
  * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/reposts/delete_reposts_playlists__playlist_id_
  */
-export const unrepostPlaylist = async (token: string, playlistId: string | number): Promise<boolean> => {
-  try { await scFetch<unknown>({ path: `/reposts/playlists/${playlistId}`, method: "DELETE", token }); return true; } catch { return false; }
+export const unrepostPlaylist = async (token: string, playlistId: string | number, options?: TransportOptions): Promise<boolean> => {
+  try { await scFetch<unknown>({ path: `/reposts/playlists/${playlistId}`, method: "DELETE", token, ...options }); return true; } catch (err) { return falseUnlessAborted(err); }
 };
@@ -1,4 +1,4 @@
-import { scFetch } from "../client/http.js";
+import { scFetch, type TransportOptions } from "../client/http.js";
 
 /**
  * Resolve a SoundCloud URL to its API resource URL.
@@ -7,6 +7,7 @@ import { scFetch } from "../client/http.js";
  *
  * @param token - OAuth access token
  * @param url - A SoundCloud URL (e.g. "https://soundcloud.com/artist/track-name")
+ * @param options - Optional transport settings such as a custom `fetch`
  * @returns The resolved API resource URL
  * @throws {SoundCloudError} When the URL cannot be resolved
  *
@@ -20,5 +21,5 @@ import { scFetch } from "../client/http.js";
  *
  * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/resolve/get_resolve
  */
-export const resolveUrl = (token: string, url: string): Promise<string> =>
-  scFetch<string>({ path: `/resolve?url=${encodeURIComponent(url)}`, method: "GET", token });
+export const resolveUrl = (token: string, url: string, options?: TransportOptions): Promise<string> =>
+  scFetch<string>({ path: `/resolve?url=${encodeURIComponent(url)}`, method: "GET", token, ...options });
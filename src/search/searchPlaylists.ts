@@ -1,4 +1,4 @@
-import { scFetch } from "../client/http.js";
+import { scFetch, type TransportOptions } from "../client/http.js";
 import type { SoundCloudPlaylist, SoundCloudPaginatedResponse } from "../types/api.js";
 
 /**
@@ -7,6 +7,7 @@ import type { SoundCloudPlaylist, SoundCloudPaginatedResponse } from "../types/a
  * @param token - OAuth access token
  * @param query - Search query text
  * @param pageNumber - Zero-based page number (10 results per page)
+ * @param options - Optional transport settings such as a custom `fetch`
  * @returns Paginated list of matching playlists
  * @throws {SoundCloudError} When the API returns an error
  *
@@ -20,5 +21,5 @@ import type { SoundCloudPlaylist, SoundCloudPaginatedResponse } from "../types/a
  *
  * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/playlists/get_playlists
  */
-export const searchPlaylists = (token: string, query: string, pageNumber?: number): Promise<SoundCloudPaginatedResponse<SoundCloudPlaylist>> =>
-  scFetch({ path: `/playlists?q=${encodeURIComponent(query)}&linked_partitioning=true&limit=10${pageNumber && pageNumber > 0 ? `&offset=${10 * pageNumber}` : ""}`, method: "GET", token });
+export const searchPlaylists = (token: string, query: string, pageNumber?: number, options?: TransportOptions): Promise<SoundCloudPaginatedResponse<SoundCloudPlaylist>> =>
+  scFetch({ path: `/playlists?q=${encodeURIComponent(query)}&linked_partitioning=true&limit=10${pageNumber && pageNumber > 0 ? `&offset=${10 * pageNumber}` : ""}`, method: "GET", token, ...options });
@@ -1,4 +1,4 @@
-import { scFetch } from "../client/http.js";
+import { scFetch, type TransportOptions } from "../client/http.js";
 import type { SoundCloudTrack, SoundCloudPaginatedResponse } from "../types/api.js";
 
 /**
@@ -7,6 +7,7 @@ import type { SoundCloudTrack, SoundCloudPaginatedResponse } from "../types/api.
  * @param token - OAuth access token
  * @param query - Search query text
  * @param pageNumber - Zero-based page number (10 results per page)
+ * @param options - Optional transport settings such as a custom `fetch`
  * @returns Paginated list of matching tracks
  * @throws {SoundCloudError} When the API returns an error
  *
@@ -20,5 +21,5 @@ import type { SoundCloudTrack, SoundCloudPaginatedResponse } from "../types/api.
  *
  * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/tracks/get_tracks
  */
-export const searchTracks = (token: string, query: string, pageNumber?: number): Promise<SoundCloudPaginatedResponse<SoundCloudTrack>> =>
-  scFetch({ path: `/tracks?q=${encodeURIComponent(query)}&linked_partitioning=true&limit=10${pageNumber && pageNumber > 0 ? `&offset=${10 * pageNumber}` : ""}`, method: "GET", token });
+export const searchTracks = (token: string, query: string, pageNumber?: number, options?: TransportOptions): Promise<SoundCloudPaginatedResponse<SoundCloudTrack>> =>
+  scFetch({ path: `/tracks?q=${encodeURIComponent(query)}&linked_partitioning=true&limit=10${pageNumber && pageNumber > 0 ? `&offset=${10 * pageNumber}` : ""}`, method: "GET", token, ...options });
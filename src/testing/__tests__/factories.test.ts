@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildActivities,
+  buildActivity,
+  buildComment,
+  buildMe,
+  buildPage,
+  buildPlaylist,
+  buildTrack,
+  buildUser,
+} from "../factories.js";
+import { paginateItems } from "../../client/paginate.js";
+
+describe("fixture factories", () => {
+  it("are deterministic per seed and vary across seeds", () => {
+    expect(buildTrack({}, 3)).toEqual(buildTrack({}, 3));
+    expect(buildTrack({ id: 3 })).toEqual(buildTrack({}, 3));
+    expect(buildUser({ id: 1 }).username).not.toBe(buildUser({ id: 2 }).username);
+    expect(buildTrack({ id: 1 }).title).not.toBe(buildTrack({ id: 4 }).title);
+  });
+
+  it("populate every field consistently", () => {
+    const user = buildUser({ id: 9, username: "Night Owl" });
+    expect(user).toMatchObject({ id: 9, urn: "soundcloud:users:9", permalink: "night-owl-9", permalink_url: "https://soundcloud.com/night-owl-9", kind: "user" });
+
+    const track = buildTrack({ id: 5, user, title: "Moon Walk" });
+    expect(track).toMatchObject({ id: 5, urn: "soundcloud:tracks:5", user, permalink_url: "https://soundcloud.com/night-owl-9/moon-walk", kind: "track" });
+    expect(Object.values(track)).not.toContain(undefined);
+
+    const me = buildMe({ id: 9 });
+    expect(me.username).toBe(buildUser({ id: 9 }).username);
+    expect(me.quota.upload_seconds_left).toBe(me.upload_seconds_left);
+  });
+
+  it("let overrides win over generated values", () => {
+    expect(buildUser({ followers_count: 1_000_000 }).followers_count).toBe(1_000_000);
+    expect(buildMe({ locale: "de" }).locale).toBe("de");
+    expect(buildComment({ body: "first" }, 2)).toMatchObject({ id: 2, body: "first", kind: "comment" });
+  });
+
+  it("derive playlist totals from its tracks", () => {
+    const tracks = [buildTrack({ id: 1, duration: 1000 }), buildTrack({ id: 2, duration: 2500 })];
+    const playlist = buildPlaylist({ id: 7, tracks });
+    expect(playlist).toMatchObject({ id: 7, track_count: 2, duration: 3500, user_id: playlist.user.id });
+    expect(buildPlaylist().tracks).toHaveLength(3);
+    expect(buildPlaylist({ tracks, track_count: 40 }).track_count).toBe(40);
+  });
+
+  it("build activities and pages that paginate", async () => {
+    const playlist = buildPlaylist({ id: 3 });
+    expect(buildActivity({ origin: playlist })).toMatchObject({ type: "playlist", origin: playlist, created_at: playlist.created_at });
+    expect(buildActivities().collection.map((a) => a.type)).toEqual(["track", "track", "track"]);
+
+    const pages = { next: buildPage([buildTrack({ id: 2 })]) };
+    const first = buildPage([buildTrack({ id: 1 })], "https://api.soundcloud.com/next");
+    const ids = [];
+    for await (const track of paginateItems(() => Promise.resolve(first), () => Promise.resolve(pages.next))) ids.push(track.id);
+    expect(ids).toEqual([1, 2]);
+  });
+});
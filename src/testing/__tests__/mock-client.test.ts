@@ -0,0 +1,59 @@
+import { describe, it, expect, vi } from "vitest";
+import { createMockClient } from "../mock-client.js";
+import { buildMe, buildPage, buildTrack } from "../factories.js";
+import { SoundCloudClient } from "../../client/SoundCloudClient.js";
+
+/** Stand-in for application code that takes a client */
+async function loadTitle(sc: SoundCloudClient, id: number): Promise<string> {
+  return (await sc.tracks.getTrack(id)).title;
+}
+
+describe("createMockClient", () => {
+  it("stubs namespace methods with initial implementations and records calls", async () => {
+    const sc = createMockClient({ tracks: { getTrack: async (id) => buildTrack({ id: Number(id), title: "Strobe" }) } });
+    expect(sc).toBeInstanceOf(SoundCloudClient);
+
+    await expect(loadTitle(sc, 42)).resolves.toBe("Strobe");
+    expect(sc.tracks.getTrack.calls).toEqual([[42]]);
+  });
+
+  it("configures answers per call, for all calls and as failures", async () => {
+    const sc = createMockClient();
+    sc.me.getMe.returnsOnce(buildMe({ id: 1 })).returns(buildMe({ id: 2 }));
+    expect((await sc.me.getMe()).id).toBe(1);
+    expect((await sc.me.getMe()).id).toBe(2);
+
+    sc.likes.likeTrack.throws(new Error("boom"));
+    await expect(sc.likes.likeTrack(1)).rejects.toThrow("boom");
+
+    const spy = vi.fn().mockResolvedValue("https://api.soundcloud.com/tracks/1");
+    sc.resolve.resolveUrl.implement(spy);
+    await expect(sc.resolve.resolveUrl("https://soundcloud.com/a/b")).resolves.toBe("https://api.soundcloud.com/tracks/1");
+    expect(spy).toHaveBeenCalledWith("https://soundcloud.com/a/b");
+  });
+
+  it("rejects calls to methods that were not stubbed", async () => {
+    const sc = createMockClient();
+    await expect(sc.playlists.create({ title: "x" })).rejects.toThrow("createMockClient: playlists.create was called but not stubbed");
+    expect(() => sc.auth.getAuthorizationUrl()).toThrow("auth.getAuthorizationUrl");
+    expect(() => sc.auth.createFlow()).toThrow("auth.createFlow");
+    await expect(sc.raw.get("/me")).rejects.toThrow("no network access");
+  });
+
+  it("works with pagination helpers and withResponse", async () => {
+    const sc = createMockClient();
+    sc.search.tracks.returns(buildPage([buildTrack({ id: 1 }), buildTrack({ id: 2 })]));
+    expect((await sc.fetchAll(() => sc.search.tracks("lofi"))).map((t) => t.id)).toEqual([1, 2]);
+
+    sc.tracks.getTrack.returns(buildTrack({ id: 3 }));
+    await expect(sc.tracks.withResponse().getTrack(3)).resolves.toMatchObject({ data: { id: 3 }, status: 200 });
+  });
+
+  it("resets every stub", async () => {
+    const sc = createMockClient({ users: { getUser: async () => buildTrack().user } });
+    await sc.users.getUser(1);
+    sc.resetMocks();
+    expect(sc.users.getUser.calls).toEqual([]);
+    await expect(sc.users.getUser(1)).rejects.toThrow("not stubbed");
+  });
+});
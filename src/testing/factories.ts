@@ -0,0 +1,350 @@
+import type {
+  SoundCloudActivitiesResponse,
+  SoundCloudActivity,
+  SoundCloudComment,
+  SoundCloudMe,
+  SoundCloudPaginatedResponse,
+  SoundCloudPlaylist,
+  SoundCloudTrack,
+  SoundCloudUser,
+} from "../types/api.js";
+
+const FIRST_NAMES = ["Alex", "Sam", "Robin", "Kai", "Noa", "Jules", "Mika", "Rene", "Toni", "Lou"];
+const LAST_NAMES = ["Berg", "Costa", "Dubois", "Evans", "Fischer", "Garcia", "Hansen", "Ito", "Jensen", "Kowalski"];
+const CITIES = ["Berlin", "London", "Lagos", "Toronto", "Melbourne", "Seoul", "Lisbon", "Austin", "Oslo", "Mexico City"];
+const COUNTRIES = ["Germany", "United Kingdom", "Nigeria", "Canada", "Australia", "South Korea", "Portugal", "United States", "Norway", "Mexico"];
+const GENRES = ["Electronic", "Hip-hop & Rap", "House", "Techno", "Ambient", "Lo-fi", "Drum & Bass", "Jazz", "Pop", "Indie"];
+const ADJECTIVES = ["Midnight", "Golden", "Quiet", "Neon", "Hollow", "Velvet", "Electric", "Distant", "Broken", "Endless"];
+const NOUNS = ["Drive", "Signals", "Tides", "Echoes", "Garden", "Skyline", "Motion", "Letters", "Static", "Summer"];
+const COMMENTS = ["🔥🔥🔥", "this drop though", "on repeat", "love the vocals", "where can I buy this?", "so smooth", "tune!", "underrated"];
+
+const API_HOST = "https://api.soundcloud.com";
+const WEB_HOST = "https://soundcloud.com";
+const EPOCH = Date.UTC(2023, 0, 1);
+const DAY_MS = 86_400_000;
+
+/** Small seeded PRNG (mulberry32), so the same seed always produces the same fixture */
+function random(seed: number) {
+  let state = (Math.imul(seed, 0x9e3779b1) ^ 0x5bd1e995) >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    int: (min: number, max: number) => min + Math.floor(next() * (max - min + 1)),
+    pick: <T>(items: readonly T[]) => items[Math.floor(next() * items.length)],
+    date: () => new Date(EPOCH + Math.floor(next() * 365) * DAY_MS + Math.floor(next() * DAY_MS / 1000) * 1000).toISOString(),
+  };
+}
+
+const slug = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+
+/** The seed of a fixture: explicit, or its `id` override, or 1 */
+const seedOf = (overrides: { id?: number }, seed?: number) => seed ?? overrides.id ?? 1;
+
+/**
+ * Build a fully-populated {@link SoundCloudUser}.
+ *
+ * Every field is derived from `seed` (default: `overrides.id`, else 1), so the same seed always
+ * yields the same user and different seeds yield different ones. `overrides` replace fields as given.
+ *
+ * @param overrides - Fields to set explicitly
+ * @param seed - Determines the generated values and, unless overridden, the id
+ * @returns A user object
+ *
+ * @example
+ * ```ts
+ * const artist = buildUser({ username: 'deadmau5', followers_count: 1_000_000 });
+ * const others = [2, 3, 4].map((id) => buildUser({ id }));
+ * ```
+ */
+export function buildUser(overrides: Partial<SoundCloudUser> = {}, seed?: number): SoundCloudUser {
+  const s = seedOf(overrides, seed);
+  const rng = random(s);
+  const id = overrides.id ?? s;
+  const first = rng.pick(FIRST_NAMES);
+  const last = rng.pick(LAST_NAMES);
+  const username = overrides.username ?? `${first} ${last}`;
+  const permalink = overrides.permalink ?? `${slug(username)}-${id}`;
+  const location = rng.int(0, CITIES.length - 1);
+  const createdAt = rng.date();
+  return {
+    avatar_url: `https://i1.sndcdn.com/avatars-000${id}-large.jpg`,
+    city: CITIES[location],
+    country: COUNTRIES[location],
+    created_at: createdAt,
+    description: `Music by ${username}`,
+    discogs_name: null,
+    first_name: first,
+    followers_count: rng.int(0, 50_000),
+    followings_count: rng.int(0, 2_000),
+    full_name: `${first} ${last}`,
+    id,
+    urn: `soundcloud:users:${id}`,
+    kind: "user",
+    last_modified: createdAt,
+    last_name: last,
+    likes_count: rng.int(0, 5_000),
+    online: false,
+    permalink,
+    permalink_url: `${WEB_HOST}/${permalink}`,
+    plan: "Free",
+    playlist_count: rng.int(0, 30),
+    public_favorites_count: rng.int(0, 5_000),
+    reposts_count: rng.int(0, 500),
+    subscriptions: [],
+    track_count: rng.int(0, 200),
+    uri: `${API_HOST}/users/${id}`,
+    username,
+    website: null,
+    website_title: null,
+    comments_count: rng.int(0, 1_000),
+    myspace_name: null,
+    ...overrides,
+  };
+}
+
+/**
+ * Build the authenticated user returned by `/me`: a {@link buildUser} plus the private fields.
+ *
+ * @param overrides - Fields to set explicitly
+ * @param seed - Determines the generated values and, unless overridden, the id
+ * @returns A `/me` object
+ */
+export function buildMe(overrides: Partial<SoundCloudMe> = {}, seed?: number): SoundCloudMe {
+  const s = seedOf(overrides, seed);
+  const rng = random(s + 7919);
+  const used = rng.int(0, 10_800);
+  return {
+    ...buildUser(overrides, s),
+    locale: "en",
+    primary_email_confirmed: true,
+    private_playlists_count: rng.int(0, 10),
+    private_tracks_count: rng.int(0, 10),
+    quota: { unlimited_upload_quota: false, upload_seconds_used: used, upload_seconds_left: 10_800 - used },
+    upload_seconds_left: 10_800 - used,
+    ...overrides,
+  };
+}
+
+/**
+ * Build a fully-populated {@link SoundCloudTrack} with an embedded uploader.
+ *
+ * @param overrides - Fields to set explicitly; pass `user` (e.g. from {@link buildUser}) to choose the uploader
+ * @param seed - Determines the generated values and, unless overridden, the id
+ * @returns A track object
+ *
+ * @example
+ * ```ts
+ * const artist = buildUser({ id: 7 });
+ * const tracks = [1, 2, 3].map((id) => buildTrack({ id, user: artist }));
+ * ```
+ */
+export function buildTrack(overrides: Partial<SoundCloudTrack> = {}, seed?: number): SoundCloudTrack {
+  const s = seedOf(overrides, seed);
+  const rng = random(s + 104_729);
+  const id = overrides.id ?? s;
+  const user = overrides.user ?? buildUser({}, rng.int(1, 10_000));
+  const title = overrides.title ?? `${rng.pick(ADJECTIVES)} ${rng.pick(NOUNS)}`;
+  const genre = rng.pick(GENRES);
+  const createdAt = rng.date();
+  return {
+    access: "playable",
+    artwork_url: `https://i1.sndcdn.com/artworks-000${id}-large.jpg`,
+    available_country_codes: null,
+    bpm: rng.int(70, 175),
+    comment_count: rng.int(0, 500),
+    commentable: true,
+    created_at: createdAt,
+    description: `${title} by ${user.username}`,
+    download_count: rng.int(0, 1_000),
+    download_url: `${API_HOST}/tracks/${id}/download`,
+    downloadable: false,
+    duration: rng.int(90, 420) * 1000,
+    embeddable_by: "all",
+    favoritings_count: rng.int(0, 20_000),
+    genre,
+    id,
+    isrc: null,
+    key_signature: null,
+    kind: "track",
+    label_name: "",
+    license: "all-rights-reserved",
+    metadata_artist: null,
+    monetization_model: null,
+    permalink_url: `${user.permalink_url}/${slug(title)}`,
+    playback_count: rng.int(0, 1_000_000),
+    policy: "ALLOW",
+    purchase_title: "",
+    purchase_url: "",
+    release: null,
+    release_day: Number(createdAt.slice(8, 10)),
+    release_month: Number(createdAt.slice(5, 7)),
+    release_year: Number(createdAt.slice(0, 4)),
+    reposts_count: rng.int(0, 2_000),
+    secret_uri: null,
+    sharing: "public",
+    stream_url: `${API_HOST}/tracks/${id}/stream`,
+    streamable: true,
+    tag_list: `"${genre}" ${slug(user.username)}`,
+    title,
+    uri: `${API_HOST}/tracks/${id}`,
+    urn: `soundcloud:tracks:${id}`,
+    user,
+    user_favorite: false,
+    user_playback_count: null,
+    waveform_url: `https://wave.sndcdn.com/${id}_m.png`,
+    ...overrides,
+  };
+}
+
+/**
+ * Build a fully-populated {@link SoundCloudPlaylist}. `track_count` and `duration` follow `tracks`
+ * (three generated tracks by default) unless overridden.
+ *
+ * @param overrides - Fields to set explicitly
+ * @param seed - Determines the generated values and, unless overridden, the id
+ * @returns A playlist object
+ */
+export function buildPlaylist(overrides: Partial<SoundCloudPlaylist> = {}, seed?: number): SoundCloudPlaylist {
+  const s = seedOf(overrides, seed);
+  const rng = random(s + 1_299_709);
+  const id = overrides.id ?? s;
+  const user = overrides.user ?? buildUser({}, rng.int(1, 10_000));
+  const tracks = overrides.tracks ?? [1, 2, 3].map(() => buildTrack({ user }, rng.int(1, 100_000)));
+  const title = overrides.title ?? `${rng.pick(ADJECTIVES)} ${rng.pick(NOUNS)} Mix`;
+  const permalink = overrides.permalink ?? slug(title);
+  const createdAt = rng.date();
+  return {
+    artwork_url: `https://i1.sndcdn.com/artworks-000${id}-large.jpg`,
+    created_at: createdAt,
+    description: "",
+    downloadable: false,
+    duration: tracks.reduce((total, track) => total + track.duration, 0),
+    ean: "",
+    embeddable_by: "all",
+    genre: rng.pick(GENRES),
+    id,
+    kind: "playlist",
+    label: null,
+    label_id: null,
+    label_name: "",
+    last_modified: createdAt,
+    license: "all-rights-reserved",
+    likes_count: rng.int(0, 5_000),
+    permalink,
+    permalink_url: `${user.permalink_url}/sets/${permalink}`,
+    playlist_type: "playlist",
+    purchase_title: "",
+    purchase_url: "",
+    release: "",
+    release_day: Number(createdAt.slice(8, 10)),
+    release_month: Number(createdAt.slice(5, 7)),
+    release_year: Number(createdAt.slice(0, 4)),
+    sharing: "public",
+    streamable: true,
+    tag_list: "",
+    tags: null,
+    title,
+    track_count: tracks.length,
+    tracks,
+    tracks_uri: `${API_HOST}/playlists/${id}/tracks`,
+    type: "playlist",
+    uri: `${API_HOST}/playlists/${id}`,
+    urn: `soundcloud:playlists:${id}`,
+    user,
+    user_id: user.id,
+    user_urn: user.urn,
+    ...overrides,
+  };
+}
+
+/**
+ * Build a fully-populated {@link SoundCloudComment}.
+ *
+ * @param overrides - Fields to set explicitly
+ * @param seed - Determines the generated values and, unless overridden, the id
+ * @returns A comment object
+ */
+export function buildComment(overrides: Partial<SoundCloudComment> = {}, seed?: number): SoundCloudComment {
+  const s = seedOf(overrides, seed);
+  const rng = random(s + 15_485_863);
+  const id = overrides.id ?? s;
+  const author = buildUser({}, rng.int(1, 10_000));
+  return {
+    body: rng.pick(COMMENTS),
+    created_at: rng.date(),
+    id,
+    kind: "comment",
+    timestamp: rng.int(0, 300) * 1000,
+    track_urn: `soundcloud:tracks:${rng.int(1, 100_000)}`,
+    uri: `${API_HOST}/comments/${id}`,
+    urn: `soundcloud:comments:${id}`,
+    user: {
+      avatar_url: author.avatar_url,
+      followers_count: author.followers_count,
+      followings_count: author.followings_count,
+      kind: author.kind,
+      last_modified: author.last_modified,
+      permalink: author.permalink,
+      permalink_url: author.permalink_url,
+      reposts_count: author.reposts_count,
+      uri: author.uri,
+      urn: author.urn,
+      username: author.username,
+    },
+    user_urn: author.urn,
+    ...overrides,
+  };
+}
+
+/**
+ * Build a {@link SoundCloudActivity} — a track upload by default, or whatever `origin` is given.
+ * The `type` follows the origin's `kind` unless overridden; keep the two consistent.
+ *
+ * @param overrides - Fields to set explicitly
+ * @param seed - Determines the generated origin and date
+ * @returns An activity object
+ */
+export function buildActivity(overrides: Partial<SoundCloudActivity> = {}, seed = 1): SoundCloudActivity {
+  const origin = overrides.origin ?? buildTrack({}, seed);
+  const activity: SoundCloudActivity =
+    origin.kind === "playlist"
+      ? { type: "playlist", created_at: origin.created_at, origin }
+      : { type: "track", created_at: origin.created_at, origin };
+  return { ...activity, ...overrides } as SoundCloudActivity;
+}
+
+/**
+ * Wrap items in a `linked_partitioning` page, as returned by every list endpoint.
+ *
+ * @param collection - Items of the page
+ * @param nextHref - Link to the next page (default: `""`, the last page)
+ * @returns A paginated response
+ *
+ * @example
+ * ```ts
+ * const first = buildPage([buildTrack({ id: 1 })], 'https://api.soundcloud.com/me/tracks?offset=1');
+ * const last = buildPage([buildTrack({ id: 2 })]);
+ * ```
+ */
+export function buildPage<T>(collection: T[], nextHref = ""): SoundCloudPaginatedResponse<T> {
+  return { collection, next_href: nextHref };
+}
+
+/**
+ * Wrap activities in an activity feed page (`/me/activities`).
+ *
+ * @param collection - Activities of the page (default: three generated track activities)
+ * @param nextHref - Link to the next page (default: `""`, the last page)
+ * @returns An activities response
+ */
+export function buildActivities(
+  collection: SoundCloudActivity[] = [1, 2, 3].map((seed) => buildActivity({}, seed)),
+  nextHref = "",
+): SoundCloudActivitiesResponse {
+  return { collection, next_href: nextHref, future_href: `${API_HOST}/me/activities?uuid[to]=fixture` };
+}
@@ -0,0 +1,12 @@
+export {
+  buildActivities,
+  buildActivity,
+  buildComment,
+  buildMe,
+  buildPage,
+  buildPlaylist,
+  buildTrack,
+  buildUser,
+} from "./factories.js";
+export { createMockClient } from "./mock-client.js";
+export type { MockClientStubs, MockedNamespace, MockMethod, MockNamespace, MockSoundCloudClient } from "./mock-client.js";
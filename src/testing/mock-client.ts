@@ -0,0 +1,193 @@
+import { SoundCloudClient, type SoundCloudClientConfig, type WithResponse } from "../client/SoundCloudClient.js";
+
+/** The namespaces of a {@link SoundCloudClient} that {@link createMockClient} stubs */
+export type MockedNamespace = "auth" | "me" | "users" | "tracks" | "playlists" | "search" | "resolve" | "likes" | "reposts";
+
+/** Any function; `never[]` parameters accept every signature without `any` */
+type AnyFunction = (...args: never[]) => unknown;
+
+/** A stub's untyped implementation, as stored at runtime */
+type StubFunction = (...args: unknown[]) => unknown;
+
+/** Public methods of a namespace, without `withResponse` */
+type NamespaceMethods<N> = {
+  [K in keyof N as K extends "withResponse" ? never : N[K] extends AnyFunction ? K : never]: N[K];
+};
+
+/**
+ * A stubbed namespace method. Calling it records the arguments and answers with whatever was
+ * configured; an unconfigured stub fails with an error naming the method, so unexpected calls surface.
+ */
+export interface MockMethod<F extends AnyFunction> {
+  (...args: Parameters<F>): ReturnType<F>;
+  /** Arguments of every call so far, in order */
+  readonly calls: Parameters<F>[];
+  /** Answer every call with `value` (resolved, for async methods) */
+  returns(value: Awaited<ReturnType<F>>): this;
+  /** Answer the next call with `value`; queued answers are used before {@link MockMethod.returns} */
+  returnsOnce(value: Awaited<ReturnType<F>>): this;
+  /** Fail every call with `error` (rejected, for async methods) */
+  throws(error: unknown): this;
+  /** Answer calls with a custom implementation, e.g. a `vi.fn()` */
+  implement(fn: F): this;
+  /** Forget recorded calls and configured answers */
+  reset(): this;
+}
+
+/** A namespace whose methods are all {@link MockMethod} stubs */
+export type MockNamespace<N> = {
+  [K in keyof NamespaceMethods<N>]: NamespaceMethods<N>[K] extends AnyFunction ? MockMethod<NamespaceMethods<N>[K]> : never;
+} & {
+  /** Calls the same stubs and wraps their answers in a 200 `SCResponse` */
+  withResponse(): N extends object ? WithResponse<N> : never;
+};
+
+/** Implementations for {@link createMockClient}, per namespace and method */
+export type MockClientStubs = {
+  [K in MockedNamespace]?: Partial<NamespaceMethods<SoundCloudClient[K]>>;
+};
+
+/**
+ * A real {@link SoundCloudClient} — assignable wherever one is expected — whose namespace methods are stubs.
+ */
+export type MockSoundCloudClient = SoundCloudClient & {
+  [K in MockedNamespace]: SoundCloudClient[K] & MockNamespace<SoundCloudClient[K]>;
+} & {
+  /** Reset every stub of every namespace */
+  resetMocks(): void;
+};
+
+const NAMESPACE_CLASSES = {
+  auth: SoundCloudClient.Auth,
+  me: SoundCloudClient.Me,
+  users: SoundCloudClient.Users,
+  tracks: SoundCloudClient.Tracks,
+  playlists: SoundCloudClient.Playlists,
+  search: SoundCloudClient.Search,
+  resolve: SoundCloudClient.Resolve,
+  likes: SoundCloudClient.Likes,
+  reposts: SoundCloudClient.Reposts,
+} as const;
+
+/** The namespace methods that are not async */
+const SYNC_METHODS = new Set(["auth.getAuthorizationUrl", "auth.createFlow"]);
+
+/** Prototype members that are not part of a namespace's public API */
+const INTERNAL_MEMBERS = new Set(["constructor", "fetch", "withResponse"]);
+
+function createMockMethod(name: string, sync: boolean): MockMethod<StubFunction> {
+  let fallback: StubFunction | undefined;
+  let queue: StubFunction[] = [];
+  const calls: unknown[][] = [];
+
+  const stub = ((...args: unknown[]) => {
+    calls.push(args);
+    const answer = queue.shift() ?? fallback;
+    if (sync) {
+      if (!answer) throw new Error(`createMockClient: ${name} was called but not stubbed`);
+      return answer(...args);
+    }
+    if (!answer) return Promise.reject(new Error(`createMockClient: ${name} was called but not stubbed`));
+    try {
+      return Promise.resolve(answer(...args));
+    } catch (error) {
+      return Promise.reject(error);
+    }
+  }) as MockMethod<StubFunction>;
+
+  Object.defineProperty(stub, "calls", { get: () => calls });
+  stub.returns = (value) => {
+    fallback = () => value;
+    return stub;
+  };
+  stub.returnsOnce = (value) => {
+    queue.push(() => value);
+    return stub;
+  };
+  stub.throws = (error) => {
+    fallback = () => {
+      throw error;
+    };
+    return stub;
+  };
+  stub.implement = (fn) => {
+    fallback = fn;
+    return stub;
+  };
+  stub.reset = () => {
+    fallback = undefined;
+    queue = [];
+    calls.length = 0;
+    return stub;
+  };
+  return stub;
+}
+
+/**
+ * Create a {@link SoundCloudClient} whose namespace methods (`sc.tracks.getTrack`, `sc.me.getMe`,
+ * `sc.auth.getClientToken`, ...) are stubs, for unit-testing code that depends on the client.
+ *
+ * Stubs record their calls and answer with configured values; an unconfigured stub rejects with
+ * an error naming the method. Everything else is the real client, so `setToken`, `paginate` and
+ * `fetchAll` work with stubbed first pages. The client never touches the network — its `fetch`
+ * rejects, so `sc.raw` and `next_href` requests fail unless `config.fetch` is given.
+ *
+ * @param stubs - Initial implementations, per namespace and method
+ * @param config - Client options (default: placeholder credentials)
+ * @returns The client with stubbed namespaces
+ *
+ * @example
+ * ```ts
+ * import { createMockClient, buildTrack, buildPage } from 'soundcloud-api-ts/testing';
+ *
+ * const sc = createMockClient({
+ *   tracks: { getTrack: async (id) => buildTrack({ id: Number(id), title: 'Strobe' }) },
+ * });
+ * sc.search.tracks.returns(buildPage([buildTrack({ id: 1 })]));
+ *
+ * await renderTrackPage(sc, 42);
+ * expect(sc.tracks.getTrack.calls).toEqual([[42]]);
+ * ```
+ */
+export function createMockClient(stubs: MockClientStubs = {}, config: Partial<SoundCloudClientConfig> = {}): MockSoundCloudClient {
+  const client = new SoundCloudClient({
+    clientId: "mock-client-id",
+    clientSecret: "mock-client-secret",
+    fetch: (input) => Promise.reject(new Error(`createMockClient: no network access (${String(input)})`)),
+    ...config,
+  });
+
+  const all: MockMethod<StubFunction>[] = [];
+  for (const [key, namespaceClass] of Object.entries(NAMESPACE_CLASSES)) {
+    const namespace: Record<string, unknown> = {};
+    for (const name of Object.getOwnPropertyNames(namespaceClass.prototype)) {
+      if (INTERNAL_MEMBERS.has(name)) continue;
+      const stub = createMockMethod(`${key}.${name}`, SYNC_METHODS.has(`${key}.${name}`));
+      const initial = (stubs[key as MockedNamespace] as Record<string, StubFunction> | undefined)?.[name];
+      if (initial) stub.implement(initial);
+      namespace[name] = stub;
+      all.push(stub);
+    }
+    namespace.withResponse = () =>
+      new Proxy(
+        {},
+        {
+          get: (_target, name) => async (...args: unknown[]) => ({
+            data: await (namespace[name as string] as StubFunction)(...args),
+            status: 200,
+            headers: {},
+            retryCount: 0,
+            durationMs: 0,
+          }),
+        },
+      );
+    Object.defineProperty(client, key, { value: namespace, enumerable: true });
+  }
+
+  Object.defineProperty(client, "resetMocks", {
+    value: () => {
+      for (const stub of all) stub.reset();
+    },
+  });
+  return client as MockSoundCloudClient;
+}
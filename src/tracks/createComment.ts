@@ -1,4 +1,4 @@
-import { scFetch } from "../client/http.js";
+import { scFetch, type MutationRetryOptions, type TransportOptions } from "../client/http.js";
 import type { SoundCloudComment } from "../types/api.js";
 
 /**
@@ -8,6 +8,7 @@ import type { SoundCloudComment } from "../types/api.js";
  * @param trackId - The track's numeric ID or URN
  * @param body - The comment text
  * @param timestamp - Position in the track in milliseconds where the comment is placed
+ * @param options - Optional transport settings such as a custom `fetch`, plus `idempotent` / `reconcile` retry controls
  * @returns The created comment object
  * @throws {SoundCloudError} When the API returns an error
  *
@@ -26,10 +27,12 @@ export const createTrackComment = (
   trackId: string | number,
   body: string,
   timestamp?: number,
+  options?: TransportOptions & MutationRetryOptions<SoundCloudComment>,
 ): Promise<SoundCloudComment> =>
   scFetch<SoundCloudComment>({
     path: `/tracks/${trackId}/comments`,
     method: "POST",
     token,
     body: { comment: { body, ...(timestamp !== undefined ? { timestamp } : {}) } },
+    ...options,
   });
@@ -1,10 +1,11 @@
-import { scFetch } from "../client/http.js";
+import { scFetch, type TransportOptions } from "../client/http.js";
 
 /**
  * Delete a track.
  *
  * @param token - OAuth access token
  * @param trackId - The track's numeric ID or URN
+ * @param options - Optional transport settings such as a custom `fetch`
  * @throws {SoundCloudError} When the API returns an error
  *
  * @example
@@ -16,5 +17,5 @@ import { scFetch } from "../client/http.js";
  *
  * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/tracks/delete_tracks__track_id_
  */
-export const deleteTrack = (token: string, trackId: string | number): Promise<void> =>
-  scFetch<void>({ path: `/tracks/${trackId}`, method: "DELETE", token });
+export const deleteTrack = (token: string, trackId: string | number, options?: TransportOptions): Promise<void> =>
+  scFetch<void>({ path: `/tracks/${trackId}`, method: "DELETE", token, ...options });
@@ -1,4 +1,4 @@
-import { scFetch } from "../client/http.js";
+import { scFetch, type TransportOptions } from "../client/http.js";
 import type { SoundCloudComment, SoundCloudPaginatedResponse } from "../types/api.js";
 
 /**
@@ -7,6 +7,7 @@ import type { SoundCloudComment, SoundCloudPaginatedResponse } from "../types/ap
  * @param token - OAuth access token
  * @param trackId - The track's numeric ID or URN
  * @param limit - Maximum number of comments per page
+ * @param options - Optional transport settings such as a custom `fetch`
  * @returns Paginated list of comments
  * @throws {SoundCloudError} When the API returns an error
  *
@@ -20,5 +21,5 @@ import type { SoundCloudComment, SoundCloudPaginatedResponse } from "../types/ap
  *
  * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/tracks/get_tracks__track_id__comments
  */
-export const getTrackComments = (token: string, trackId: string | number, limit?: number): Promise<SoundCloudPaginatedResponse<SoundCloudComment>> =>
-  scFetch({ path: `/tracks/${trackId}/comments?threaded=1&filter_replies=0${limit ? `&limit=${limit}` : ""}&linked_partitioning=true`, method: "GET", token });
+export const getTrackComments = (token: string, trackId: string | number, limit?: number, options?: TransportOptions): Promise<SoundCloudPaginatedResponse<SoundCloudComment>> =>
+  scFetch({ path: `/tracks/${trackId}/comments?threaded=1&filter_replies=0${limit ? `&limit=${limit}` : ""}&linked_partitioning=true`, method: "GET", token, ...options });
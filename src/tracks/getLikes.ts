@@ -1,4 +1,4 @@
-import { scFetch } from "../client/http.js";
+import { scFetch, type TransportOptions } from "../client/http.js";
 import type { SoundCloudUser, SoundCloudPaginatedResponse } from "../types/api.js";
 
 /**
@@ -7,6 +7,7 @@ import type { SoundCloudUser, SoundCloudPaginatedResponse } from "../types/api.j
  * @param token - OAuth access token
  * @param trackId - The track's numeric ID or URN
  * @param limit - Maximum number of users per page
+ * @param options - Optional transport settings such as a custom `fetch`
  * @returns Paginated list of users who liked the track
  * @throws {SoundCloudError} When the API returns an error
  *
@@ -20,5 +21,5 @@ import type { SoundCloudUser, SoundCloudPaginatedResponse } from "../types/api.j
  *
  * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/tracks/get_tracks__track_id__favoriters
  */
-export const getTrackLikes = (token: string, trackId: string | number, limit?: number): Promise<SoundCloudPaginatedResponse<SoundCloudUser>> =>
-  scFetch({ path: `/tracks/${trackId}/favoriters?${limit ? `limit=${limit}&` : ""}linked_partitioning=true`, method: "GET", token });
+export const getTrackLikes = (token: string, trackId: string | number, limit?: number, options?: TransportOptions): Promise<SoundCloudPaginatedResponse<SoundCloudUser>> =>
+  scFetch({ path: `/tracks/${trackId}/favoriters?${limit ? `limit=${limit}&` : ""}linked_partitioning=true`, method: "GET", token, ...options });
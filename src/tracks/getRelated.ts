@@ -1,4 +1,4 @@
-import { scFetch } from "../client/http.js";
+import { scFetch, type TransportOptions } from "../client/http.js";
 import type { SoundCloudTrack } from "../types/api.js";
 
 /**
@@ -7,6 +7,7 @@ import type { SoundCloudTrack } from "../types/api.js";
  * @param token - OAuth access token
  * @param trackId - The track's numeric ID or URN
  * @param limit - Maximum number of related tracks to return
+ * @param options - Optional transport settings such as a custom `fetch`
  * @returns Array of related tracks
  * @throws {SoundCloudError} When the API returns an error
  *
@@ -20,5 +21,5 @@ import type { SoundCloudTrack } from "../types/api.js";
  *
  * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/tracks/get_tracks__track_id__related
  */
-export const getRelatedTracks = (token: string, trackId: string | number, limit?: number): Promise<SoundCloudTrack[]> =>
-  scFetch<SoundCloudTrack[]>({ path: `/tracks/${trackId}/related${limit ? `?limit=${limit}` : ""}`, method: "GET", token });
+export const getRelatedTracks = (token: string, trackId: string | number, limit?: number, options?: TransportOptions): Promise<SoundCloudTrack[]> =>
+  scFetch<SoundCloudTrack[]>({ path: `/tracks/${trackId}/related${limit ? `?limit=${limit}` : ""}`, method: "GET", token, ...options });
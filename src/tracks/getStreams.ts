@@ -1,4 +1,4 @@
-import { scFetch } from "../client/http.js";
+import { scFetch, type TransportOptions } from "../client/http.js";
 import type { SoundCloudStreams } from "../types/api.js";
 
 /**
@@ -6,6 +6,7 @@ import type { SoundCloudStreams } from "../types/api.js";
  *
  * @param token - OAuth access token
  * @param trackId - The track's numeric ID or URN
+ * @param options - Optional transport settings such as a custom `fetch`
  * @returns Object containing available stream URLs
  * @throws {SoundCloudError} When the track is not found or not streamable
  *
@@ -19,5 +20,5 @@ import type { SoundCloudStreams } from "../types/api.js";
  *
  * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/tracks/get_tracks__track_id__streams
  */
-export const getTrackStreams = (token: string, trackId: string | number): Promise<SoundCloudStreams> =>
-  scFetch<SoundCloudStreams>({ path: `/tracks/${trackId}/streams`, method: "GET", token });
+export const getTrackStreams = (token: string, trackId: string | number, options?: TransportOptions): Promise<SoundCloudStreams> =>
+  scFetch<SoundCloudStreams>({ path: `/tracks/${trackId}/streams`, method: "GET", token, ...options });
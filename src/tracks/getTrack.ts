@@ -1,4 +1,4 @@
-import { scFetch } from "../client/http.js";
+import { scFetch, type TransportOptions } from "../client/http.js";
 import type { SoundCloudTrack } from "../types/api.js";
 
 /**
@@ -6,6 +6,7 @@ import type { SoundCloudTrack } from "../types/api.js";
  *
  * @param token - OAuth access token
  * @param trackId - The track's numeric ID or URN
+ * @param options - Optional transport settings such as a custom `fetch`
  * @returns The track object with full metadata
  * @throws {SoundCloudError} When the track is not found or the API returns an error
  *
@@ -19,5 +20,5 @@ import type { SoundCloudTrack } from "../types/api.js";
  *
  * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/tracks/get_tracks__track_id_
  */
-export const getTrack = (token: string, trackId: string | number): Promise<SoundCloudTrack> =>
-  scFetch<SoundCloudTrack>({ path: `/tracks/${trackId}`, method: "GET", token });
+export const getTrack = (token: string, trackId: string | number, options?: TransportOptions): Promise<SoundCloudTrack> =>
+  scFetch<SoundCloudTrack>({ path: `/tracks/${trackId}`, method: "GET", token, ...options });
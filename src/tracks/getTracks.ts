@@ -1,4 +1,4 @@
-import { scFetch } from "../client/http.js";
+import { scFetch, type TransportOptions } from "../client/http.js";
 import type { SoundCloudTrack } from "../types/api.js";
 
 /**
@@ -6,6 +6,7 @@ import type { SoundCloudTrack } from "../types/api.js";
  *
  * @param token - OAuth access token
  * @param ids - Array of track IDs (numeric or string URNs)
+ * @param options - Optional transport settings such as a custom `fetch`
  * @returns Array of track objects (may be shorter than `ids` if some tracks are unavailable)
  * @throws {SoundCloudError} When the API returns an error
  * @throws {Error} When more than 200 IDs are provided
@@ -27,6 +28,7 @@ import type { SoundCloudTrack } from "../types/api.js";
 export const getTracks = (
   token: string,
   ids: (string | number)[],
+  options?: TransportOptions,
 ): Promise<SoundCloudTrack[]> => {
   if (ids.length > 200) {
     throw new Error("getTracks: SoundCloud API supports a maximum of 200 IDs per request");
@@ -35,5 +37,6 @@ export const getTracks = (
     path: `/tracks?ids=${ids.join(",")}`,
     method: "GET",
     token,
+    ...options,
   });
 };
@@ -1,11 +1,14 @@
-import { scFetch } from "../client/http.js";
+import { scFetch, type TransportOptions } from "../client/http.js";
+import { falseUnlessAborted } from "../client/abort.js";
 
 /**
  * Like (favorite) a track as the authenticated user.
  *
  * @param token - OAuth access token
  * @param trackId - The track's numeric ID or URN
+ * @param options - Optional transport settings such as a custom `fetch`
  * @returns `true` if the like was successful, `false` on failure
+ * @throws {SoundCloudAbortError} When the call is cancelled or times out
  *
  * @example
  * ```ts
@@ -16,11 +19,11 @@ import { scFetch } from "../client/http.js";
  *
  * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/likes/post_likes_tracks__track_id_
  */
-export const likeTrack = async (token: string, trackId: string | number): Promise<boolean> => {
+export const likeTrack = async (token: string, trackId: string | number, options?: TransportOptions): Promise<boolean> => {
   try {
-    await scFetch<unknown>({ path: `/likes/tracks/${trackId}`, method: "POST", token });
+    await scFetch<unknown>({ path: `/likes/tracks/${trackId}`, method: "POST", token, ...options });
     return true;
-  } catch {
-    return false;
+  } catch (err) {
+    return falseUnlessAborted(err);
   }
 };
@@ -1,4 +1,4 @@
-import { scFetch } from "../client/http.js";
+import { scFetch, type TransportOptions } from "../client/http.js";
 import type { SoundCloudTrack } from "../types/api.js";
 
 /**
@@ -47,6 +47,7 @@ export interface UpdateTrackParams {
  * @param token - OAuth access token
  * @param trackId - The track's numeric ID or URN
  * @param params - Fields to update
+ * @param options - Optional transport settings such as a custom `fetch`
  * @returns The updated track object
  * @throws {SoundCloudError} When the API returns an error
  *
@@ -67,10 +68,12 @@ export const updateTrack = (
   token: string,
   trackId: string | number,
   params: UpdateTrackParams,
+  options?: TransportOptions,
 ): Promise<SoundCloudTrack> =>
   scFetch<SoundCloudTrack>({
     path: `/tracks/${trackId}`,
     method: "PUT",
     token,
     body: { track: params },
+    ...options,
   });
@@ -1,3 +1,29 @@
+/**
+ * Resource type of an API object, found in its `kind` field. Narrows unions of resources:
+ * `if (item.kind === "playlist") item.tracks`.
+ */
+export type SoundCloudKind = "track" | "playlist" | "user" | "comment";
+
+/** Who can listen to a track or playlist */
+export type SoundCloudSharing = "public" | "private";
+
+/** Where a track or playlist may be embedded: everywhere, only by its owner, or nowhere */
+export type SoundCloudEmbeddableBy = "all" | "me" | "none";
+
+/** How much of a track the current user can play */
+export type SoundCloudAccess = "playable" | "preview" | "blocked";
+
+/** Creative Commons (or all-rights-reserved) license of a track or playlist */
+export type SoundCloudLicense =
+  | "all-rights-reserved"
+  | "no-rights-reserved"
+  | "cc-by"
+  | "cc-by-nc"
+  | "cc-by-nd"
+  | "cc-by-sa"
+  | "cc-by-nc-nd"
+  | "cc-by-nc-sa";
+
 /**
  * OAuth 2.1 token response returned by SoundCloud's `/oauth/token` endpoint.
  *
@@ -8,10 +34,10 @@ export interface SoundCloudToken {
   access_token: string;
   /** Number of seconds until the access token expires */
   expires_in: number;
-  /** Token used to obtain a new access token when the current one expires */
-  refresh_token: string;
-  /** OAuth scope granted (e.g. "*" for full access) */
-  scope: string;
+  /** Token used to obtain a new access token when the current one expires; absent from grants that issue none (e.g. some `client_credentials` responses) */
+  refresh_token?: string;
+  /** OAuth scope granted (e.g. "*" for full access), when the server reports one */
+  scope?: string;
   /** Token type, typically "bearer" */
   token_type: string;
 }
@@ -24,14 +50,14 @@ export interface SoundCloudToken {
 export interface SoundCloudUser {
   /** URL to the user's avatar image */
   avatar_url: string;
-  /** The user's city (may be empty string if not set) */
-  city: string;
-  /** The user's country (may be empty string if not set) */
-  country: string;
+  /** The user's city, or null if not set */
+  city: string | null;
+  /** The user's country, or null if not set */
+  country: string | null;
   /** ISO 8601 timestamp of when the user account was created */
   created_at: string;
-  /** The user's profile description / bio */
-  description: string;
+  /** The user's profile description / bio, or null if not set */
+  description: string | null;
   /** The user's Discogs username, or null if not set */
   discogs_name: string | null;
   /** The user's first name */
@@ -47,7 +73,7 @@ export interface SoundCloudUser {
   /** URN identifier (e.g. "soundcloud:users:123") */
   urn: string;
   /** Resource type, always "user" */
-  kind: string;
+  kind: "user";
   /** ISO 8601 timestamp of the last profile modification */
   last_modified: string;
   /** The user's last name */
@@ -153,36 +179,36 @@ export interface SoundCloudSubscriptionProduct {
  * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/tracks/get_tracks__track_id_
  */
 export interface SoundCloudTrack {
-  /** Access level for the track (e.g. "playable", "preview", "blocked") */
-  access: string;
-  /** URL to the track's artwork image (may be empty string if none) */
-  artwork_url: string;
+  /** How much of the track the current user can play */
+  access: SoundCloudAccess;
+  /** URL to the track's artwork image, or null if none (use the uploader's avatar instead) */
+  artwork_url: string | null;
   /** ISO country codes where the track is available, or null if unrestricted */
   available_country_codes: string[] | null;
-  /** Beats per minute of the track (0 if not set) */
-  bpm: number;
+  /** Beats per minute of the track, or null if not set */
+  bpm: number | null;
   /** Total number of comments on this track */
   comment_count: number;
   /** Whether commenting is enabled on this track */
   commentable: boolean;
   /** ISO 8601 timestamp of when the track was uploaded */
   created_at: string;
-  /** The track's description text */
-  description: string;
+  /** The track's description text, or null if not set */
+  description: string | null;
   /** Total number of downloads */
   download_count: number;
-  /** URL to download the original file (requires authentication) */
-  download_url: string;
+  /** URL to download the original file (requires authentication), or null if the track is not downloadable */
+  download_url: string | null;
   /** Whether the track is downloadable */
   downloadable: boolean;
   /** Duration of the track in milliseconds */
   duration: number;
-  /** Who can embed this track (e.g. "all", "me", "none") */
-  embeddable_by: string;
+  /** Who can embed this track */
+  embeddable_by: SoundCloudEmbeddableBy;
   /** Total number of favorites/likes */
   favoritings_count: number;
-  /** Music genre of the track (e.g. "Electronic") */
-  genre: string;
+  /** Music genre of the track (e.g. "Electronic"), or null if not set */
+  genre: string | null;
   /** The track's unique numeric ID on SoundCloud */
   id: number;
   /** International Standard Recording Code, or null if not set */
@@ -190,11 +216,11 @@ export interface SoundCloudTrack {
   /** Musical key signature (e.g. "C major"), or null if not set */
   key_signature: string | null;
   /** Resource type, always "track" */
-  kind: string;
-  /** Record label name */
-  label_name: string;
-  /** Creative Commons license type (e.g. "all-rights-reserved", "cc-by") */
-  license: string;
+  kind: "track";
+  /** Record label name, or null if not set */
+  label_name: string | null;
+  /** License of the track */
+  license: SoundCloudLicense;
   /** Artist name when different from the uploader, or null */
   metadata_artist: string | null;
   /** Monetization model applied to this track, or null */
@@ -205,26 +231,26 @@ export interface SoundCloudTrack {
   playback_count: number;
   /** Content policy applied to this track, or null */
   policy: string | null;
-  /** Label for the purchase/buy button */
-  purchase_title: string;
-  /** External purchase URL */
-  purchase_url: string;
+  /** Label for the purchase/buy button, or null if not set */
+  purchase_title: string | null;
+  /** External purchase URL, or null if not set */
+  purchase_url: string | null;
   /** Release identifier string, or null */
   release: string | null;
-  /** Day of the release date (1-31) */
-  release_day: number;
-  /** Month of the release date (1-12) */
-  release_month: number;
-  /** Year of the release date */
-  release_year: number;
+  /** Day of the release date (1-31), or null if not set */
+  release_day: number | null;
+  /** Month of the release date (1-12), or null if not set */
+  release_month: number | null;
+  /** Year of the release date, or null if not set */
+  release_year: number | null;
   /** Total number of reposts */
   reposts_count: number;
   /** Secret URI for private tracks, or null for public tracks */
   secret_uri: string | null;
-  /** Sharing setting: "public" or "private" */
-  sharing: string;
-  /** URL to the audio stream (requires authentication) */
-  stream_url: string;
+  /** Who can listen to the track */
+  sharing: SoundCloudSharing;
+  /** URL to the audio stream (requires authentication), or null if the track is not streamable */
+  stream_url: string | null;
   /** Whether the track is streamable */
   streamable: boolean;
   /** Space-separated list of tags (tags with spaces are wrapped in quotes) */
@@ -251,58 +277,58 @@ export interface SoundCloudTrack {
  * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/playlists/get_playlists__playlist_id_
  */
 export interface SoundCloudPlaylist {
-  /** URL to the playlist's artwork image */
-  artwork_url: string;
+  /** URL to the playlist's artwork image, or null if none */
+  artwork_url: string | null;
   /** ISO 8601 timestamp of when the playlist was created */
   created_at: string;
-  /** The playlist's description text */
-  description: string;
+  /** The playlist's description text, or null if not set */
+  description: string | null;
   /** Whether tracks in the playlist are downloadable */
   downloadable: boolean;
   /** Total duration of all tracks in the playlist in milliseconds */
   duration: number;
-  /** European Article Number (barcode) for the release */
-  ean: string;
-  /** Who can embed this playlist (e.g. "all", "me", "none") */
-  embeddable_by: string;
-  /** Music genre of the playlist */
-  genre: string;
+  /** European Article Number (barcode) for the release, or null if not set */
+  ean: string | null;
+  /** Who can embed this playlist */
+  embeddable_by: SoundCloudEmbeddableBy;
+  /** Music genre of the playlist, or null if not set */
+  genre: string | null;
   /** The playlist's unique numeric ID on SoundCloud */
   id: number;
   /** Resource type, always "playlist" */
-  kind: string;
+  kind: "playlist";
   /** Label user object, or null if no label is associated */
   label: SoundCloudUser | null;
   /** Numeric ID of the associated label, or null */
   label_id: number | null;
-  /** Name of the associated record label */
-  label_name: string;
+  /** Name of the associated record label, or null if not set */
+  label_name: string | null;
   /** ISO 8601 timestamp of the last modification */
   last_modified: string;
-  /** Creative Commons license type */
-  license: string;
+  /** License of the playlist */
+  license: SoundCloudLicense;
   /** Total number of likes on this playlist */
   likes_count: number;
   /** URL-friendly slug for the playlist */
   permalink: string;
   /** Full URL to the playlist's SoundCloud page */
   permalink_url: string;
-  /** Type of playlist (e.g. "album", "ep", "compilation") */
-  playlist_type: string;
-  /** Label for the purchase/buy button */
-  purchase_title: string;
-  /** External purchase URL */
-  purchase_url: string;
-  /** Release identifier string */
-  release: string;
-  /** Day of the release date (1-31) */
-  release_day: number;
-  /** Month of the release date (1-12) */
-  release_month: number;
-  /** Year of the release date */
-  release_year: number;
-  /** Sharing setting: "public" or "private" */
-  sharing: string;
+  /** Type of playlist (e.g. "album", "ep", "compilation"), or null if not set */
+  playlist_type: string | null;
+  /** Label for the purchase/buy button, or null if not set */
+  purchase_title: string | null;
+  /** External purchase URL, or null if not set */
+  purchase_url: string | null;
+  /** Release identifier string, or null if not set */
+  release: string | null;
+  /** Day of the release date (1-31), or null if not set */
+  release_day: number | null;
+  /** Month of the release date (1-12), or null if not set */
+  release_month: number | null;
+  /** Year of the release date, or null if not set */
+  release_year: number | null;
+  /** Who can listen to the playlist */
+  sharing: SoundCloudSharing;
   /** Whether the playlist contains streamable tracks */
   streamable: boolean;
   /** Space-separated list of tags */
@@ -344,7 +370,7 @@ export interface SoundCloudComment {
   /** The comment's unique numeric ID */
   id: number;
   /** Resource type, always "comment" */
-  kind: string;
+  kind: "comment";
   /** Position in the track's waveform in milliseconds where the comment was placed */
   timestamp: number;
   /** URN of the track this comment belongs to */
@@ -372,7 +398,7 @@ export interface SoundCloudCommentUser {
   /** Total number of users this user is following */
   followings_count: number;
   /** Resource type, always "user" */
-  kind: string;
+  kind: "user";
   /** ISO 8601 timestamp of the last profile modification */
   last_modified: string;
   /** URL-friendly slug for the user's profile */
@@ -417,7 +443,7 @@ export interface SoundCloudWebProfile {
   /** ISO 8601 timestamp of when the web profile link was created */
   created_at: string;
   /** Resource type, always "web-profile" */
-  kind: string;
+  kind: "web-profile";
   /** Service name (e.g. "twitter", "instagram", "personal") */
   service: string;
   /** Display title for this link */
@@ -430,20 +456,60 @@ export interface SoundCloudWebProfile {
   username: string;
 }
 
+/** Activity types whose `origin` is a track: an upload, a repost or a share */
+export type SoundCloudTrackActivityType = "track" | "track-repost" | "track-sharing";
+
+/** Activity types whose `origin` is a playlist: a new playlist or a repost */
+export type SoundCloudPlaylistActivityType = "playlist" | "playlist-repost";
+
+/** Type of an activity feed item; it determines whether `origin` is a track or a playlist */
+export type SoundCloudActivityType = SoundCloudTrackActivityType | SoundCloudPlaylistActivityType;
+
 /**
- * A single activity item from the user's activity feed.
+ * An activity feed item about a track.
  *
  * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/me/get_me_activities
  */
-export interface SoundCloudActivity {
-  /** Type of activity (e.g. "track", "track-repost", "playlist") */
-  type: string;
+export interface SoundCloudTrackActivity {
+  /** Type of activity */
+  type: SoundCloudTrackActivityType;
+  /** ISO 8601 timestamp of when the activity occurred */
+  created_at: string;
+  /** The track that is the subject of this activity */
+  origin: SoundCloudTrack;
+}
+
+/**
+ * An activity feed item about a playlist.
+ *
+ * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/me/get_me_activities
+ */
+export interface SoundCloudPlaylistActivity {
+  /** Type of activity */
+  type: SoundCloudPlaylistActivityType;
   /** ISO 8601 timestamp of when the activity occurred */
   created_at: string;
-  /** The track or playlist that is the subject of this activity */
-  origin: SoundCloudTrack | SoundCloudPlaylist;
+  /** The playlist that is the subject of this activity */
+  origin: SoundCloudPlaylist;
 }
 
+/**
+ * A single activity item from the user's activity feed. Checking `type` (or `origin.kind`)
+ * narrows `origin` to a track or a playlist.
+ *
+ * @example
+ * ```ts
+ * for (const activity of feed.collection) {
+ *   if (activity.type === 'playlist' || activity.type === 'playlist-repost') {
+ *     console.log(activity.origin.track_count);
+ *   }
+ * }
+ * ```
+ *
+ * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/me/get_me_activities
+ */
+export type SoundCloudActivity = SoundCloudTrackActivity | SoundCloudPlaylistActivity;
+
 /**
  * Response from the activities endpoints, with polling support via `future_href`.
  *
@@ -483,7 +549,7 @@ export interface SoundCloudConnection {
   /** Unique numeric ID of this connection */
   id: number;
   /** Resource type, always "connection" */
-  kind: string;
+  kind: "connection";
   /** Display name for this connection */
   display_name: string;
   /**
@@ -14,6 +14,16 @@ export type {
   SoundCloudStreams,
   SoundCloudWebProfile,
   SoundCloudActivity,
+  SoundCloudTrackActivity,
+  SoundCloudPlaylistActivity,
+  SoundCloudActivityType,
+  SoundCloudTrackActivityType,
+  SoundCloudPlaylistActivityType,
   SoundCloudActivitiesResponse,
   SoundCloudPaginatedResponse,
+  SoundCloudKind,
+  SoundCloudSharing,
+  SoundCloudEmbeddableBy,
+  SoundCloudAccess,
+  SoundCloudLicense,
 } from "./api.js";
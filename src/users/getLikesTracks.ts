@@ -1,4 +1,4 @@
-import { scFetch } from "../client/http.js";
+import { scFetch, type TransportOptions } from "../client/http.js";
 import type { SoundCloudTrack, SoundCloudPaginatedResponse } from "../types/api.js";
 
 /**
@@ -8,6 +8,7 @@ import type { SoundCloudTrack, SoundCloudPaginatedResponse } from "../types/api.
  * @param userId - The user's numeric ID or URN
  * @param limit - Maximum number of tracks per page
  * @param cursor - Pagination cursor from a previous response's `next_href`
+ * @param options - Optional transport settings such as a custom `fetch`
  * @returns Paginated list of liked tracks
  * @throws {SoundCloudError} When the API returns an error
  *
@@ -21,5 +22,5 @@ import type { SoundCloudTrack, SoundCloudPaginatedResponse } from "../types/api.
  *
  * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/users/get_users__user_id__likes_tracks
  */
-export const getUserLikesTracks = (token: string, userId: string | number, limit?: number, cursor?: string): Promise<SoundCloudPaginatedResponse<SoundCloudTrack>> =>
-  scFetch({ path: `/users/${userId}/likes/tracks?${limit ? `limit=${limit}&` : ""}${cursor ? `cursor=${cursor}&` : ""}linked_partitioning=true`, method: "GET", token });
+export const getUserLikesTracks = (token: string, userId: string | number, limit?: number, cursor?: string, options?: TransportOptions): Promise<SoundCloudPaginatedResponse<SoundCloudTrack>> =>
+  scFetch({ path: `/users/${userId}/likes/tracks?${limit ? `limit=${limit}&` : ""}${cursor ? `cursor=${cursor}&` : ""}linked_partitioning=true`, method: "GET", token, ...options });
@@ -1,10 +1,11 @@
-import { scFetch } from "../client/http.js";
+import { scFetch, type TransportOptions } from "../client/http.js";
 import type { SoundCloudMe } from "../types/api.js";
 
 /**
  * Fetch the authenticated user's profile.
  *
  * @param token - OAuth access token
+ * @param options - Optional transport settings such as a custom `fetch`
  * @returns The authenticated user's full profile including private account details
  * @throws {SoundCloudError} When the token is invalid or the API returns an error
  *
@@ -18,5 +19,5 @@ import type { SoundCloudMe } from "../types/api.js";
  *
  * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/me/get_me
  */
-export const getMe = (token: string): Promise<SoundCloudMe> =>
-  scFetch<SoundCloudMe>({ path: "/me", method: "GET", token });
+export const getMe = (token: string, options?: TransportOptions): Promise<SoundCloudMe> =>
+  scFetch<SoundCloudMe>({ path: "/me", method: "GET", token, ...options });
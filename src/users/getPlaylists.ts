@@ -1,4 +1,4 @@
-import { scFetch } from "../client/http.js";
+import { scFetch, type TransportOptions } from "../client/http.js";
 import type { SoundCloudPlaylist, SoundCloudPaginatedResponse } from "../types/api.js";
 
 /**
@@ -7,6 +7,7 @@ import type { SoundCloudPlaylist, SoundCloudPaginatedResponse } from "../types/a
  * @param token - OAuth access token
  * @param userId - The user's numeric ID or URN
  * @param limit - Maximum number of playlists per page
+ * @param options - Optional transport settings such as a custom `fetch`
  * @returns Paginated list of playlists
  * @throws {SoundCloudError} When the API returns an error
  *
@@ -20,5 +21,5 @@ import type { SoundCloudPlaylist, SoundCloudPaginatedResponse } from "../types/a
  *
  * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/users/get_users__user_id__playlists
  */
-export const getUserPlaylists = (token: string, userId: string | number, limit?: number): Promise<SoundCloudPaginatedResponse<SoundCloudPlaylist>> =>
-  scFetch({ path: `/users/${userId}/playlists?${limit ? `limit=${limit}&` : ""}linked_partitioning=true&show_tracks=false`, method: "GET", token });
+export const getUserPlaylists = (token: string, userId: string | number, limit?: number, options?: TransportOptions): Promise<SoundCloudPaginatedResponse<SoundCloudPlaylist>> =>
+  scFetch({ path: `/users/${userId}/playlists?${limit ? `limit=${limit}&` : ""}linked_partitioning=true&show_tracks=false`, method: "GET", token, ...options });
@@ -1,4 +1,4 @@
-import { scFetch } from "../client/http.js";
+import { scFetch, type TransportOptions } from "../client/http.js";
 import type { SoundCloudUser } from "../types/api.js";
 
 /**
@@ -6,6 +6,7 @@ import type { SoundCloudUser } from "../types/api.js";
  *
  * @param token - OAuth access token
  * @param userId - The user's numeric ID or URN
+ * @param options - Optional transport settings such as a custom `fetch`
  * @returns The user's public profile
  * @throws {SoundCloudError} When the user is not found or the API returns an error
  *
@@ -19,5 +20,5 @@ import type { SoundCloudUser } from "../types/api.js";
  *
  * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/users/get_users__user_id_
  */
-export const getUser = (token: string, userId: string | number): Promise<SoundCloudUser> =>
-  scFetch<SoundCloudUser>({ path: `/users/${userId}`, method: "GET", token });
+export const getUser = (token: string, userId: string | number, options?: TransportOptions): Promise<SoundCloudUser> =>
+  scFetch<SoundCloudUser>({ path: `/users/${userId}`, method: "GET", token, ...options });
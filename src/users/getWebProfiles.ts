@@ -1,4 +1,4 @@
-import { scFetch } from "../client/http.js";
+import { scFetch, type TransportOptions } from "../client/http.js";
 import type { SoundCloudWebProfile } from "../types/api.js";
 
 /**
@@ -6,6 +6,7 @@ import type { SoundCloudWebProfile } from "../types/api.js";
  *
  * @param token - OAuth access token
  * @param userId - The user's numeric ID or URN
+ * @param options - Optional transport settings such as a custom `fetch`
  * @returns Array of web profile objects
  * @throws {SoundCloudError} When the API returns an error
  *
@@ -19,5 +20,5 @@ import type { SoundCloudWebProfile } from "../types/api.js";
  *
  * @see https://developers.soundcloud.com/docs/api/explorer/open-api#/users/get_users__user_id__web_profiles
  */
-export const getUserWebProfiles = (token: string, userId: string | number): Promise<SoundCloudWebProfile[]> =>
-  scFetch<SoundCloudWebProfile[]>({ path: `/users/${userId}/web-profiles`, method: "GET", token });
+export const getUserWebProfiles = (token: string, userId: string | number, options?: TransportOptions): Promise<SoundCloudWebProfile[]> =>
+  scFetch<SoundCloudWebProfile[]>({ path: `/users/${userId}/web-profiles`, method: "GET", token, ...options });
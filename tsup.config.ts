@@ -4,6 +4,8 @@ export default defineConfig({
   entry: {
     index: "src/index.ts",
     "types/index": "src/types/index.ts",
+    "mock/index": "src/mock/index.ts",
+    "testing/index": "src/testing/index.ts",
     cli: "src/cli.ts",
   },
   format: ["esm", "cjs"],